@@ -1,23 +1,48 @@
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { Sidebar } from './components/Sidebar';
 import { DataStudio } from './views/DataStudio';
 import { Visualization } from './views/Visualization';
 import { AiInsights } from './views/AiInsights';
 import { Dashboard } from './views/Dashboard';
+import { SqlConsole } from './views/SqlConsole';
 import { AuthView } from './components/AuthView';
 import { SettingsModal } from './components/SettingsModal';
-import { AppView, DataRow, ChartConfig, ChatMessage, DashboardItem, User } from './types';
-import { CheckCircle2, Info } from 'lucide-react';
+import { AppView, ChartConfig, ChatMessage, DashboardItem, User, ColumnMeta, ColumnType, DataTable, Dataset, Recipe, TransformStep, ValidationRule } from './types';
+import { SheetPickerModal } from './components/SheetPickerModal';
+import { formatParseErrors } from './utils/csvParser';
+import { ImportProgress } from './components/ImportProgress';
+import { ParsedDataset, SheetSummary } from './utils/importers';
+import { parseDatasetFile } from './services/dataWorkerClient';
+import { emptyTable } from './utils/dataTable';
+import { describeTypeFallbacks, summarizeColumns } from './utils/schemaInference';
+import { JOIN_TYPES, JoinSpec, createDataset, datasetNameFromFile, getDatasetTable, joinDatasets, unionDatasets } from './utils/datasets';
+import { CombineDatasetsModal } from './components/CombineDatasetsModal';
+import { canRedo, canUndo, checkoutVersion, commitVersion } from './utils/history';
+import { StepOutcome, applyTransform, describeStep, toTransformStep } from './utils/transforms';
+import { createRecipe, datasetSteps, loadRecipes, parseRecipe, runRecipe, saveRecipes } from './utils/recipes';
+import { QueryResult } from './utils/sql';
+import { PivotChartType, PivotResult, pivotChart } from './utils/pivot';
+import { loadValidationRules, saveValidationRules, validateTable } from './utils/validation';
+import { CheckCircle2, Info, AlertTriangle } from 'lucide-react';
 
 function App() {
   const [currentView, setCurrentView] = useState<AppView>(AppView.DASHBOARD);
-  const [data, setData] = useState<DataRow[]>([]);
-  const [headers, setHeaders] = useState<string[]>([]);
+  const [datasets, setDatasets] = useState<Dataset[]>([]);
+  // Latest datasets, including steps applied since the last render
+  const datasetsRef = useRef(datasets);
+  datasetsRef.current = datasets;
+  const [activeDatasetId, setActiveDatasetId] = useState<string | null>(null);
+  const [isCombineOpen, setIsCombineOpen] = useState(false);
+  const [recipes, setRecipes] = useState<Recipe[]>(loadRecipes);
+  const [validationRules, setValidationRules] = useState<ValidationRule[]>(loadValidationRules);
+  const [sqlQuery, setSqlQuery] = useState('');
   const [dashboardItems, setDashboardItems] = useState<DashboardItem[]>([]);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const [isSidebarOpen, setIsSidebarOpen] = useState(true);
-  const [notification, setNotification] = useState<{message: string, type: 'success' | 'info'} | null>(null);
+  const [notification, setNotification] = useState<{message: string, type: 'success' | 'info' | 'error'} | null>(null);
+  const [pendingWorkbook, setPendingWorkbook] = useState<{ file: File, sheets: SheetSummary[] } | null>(null);
+  const [importProgress, setImportProgress] = useState<{ fileName: string, loaded: number, total: number, cancel: () => void } | null>(null);
   
   // Auth State
   const [user, setUser] = useState<User | null>(() => {
@@ -53,6 +78,14 @@ function App() {
     }
   }, [isDarkMode]);
 
+  useEffect(() => {
+    saveRecipes(recipes);
+  }, [recipes]);
+
+  useEffect(() => {
+    saveValidationRules(validationRules);
+  }, [validationRules]);
+
   // Notification Auto-hide
   useEffect(() => {
     if (notification) {
@@ -61,6 +94,10 @@ function App() {
     }
   }, [notification]);
 
+  const activeDataset = datasets.find(d => d.id === activeDatasetId) ?? null;
+  const data = activeDataset?.table ?? emptyTable;
+  const columnMeta = activeDataset?.columns ?? [];
+
   // Chat State
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([
     { id: '0', role: 'model', content: "Hello! Upload a dataset, and I can help you visualize and analyze it." }
@@ -109,50 +146,243 @@ function App() {
 
   // --- Handlers ---
 
-  const parseCSVLine = (line: string): string[] => {
-    const result: string[] = [];
-    let curVal = "";
-    let inQuotes = false;
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
-      if (char === '"') {
-        inQuotes = !inQuotes;
-      } else if (char === ',' && !inQuotes) {
-        result.push(curVal.trim().replace(/^"|"$/g, ''));
-        curVal = "";
-      } else {
-        curVal += char;
+  const addDataset = (name: string, table: DataTable, columns: ColumnMeta[], origin: string) => {
+    const dataset = createDataset(name, table, columns, datasets, origin);
+    setDatasets(prev => [...prev, dataset]);
+    setActiveDatasetId(dataset.id);
+    setCurrentView(AppView.DATA);
+    return dataset;
+  };
+
+  // Every transformation goes through here so it lands in the dataset's version history and
+  // can be saved as part of a recipe. Works on the latest state so back-to-back AI tool calls
+  // build on each other; the transform runs once, outside the state update.
+  const applyStep = useCallback((step: TransformStep): StepOutcome => {
+    const current = datasetsRef.current;
+    const dataset = current.find(d => d.id === activeDatasetId);
+    if (!dataset) return { applied: false, message: 'No dataset is open' };
+    let next: Dataset;
+    let message: string;
+    try {
+      const result = applyTransform(dataset.table, dataset.columns, step);
+      if (result.table === dataset.table) {
+        setNotification({ message: result.message, type: result.warning ? 'error' : 'success' });
+        return { applied: false, message: result.message };
       }
+      // Transforms are checked against the validation rules so new violations are reported
+      const before = validateTable(dataset.table, dataset.columns, validationRules, current).invalidRowCount;
+      const after = validateTable(result.table, result.columns, validationRules, current).invalidRowCount;
+      const added = after - before;
+      const validation = added > 0 ? ` ${added} more ${added === 1 ? 'row breaks' : 'rows break'} validation rules.` : '';
+      message = `${result.message}${validation}`;
+      setNotification({ message, type: result.warning || validation ? 'error' : 'success' });
+      next = commitVersion(dataset, describeStep(step), result.table, result.columns, step);
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : 'unknown error';
+      setNotification({ message: `Could not apply "${describeStep(step)}": ${reason}`, type: 'error' });
+      return { applied: false, message: reason };
     }
-    result.push(curVal.trim().replace(/^"|"$/g, ''));
-    return result;
+    datasetsRef.current = current.map(d => d.id === next.id ? next : d);
+    setDatasets(prev => prev.map(d => d.id === next.id ? next : d));
+    return { applied: true, message };
+  }, [activeDatasetId, validationRules]);
+
+  const moveToVersion = (version: number) => {
+    if (!activeDataset) return;
+    const target = activeDataset.history[version];
+    if (!target || version === activeDataset.version) return;
+    setDatasets(prev => prev.map(d => d.id === activeDataset.id ? checkoutVersion(d, version) : d));
+    return target;
   };
 
-  const handleFileUpload = async (file: File) => {
-    const text = await file.text();
-    const lines = text.split(/\r?\n/).filter(line => line.trim() !== '');
-    if (lines.length > 0) {
-      const headers = parseCSVLine(lines[0]);
-      
-      const parsedData = lines.slice(1).map(line => {
-        const values = parseCSVLine(line);
-        const row: DataRow = {};
-        headers.forEach((h, i) => {
-            const val = values[i];
-            if (val === undefined) {
-              row[h] = null;
-              return;
-            }
-            const num = parseFloat(val);
-            row[h] = (isNaN(num) || val.trim() === '' || isNaN(Number(val))) ? val : num;
-        });
-        return row;
+  const handleUndo = () => {
+    if (!canUndo(activeDataset)) return;
+    const undone = activeDataset!.history[activeDataset!.version];
+    moveToVersion(activeDataset!.version - 1);
+    setNotification({ message: `Undid: ${undone.label}`, type: 'info' });
+  };
+
+  const handleRedo = () => {
+    if (!canRedo(activeDataset)) return;
+    const redone = moveToVersion(activeDataset!.version + 1);
+    if (redone) setNotification({ message: `Redid: ${redone.label}`, type: 'info' });
+  };
+
+  const handleJumpToVersion = (version: number) => {
+    const target = moveToVersion(version);
+    if (target) setNotification({ message: `Showing version: ${target.label}`, type: 'info' });
+  };
+
+  const loadParsedDataset = (dataset: ParsedDataset, sourceName: string) => {
+    if (dataset.table.headers.length === 0) {
+      setNotification({ message: `${sourceName} does not contain any columns.`, type: 'error' });
+      return;
+    }
+
+    const { table, columns, errors, fallbacks } = dataset;
+    addDataset(sourceName, table, columns, `Imported ${sourceName}`);
+    // Uploads are checked against the saved validation rules straight away
+    const { invalidRowCount } = validateTable(table, columns, validationRules, datasets);
+    const validation = invalidRowCount > 0 ? ` ${invalidRowCount} ${invalidRowCount === 1 ? 'row breaks' : 'rows break'} validation rules.` : '';
+    const retyped = fallbacks.length > 0 ? ` ${describeTypeFallbacks(fallbacks)}.` : '';
+    if (errors.length > 0) {
+      setNotification({
+        message: `Loaded ${table.rowCount} records. Skipped ${errors.length} malformed ${errors.length === 1 ? 'row' : 'rows'} (${formatParseErrors(errors)}).${retyped}${validation}`,
+        type: 'error'
       });
-      
-      setHeaders(headers);
-      setData(parsedData);
-      setCurrentView(AppView.DATA);
-      setNotification({ message: `Successfully loaded ${parsedData.length} records.`, type: 'success' });
+    } else {
+      setNotification({ message: `Successfully loaded ${table.rowCount} records.${retyped}${validation}`, type: validation ? 'error' : retyped ? 'info' : 'success' });
+    }
+  };
+
+  const runImport = async (file: File, sheet?: string) => {
+    const task = parseDatasetFile(file, {
+      sheet,
+      onProgress: (loaded, total) => setImportProgress(prev => prev && { ...prev, loaded, total })
+    });
+    setImportProgress({ fileName: file.name, loaded: 0, total: file.size, cancel: task.cancel });
+
+    try {
+      const result = await task.promise;
+      if ('sheets' in result) {
+        setPendingWorkbook({ file, sheets: result.sheets });
+        return;
+      }
+      loadParsedDataset(result.dataset, datasetNameFromFile(file.name, sheet));
+    } catch (err) {
+      if (err instanceof DOMException && err.name === 'AbortError') {
+        setNotification({ message: `Import of ${file.name} cancelled.`, type: 'info' });
+      } else {
+        setNotification({ message: `Could not import ${file.name}: ${err instanceof Error ? err.message : 'unknown error'}`, type: 'error' });
+      }
+    } finally {
+      setImportProgress(null);
+    }
+  };
+
+  const handleFileUpload = (file: File) => {
+    if (importProgress) return;
+    runImport(file);
+  };
+
+  const handleSelectSheet = (sheetName: string) => {
+    if (!pendingWorkbook) return;
+    runImport(pendingWorkbook.file, sheetName);
+    setPendingWorkbook(null);
+  };
+
+  const handleColumnTypeChange = (column: string, type: ColumnType) => {
+    applyStep({ op: 'set_type', column, type });
+  };
+
+  // --- Recipes ---
+
+  const handleSaveRecipe = (name: string) => {
+    if (!activeDataset) return;
+    const steps = datasetSteps(activeDataset);
+    if (steps.length === 0) return;
+    const recipe = createRecipe(name || `${activeDataset.name} clean-up`, steps, recipes);
+    setRecipes(prev => [...prev, recipe]);
+    setNotification({ message: `Saved recipe ${recipe.name} with ${steps.length} ${steps.length === 1 ? 'step' : 'steps'}.`, type: 'success' });
+  };
+
+  const handleApplyRecipe = (recipeId: string) => {
+    const recipe = recipes.find(r => r.id === recipeId);
+    if (!activeDataset || !recipe) return null;
+    const { dataset, run } = runRecipe(activeDataset, recipe);
+    setDatasets(prev => prev.map(d => d.id === dataset.id ? dataset : d));
+    const failed = run.results.filter(r => r.status === 'failed').length;
+    setNotification(failed > 0
+      ? { message: `Applied ${recipe.steps.length - failed} of ${recipe.steps.length} steps from ${recipe.name}. ${failed} failed.`, type: 'error' }
+      : { message: `Applied all ${recipe.steps.length} steps from ${recipe.name}.`, type: 'success' });
+    return run;
+  };
+
+  const handleDeleteRecipe = (recipeId: string) => {
+    setRecipes(prev => prev.filter(r => r.id !== recipeId));
+  };
+
+  const handleImportRecipe = (json: string) => {
+    try {
+      const recipe = parseRecipe(json, recipes);
+      setRecipes(prev => [...prev, recipe]);
+      setNotification({ message: `Imported recipe ${recipe.name}.`, type: 'success' });
+    } catch (err) {
+      setNotification({ message: `Could not import recipe: ${err instanceof Error ? err.message : 'unknown error'}`, type: 'error' });
+    }
+  };
+
+  // Charts built on the removed dataset can't be drawn any more: dashboard cards go with it
+  // and the visualizer goes back to following the active dataset
+  const handleRemoveDataset = (id: string) => {
+    const removed = datasets.find(d => d.id === id);
+    const remaining = datasets.filter(d => d.id !== id);
+    const orphaned = dashboardItems.filter(item => item.datasetId === id).length;
+    setDatasets(remaining);
+    if (activeDatasetId === id) setActiveDatasetId(remaining[remaining.length - 1]?.id ?? null);
+    if (orphaned > 0) setDashboardItems(prev => prev.filter(item => item.datasetId !== id));
+    if (vizConfig.datasetId === id) setVizConfig(prev => ({ ...prev, datasetId: undefined }));
+    if (orphaned > 0 || vizConfig.datasetId === id) {
+      const cards = orphaned > 0 ? ` and ${orphaned} dashboard chart${orphaned === 1 ? '' : 's'} built on it` : '';
+      const viz = vizConfig.datasetId === id ? ' The chart editor now uses the active dataset.' : '';
+      setNotification({ message: `Removed ${removed?.name ?? 'dataset'}${cards}.${viz}`, type: 'info' });
+    }
+  };
+
+  const handleJoinDatasets = (leftId: string, rightId: string, spec: JoinSpec, name: string) => {
+    const left = datasets.find(d => d.id === leftId);
+    const right = datasets.find(d => d.id === rightId);
+    if (!left || !right) return;
+    try {
+      const { table, columns } = joinDatasets(left, right, spec);
+      const created = addDataset(name, table, columns, `${JOIN_TYPES.find(j => j.type === spec.type)?.label} join of ${left.name} and ${right.name}`);
+      setIsCombineOpen(false);
+      setNotification({ message: `Created ${created.name} with ${table.rowCount} records.`, type: 'success' });
+    } catch (err) {
+      setNotification({ message: `Could not join datasets: ${err instanceof Error ? err.message : 'unknown error'}`, type: 'error' });
+    }
+  };
+
+  const handleSaveQueryResult = (name: string, result: QueryResult) => {
+    const created = addDataset(name, result.table, result.columns, `SQL query on ${result.sources.join(', ') || 'no tables'}`);
+    setNotification({ message: `Saved ${created.name} with ${result.table.rowCount} records.`, type: 'success' });
+  };
+
+  const handleSaveFilteredView = (name: string, table: DataTable, description: string) => {
+    const source = datasets.find(d => d.id === activeDatasetId);
+    // The rows start a new history, so they are renumbered instead of keeping the source's ids
+    const fresh: DataTable = { headers: table.headers, rowCount: table.rowCount, columns: table.columns };
+    const created = addDataset(name, fresh, summarizeColumns(fresh, columnMeta), `Filtered ${source?.name ?? 'dataset'}${description ? `: ${description}` : ''}`);
+    setNotification({ message: `Saved ${created.name} with ${table.rowCount} records.`, type: 'success' });
+  };
+
+  // The pivot is saved as its own dataset so the chart keeps working after the source changes
+  const handlePivotToChart = (type: PivotChartType, result: PivotResult) => {
+    const source = datasets.find(d => d.id === activeDatasetId);
+    const { table, columns, chart } = pivotChart(result, type);
+    const created = addDataset(`${source?.name ?? 'Dataset'} pivot`, table, columns, `Pivot of ${source?.name ?? 'dataset'}`);
+    // Only the look carries over from the previous chart; series splits, limits and layouts
+    // set for other data would hide or regroup the pivot's cells
+    setVizConfig(prev => ({
+      ...prev,
+      zAxisKey: undefined, seriesKey: undefined, maxSeries: undefined, seriesStyles: undefined, stackMode: undefined,
+      orientation: undefined, limit: undefined, limitMode: undefined, groupOther: undefined, timeGrain: undefined, timeZone: undefined,
+      ...chart,
+      datasetId: created.id
+    }));
+    setCurrentView(AppView.VISUALIZE);
+    setNotification({ message: `Created ${created.name} and charted it as a ${type === 'heatmap' ? 'heatmap' : 'stacked bar chart'}.`, type: 'success' });
+  };
+
+  const handleUnionDatasets = (ids: string[], name: string) => {
+    try {
+      const sources = datasets.filter(d => ids.includes(d.id));
+      const { table, columns } = unionDatasets(sources);
+      const created = addDataset(name, table, columns, `Union of ${sources.map(d => d.name).join(', ')}`);
+      setIsCombineOpen(false);
+      setNotification({ message: `Created ${created.name} with ${table.rowCount} records.`, type: 'success' });
+    } catch (err) {
+      setNotification({ message: `Could not combine datasets: ${err instanceof Error ? err.message : 'unknown error'}`, type: 'error' });
     }
   };
 
@@ -161,6 +391,7 @@ function App() {
         const count = prev.length;
         const newItem: DashboardItem = {
             ...config,
+            datasetId: config.datasetId ?? activeDatasetId ?? undefined,
             id: Date.now().toString(),
             x: 20 + (count % 5) * 40,
             y: 20 + (count % 5) * 40,
@@ -171,7 +402,7 @@ function App() {
         return [...prev, newItem];
     });
     setNotification({ message: 'Added to Dashboard', type: 'success' });
-  }, []);
+  }, [activeDatasetId]);
 
   const handleRemoveFromDashboard = useCallback((id: string) => {
     setDashboardItems(prev => prev.filter(item => item.id !== id));
@@ -198,6 +429,7 @@ function App() {
   const handleAiUpdateViz = useCallback((config: ChartConfig) => {
     setVizConfig({
         ...config,
+        datasetId: activeDatasetId ?? undefined,
         theme: config.theme || 'default',
         aggregation: config.aggregation || 'sum',
         tooltip: config.tooltip || { 
@@ -208,55 +440,20 @@ function App() {
         }
     });
     setCurrentView(AppView.VISUALIZE);
-  }, [isDarkMode]);
+  }, [isDarkMode, activeDatasetId]);
 
-  const handleAiCleanData = useCallback((column: string, operation: string) => {
-      setData(prevData => {
-          let newData = [...prevData];
-          const beforeCount = newData.length;
-
-          if (operation === 'remove_outliers') {
-              const values = newData.map(r => Number(r[column])).filter(v => !isNaN(v)).sort((a, b) => a - b);
-              if (values.length > 4) {
-                  const q1 = values[Math.floor(values.length * 0.25)];
-                  const q3 = values[Math.floor(values.length * 0.75)];
-                  const iqr = q3 - q1;
-                  const min = q1 - 1.5 * iqr;
-                  const max = q3 + 1.5 * iqr;
-                  newData = newData.filter(r => {
-                      const v = Number(r[column]);
-                      return isNaN(v) || (v >= min && v <= max);
-                  });
-              }
-              setNotification({ message: `Outliers removed. Dropped ${beforeCount - newData.length} rows.`, type: 'info' });
-          } else if (operation === 'impute_mean') {
-              let sum = 0;
-              let count = 0;
-              prevData.forEach(r => {
-                  const val = Number(r[column]);
-                  if (!isNaN(val)) {
-                      sum += val;
-                      count++;
-                  }
-              });
-              const mean = count > 0 ? Number((sum / count).toFixed(2)) : 0;
-              let imputedCount = 0;
-              newData = newData.map(r => {
-                  const val = r[column];
-                  if (val === null || val === '' || val === undefined || isNaN(Number(val))) {
-                      imputedCount++;
-                      return { ...r, [column]: mean };
-                  }
-                  return r;
-              });
-              setNotification({ message: `Imputed mean (${mean}) for ${imputedCount} missing values in ${column}.`, type: 'success' });
-          } else if (operation === 'drop_missing') {
-              newData = newData.filter(r => r[column] !== null && r[column] !== '' && r[column] !== undefined && !isNaN(Number(r[column])));
-              setNotification({ message: `Dropped ${beforeCount - newData.length} rows with missing values in ${column}.`, type: 'info' });
-          }
-          return newData;
-      });
-  }, []);
+  // Tool arguments mirror TransformStep, with the op passed as `operation` and casts as `set_type`
+  const handleAiCleanData = useCallback((args: Record<string, unknown>): StepOutcome => {
+      const step = toTransformStep({ ...args, op: args.operation, ...(args.operation === 'dedupe' && { columns: args.columns ?? [] }) });
+      if (!step) {
+          setNotification({ message: `Unsupported cleaning request: ${args.operation}`, type: 'error' });
+          return { applied: false, message: 'the parameters were not valid' };
+      }
+      return applyStep(step);
+  }, [applyStep]);
+
+  const vizTable = getDatasetTable(datasets, vizConfig.datasetId, data);
+  const vizColumns = vizConfig.datasetId ? datasets.find(d => d.id === vizConfig.datasetId)?.columns ?? [] : columnMeta;
 
   if (!user) {
     return <AuthView onLogin={handleLogin} isDarkMode={isDarkMode} onToggleTheme={() => setIsDarkMode(!isDarkMode)} />;
@@ -282,9 +479,11 @@ function App() {
             <div className={`flex items-center gap-3 px-5 py-3 rounded-2xl shadow-2xl border backdrop-blur-md ${
               notification.type === 'success' 
               ? 'bg-green-50/90 dark:bg-green-900/40 border-green-200 dark:border-green-800 text-green-700 dark:text-green-300' 
+              : notification.type === 'error'
+              ? 'bg-amber-50/90 dark:bg-amber-900/40 border-amber-200 dark:border-amber-800 text-amber-700 dark:text-amber-300'
               : 'bg-blue-50/90 dark:bg-blue-900/40 border-blue-200 dark:border-blue-800 text-blue-700 dark:text-blue-300'
             }`}>
-              {notification.type === 'success' ? <CheckCircle2 className="w-5 h-5" /> : <Info className="w-5 h-5" />}
+              {notification.type === 'success' ? <CheckCircle2 className="w-5 h-5 shrink-0" /> : notification.type === 'error' ? <AlertTriangle className="w-5 h-5 shrink-0" /> : <Info className="w-5 h-5 shrink-0" />}
               <span className="text-sm font-semibold">{notification.message}</span>
             </div>
           </div>
@@ -293,8 +492,9 @@ function App() {
         {currentView === AppView.DASHBOARD && (
           <Dashboard 
             data={data} 
+            datasets={datasets}
             isDarkMode={isDarkMode}
-            headers={headers}
+            headers={data.headers}
             items={dashboardItems} 
             onUpdateItem={handleUpdateDashboardItem}
             onRemoveItem={handleRemoveFromDashboard}
@@ -304,17 +504,49 @@ function App() {
         
         {currentView === AppView.DATA && (
           <DataStudio 
+            key={activeDatasetId ?? 'empty'}
             data={data} 
-            headers={headers} 
+            headers={data.headers} 
+            columnMeta={columnMeta}
+            datasets={datasets}
+            activeDatasetId={activeDatasetId}
+            onSelectDataset={setActiveDatasetId}
+            onRemoveDataset={handleRemoveDataset}
+            onCombineDatasets={() => setIsCombineOpen(true)}
+            onUndo={handleUndo}
+            onRedo={handleRedo}
+            onJumpToVersion={handleJumpToVersion}
+            onApplyStep={applyStep}
+            recipes={recipes}
+            onSaveRecipe={handleSaveRecipe}
+            onApplyRecipe={handleApplyRecipe}
+            onDeleteRecipe={handleDeleteRecipe}
+            onImportRecipe={handleImportRecipe}
+            onPivotToChart={handlePivotToChart}
+            onSaveFilteredView={handleSaveFilteredView}
+            validationRules={validationRules}
+            onChangeValidationRules={setValidationRules}
             onFileUpload={handleFileUpload} 
+            onColumnTypeChange={handleColumnTypeChange}
           />
         )}
         
+        {currentView === AppView.SQL && (
+          <SqlConsole
+            datasets={datasets}
+            query={sqlQuery}
+            onQueryChange={setSqlQuery}
+            onSaveResult={handleSaveQueryResult}
+          />
+        )}
+
         {currentView === AppView.VISUALIZE && (
           <Visualization 
-            data={data} 
+            data={vizTable} 
+            datasets={datasets}
             isDarkMode={isDarkMode}
-            headers={headers} 
+            headers={vizTable.headers} 
+            columnMeta={vizColumns}
             config={vizConfig} 
             setConfig={setVizConfig} 
             onAddToDashboard={handleAddToDashboard} 
@@ -324,7 +556,7 @@ function App() {
         {currentView === AppView.INSIGHTS && (
           <AiInsights 
             data={data} 
-            headers={headers}
+            headers={data.headers}
             messages={chatMessages}
             setMessages={setChatMessages}
             onUpdateVisualization={handleAiUpdateViz}
@@ -340,6 +572,34 @@ function App() {
         onToggleDarkMode={() => setIsDarkMode(!isDarkMode)}
         onClose={() => setIsSettingsOpen(false)} 
       />
+
+      {importProgress && (
+        <ImportProgress
+          fileName={importProgress.fileName}
+          loaded={importProgress.loaded}
+          total={importProgress.total}
+          onCancel={importProgress.cancel}
+        />
+      )}
+
+      {isCombineOpen && (
+        <CombineDatasetsModal
+          datasets={datasets}
+          activeDatasetId={activeDatasetId}
+          onJoin={handleJoinDatasets}
+          onUnion={handleUnionDatasets}
+          onClose={() => setIsCombineOpen(false)}
+        />
+      )}
+
+      {pendingWorkbook && (
+        <SheetPickerModal
+          fileName={pendingWorkbook.file.name}
+          sheets={pendingWorkbook.sheets}
+          onSelect={handleSelectSheet}
+          onClose={() => setPendingWorkbook(null)}
+        />
+      )}
     </div>
   );
 }
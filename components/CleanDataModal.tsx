@@ -0,0 +1,264 @@
+import React, { useMemo, useState } from 'react';
+import { X, PaintBucket, Eraser, Crosshair, ArrowDownUp, Scissors, CaseSensitive, Replace, CopyMinus, ArrowRightLeft, CheckSquare, Square } from 'lucide-react';
+import { ColumnMeta, ColumnType, ImputeMethod, OutlierMethod, TextCase, TransformStep } from '../types';
+import { IMPUTE_METHODS, OUTLIER_METHODS, TEXT_CASES, TransformOp, describeStep, toTransformStep } from '../utils/transforms';
+
+interface CleanDataModalProps {
+  columns: ColumnMeta[];
+  initialColumn?: string;
+  onApply: (step: TransformStep) => void;
+  onClose: () => void;
+}
+
+const OPERATIONS: { op: TransformOp; label: string; icon: any; description: string }[] = [
+  { op: 'impute', label: 'Fill Missing', icon: PaintBucket, description: 'Replace empty cells with a computed or fixed value' },
+  { op: 'drop_missing', label: 'Drop Missing', icon: Eraser, description: 'Remove rows where this column is empty' },
+  { op: 'remove_outliers', label: 'Outliers', icon: Crosshair, description: 'Remove rows with extreme values' },
+  { op: 'winsorize', label: 'Winsorize', icon: ArrowDownUp, description: 'Cap extreme values at percentiles instead of dropping rows' },
+  { op: 'trim', label: 'Trim', icon: Scissors, description: 'Strip leading and trailing whitespace' },
+  { op: 'change_case', label: 'Case', icon: CaseSensitive, description: 'Normalise text to one case' },
+  { op: 'replace', label: 'Find & Replace', icon: Replace, description: 'Replace text, optionally with a regular expression' },
+  { op: 'dedupe', label: 'Duplicates', icon: CopyMinus, description: 'Keep one row per key combination' },
+  { op: 'set_type', label: 'Cast', icon: ArrowRightLeft, description: 'Convert the column to another type' }
+];
+
+const COLUMN_TYPES: { type: ColumnType; label: string }[] = [
+  { type: 'string', label: 'Text' },
+  { type: 'number', label: 'Number' },
+  { type: 'date', label: 'Date' },
+  { type: 'boolean', label: 'Boolean' }
+];
+
+const NUMERIC_OPS: TransformOp[] = ['remove_outliers', 'winsorize'];
+
+const inputClass = 'w-full bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded px-3 py-2 text-sm text-gray-900 dark:text-gray-200 focus:ring-1 focus:ring-blue-500 outline-none transition-colors';
+const labelClass = 'block text-xs text-gray-500 dark:text-gray-400 mb-1 font-medium';
+
+const Toggle: React.FC<{ checked: boolean; onChange: (checked: boolean) => void; label: string }> = ({ checked, onChange, label }) => (
+  <button onClick={() => onChange(!checked)} className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-300 truncate">
+    {checked ? <CheckSquare className="w-4 h-4 text-blue-500 shrink-0" /> : <Square className="w-4 h-4 text-gray-300 dark:text-gray-600 shrink-0" />}
+    {label}
+  </button>
+);
+
+export const CleanDataModal: React.FC<CleanDataModalProps> = ({ columns, initialColumn, onApply, onClose }) => {
+  const [op, setOp] = useState<TransformOp>('impute');
+  const [column, setColumn] = useState(initialColumn ?? columns[0]?.name ?? '');
+  const [imputeMethod, setImputeMethod] = useState<ImputeMethod>('median');
+  const [fillValue, setFillValue] = useState('');
+  const [outlierMethod, setOutlierMethod] = useState<OutlierMethod>('iqr');
+  const [threshold, setThreshold] = useState('');
+  const [lower, setLower] = useState('5');
+  const [upper, setUpper] = useState('95');
+  const [textCase, setTextCase] = useState<TextCase>('lower');
+  const [find, setFind] = useState('');
+  const [replaceWith, setReplaceWith] = useState('');
+  const [useRegex, setUseRegex] = useState(false);
+  const [matchCase, setMatchCase] = useState(false);
+  const [dedupeKeys, setDedupeKeys] = useState<string[]>([]);
+  const [keep, setKeep] = useState<'first' | 'last'>('first');
+  const [castType, setCastType] = useState<ColumnType>('number');
+
+  const columnType = columns.find(c => c.name === column)?.type;
+  const isNumericColumn = columnType === 'number';
+
+  // Built through the same validation as recipe files and AI calls, so the button is only
+  // enabled for steps that can be replayed
+  const step = useMemo(() => {
+    const base = { op, column };
+    switch (op) {
+      case 'impute': return toTransformStep({ ...base, method: imputeMethod, value: imputeMethod === 'constant' ? fillValue : undefined });
+      case 'remove_outliers': return toTransformStep({ ...base, method: outlierMethod, threshold: threshold ? Number(threshold) : undefined });
+      case 'winsorize': return toTransformStep({ ...base, lower: Number(lower), upper: Number(upper) });
+      case 'change_case': return toTransformStep({ ...base, case: textCase });
+      case 'replace': return toTransformStep({ ...base, find, replace: replaceWith, regex: useRegex, matchCase });
+      case 'dedupe': return toTransformStep({ op, columns: dedupeKeys, keep });
+      case 'set_type': return toTransformStep({ ...base, type: castType });
+      default: return toTransformStep(base);
+    }
+  }, [op, column, imputeMethod, fillValue, outlierMethod, threshold, lower, upper, textCase, find, replaceWith, useRegex, matchCase, dedupeKeys, keep, castType]);
+
+  const regexError = useMemo(() => {
+    if (op !== 'replace' || !useRegex || !find) return null;
+    try {
+      new RegExp(find);
+      return null;
+    } catch (err) {
+      return err instanceof Error ? err.message : 'Invalid pattern';
+    }
+  }, [op, useRegex, find]);
+
+  const needsNumeric = NUMERIC_OPS.includes(op) || (op === 'impute' && IMPUTE_METHODS.find(m => m.method === imputeMethod)?.numericOnly);
+  const canApply = !!step && !regexError && !(needsNumeric && !isNumericColumn);
+
+  const toggleKey = (name: string) => {
+    setDedupeKeys(prev => prev.includes(name) ? prev.filter(k => k !== name) : [...prev, name]);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-2xl w-full max-w-xl shadow-2xl overflow-hidden flex flex-col max-h-[85vh] transition-colors duration-300">
+        <div className="p-6 border-b border-gray-100 dark:border-gray-700 flex justify-between items-center">
+            <div>
+                <h2 className="text-xl font-bold text-gray-900 dark:text-white">Clean Data</h2>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Each operation is recorded in the version history and can be saved in a recipe.</p>
+            </div>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors p-1 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700">
+                <X className="w-5 h-5" />
+            </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-5 custom-scrollbar">
+            <div className="grid grid-cols-3 gap-2">
+                {OPERATIONS.map(o => (
+                    <button
+                        key={o.op}
+                        onClick={() => setOp(o.op)}
+                        title={o.description}
+                        className={`flex flex-col items-center gap-1.5 p-3 rounded-lg border text-xs font-semibold transition-colors ${op === o.op ? 'border-blue-500 bg-blue-50 dark:bg-blue-500/10 text-blue-600 dark:text-blue-400' : 'border-gray-200 dark:border-gray-700 text-gray-500 dark:text-gray-400 hover:border-gray-300 dark:hover:border-gray-600'}`}
+                    >
+                        <o.icon className="w-4 h-4" />
+                        {o.label}
+                    </button>
+                ))}
+            </div>
+            <p className="text-[11px] text-gray-400 -mt-3">{OPERATIONS.find(o => o.op === op)?.description}</p>
+
+            {op === 'dedupe' ? (
+                <div>
+                    <label className={labelClass}>Key Columns</label>
+                    <p className="text-[11px] text-gray-400 mb-2">Rows with the same values in these columns count as duplicates. Pick none to compare whole rows.</p>
+                    <div className="grid grid-cols-2 gap-2 max-h-40 overflow-y-auto custom-scrollbar">
+                        {columns.map(c => (
+                            <Toggle key={c.name} checked={dedupeKeys.includes(c.name)} onChange={() => toggleKey(c.name)} label={c.name} />
+                        ))}
+                    </div>
+                    <div className="mt-3">
+                        <label className={labelClass}>Keep</label>
+                        <select value={keep} onChange={(e) => setKeep(e.target.value as 'first' | 'last')} className={inputClass}>
+                            <option value="first">First occurrence</option>
+                            <option value="last">Last occurrence</option>
+                        </select>
+                    </div>
+                </div>
+            ) : (
+                <div>
+                    <label className={labelClass}>Column</label>
+                    <select value={column} onChange={(e) => setColumn(e.target.value)} className={inputClass}>
+                        {columns.map(c => <option key={c.name} value={c.name}>{c.name} ({c.type})</option>)}
+                    </select>
+                    {needsNumeric && !isNumericColumn && (
+                        <p className="text-[11px] text-amber-500 mt-1.5">This operation needs a number column; cast {column} first.</p>
+                    )}
+                </div>
+            )}
+
+            {op === 'impute' && (
+                <div className="grid grid-cols-2 gap-4">
+                    <div>
+                        <label className={labelClass}>Fill With</label>
+                        <select value={imputeMethod} onChange={(e) => setImputeMethod(e.target.value as ImputeMethod)} className={inputClass}>
+                            {IMPUTE_METHODS.map(m => <option key={m.method} value={m.method}>{m.label}</option>)}
+                        </select>
+                    </div>
+                    {imputeMethod === 'constant' && (
+                        <div>
+                            <label className={labelClass}>Value</label>
+                            <input type="text" value={fillValue} onChange={(e) => setFillValue(e.target.value)} className={inputClass} />
+                        </div>
+                    )}
+                </div>
+            )}
+
+            {op === 'remove_outliers' && (
+                <div className="grid grid-cols-2 gap-4">
+                    <div>
+                        <label className={labelClass}>Method</label>
+                        <select value={outlierMethod} onChange={(e) => { setOutlierMethod(e.target.value as OutlierMethod); setThreshold(''); }} className={inputClass}>
+                            {OUTLIER_METHODS.map(m => <option key={m.method} value={m.method}>{m.label}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label className={labelClass}>Threshold</label>
+                        <input
+                            type="number" min="0" step="0.1" value={threshold}
+                            placeholder={String(OUTLIER_METHODS.find(m => m.method === outlierMethod)?.threshold)}
+                            onChange={(e) => setThreshold(e.target.value)}
+                            className={inputClass}
+                        />
+                    </div>
+                    <p className="col-span-2 text-[11px] text-gray-400 -mt-2">{OUTLIER_METHODS.find(m => m.method === outlierMethod)?.hint}</p>
+                </div>
+            )}
+
+            {op === 'winsorize' && (
+                <div className="grid grid-cols-2 gap-4">
+                    <div>
+                        <label className={labelClass}>Lower Percentile</label>
+                        <input type="number" min="0" max="100" value={lower} onChange={(e) => setLower(e.target.value)} className={inputClass} />
+                    </div>
+                    <div>
+                        <label className={labelClass}>Upper Percentile</label>
+                        <input type="number" min="0" max="100" value={upper} onChange={(e) => setUpper(e.target.value)} className={inputClass} />
+                    </div>
+                </div>
+            )}
+
+            {op === 'change_case' && (
+                <div>
+                    <label className={labelClass}>Case</label>
+                    <select value={textCase} onChange={(e) => setTextCase(e.target.value as TextCase)} className={inputClass}>
+                        {TEXT_CASES.map(c => <option key={c.value} value={c.value}>{c.label}</option>)}
+                    </select>
+                </div>
+            )}
+
+            {op === 'replace' && (
+                <div className="space-y-3">
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className={labelClass}>Find</label>
+                            <input type="text" value={find} onChange={(e) => setFind(e.target.value)} className={`${inputClass} font-mono`} />
+                        </div>
+                        <div>
+                            <label className={labelClass}>Replace With</label>
+                            <input type="text" value={replaceWith} onChange={(e) => setReplaceWith(e.target.value)} className={`${inputClass} font-mono`} />
+                        </div>
+                    </div>
+                    <div className="flex gap-4">
+                        <Toggle checked={useRegex} onChange={setUseRegex} label="Regular expression" />
+                        <Toggle checked={matchCase} onChange={setMatchCase} label="Match case" />
+                    </div>
+                    {regexError && <p className="text-[11px] text-red-500">{regexError}</p>}
+                </div>
+            )}
+
+            {op === 'set_type' && (
+                <div>
+                    <label className={labelClass}>Target Type</label>
+                    <select value={castType} onChange={(e) => setCastType(e.target.value as ColumnType)} className={inputClass}>
+                        {COLUMN_TYPES.map(t => <option key={t.type} value={t.type}>{t.label}</option>)}
+                    </select>
+                </div>
+            )}
+        </div>
+
+        <div className="p-4 border-t border-gray-100 dark:border-gray-700 flex items-center justify-between gap-2">
+            <span className="text-[11px] text-gray-400 truncate">{step ? describeStep(step) : ''}</span>
+            <div className="flex gap-2 shrink-0">
+                <button onClick={onClose} className="px-4 py-2 rounded-lg text-sm font-medium text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors">
+                    Cancel
+                </button>
+                <button
+                    onClick={() => step && onApply(step)}
+                    disabled={!canApply}
+                    className="px-4 py-2 rounded-lg text-sm font-medium bg-blue-600 hover:bg-blue-500 text-white shadow-md disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                >
+                    Apply
+                </button>
+            </div>
+        </div>
+      </div>
+    </div>
+  );
+};
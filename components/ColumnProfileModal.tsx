@@ -0,0 +1,215 @@
+import React, { useMemo, useState } from 'react';
+import { X, FileCode, FileJson, Hash, Type, Calendar, CheckCircle2, AtSign } from 'lucide-react';
+import { ColumnMeta, ColumnType, DataTable } from '../types';
+import { downloadBlob } from '../utils/exporters';
+import { ColumnProfile, HistogramBin, formatPercent, formatStat, patternLabel, profileColumn, profileTable, profilesToHtml, profilesToJson, quantileLabel } from '../utils/profile';
+
+interface ColumnProfileModalProps {
+  data: DataTable;
+  columns: ColumnMeta[];
+  datasetName: string;
+  initialColumn?: string;
+  onClose: () => void;
+}
+
+const typeIcon = (type: ColumnType) => {
+  switch (type) {
+    case 'number': return <Hash className="w-3 h-3 text-blue-500" />;
+    case 'boolean': return <CheckCircle2 className="w-3 h-3 text-green-500" />;
+    case 'date': return <Calendar className="w-3 h-3 text-purple-500" />;
+    default: return <Type className="w-3 h-3 text-amber-500" />;
+  }
+};
+
+interface HistogramProps {
+  bins: HistogramBin[];
+  type: ColumnType;
+  unit?: string;
+}
+
+const Histogram: React.FC<HistogramProps> = ({ bins, type, unit }) => {
+  const peak = Math.max(1, ...bins.map(b => b.count));
+  return (
+    <div>
+      <div className="flex items-end gap-px h-24">
+        {bins.map((b, i) => (
+          <div
+            key={i}
+            className="flex-1 bg-blue-500/70 hover:bg-blue-500 rounded-t-sm transition-colors"
+            style={{ height: `${Math.max(b.count > 0 ? 2 : 0, (b.count / peak) * 100)}%` }}
+            title={`${formatStat(b.start, type)} – ${formatStat(b.end, type)}${unit ? ` ${unit}` : ''}: ${b.count.toLocaleString()}`}
+          />
+        ))}
+      </div>
+      <div className="flex justify-between mt-1 text-[10px] text-gray-400 font-mono">
+        <span>{formatStat(bins[0]?.start, type)}</span>
+        <span>{formatStat(bins[bins.length - 1]?.end, type)}</span>
+      </div>
+    </div>
+  );
+};
+
+interface StatProps {
+  label: string;
+  value: string;
+  hint?: string;
+}
+
+const Stat: React.FC<StatProps> = ({ label, value, hint }) => (
+  <div className="bg-gray-50 dark:bg-gray-900/50 rounded-lg px-3 py-2">
+    <p className="text-[9px] text-gray-400 font-bold uppercase tracking-widest">{label}</p>
+    <p className="text-sm font-semibold text-gray-800 dark:text-gray-100 truncate" title={value}>{value}</p>
+    {hint && <p className="text-[10px] text-gray-400">{hint}</p>}
+  </div>
+);
+
+const sectionLabel = 'text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-2';
+
+const ProfileDetail: React.FC<{ profile: ColumnProfile }> = ({ profile }) => {
+  const topPeak = profile.topValues[0]?.count ?? 1;
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-4 gap-2">
+        <Stat label="Present" value={profile.count.toLocaleString()} hint={formatPercent(profile.count, profile.rowCount)} />
+        <Stat label="Missing" value={profile.missingCount.toLocaleString()} hint={formatPercent(profile.missingCount, profile.rowCount)} />
+        <Stat label="Distinct" value={profile.distinctCount.toLocaleString()} hint={`${formatPercent(profile.distinctCount, profile.count)} of present`} />
+        {profile.min !== undefined && <Stat label="Range" value={`${profile.min} – ${profile.max}`} />}
+        {profile.type === 'number' && (
+          <>
+            <Stat label="Mean" value={formatStat(profile.mean)} />
+            <Stat label="Std. deviation" value={formatStat(profile.std)} />
+            <Stat label="Skew" value={formatStat(profile.skew)} hint={profile.skew !== undefined && Math.abs(profile.skew) > 1 ? 'Strongly skewed' : undefined} />
+            <Stat label="Zeros" value={(profile.zeroCount ?? 0).toLocaleString()} hint={`${(profile.negativeCount ?? 0).toLocaleString()} negative`} />
+          </>
+        )}
+        {profile.lengths && (
+          <Stat label="Length" value={`${profile.lengths.min} – ${profile.lengths.max}`} hint={`${formatStat(profile.lengths.mean)} characters on average`} />
+        )}
+      </div>
+
+      {profile.quantiles && (
+        <div>
+          <p className={sectionLabel}>Quantiles</p>
+          <div className="grid grid-cols-7 gap-2">
+            {profile.quantiles.map(q => <Stat key={q.p} label={quantileLabel(q.p)} value={formatStat(q.value)} />)}
+          </div>
+        </div>
+      )}
+
+      {profile.histogram.length > 0 && (
+        <div>
+          <p className={sectionLabel}>{profile.type === 'date' ? 'Values over time' : 'Distribution'}</p>
+          <Histogram bins={profile.histogram} type={profile.type} />
+        </div>
+      )}
+
+      {profile.lengths && (
+        <div>
+          <p className={sectionLabel}>String length</p>
+          <Histogram bins={profile.lengths.histogram} type="number" unit="characters" />
+        </div>
+      )}
+
+      {profile.patterns.length > 0 && (
+        <div>
+          <p className={sectionLabel}>Detected patterns</p>
+          <div className="flex flex-wrap gap-2">
+            {profile.patterns.map(p => (
+              <span key={p.pattern} className="flex items-center gap-1.5 px-2.5 py-1 rounded-full bg-purple-500/10 text-[11px] font-medium text-purple-600 dark:text-purple-400">
+                <AtSign className="w-3 h-3" />
+                {patternLabel(p.pattern)}: {p.count.toLocaleString()} ({formatPercent(p.count, profile.count)})
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {profile.topValues.length > 0 && (
+        <div>
+          <p className={sectionLabel}>Most frequent values</p>
+          <div className="space-y-1">
+            {profile.topValues.map((v, i) => (
+              <div key={i} className="flex items-center gap-3 text-xs">
+                <span className="w-48 shrink-0 truncate font-mono text-gray-700 dark:text-gray-300" title={String(v.value)}>{String(v.value)}</span>
+                <div className="flex-1 h-2 rounded-full bg-gray-100 dark:bg-gray-900 overflow-hidden">
+                  <div className="h-full bg-blue-500/70 rounded-full" style={{ width: `${(v.count / topPeak) * 100}%` }} />
+                </div>
+                <span className="w-24 shrink-0 text-right text-gray-500 font-mono">{v.count.toLocaleString()} · {formatPercent(v.count, profile.count)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const ColumnProfileModal: React.FC<ColumnProfileModalProps> = ({ data, columns, datasetName, initialColumn, onClose }) => {
+  const profiled = data.headers.map(h => columns.find(c => c.name === h)).filter((c): c is ColumnMeta => !!c);
+  const [selected, setSelected] = useState(initialColumn ?? profiled[0]?.name ?? '');
+  const meta = profiled.find(c => c.name === selected);
+  const profile = useMemo(() => (meta ? profileColumn(data, meta) : null), [data, meta]);
+
+  // The report covers every column, so profiling all of them waits until it is exported
+  const exportReport = (format: 'html' | 'json') => {
+    const profiles = profileTable(data, columns);
+    if (format === 'html') downloadBlob(new Blob([profilesToHtml(datasetName, profiles)], { type: 'text/html;charset=utf-8;' }), `${datasetName} profile.html`);
+    else downloadBlob(new Blob([profilesToJson(datasetName, profiles)], { type: 'application/json' }), `${datasetName} profile.json`);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-2xl w-full max-w-5xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh] transition-colors duration-300">
+        <div className="p-6 border-b border-gray-100 dark:border-gray-700 flex justify-between items-center">
+            <div>
+                <h2 className="text-xl font-bold text-gray-900 dark:text-white">Column Profile</h2>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Distributions, frequent values and patterns in {datasetName}.</p>
+            </div>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors p-1 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700">
+                <X className="w-5 h-5" />
+            </button>
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+            <div className="w-60 shrink-0 border-r border-gray-100 dark:border-gray-700 overflow-y-auto custom-scrollbar p-3 space-y-1">
+                {profiled.map(c => (
+                    <button
+                        key={c.name}
+                        onClick={() => setSelected(c.name)}
+                        className={`w-full flex items-center gap-2 px-2 py-1.5 rounded-lg text-left transition-colors ${c.name === selected ? 'bg-blue-500/10' : 'hover:bg-gray-50 dark:hover:bg-gray-700/50'}`}
+                    >
+                        {typeIcon(c.type)}
+                        <span className={`flex-1 min-w-0 text-xs truncate ${c.name === selected ? 'text-blue-600 dark:text-blue-400 font-semibold' : 'text-gray-700 dark:text-gray-200'}`}>{c.name}</span>
+                        {c.missingCount > 0 && <span className="text-[10px] text-orange-500 shrink-0">{formatPercent(c.missingCount, data.rowCount)}</span>}
+                    </button>
+                ))}
+            </div>
+            <div className="flex-1 overflow-y-auto custom-scrollbar p-6">
+                {profile ? <ProfileDetail profile={profile} /> : <p className="text-sm text-gray-400">Select a column to profile.</p>}
+            </div>
+        </div>
+
+        <div className="p-4 border-t border-gray-100 dark:border-gray-700 flex items-center justify-between gap-2">
+            <span className="text-[10px] font-bold text-gray-400 dark:text-gray-500 uppercase tracking-widest">
+                {data.rowCount.toLocaleString()} rows · {profiled.length} columns
+            </span>
+            <div className="flex gap-2">
+                <button
+                    onClick={() => exportReport('json')}
+                    className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+                >
+                    <FileJson className="w-4 h-4" /> Export JSON
+                </button>
+                <button
+                    onClick={() => exportReport('html')}
+                    className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium bg-blue-600 hover:bg-blue-500 text-white shadow-md transition-colors"
+                    title="A data quality report covering every column"
+                >
+                    <FileCode className="w-4 h-4" /> Export HTML Report
+                </button>
+            </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,218 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, Plus, Trash2, Merge, Layers, CheckSquare, Square } from 'lucide-react';
+import { Dataset } from '../types';
+import { JOIN_TYPES, JoinSpec, JoinType } from '../utils/datasets';
+
+interface CombineDatasetsModalProps {
+  datasets: Dataset[];
+  activeDatasetId: string | null;
+  onJoin: (leftId: string, rightId: string, spec: JoinSpec, name: string) => void;
+  onUnion: (datasetIds: string[], name: string) => void;
+  onClose: () => void;
+}
+
+type CombineMode = 'join' | 'union';
+
+const selectClass = 'w-full bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded px-3 py-2 text-sm text-gray-900 dark:text-gray-200 focus:ring-1 focus:ring-blue-500 outline-none transition-colors';
+
+// Suggests the first column name both sides share as the join key
+const suggestKey = (left?: Dataset, right?: Dataset): [string, string] => {
+  if (!left || !right) return ['', ''];
+  const shared = left.table.headers.find(h => right.table.headers.includes(h));
+  return shared ? [shared, shared] : [left.table.headers[0] ?? '', right.table.headers[0] ?? ''];
+};
+
+export const CombineDatasetsModal: React.FC<CombineDatasetsModalProps> = ({ datasets, activeDatasetId, onJoin, onUnion, onClose }) => {
+  const [mode, setMode] = useState<CombineMode>('join');
+  const [leftId, setLeftId] = useState(activeDatasetId ?? datasets[0]?.id ?? '');
+  const [rightId, setRightId] = useState(datasets.find(d => d.id !== leftId)?.id ?? '');
+  const [joinType, setJoinType] = useState<JoinType>('inner');
+  const [keyPairs, setKeyPairs] = useState<[string, string][]>([]);
+  const [unionIds, setUnionIds] = useState<string[]>(datasets.map(d => d.id));
+  const [name, setName] = useState('');
+
+  const left = datasets.find(d => d.id === leftId);
+  const right = datasets.find(d => d.id === rightId);
+
+  useEffect(() => {
+    setKeyPairs([suggestKey(left, right)]);
+  }, [leftId, rightId]);
+
+  const defaultName = useMemo(() => {
+    if (mode === 'join') return left && right ? `${left.name} + ${right.name}` : '';
+    return datasets.filter(d => unionIds.includes(d.id)).map(d => d.name).join(' + ');
+  }, [mode, left, right, datasets, unionIds]);
+
+  const canJoin = !!left && !!right && keyPairs.length > 0 && keyPairs.every(([l, r]) => l && r);
+  const canUnion = unionIds.length >= 2;
+
+  const handleCreate = () => {
+    const finalName = name.trim() || defaultName;
+    if (mode === 'join' && canJoin) {
+      onJoin(leftId, rightId, { type: joinType, leftKeys: keyPairs.map(p => p[0]), rightKeys: keyPairs.map(p => p[1]) }, finalName);
+    } else if (mode === 'union' && canUnion) {
+      onUnion(unionIds, finalName);
+    }
+  };
+
+  const updateKeyPair = (index: number, side: 0 | 1, value: string) => {
+    setKeyPairs(prev => prev.map((pair, i) => {
+      if (i !== index) return pair;
+      return side === 0 ? [value, pair[1]] : [pair[0], value];
+    }));
+  };
+
+  const toggleUnion = (id: string) => {
+    setUnionIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+  };
+
+  const ModeButton = ({ value, label, icon: Icon }: { value: CombineMode, label: string, icon: any }) => (
+    <button
+        onClick={() => setMode(value)}
+        className={`flex-1 flex items-center justify-center gap-2 px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+            mode === value
+            ? 'bg-blue-500/10 text-blue-600 dark:text-blue-400'
+            : 'text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700'
+        }`}
+    >
+        <Icon className="w-4 h-4" /> {label}
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-2xl w-full max-w-xl shadow-2xl overflow-hidden flex flex-col max-h-[85vh] transition-colors duration-300">
+        <div className="p-6 border-b border-gray-100 dark:border-gray-700 flex justify-between items-center">
+            <div>
+                <h2 className="text-xl font-bold text-gray-900 dark:text-white">Combine Datasets</h2>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">The result is added as a new dataset; the sources stay unchanged.</p>
+            </div>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors p-1 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700">
+                <X className="w-5 h-5" />
+            </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-5 custom-scrollbar">
+            <div className="flex gap-2 p-1 bg-gray-50 dark:bg-gray-900/50 rounded-xl border border-gray-100 dark:border-gray-700">
+                <ModeButton value="join" label="Join" icon={Merge} />
+                <ModeButton value="union" label="Union" icon={Layers} />
+            </div>
+
+            {mode === 'join' ? (
+                <>
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1 font-medium">Left Dataset</label>
+                            <select value={leftId} onChange={(e) => setLeftId(e.target.value)} className={selectClass}>
+                                {datasets.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1 font-medium">Right Dataset</label>
+                            <select value={rightId} onChange={(e) => setRightId(e.target.value)} className={selectClass}>
+                                <option value="">Select Dataset</option>
+                                {datasets.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+                            </select>
+                        </div>
+                    </div>
+
+                    <div>
+                        <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1 font-medium">Join Type</label>
+                        <div className="grid grid-cols-3 gap-2">
+                            {JOIN_TYPES.map(j => (
+                                <button
+                                    key={j.type}
+                                    onClick={() => setJoinType(j.type)}
+                                    title={j.description}
+                                    className={`p-2 rounded-lg border text-xs font-semibold transition-colors ${joinType === j.type ? 'border-blue-500 bg-blue-50 dark:bg-blue-500/10 text-blue-600 dark:text-blue-400' : 'border-gray-200 dark:border-gray-700 text-gray-500 dark:text-gray-400 hover:border-gray-300 dark:hover:border-gray-600'}`}
+                                >
+                                    {j.label}
+                                </button>
+                            ))}
+                        </div>
+                        <p className="text-[11px] text-gray-400 mt-1.5">{JOIN_TYPES.find(j => j.type === joinType)?.description}</p>
+                    </div>
+
+                    <div>
+                        <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1 font-medium">Match On</label>
+                        <div className="space-y-2">
+                            {keyPairs.map(([l, r], i) => (
+                                <div key={i} className="flex items-center gap-2">
+                                    <select value={l} onChange={(e) => updateKeyPair(i, 0, e.target.value)} className={selectClass}>
+                                        <option value="">Left column</option>
+                                        {left?.table.headers.map(h => <option key={h} value={h}>{h}</option>)}
+                                    </select>
+                                    <span className="text-gray-400 text-sm">=</span>
+                                    <select value={r} onChange={(e) => updateKeyPair(i, 1, e.target.value)} className={selectClass}>
+                                        <option value="">Right column</option>
+                                        {right?.table.headers.map(h => <option key={h} value={h}>{h}</option>)}
+                                    </select>
+                                    <button
+                                        onClick={() => setKeyPairs(prev => prev.filter((_, j) => j !== i))}
+                                        disabled={keyPairs.length === 1}
+                                        className="p-2 text-gray-400 hover:text-red-500 disabled:opacity-30 disabled:hover:text-gray-400 transition-colors"
+                                        title="Remove key"
+                                    >
+                                        <Trash2 className="w-4 h-4" />
+                                    </button>
+                                </div>
+                            ))}
+                        </div>
+                        <button
+                            onClick={() => setKeyPairs(prev => [...prev, ['', '']])}
+                            className="mt-2 flex items-center gap-1 text-xs font-semibold text-blue-600 dark:text-blue-400 hover:underline"
+                        >
+                            <Plus className="w-3 h-3" /> Add key column
+                        </button>
+                    </div>
+                </>
+            ) : (
+                <div>
+                    <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1 font-medium">Datasets to Stack</label>
+                    <p className="text-[11px] text-gray-400 mb-2">Columns are matched by name; missing columns are filled with null.</p>
+                    <div className="space-y-2">
+                        {datasets.map(d => (
+                            <button
+                                key={d.id}
+                                onClick={() => toggleUnion(d.id)}
+                                className="w-full flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-900/50 rounded-xl border border-gray-100 dark:border-gray-700 hover:border-blue-500 transition-colors text-left"
+                            >
+                                <div className="flex items-center gap-3 min-w-0">
+                                    {unionIds.includes(d.id) ? <CheckSquare className="w-4 h-4 text-blue-500 shrink-0" /> : <Square className="w-4 h-4 text-gray-300 dark:text-gray-600 shrink-0" />}
+                                    <span className="text-sm font-semibold text-gray-800 dark:text-gray-200 truncate">{d.name}</span>
+                                </div>
+                                <span className="text-[10px] font-bold text-gray-400 uppercase tracking-widest shrink-0">{d.table.rowCount} rows · {d.table.headers.length} cols</span>
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            <div>
+                <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1 font-medium">New Dataset Name</label>
+                <input
+                    type="text"
+                    value={name}
+                    placeholder={defaultName}
+                    onChange={(e) => setName(e.target.value)}
+                    className={selectClass}
+                />
+            </div>
+        </div>
+
+        <div className="p-4 border-t border-gray-100 dark:border-gray-700 flex justify-end gap-2">
+            <button onClick={onClose} className="px-4 py-2 rounded-lg text-sm font-medium text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors">
+                Cancel
+            </button>
+            <button
+                onClick={handleCreate}
+                disabled={mode === 'join' ? !canJoin : !canUnion}
+                className="px-4 py-2 rounded-lg text-sm font-medium bg-blue-600 hover:bg-blue-500 text-white shadow-md disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+            >
+                Create Dataset
+            </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,192 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { X, FunctionSquare, AlertTriangle } from 'lucide-react';
+import { CellValue, ColumnMeta, DataTable, TransformStep } from '../types';
+import { FORMULA_FUNCTIONS, columnReference, evaluateFormula, formulaColumns, parseFormula } from '../utils/formula';
+import { getRows } from '../utils/dataTable';
+
+interface ComputedColumnModalProps {
+  data: DataTable;
+  editColumn?: ColumnMeta; // A computed column whose formula is being changed
+  onApply: (step: TransformStep) => void;
+  onClose: () => void;
+}
+
+// Formulas are checked against the first rows while typing; the full table is computed on apply
+const PREVIEW_SAMPLE = 1000;
+const PREVIEW_ROWS = 6;
+
+const CATEGORIES = ['Math', 'Text', 'Date', 'Logic', 'Null'] as const;
+
+const inputClass = 'w-full bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded px-3 py-2 text-sm text-gray-900 dark:text-gray-200 focus:ring-1 focus:ring-blue-500 outline-none transition-colors';
+const labelClass = 'block text-xs text-gray-500 dark:text-gray-400 mb-1 font-medium';
+
+const formatCell = (value: CellValue) => value === null ? <span className="text-gray-400 italic">null</span> : String(value);
+
+export const ComputedColumnModal: React.FC<ComputedColumnModalProps> = ({ data, editColumn, onApply, onClose }) => {
+  const [name, setName] = useState(editColumn?.name ?? '');
+  const [formula, setFormula] = useState(editColumn?.formula ?? '');
+  const [category, setCategory] = useState<typeof CATEGORIES[number]>('Math');
+  const formulaRef = useRef<HTMLTextAreaElement>(null);
+
+  const trimmedName = name.trim();
+  const nameError = !editColumn && trimmedName && data.headers.includes(trimmedName) ? `A column named ${trimmedName} already exists` : null;
+
+  const preview = useMemo(() => {
+    if (!formula.trim()) return null;
+    try {
+      const referenced = formulaColumns(parseFormula(formula));
+      if (editColumn && referenced.includes(editColumn.name)) throw new Error(`${editColumn.name} cannot refer to itself`);
+      const result = evaluateFormula(formula, data, PREVIEW_SAMPLE);
+      return { result, referenced, error: null };
+    } catch (err) {
+      return { result: null, referenced: [], error: err instanceof Error ? err.message : 'Invalid formula' };
+    }
+  }, [formula, data, editColumn]);
+
+  const previewRows = useMemo(() => {
+    if (!preview?.result) return [];
+    return getRows(data, Array.from({ length: Math.min(PREVIEW_ROWS, data.rowCount) }, (_, i) => i));
+  }, [preview, data]);
+
+  // Inserts text at the cursor so column and function buttons work mid-formula
+  const insert = (text: string) => {
+    const el = formulaRef.current;
+    const start = el?.selectionStart ?? formula.length;
+    const end = el?.selectionEnd ?? formula.length;
+    setFormula(formula.slice(0, start) + text + formula.slice(end));
+    requestAnimationFrame(() => {
+      el?.focus();
+      el?.setSelectionRange(start + text.length, start + text.length);
+    });
+  };
+
+  const canApply = !!trimmedName && !nameError && !!preview?.result;
+
+  const handleApply = () => {
+    if (!canApply) return;
+    onApply({ op: 'add_column', name: trimmedName, formula: formula.trim() });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-2xl w-full max-w-3xl shadow-2xl overflow-hidden flex flex-col max-h-[85vh] transition-colors duration-300">
+        <div className="p-6 border-b border-gray-100 dark:border-gray-700 flex justify-between items-center">
+            <div>
+                <h2 className="text-xl font-bold text-gray-900 dark:text-white">{editColumn ? `Edit ${editColumn.name}` : 'Add Computed Column'}</h2>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Build a column from an expression, e.g. <code className="font-mono">revenue - cost</code> or <code className="font-mono">YEAR([order date])</code>.</p>
+            </div>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors p-1 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700">
+                <X className="w-5 h-5" />
+            </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 grid grid-cols-3 gap-6 custom-scrollbar">
+            <div className="col-span-2 space-y-4 min-w-0">
+                <div>
+                    <label className={labelClass}>Column Name</label>
+                    <input type="text" value={name} disabled={!!editColumn} onChange={(e) => setName(e.target.value)} placeholder="margin" className={`${inputClass} disabled:opacity-60`} />
+                    {nameError && <p className="text-[11px] text-red-500 mt-1">{nameError}</p>}
+                </div>
+
+                <div>
+                    <label className={labelClass}>Formula</label>
+                    <textarea
+                        ref={formulaRef}
+                        value={formula}
+                        onChange={(e) => setFormula(e.target.value)}
+                        onKeyDown={(e) => { if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) handleApply(); }}
+                        rows={3}
+                        spellCheck={false}
+                        placeholder='IF(revenue > 1000, "large", "small")'
+                        className={`${inputClass} font-mono resize-none`}
+                    />
+                    {preview?.error && (
+                        <p className="flex items-start gap-1.5 text-[11px] text-red-500 mt-1"><AlertTriangle className="w-3 h-3 shrink-0 mt-0.5" /> {preview.error}</p>
+                    )}
+                    {preview?.result && preview.result.errorCount > 0 && (
+                        <p className="flex items-start gap-1.5 text-[11px] text-amber-500 mt-1">
+                            <AlertTriangle className="w-3 h-3 shrink-0 mt-0.5" />
+                            {preview.result.errorCount} of the first {Math.min(PREVIEW_SAMPLE, data.rowCount)} rows fail and will be empty. {preview.result.firstError}
+                        </p>
+                    )}
+                </div>
+
+                <div>
+                    <label className={labelClass}>Columns</label>
+                    <div className="flex flex-wrap gap-1.5 max-h-24 overflow-y-auto custom-scrollbar">
+                        {data.headers.map(h => (
+                            <button key={h} onClick={() => insert(columnReference(h))} className="px-2 py-1 rounded-md bg-gray-100 dark:bg-gray-700 text-[11px] font-mono text-gray-700 dark:text-gray-200 hover:bg-blue-500/10 hover:text-blue-600 transition-colors">
+                                {h}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                {preview?.result && previewRows.length > 0 && (
+                    <div>
+                        <label className={labelClass}>Preview · {preview.result.type}</label>
+                        <div className="overflow-x-auto border border-gray-100 dark:border-gray-700 rounded-lg">
+                            <table className="w-full text-[11px]">
+                                <thead className="bg-gray-50 dark:bg-gray-900/50 text-gray-400">
+                                    <tr>
+                                        {preview.referenced.map(c => <th key={c} className="px-3 py-1.5 text-left font-semibold">{c}</th>)}
+                                        <th className="px-3 py-1.5 text-left font-semibold text-blue-500">{trimmedName || 'result'}</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {previewRows.map((row, i) => (
+                                        <tr key={i} className="border-t border-gray-100 dark:border-gray-700 text-gray-700 dark:text-gray-300">
+                                            {preview.referenced.map(c => <td key={c} className="px-3 py-1.5 truncate max-w-[140px]">{formatCell(row[c])}</td>)}
+                                            <td className="px-3 py-1.5 font-semibold truncate max-w-[160px]">{formatCell(preview.result!.values[i])}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    </div>
+                )}
+            </div>
+
+            <div className="min-w-0">
+                <label className={labelClass}>Functions</label>
+                <div className="flex flex-wrap gap-1 mb-2">
+                    {CATEGORIES.map(c => (
+                        <button key={c} onClick={() => setCategory(c)} className={`px-2 py-0.5 rounded-full text-[10px] font-bold uppercase tracking-wider transition-colors ${category === c ? 'bg-blue-500/10 text-blue-600 dark:text-blue-400' : 'text-gray-400 hover:text-gray-600'}`}>
+                            {c}
+                        </button>
+                    ))}
+                </div>
+                <div className="space-y-1 max-h-80 overflow-y-auto custom-scrollbar">
+                    {Object.entries(FORMULA_FUNCTIONS).filter(([, fn]) => fn.category === category).map(([fnName, fn]) => (
+                        <button
+                            key={fnName}
+                            onClick={() => insert(`${fnName}(`)}
+                            className="w-full text-left px-2 py-1.5 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors"
+                        >
+                            <span className="block text-[11px] font-mono text-gray-800 dark:text-gray-200">{fn.signature}</span>
+                            <span className="block text-[10px] text-gray-400">{fn.description}</span>
+                        </button>
+                    ))}
+                </div>
+                <p className="text-[10px] text-gray-400 mt-3 leading-relaxed">
+                    Operators: <span className="font-mono">+ - * / % ^</span>, <span className="font-mono">&</span> joins text, <span className="font-mono">= != &lt; &gt;</span>, <span className="font-mono">AND OR NOT</span>. Quote text with "double" or 'single' quotes.
+                </p>
+            </div>
+        </div>
+
+        <div className="p-4 border-t border-gray-100 dark:border-gray-700 flex justify-end gap-2">
+            <button onClick={onClose} className="px-4 py-2 rounded-lg text-sm font-medium text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors">
+                Cancel
+            </button>
+            <button
+                onClick={handleApply}
+                disabled={!canApply}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium bg-blue-600 hover:bg-blue-500 text-white shadow-md disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+            >
+                <FunctionSquare className="w-4 h-4" /> {editColumn ? 'Update Column' : 'Add Column'}
+            </button>
+        </div>
+      </div>
+    </div>
+  );
+};
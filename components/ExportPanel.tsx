@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { X, Download, AlertCircle } from 'lucide-react';
+import { CSV_DELIMITERS, CsvDelimiter } from '../utils/csvParser';
+import { DEFAULT_EXPORT_OPTIONS, DELIMITER_LABELS, EXPORT_ENCODINGS, EXPORT_FORMATS, ExportEncoding, ExportOptions, XLSX_MAX_ROWS, exportFileName } from '../utils/exporters';
+
+interface ExportPanelProps {
+  rowCount: number;
+  totalRows: number;
+  columnCount: number;
+  defaultName: string;
+  // Returns an error message when the file could not be written
+  onExport: (options: ExportOptions, fileName: string) => string | null;
+  onClose: () => void;
+}
+
+const inputClass = 'bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded px-2 py-1.5 text-xs text-gray-900 dark:text-gray-200 focus:ring-1 focus:ring-blue-500 outline-none transition-colors';
+
+export const ExportPanel: React.FC<ExportPanelProps> = ({ rowCount, totalRows, columnCount, defaultName, onExport, onClose }) => {
+  const [options, setOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS);
+  const [name, setName] = useState(defaultName);
+  const [error, setError] = useState<string | null>(null);
+
+  const isText = options.format !== 'xlsx';
+  const tooManyRows = options.format === 'xlsx' && rowCount + 1 > XLSX_MAX_ROWS;
+
+  const update = (patch: Partial<ExportOptions>) => {
+    setOptions({ ...options, ...patch });
+    setError(null);
+  };
+
+  const handleExport = () => {
+    const problem = onExport(options, exportFileName(name, options.format));
+    if (problem) setError(problem);
+    else onClose();
+  };
+
+  return (
+    <div className="absolute right-0 top-full mt-2 w-[400px] bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl shadow-2xl z-50 animate-fade-in">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100 dark:border-gray-700">
+        <span className="flex items-center gap-2 text-[10px] font-bold text-gray-400 uppercase tracking-widest">
+          <Download className="w-3 h-3" /> Export Dataset
+        </span>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><X className="w-3 h-3" /></button>
+      </div>
+
+      <div className="p-4 space-y-3">
+        <div className="grid grid-cols-5 gap-1">
+          {EXPORT_FORMATS.map(f => (
+            <button
+              key={f.format}
+              onClick={() => update({ format: f.format })}
+              className={`py-1.5 rounded-lg text-[10px] font-bold uppercase tracking-wider transition-colors ${options.format === f.format ? 'bg-blue-600 text-white' : 'bg-gray-100 dark:bg-gray-700 text-gray-500 dark:text-gray-300 hover:bg-blue-500/10 hover:text-blue-600'}`}
+            >
+              {f.label}
+            </button>
+          ))}
+        </div>
+
+        {options.format === 'csv' && (
+          <label className="flex items-center justify-between gap-3">
+            <span className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">Delimiter</span>
+            <select value={options.delimiter} onChange={(e) => update({ delimiter: e.target.value as CsvDelimiter })} className={`${inputClass} w-48`}>
+              {CSV_DELIMITERS.map(d => <option key={d} value={d}>{DELIMITER_LABELS[d]}</option>)}
+            </select>
+          </label>
+        )}
+        {isText && (
+          <label className="flex items-center justify-between gap-3">
+            <span className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">Encoding</span>
+            <select value={options.encoding} onChange={(e) => update({ encoding: e.target.value as ExportEncoding })} className={`${inputClass} w-48`}>
+              {EXPORT_ENCODINGS.map(e => <option key={e.encoding} value={e.encoding}>{e.label}</option>)}
+            </select>
+          </label>
+        )}
+        {(options.format === 'csv' || options.format === 'tsv' || options.format === 'xlsx') && (
+          <label className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-300 cursor-pointer">
+            <input type="checkbox" checked={options.includeHeader} onChange={(e) => update({ includeHeader: e.target.checked })} className="rounded" />
+            Include header row
+          </label>
+        )}
+        <label className="block">
+          <span className="block text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-1">File Name</span>
+          <div className="flex items-center gap-1">
+            <input type="text" value={name} onChange={(e) => setName(e.target.value)} className={`${inputClass} flex-1 min-w-0`} />
+            <span className="text-xs text-gray-400 font-mono">.{EXPORT_FORMATS.find(f => f.format === options.format)!.extension}</span>
+          </div>
+        </label>
+
+        {(error || tooManyRows) && (
+          <p className="flex items-start gap-1.5 text-[11px] text-red-500">
+            <AlertCircle className="w-3.5 h-3.5 shrink-0 mt-px" />
+            {error ?? `Excel sheets hold at most ${XLSX_MAX_ROWS.toLocaleString()} rows; filter the data or export as CSV.`}
+          </p>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between gap-3 px-4 py-3 border-t border-gray-100 dark:border-gray-700">
+        <span className="text-[10px] text-gray-400" title="Exports follow the current search, filters, sort and column order">
+          {rowCount === totalRows ? `All ${rowCount}` : `${rowCount} of ${totalRows}`} rows · {columnCount} columns
+        </span>
+        <button
+          onClick={handleExport}
+          disabled={rowCount === 0 || columnCount === 0 || tooManyRows}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium bg-blue-600 hover:bg-blue-500 text-white disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+        >
+          <Download className="w-3.5 h-3.5" /> Export
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,203 @@
+import React, { useState } from 'react';
+import { X, SlidersHorizontal, Plus, Trash2, Save, FolderPlus, CaseSensitive } from 'lucide-react';
+import { ColumnMeta, DateUnit, FilterCondition, FilterGroup, FilterOperator } from '../types';
+import { DATE_UNITS, createCondition, createGroup, operatorInfo, operatorLabel, operatorsFor, replaceNode } from '../utils/filters';
+
+interface FilterBuilderPanelProps {
+  filter: FilterGroup;
+  columns: ColumnMeta[];
+  problems: Record<string, string>;
+  matchCount: number;
+  totalRows: number;
+  defaultName: string;
+  onChange: (filter: FilterGroup) => void;
+  onSaveAsDataset: (name: string) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded px-2 py-1.5 text-xs text-gray-900 dark:text-gray-200 focus:ring-1 focus:ring-blue-500 outline-none transition-colors';
+
+// Nested groups past this depth stop being readable
+const MAX_DEPTH = 3;
+
+interface ConditionRowProps {
+  condition: FilterCondition;
+  columns: ColumnMeta[];
+  problem?: string;
+  onChange: (condition: FilterCondition) => void;
+  onRemove: () => void;
+}
+
+const ConditionRow: React.FC<ConditionRowProps> = ({ condition, columns, problem, onChange, onRemove }) => {
+  const type = columns.find(c => c.name === condition.column)?.type ?? 'string';
+  const arity = operatorInfo(condition.operator).arity;
+  const valueType = type === 'number' ? 'number' : type === 'date' ? 'date' : 'text';
+
+  const changeColumn = (name: string) => {
+    const meta = columns.find(c => c.name === name);
+    if (!meta) return;
+    // Keep the operator when it still applies so switching between similar columns is cheap
+    const keep = operatorsFor(meta.type).some(o => o.operator === condition.operator);
+    onChange(keep ? { ...condition, column: name } : { ...createCondition(meta), id: condition.id });
+  };
+
+  return (
+    <div>
+      <div className="flex items-center gap-1.5">
+        <select value={condition.column} onChange={(e) => changeColumn(e.target.value)} className={`${inputClass} w-32 shrink-0`}>
+          {columns.map(c => <option key={c.name} value={c.name}>{c.name}</option>)}
+        </select>
+        <select value={condition.operator} onChange={(e) => onChange({ ...condition, operator: e.target.value as FilterOperator })} className={`${inputClass} w-32 shrink-0`}>
+          {operatorsFor(type).map(o => <option key={o.operator} value={o.operator}>{operatorLabel(o.operator, type)}</option>)}
+        </select>
+        {(arity === 'one' || arity === 'two' || arity === 'relative') && (
+          <input
+            type={arity === 'relative' ? 'number' : valueType}
+            min={arity === 'relative' ? 1 : undefined}
+            value={condition.value}
+            onChange={(e) => onChange({ ...condition, value: e.target.value })}
+            placeholder={type === 'boolean' ? 'true / false' : 'Value'}
+            className={`${inputClass} min-w-0 flex-1`}
+          />
+        )}
+        {arity === 'two' && (
+          <>
+            <span className="text-[10px] text-gray-400">and</span>
+            <input type={valueType} value={condition.value2} onChange={(e) => onChange({ ...condition, value2: e.target.value })} placeholder="Value" className={`${inputClass} min-w-0 flex-1`} />
+          </>
+        )}
+        {(arity === 'relative' || arity === 'period') && (
+          <select value={condition.unit ?? 'day'} onChange={(e) => onChange({ ...condition, unit: e.target.value as DateUnit })} className={`${inputClass} ${arity === 'period' ? 'flex-1' : 'w-24'}`}>
+            {DATE_UNITS.map(u => <option key={u.unit} value={u.unit}>{arity === 'period' ? u.unit : u.label}</option>)}
+          </select>
+        )}
+        {arity === 'none' && <span className="flex-1" />}
+        {type === 'string' && arity === 'one' && (
+          <button
+            onClick={() => onChange({ ...condition, matchCase: !condition.matchCase })}
+            className={`p-1 rounded transition-colors shrink-0 ${condition.matchCase ? 'bg-blue-500/10 text-blue-500' : 'text-gray-400 hover:text-gray-600'}`}
+            title="Match case"
+          >
+            <CaseSensitive className="w-3.5 h-3.5" />
+          </button>
+        )}
+        <button onClick={onRemove} className="p-1 text-gray-400 hover:text-red-500 transition-colors shrink-0" title="Remove condition">
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </div>
+      {problem && <p className="text-[10px] text-red-500 mt-1 ml-1">{problem}</p>}
+    </div>
+  );
+};
+
+interface GroupEditorProps {
+  group: FilterGroup;
+  columns: ColumnMeta[];
+  problems: Record<string, string>;
+  depth: number;
+  onChange: (group: FilterGroup) => void;
+  onRemove?: () => void;
+}
+
+const GroupEditor: React.FC<GroupEditorProps> = ({ group, columns, problems, depth, onChange, onRemove }) => {
+  const replace = (id: string, node: FilterCondition | FilterGroup | null) => onChange(replaceNode(group, id, node));
+  const add = (node: FilterCondition | FilterGroup) => onChange({ ...group, children: [...group.children, node] });
+
+  return (
+    <div className={depth > 0 ? 'border-l-2 border-blue-500/30 pl-3 py-1' : ''}>
+      <div className="flex items-center gap-2 mb-2">
+        <div className="flex rounded-lg bg-gray-100 dark:bg-gray-900 p-0.5">
+          {(['and', 'or'] as const).map(c => (
+            <button
+              key={c}
+              onClick={() => onChange({ ...group, combinator: c })}
+              className={`px-2 py-0.5 rounded-md text-[10px] font-bold uppercase tracking-wider transition-colors ${group.combinator === c ? 'bg-white dark:bg-gray-700 text-blue-600 dark:text-blue-400 shadow-sm' : 'text-gray-400'}`}
+            >
+              {c}
+            </button>
+          ))}
+        </div>
+        <span className="text-[10px] text-gray-400">{group.combinator === 'and' ? 'All of these' : 'Any of these'}</span>
+        {onRemove && (
+          <button onClick={onRemove} className="ml-auto p-1 text-gray-400 hover:text-red-500 transition-colors" title="Remove group">
+            <Trash2 className="w-3.5 h-3.5" />
+          </button>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        {group.children.map(child => child.kind === 'group' ? (
+          <GroupEditor
+            key={child.id}
+            group={child}
+            columns={columns}
+            problems={problems}
+            depth={depth + 1}
+            onChange={(next) => replace(child.id, next)}
+            onRemove={() => replace(child.id, null)}
+          />
+        ) : (
+          <ConditionRow
+            key={child.id}
+            condition={child}
+            columns={columns}
+            problem={problems[child.id]}
+            onChange={(next) => replace(child.id, next)}
+            onRemove={() => replace(child.id, null)}
+          />
+        ))}
+      </div>
+
+      <div className="flex gap-3 mt-2">
+        <button onClick={() => columns[0] && add(createCondition(columns[0]))} className="flex items-center gap-1 text-[10px] font-bold uppercase tracking-wider text-blue-600 dark:text-blue-400 hover:underline">
+          <Plus className="w-3 h-3" /> Condition
+        </button>
+        {depth < MAX_DEPTH && (
+          <button
+            onClick={() => columns[0] && add(createGroup(group.combinator === 'and' ? 'or' : 'and', [createCondition(columns[0])]))}
+            className="flex items-center gap-1 text-[10px] font-bold uppercase tracking-wider text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            <FolderPlus className="w-3 h-3" /> Group
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export const FilterBuilderPanel: React.FC<FilterBuilderPanelProps> = ({ filter, columns, problems, matchCount, totalRows, defaultName, onChange, onSaveAsDataset, onClose }) => {
+  const [name, setName] = useState(defaultName);
+
+  return (
+    <div className="absolute right-0 top-full mt-2 w-[560px] bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl shadow-2xl z-50 animate-fade-in">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100 dark:border-gray-700">
+        <span className="flex items-center gap-2 text-[10px] font-bold text-gray-400 uppercase tracking-widest">
+          <SlidersHorizontal className="w-3 h-3" /> Filter Builder
+        </span>
+        <div className="flex items-center gap-3">
+          {filter.children.length > 0 && (
+            <button onClick={() => onChange({ ...filter, children: [] })} className="text-[10px] font-bold uppercase tracking-wider text-red-500 hover:underline">Clear</button>
+          )}
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><X className="w-3 h-3" /></button>
+        </div>
+      </div>
+
+      <div className="max-h-96 overflow-y-auto custom-scrollbar p-4">
+        <GroupEditor group={filter} columns={columns} problems={problems} depth={0} onChange={onChange} />
+      </div>
+
+      <div className="flex items-center gap-2 px-4 py-3 border-t border-gray-100 dark:border-gray-700">
+        <span className="text-[10px] font-bold text-gray-400 uppercase tracking-widest whitespace-nowrap">{matchCount} of {totalRows} rows</span>
+        <input type="text" value={name} onChange={(e) => setName(e.target.value)} className={`${inputClass} min-w-0 flex-1`} title="Name of the new dataset" />
+        <button
+          onClick={() => onSaveAsDataset(name)}
+          disabled={matchCount === 0 || !name.trim()}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-blue-500/10 hover:text-blue-600 disabled:opacity-40 transition-colors whitespace-nowrap"
+          title="Save the rows in the current view, including search and column filters, as a new dataset"
+        >
+          <Save className="w-3.5 h-3.5" /> Save as Dataset
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,42 @@
+import React from 'react';
+import { Loader2, X } from 'lucide-react';
+
+interface ImportProgressProps {
+  fileName: string;
+  loaded: number;
+  total: number;
+  onCancel: () => void;
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes >= 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${bytes} B`;
+};
+
+export const ImportProgress: React.FC<ImportProgressProps> = ({ fileName, loaded, total, onCancel }) => {
+  const percent = total > 0 ? Math.min(100, (loaded / total) * 100) : 0;
+  const isFinishing = total > 0 && loaded >= total;
+
+  return (
+    <div className="fixed bottom-6 right-6 z-[100] w-80 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-2xl shadow-2xl p-4 animate-fade-in">
+      <div className="flex items-center justify-between gap-3 mb-3">
+        <div className="flex items-center gap-2 min-w-0">
+          <Loader2 className="w-4 h-4 text-blue-500 animate-spin shrink-0" />
+          <span className="text-sm font-semibold text-gray-900 dark:text-white truncate">{fileName}</span>
+        </div>
+        <button onClick={onCancel} className="p-1 rounded-lg text-gray-400 hover:text-red-500 hover:bg-red-500/5 transition-colors shrink-0" title="Cancel import">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      <div className="h-1.5 bg-gray-100 dark:bg-gray-700 rounded-full overflow-hidden">
+        <div className="h-full bg-blue-600 rounded-full transition-all duration-200" style={{ width: `${percent}%` }} />
+      </div>
+      <div className="mt-2 flex justify-between text-[10px] font-bold text-gray-400 uppercase tracking-widest">
+        <span>{isFinishing ? 'Detecting column types' : `${formatBytes(loaded)} of ${formatBytes(total)}`}</span>
+        <span>{percent.toFixed(0)}%</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,219 @@
+import React, { useMemo, useState } from 'react';
+import { X, Download, Grid3x3, BarChart3, AlertTriangle } from 'lucide-react';
+import { AggregationType, ColumnMeta, DataTable } from '../types';
+import { AGGREGATION_OPTIONS } from '../utils/chartUtils';
+import { downloadBlob } from '../utils/exporters';
+import { MAX_PIVOT_COLUMNS, PivotChartType, PivotResult, PivotSpec, buildPivot, pivotRowLabels, pivotToCsv } from '../utils/pivot';
+
+interface PivotTableModalProps {
+  data: DataTable;
+  columns: ColumnMeta[];
+  datasetName: string;
+  onSendToChart: (type: PivotChartType, result: PivotResult) => void;
+  onClose: () => void;
+}
+
+// The full pivot is exported and charted; only the first rows are rendered
+const PREVIEW_ROWS = 500;
+
+const inputClass = 'w-full bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded px-3 py-2 text-sm text-gray-900 dark:text-gray-200 focus:ring-1 focus:ring-blue-500 outline-none transition-colors';
+const labelClass = 'block text-xs text-gray-500 dark:text-gray-400 mb-1 font-medium';
+
+const formatCell = (value: number | null) =>
+  value === null ? '' : value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+interface FieldListProps {
+  label: string;
+  fields: string[];
+  available: string[];
+  onChange: (fields: string[]) => void;
+}
+
+const FieldList: React.FC<FieldListProps> = ({ label, fields, available, onChange }) => (
+  <div>
+    <label className={labelClass}>{label}</label>
+    <div className="flex flex-wrap gap-1.5 mb-2">
+      {fields.map(f => (
+        <span key={f} className="flex items-center gap-1 pl-2 pr-1 py-1 rounded-md bg-blue-500/10 text-[11px] font-medium text-blue-600 dark:text-blue-400">
+          {f}
+          <button onClick={() => onChange(fields.filter(x => x !== f))} className="p-0.5 rounded hover:bg-blue-500/20" title={`Remove ${f}`}>
+            <X className="w-3 h-3" />
+          </button>
+        </span>
+      ))}
+    </div>
+    <select value="" onChange={(e) => e.target.value && onChange([...fields, e.target.value])} className={inputClass}>
+      <option value="">Add field…</option>
+      {available.map(h => <option key={h} value={h}>{h}</option>)}
+    </select>
+  </div>
+);
+
+export const PivotTableModal: React.FC<PivotTableModalProps> = ({ data, columns, datasetName, onSendToChart, onClose }) => {
+  const [spec, setSpec] = useState<PivotSpec>(() => {
+    const category = columns.find(c => c.type === 'string' || c.type === 'boolean');
+    const measure = columns.find(c => c.type === 'number');
+    return {
+      rows: category ? [category.name] : [],
+      columns: [],
+      values: measure ? [{ column: measure.name, aggregation: 'sum' }] : columns.length > 0 ? [{ column: columns[0].name, aggregation: 'count' }] : [],
+      subtotals: true,
+      grandTotals: true
+    };
+  });
+
+  const result = useMemo(() => (spec.values.length > 0 ? buildPivot(data, spec) : null), [data, spec]);
+
+  const used = new Set([...spec.rows, ...spec.columns]);
+  const available = data.headers.filter(h => !used.has(h));
+  const update = (patch: Partial<PivotSpec>) => setSpec(prev => ({ ...prev, ...patch }));
+
+  const setValue = (index: number, patch: { column?: string; aggregation?: AggregationType }) =>
+    update({ values: spec.values.map((v, i) => (i === index ? { ...v, ...patch } : v)) });
+
+  const addValue = (column: string) => {
+    const isNumeric = columns.find(c => c.name === column)?.type === 'number';
+    update({ values: [...spec.values, { column, aggregation: isNumeric ? 'sum' : 'count' }] });
+  };
+
+  const canChart = !!result && result.rows.some(r => r.kind === 'data');
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-2xl w-full max-w-6xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh] transition-colors duration-300">
+        <div className="p-6 border-b border-gray-100 dark:border-gray-700 flex justify-between items-center">
+            <div>
+                <h2 className="text-xl font-bold text-gray-900 dark:text-white">Pivot Table</h2>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Summarize {datasetName} by row and column fields. Totals are computed from the underlying rows.</p>
+            </div>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors p-1 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700">
+                <X className="w-5 h-5" />
+            </button>
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+            <div className="w-72 shrink-0 border-r border-gray-100 dark:border-gray-700 overflow-y-auto custom-scrollbar p-6 space-y-5">
+                <FieldList label="Rows" fields={spec.rows} available={available} onChange={(rows) => update({ rows })} />
+                <FieldList label="Columns" fields={spec.columns} available={available} onChange={(cols) => update({ columns: cols })} />
+
+                <div>
+                    <label className={labelClass}>Values</label>
+                    <div className="space-y-2 mb-2">
+                        {spec.values.map((v, i) => (
+                            <div key={i} className="flex items-center gap-1.5">
+                                <select value={v.aggregation} onChange={(e) => setValue(i, { aggregation: e.target.value as AggregationType })} className={`${inputClass} w-28 shrink-0 px-2`}>
+                                    {AGGREGATION_OPTIONS.map(o => <option key={o.type} value={o.type}>{o.label}</option>)}
+                                </select>
+                                <select value={v.column} onChange={(e) => setValue(i, { column: e.target.value })} className={`${inputClass} min-w-0 px-2`}>
+                                    {data.headers.map(h => <option key={h} value={h}>{h}</option>)}
+                                </select>
+                                <button onClick={() => update({ values: spec.values.filter((_, j) => j !== i) })} className="p-1 text-gray-400 hover:text-red-500 transition-colors shrink-0" title="Remove value">
+                                    <X className="w-3.5 h-3.5" />
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                    <select value="" onChange={(e) => e.target.value && addValue(e.target.value)} className={inputClass}>
+                        <option value="">Add value…</option>
+                        {data.headers.map(h => <option key={h} value={h}>{h}</option>)}
+                    </select>
+                </div>
+
+                <div className="space-y-2">
+                    <label className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-300 cursor-pointer">
+                        <input type="checkbox" checked={spec.subtotals} onChange={(e) => update({ subtotals: e.target.checked })} className="rounded" />
+                        Subtotals
+                    </label>
+                    <label className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-300 cursor-pointer">
+                        <input type="checkbox" checked={spec.grandTotals} onChange={(e) => update({ grandTotals: e.target.checked })} className="rounded" />
+                        Grand totals
+                    </label>
+                </div>
+            </div>
+
+            <div className="flex-1 flex flex-col min-w-0">
+                {result && result.hiddenColumns > 0 && (
+                    <div className="flex items-center gap-2 px-4 py-2 border-b border-gray-100 dark:border-gray-700 text-[11px] text-amber-500">
+                        <AlertTriangle className="w-3.5 h-3.5 shrink-0" />
+                        Only the first {MAX_PIVOT_COLUMNS} column values are shown; {result.hiddenColumns} more were left out. Use a column field with fewer values.
+                    </div>
+                )}
+                {result ? (
+                    <div className="flex-1 overflow-auto custom-scrollbar">
+                        <table className="text-[11px] border-collapse">
+                            <thead className="bg-gray-50 dark:bg-gray-900 sticky top-0 z-10 text-gray-500 dark:text-gray-400">
+                                <tr>
+                                    {spec.rows.map(r => <th key={r} className="px-3 py-2 text-left font-semibold whitespace-nowrap border-b border-gray-200 dark:border-gray-700">{r}</th>)}
+                                    {result.columns.map((c, i) => (
+                                        <th key={i} className={`px-3 py-2 text-right font-semibold whitespace-nowrap border-b border-gray-200 dark:border-gray-700 ${c.isTotal ? 'text-gray-900 dark:text-white' : ''}`}>{c.label}</th>
+                                    ))}
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {result.rows.slice(0, PREVIEW_ROWS).map((row, i) => (
+                                    <tr
+                                        key={i}
+                                        className={`border-b border-gray-100 dark:border-gray-700/60 ${
+                                            row.kind === 'total' ? 'bg-blue-500/10 font-bold text-gray-900 dark:text-white'
+                                            : row.kind === 'subtotal' ? 'bg-gray-50 dark:bg-gray-900/50 font-semibold text-gray-800 dark:text-gray-200'
+                                            : 'text-gray-700 dark:text-gray-300'
+                                        }`}
+                                    >
+                                        {pivotRowLabels(row, spec.rows.length).map((label, j) => (
+                                            <td key={j} className="px-3 py-1.5 whitespace-nowrap max-w-[200px] truncate">{label}</td>
+                                        ))}
+                                        {row.cells.map((value, j) => (
+                                            <td key={j} className={`px-3 py-1.5 text-right font-mono whitespace-nowrap ${result.columns[j].isTotal ? 'font-semibold' : ''}`}>{formatCell(value)}</td>
+                                        ))}
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                        {result.rows.length > PREVIEW_ROWS && (
+                            <p className="px-4 py-3 text-[11px] text-gray-400">
+                                Showing the first {PREVIEW_ROWS} of {result.rows.length} rows. Export the pivot to see all of them.
+                            </p>
+                        )}
+                    </div>
+                ) : (
+                    <div className="flex-1 flex items-center justify-center p-8">
+                        <p className="text-sm text-gray-400 dark:text-gray-500 text-center max-w-sm">Add a value field to summarize.</p>
+                    </div>
+                )}
+            </div>
+        </div>
+
+        <div className="p-4 border-t border-gray-100 dark:border-gray-700 flex items-center justify-between gap-2">
+            <span className="text-[10px] font-bold text-gray-400 dark:text-gray-500 uppercase tracking-widest">
+                {result ? `${result.rows.length} rows · ${result.columns.length} value columns` : ''}
+            </span>
+            <div className="flex gap-2">
+                <button
+                    onClick={() => result && downloadBlob(new Blob([pivotToCsv(result)], { type: 'text/csv;charset=utf-8;' }), `${datasetName} pivot.csv`)}
+                    disabled={!result}
+                    className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-40 transition-colors"
+                >
+                    <Download className="w-4 h-4" /> Export CSV
+                </button>
+                <button
+                    onClick={() => result && onSendToChart('heatmap', result)}
+                    disabled={!canChart}
+                    className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-blue-500/10 hover:text-blue-600 disabled:opacity-40 transition-colors"
+                    title="Chart the first value field as a heatmap"
+                >
+                    <Grid3x3 className="w-4 h-4" /> Heatmap
+                </button>
+                <button
+                    onClick={() => result && onSendToChart('stacked_bar', result)}
+                    disabled={!canChart}
+                    className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium bg-blue-600 hover:bg-blue-500 text-white shadow-md disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                    title="Chart the first value field as a stacked bar chart"
+                >
+                    <BarChart3 className="w-4 h-4" /> Stacked Bar
+                </button>
+            </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { X, ScrollText, Play, Download, Upload, Trash2, Save, CheckCircle2, AlertTriangle } from 'lucide-react';
+import { Recipe } from '../types';
+import { downloadBlob } from '../utils/exporters';
+import { RecipeRun, recipeFileName, serializeRecipe } from '../utils/recipes';
+import { describeStep } from '../utils/transforms';
+
+interface RecipePanelProps {
+  recipes: Recipe[];
+  stepCount: number; // Replayable steps in the active dataset's current version
+  onSave: (name: string) => void;
+  onApply: (recipeId: string) => RecipeRun | null;
+  onDelete: (recipeId: string) => void;
+  onImport: (json: string) => void;
+  onClose: () => void;
+}
+
+const downloadRecipe = (recipe: Recipe) =>
+  downloadBlob(new Blob([serializeRecipe(recipe)], { type: 'application/json;charset=utf-8;' }), recipeFileName(recipe));
+
+export const RecipePanel: React.FC<RecipePanelProps> = ({ recipes, stepCount, onSave, onApply, onDelete, onImport, onClose }) => {
+  const [name, setName] = useState('');
+  const [lastRun, setLastRun] = useState<RecipeRun | null>(null);
+
+  const handleSave = () => {
+    onSave(name);
+    setName('');
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onImport(await file.text());
+  };
+
+  const failedCount = lastRun?.results.filter(r => r.status === 'failed').length ?? 0;
+
+  return (
+    <div className="absolute right-0 top-full mt-2 w-96 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl shadow-2xl z-50 animate-fade-in">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100 dark:border-gray-700">
+        <span className="flex items-center gap-2 text-[10px] font-bold text-gray-400 uppercase tracking-widest">
+          <ScrollText className="w-3 h-3" /> Recipes
+        </span>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><X className="w-3 h-3" /></button>
+      </div>
+
+      <div className="p-3 border-b border-gray-100 dark:border-gray-700">
+        <p className="text-[10px] text-gray-400 mb-2">
+          {stepCount > 0
+            ? `Save the ${stepCount} ${stepCount === 1 ? 'step' : 'steps'} applied to this dataset so they can be replayed on the next upload.`
+            : 'Clean or retype columns first; the steps can then be saved as a recipe.'}
+        </p>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={name}
+            placeholder="Recipe name"
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && stepCount > 0 && handleSave()}
+            className="flex-1 min-w-0 bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg px-2 py-1.5 text-xs text-gray-900 dark:text-gray-200 focus:ring-1 focus:ring-blue-500 outline-none"
+          />
+          <button
+            onClick={handleSave}
+            disabled={stepCount === 0}
+            className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-[10px] font-bold uppercase tracking-wider bg-blue-600 hover:bg-blue-500 text-white disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+          >
+            <Save className="w-3 h-3" /> Save
+          </button>
+        </div>
+      </div>
+
+      <div className="max-h-64 overflow-y-auto custom-scrollbar p-2 flex flex-col gap-1">
+        {recipes.length === 0 && <p className="text-xs text-gray-400 text-center py-4">No saved recipes yet.</p>}
+        {recipes.map(recipe => (
+          <div key={recipe.id} className="group/item flex items-center gap-2 px-2 py-1.5 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors">
+            <div className="flex-1 min-w-0" title={recipe.steps.map(describeStep).join('\n')}>
+              <span className="block text-xs text-gray-700 dark:text-gray-200 truncate">{recipe.name}</span>
+              <span className="block text-[10px] text-gray-400">{recipe.steps.length} {recipe.steps.length === 1 ? 'step' : 'steps'} · {new Date(recipe.createdAt).toLocaleDateString()}</span>
+            </div>
+            <button onClick={() => setLastRun(onApply(recipe.id))} className="p-1 rounded-md text-gray-400 hover:text-blue-500 transition-colors" title="Apply to this dataset">
+              <Play className="w-3 h-3" />
+            </button>
+            <button onClick={() => downloadRecipe(recipe)} className="p-1 rounded-md text-gray-400 hover:text-blue-500 transition-colors" title="Download as JSON">
+              <Download className="w-3 h-3" />
+            </button>
+            <button onClick={() => onDelete(recipe.id)} className="p-1 rounded-md text-gray-400 hover:text-red-500 opacity-0 group-hover/item:opacity-100 transition-all" title="Delete recipe">
+              <Trash2 className="w-3 h-3" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {lastRun && (
+        <div className="p-3 border-t border-gray-100 dark:border-gray-700">
+          <span className={`block text-[10px] font-bold uppercase tracking-widest mb-2 ${failedCount > 0 ? 'text-amber-500' : 'text-green-500'}`}>
+            {lastRun.recipeName} on {lastRun.datasetName}: {failedCount > 0 ? `${failedCount} failed` : 'all steps applied'}
+          </span>
+          <div className="max-h-40 overflow-y-auto custom-scrollbar flex flex-col gap-1.5">
+            {lastRun.results.map((result, i) => (
+              <div key={i} className="flex gap-2">
+                {result.status === 'applied'
+                  ? <CheckCircle2 className="w-3 h-3 text-green-500 shrink-0 mt-0.5" />
+                  : <AlertTriangle className="w-3 h-3 text-amber-500 shrink-0 mt-0.5" />}
+                <div className="min-w-0">
+                  <span className="block text-xs text-gray-700 dark:text-gray-200 truncate">{result.label}</span>
+                  <span className="block text-[10px] text-gray-400">{result.message}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="p-2 border-t border-gray-100 dark:border-gray-700">
+        <label className="flex items-center justify-center gap-1 py-1.5 rounded-lg text-[10px] font-bold uppercase tracking-wider text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-500/10 transition-colors cursor-pointer">
+          <Upload className="w-3 h-3" /> Import Recipe
+          <input type="file" className="hidden" accept=".json,application/json" onChange={handleImportFile} />
+        </label>
+      </div>
+    </div>
+  );
+};
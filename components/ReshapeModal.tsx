@@ -0,0 +1,233 @@
+import React, { useMemo, useState } from 'react';
+import { X, UnfoldVertical, UnfoldHorizontal, Split, Combine, CheckSquare, Square } from 'lucide-react';
+import { AggregationType, ColumnMeta, TransformStep } from '../types';
+import { TransformOp, describeStep, toTransformStep } from '../utils/transforms';
+import { AGGREGATION_OPTIONS } from '../utils/chartUtils';
+import { MAX_SPLIT_PARTS, splitPattern } from '../utils/reshape';
+
+interface ReshapeModalProps {
+  columns: ColumnMeta[];
+  onApply: (step: TransformStep) => void;
+  onClose: () => void;
+}
+
+type ReshapeOp = Extract<TransformOp, 'melt' | 'pivot_wider' | 'split_column' | 'merge_columns'>;
+
+const OPERATIONS: { op: ReshapeOp; label: string; icon: any; description: string }[] = [
+  { op: 'melt', label: 'Unpivot', icon: UnfoldVertical, description: 'Turn columns such as Jan, Feb, Mar into key/value rows so they can be charted as a series' },
+  { op: 'pivot_wider', label: 'Pivot Wider', icon: UnfoldHorizontal, description: 'Spread a key column into one column per value; the other columns identify each row' },
+  { op: 'split_column', label: 'Split', icon: Split, description: 'Split a column into several on a delimiter or regular expression' },
+  { op: 'merge_columns', label: 'Merge', icon: Combine, description: 'Join several columns into one text column with a separator' }
+];
+
+const inputClass = 'w-full bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded px-3 py-2 text-sm text-gray-900 dark:text-gray-200 focus:ring-1 focus:ring-blue-500 outline-none transition-colors';
+const labelClass = 'block text-xs text-gray-500 dark:text-gray-400 mb-1 font-medium';
+
+const Toggle: React.FC<{ checked: boolean; onChange: (checked: boolean) => void; label: string }> = ({ checked, onChange, label }) => (
+  <button onClick={() => onChange(!checked)} className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-300 truncate">
+    {checked ? <CheckSquare className="w-4 h-4 text-blue-500 shrink-0" /> : <Square className="w-4 h-4 text-gray-300 dark:text-gray-600 shrink-0" />}
+    {label}
+  </button>
+);
+
+export const ReshapeModal: React.FC<ReshapeModalProps> = ({ columns, onApply, onClose }) => {
+  const [op, setOp] = useState<ReshapeOp>('melt');
+  // Shared by melt and merge; merge joins the columns in the order they were picked
+  const [picked, setPicked] = useState<string[]>([]);
+  const [keyName, setKeyName] = useState('key');
+  const [valueName, setValueName] = useState('value');
+  const [keyColumn, setKeyColumn] = useState(columns[0]?.name ?? '');
+  const [valueColumn, setValueColumn] = useState(columns[1]?.name ?? '');
+  const [aggregation, setAggregation] = useState<AggregationType | ''>('');
+  const [column, setColumn] = useState(columns[0]?.name ?? '');
+  const [delimiter, setDelimiter] = useState(',');
+  const [useRegex, setUseRegex] = useState(false);
+  const [limit, setLimit] = useState('');
+  const [mergeName, setMergeName] = useState('');
+  const [separator, setSeparator] = useState(' ');
+  const [removeSource, setRemoveSource] = useState(false);
+
+  const step = useMemo(() => {
+    switch (op) {
+      case 'melt': return toTransformStep({ op, columns: picked, keyName: keyName.trim(), valueName: valueName.trim() });
+      case 'pivot_wider': return toTransformStep({ op, keyColumn, valueColumn, aggregation: aggregation || undefined });
+      case 'split_column': return toTransformStep({ op, column, delimiter, regex: useRegex, limit: limit ? Number(limit) : undefined, removeSource });
+      case 'merge_columns': return toTransformStep({ op, columns: picked, name: mergeName.trim(), separator, removeSource });
+    }
+  }, [op, picked, keyName, valueName, keyColumn, valueColumn, aggregation, column, delimiter, useRegex, limit, mergeName, separator, removeSource]);
+
+  // Checked here so mistakes show up before the step is applied
+  const problem = useMemo(() => {
+    const names = columns.map(c => c.name);
+    if (op === 'melt') {
+      const kept = names.filter(n => !picked.includes(n));
+      const clash = [keyName.trim(), valueName.trim()].find(n => kept.includes(n));
+      if (clash) return `A column named ${clash} already exists`;
+      if (keyName.trim() && keyName.trim() === valueName.trim()) return 'The key and value columns need different names';
+    }
+    if (op === 'pivot_wider' && keyColumn === valueColumn) return 'The key and value columns must be different';
+    if (op === 'split_column' && useRegex && delimiter) {
+      try {
+        splitPattern(delimiter, true);
+      } catch (err) {
+        return err instanceof Error ? err.message : 'Invalid pattern';
+      }
+    }
+    if (op === 'merge_columns' && names.includes(mergeName.trim()) && !(removeSource && picked.includes(mergeName.trim()))) {
+      return `A column named ${mergeName.trim()} already exists`;
+    }
+    return null;
+  }, [op, columns, picked, keyName, valueName, keyColumn, valueColumn, useRegex, delimiter, mergeName, removeSource]);
+
+  const canApply = !!step && !problem;
+
+  const togglePicked = (name: string) => {
+    setPicked(prev => prev.includes(name) ? prev.filter(k => k !== name) : [...prev, name]);
+  };
+
+  const switchOp = (next: ReshapeOp) => {
+    setOp(next);
+    setPicked([]);
+    setRemoveSource(false);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-2xl w-full max-w-xl shadow-2xl overflow-hidden flex flex-col max-h-[85vh] transition-colors duration-300">
+        <div className="p-6 border-b border-gray-100 dark:border-gray-700 flex justify-between items-center">
+            <div>
+                <h2 className="text-xl font-bold text-gray-900 dark:text-white">Reshape Data</h2>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Change the layout of the table. Each operation is recorded in the version history.</p>
+            </div>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors p-1 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700">
+                <X className="w-5 h-5" />
+            </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-5 custom-scrollbar">
+            <div className="grid grid-cols-4 gap-2">
+                {OPERATIONS.map(o => (
+                    <button
+                        key={o.op}
+                        onClick={() => switchOp(o.op)}
+                        title={o.description}
+                        className={`flex flex-col items-center gap-1.5 p-3 rounded-lg border text-xs font-semibold transition-colors ${op === o.op ? 'border-blue-500 bg-blue-50 dark:bg-blue-500/10 text-blue-600 dark:text-blue-400' : 'border-gray-200 dark:border-gray-700 text-gray-500 dark:text-gray-400 hover:border-gray-300 dark:hover:border-gray-600'}`}
+                    >
+                        <o.icon className="w-4 h-4" />
+                        {o.label}
+                    </button>
+                ))}
+            </div>
+            <p className="text-[11px] text-gray-400 -mt-3">{OPERATIONS.find(o => o.op === op)?.description}</p>
+
+            {(op === 'melt' || op === 'merge_columns') && (
+                <div>
+                    <label className={labelClass}>{op === 'melt' ? 'Columns to Unpivot' : 'Columns to Merge'}</label>
+                    {op === 'merge_columns' && <p className="text-[11px] text-gray-400 mb-2">Values are joined in the order the columns are picked{picked.length > 0 ? `: ${picked.join(', ')}` : ''}.</p>}
+                    <div className="grid grid-cols-2 gap-2 max-h-40 overflow-y-auto custom-scrollbar">
+                        {columns.map(c => (
+                            <Toggle key={c.name} checked={picked.includes(c.name)} onChange={() => togglePicked(c.name)} label={c.name} />
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {op === 'melt' && (
+                <div className="grid grid-cols-2 gap-4">
+                    <div>
+                        <label className={labelClass}>Key Column Name</label>
+                        <input type="text" value={keyName} onChange={(e) => setKeyName(e.target.value)} placeholder="month" className={inputClass} />
+                    </div>
+                    <div>
+                        <label className={labelClass}>Value Column Name</label>
+                        <input type="text" value={valueName} onChange={(e) => setValueName(e.target.value)} placeholder="sales" className={inputClass} />
+                    </div>
+                </div>
+            )}
+
+            {op === 'pivot_wider' && (
+                <div className="grid grid-cols-2 gap-4">
+                    <div>
+                        <label className={labelClass}>Key Column</label>
+                        <select value={keyColumn} onChange={(e) => setKeyColumn(e.target.value)} className={inputClass}>
+                            {columns.map(c => <option key={c.name} value={c.name}>{c.name} ({c.uniqueCount} values)</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label className={labelClass}>Value Column</label>
+                        <select value={valueColumn} onChange={(e) => setValueColumn(e.target.value)} className={inputClass}>
+                            {columns.map(c => <option key={c.name} value={c.name}>{c.name} ({c.type})</option>)}
+                        </select>
+                    </div>
+                    <div className="col-span-2">
+                        <label className={labelClass}>Duplicate Keys</label>
+                        <select value={aggregation} onChange={(e) => setAggregation(e.target.value as AggregationType | '')} className={inputClass}>
+                            <option value="">Keep the first value</option>
+                            {AGGREGATION_OPTIONS.map(o => <option key={o.type} value={o.type}>{o.label}</option>)}
+                        </select>
+                        <p className="text-[11px] text-gray-400 mt-1.5">Used when several rows share the same key and identifying columns.</p>
+                    </div>
+                </div>
+            )}
+
+            {op === 'split_column' && (
+                <div className="space-y-3">
+                    <div>
+                        <label className={labelClass}>Column</label>
+                        <select value={column} onChange={(e) => setColumn(e.target.value)} className={inputClass}>
+                            {columns.map(c => <option key={c.name} value={c.name}>{c.name} ({c.type})</option>)}
+                        </select>
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className={labelClass}>Delimiter</label>
+                            <input type="text" value={delimiter} onChange={(e) => setDelimiter(e.target.value)} className={`${inputClass} font-mono`} />
+                        </div>
+                        <div>
+                            <label className={labelClass}>Max Columns</label>
+                            <input type="number" min="2" max={MAX_SPLIT_PARTS} value={limit} placeholder="All parts" onChange={(e) => setLimit(e.target.value)} className={inputClass} />
+                        </div>
+                    </div>
+                    <Toggle checked={useRegex} onChange={setUseRegex} label="Regular expression" />
+                </div>
+            )}
+
+            {op === 'merge_columns' && (
+                <div className="grid grid-cols-2 gap-4">
+                    <div>
+                        <label className={labelClass}>New Column Name</label>
+                        <input type="text" value={mergeName} onChange={(e) => setMergeName(e.target.value)} placeholder="full_name" className={inputClass} />
+                    </div>
+                    <div>
+                        <label className={labelClass}>Separator</label>
+                        <input type="text" value={separator} onChange={(e) => setSeparator(e.target.value)} className={`${inputClass} font-mono`} />
+                    </div>
+                </div>
+            )}
+
+            {(op === 'split_column' || op === 'merge_columns') && (
+                <Toggle checked={removeSource} onChange={setRemoveSource} label={op === 'split_column' ? 'Remove the original column' : 'Remove the merged columns'} />
+            )}
+
+            {problem && <p className="text-[11px] text-red-500">{problem}</p>}
+        </div>
+
+        <div className="p-4 border-t border-gray-100 dark:border-gray-700 flex items-center justify-between gap-2">
+            <span className="text-[11px] text-gray-400 truncate">{step ? describeStep(step) : ''}</span>
+            <div className="flex gap-2 shrink-0">
+                <button onClick={onClose} className="px-4 py-2 rounded-lg text-sm font-medium text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors">
+                    Cancel
+                </button>
+                <button
+                    onClick={() => step && onApply(step)}
+                    disabled={!canApply}
+                    className="px-4 py-2 rounded-lg text-sm font-medium bg-blue-600 hover:bg-blue-500 text-white shadow-md disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                >
+                    Apply
+                </button>
+            </div>
+        </div>
+      </div>
+    </div>
+  );
+};
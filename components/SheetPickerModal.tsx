@@ -0,0 +1,47 @@
+import React from 'react';
+import { X, FileSpreadsheet, ChevronRight } from 'lucide-react';
+import { SheetSummary } from '../utils/importers';
+
+interface SheetPickerModalProps {
+  fileName: string;
+  sheets: SheetSummary[];
+  onSelect: (sheetName: string) => void;
+  onClose: () => void;
+}
+
+export const SheetPickerModal: React.FC<SheetPickerModalProps> = ({ fileName, sheets, onSelect, onClose }) => {
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-2xl w-full max-w-md shadow-2xl overflow-hidden flex flex-col max-h-[80vh] transition-colors duration-300">
+        <div className="p-6 border-b border-gray-100 dark:border-gray-700 flex justify-between items-center">
+            <div className="min-w-0">
+                <h2 className="text-xl font-bold text-gray-900 dark:text-white">Select Worksheet</h2>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1 truncate">{fileName}</p>
+            </div>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors p-1 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700">
+                <X className="w-5 h-5" />
+            </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-2 custom-scrollbar">
+            {sheets.map(sheet => (
+                <button
+                    key={sheet.name}
+                    onClick={() => onSelect(sheet.name)}
+                    className="w-full flex items-center justify-between p-4 bg-gray-50 dark:bg-gray-900/50 rounded-xl border border-gray-100 dark:border-gray-700 hover:border-blue-500 hover:bg-blue-50 dark:hover:bg-blue-500/5 transition-colors shadow-sm group"
+                >
+                    <div className="flex items-center gap-3 min-w-0">
+                        <FileSpreadsheet className="w-4 h-4 text-green-600 dark:text-green-400 shrink-0" />
+                        <span className="text-sm font-semibold text-gray-800 dark:text-gray-200 truncate">{sheet.name}</span>
+                    </div>
+                    <div className="flex items-center gap-2 shrink-0">
+                        <span className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">{sheet.rowCount} rows</span>
+                        <ChevronRight className="w-4 h-4 text-gray-300 dark:text-gray-600 group-hover:text-blue-500 transition-colors" />
+                    </div>
+                </button>
+            ))}
+        </div>
+      </div>
+    </div>
+  );
+};
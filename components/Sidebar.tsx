@@ -1,6 +1,6 @@
 
 import React, { useState } from 'react';
-import { LayoutDashboard, Database, BarChart2, BrainCircuit, Settings, Sparkles, ChevronLeft, ChevronRight, Moon, Sun, LogOut } from 'lucide-react';
+import { LayoutDashboard, Database, TerminalSquare, BarChart2, BrainCircuit, Settings, Sparkles, ChevronLeft, ChevronRight, Moon, Sun, LogOut } from 'lucide-react';
 import { AppView, User } from '../types';
 
 interface SidebarProps {
@@ -31,6 +31,7 @@ export const Sidebar: React.FC<SidebarProps> = ({
   const navItems = [
     { id: AppView.DASHBOARD, label: 'Dashboard', icon: LayoutDashboard },
     { id: AppView.DATA, label: 'Data Studio', icon: Database },
+    { id: AppView.SQL, label: 'SQL Console', icon: TerminalSquare },
     { id: AppView.VISUALIZE, label: 'Visualization', icon: BarChart2 },
     { id: AppView.INSIGHTS, label: 'AI Insights', icon: BrainCircuit },
   ];
@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { X, ShieldCheck, Plus, Trash2, AlertTriangle, CheckCircle2, Filter } from 'lucide-react';
+import { ColumnMeta, Dataset, ValidationRule, ValidationRuleKind } from '../types';
+import { VALIDATION_RULES, ValidationReport, createRule, describeRule, ruleError, ruleLabel } from '../utils/validation';
+
+interface ValidationPanelProps {
+  rules: ValidationRule[];
+  report: ValidationReport;
+  columns: ColumnMeta[];
+  datasets: Dataset[];
+  activeDatasetId: string | null;
+  showInvalidOnly: boolean;
+  onToggleInvalidOnly: () => void;
+  onChange: (rules: ValidationRule[]) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded px-2 py-1.5 text-xs text-gray-900 dark:text-gray-200 focus:ring-1 focus:ring-blue-500 outline-none transition-colors';
+
+export const scoreColor = (score: number | null) =>
+  score === null ? 'text-gray-400' : score >= 99 ? 'text-green-600 dark:text-green-400' : score >= 90 ? 'text-amber-500' : 'text-red-500';
+
+export const ValidationPanel: React.FC<ValidationPanelProps> = ({ rules, report, columns, datasets, activeDatasetId, showInvalidOnly, onToggleInvalidOnly, onChange, onClose }) => {
+  const [draft, setDraft] = useState<ValidationRule>(() => createRule(columns[0]?.name ?? '', 'not_null'));
+  const [valuesText, setValuesText] = useState('');
+
+  const column = columns.find(c => c.name === draft.column);
+  const refDataset = datasets.find(d => d.name === draft.refDataset);
+  const otherDatasets = datasets.filter(d => d.id !== activeDatasetId);
+  const pending: ValidationRule = draft.kind === 'allowed'
+    ? { ...draft, values: valuesText.split(',').map(v => v.trim()).filter(Boolean) }
+    : draft;
+  const error = draft.column ? ruleError(pending) : 'Pick a column';
+  const elsewhere = rules.length - report.results.length;
+
+  const changeKind = (kind: ValidationRuleKind) => setDraft({ ...createRule(draft.column, kind), id: draft.id });
+
+  const addRule = () => {
+    if (error) return;
+    onChange([...rules, pending]);
+    setDraft(createRule(draft.column, draft.kind));
+    setValuesText('');
+  };
+
+  const inputType = column?.type === 'date' ? 'date' : 'number';
+
+  return (
+    <div className="absolute right-0 top-full mt-2 w-[480px] bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl shadow-2xl z-50 animate-fade-in">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100 dark:border-gray-700">
+        <span className="flex items-center gap-2 text-[10px] font-bold text-gray-400 uppercase tracking-widest">
+          <ShieldCheck className="w-3 h-3" /> Validation Rules
+        </span>
+        <div className="flex items-center gap-3">
+          <span className={`text-[10px] font-bold uppercase tracking-widest ${scoreColor(report.score)}`}>
+            {report.score === null ? 'No rules apply' : `Quality ${report.score}%`}
+          </span>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><X className="w-3 h-3" /></button>
+        </div>
+      </div>
+
+      <div className="max-h-72 overflow-y-auto custom-scrollbar p-2">
+        {report.results.length === 0 && (
+          <p className="px-2 py-4 text-center text-xs text-gray-400">No rules for the columns in this dataset yet.</p>
+        )}
+        {report.results.map(({ rule, checked, violations, problem }) => (
+          <div key={rule.id} className="group/item flex items-center gap-2 px-2 py-1.5 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors">
+            {problem ? <AlertTriangle className="w-3.5 h-3.5 text-amber-500 shrink-0" />
+              : violations > 0 ? <AlertTriangle className="w-3.5 h-3.5 text-red-500 shrink-0" />
+              : <CheckCircle2 className="w-3.5 h-3.5 text-green-500 shrink-0" />}
+            <div className="flex-1 min-w-0">
+              <p className="text-xs text-gray-700 dark:text-gray-200 truncate" title={describeRule(rule)}>{describeRule(rule)}</p>
+              <p className={`text-[10px] ${problem ? 'text-amber-500' : violations > 0 ? 'text-red-500' : 'text-gray-400'}`}>
+                {problem ?? (violations > 0 ? `${violations} of ${checked} values fail` : `All ${checked} values pass`)}
+              </p>
+            </div>
+            <button onClick={() => onChange(rules.filter(r => r.id !== rule.id))} className="p-1 rounded-md text-gray-400 hover:text-red-500 opacity-0 group-hover/item:opacity-100 transition-all" title="Delete rule">
+              <Trash2 className="w-3 h-3" />
+            </button>
+          </div>
+        ))}
+        {elsewhere > 0 && (
+          <p className="px-2 pt-1 text-[10px] text-gray-400">{elsewhere} more {elsewhere === 1 ? 'rule applies' : 'rules apply'} to columns this dataset does not have.</p>
+        )}
+      </div>
+
+      <div className="px-4 py-3 border-t border-gray-100 dark:border-gray-700 space-y-2">
+        <span className="block text-[10px] font-bold text-gray-400 uppercase tracking-widest">New Rule</span>
+        <div className="flex items-center gap-1.5">
+          <select value={draft.column} onChange={(e) => setDraft({ ...draft, column: e.target.value })} className={`${inputClass} w-36 shrink-0`}>
+            {columns.map(c => <option key={c.name} value={c.name}>{c.name}</option>)}
+          </select>
+          <select value={draft.kind} onChange={(e) => changeKind(e.target.value as ValidationRuleKind)} className={`${inputClass} flex-1 min-w-0`} title={VALIDATION_RULES.find(r => r.kind === draft.kind)?.hint}>
+            {VALIDATION_RULES.map(r => <option key={r.kind} value={r.kind}>{ruleLabel(r.kind)}</option>)}
+          </select>
+        </div>
+        {draft.kind === 'range' && (
+          <div className="flex items-center gap-1.5">
+            <input type={inputType} value={draft.min ?? ''} onChange={(e) => setDraft({ ...draft, min: e.target.value })} placeholder="Min" className={`${inputClass} flex-1 min-w-0`} />
+            <span className="text-[10px] text-gray-400">to</span>
+            <input type={inputType} value={draft.max ?? ''} onChange={(e) => setDraft({ ...draft, max: e.target.value })} placeholder="Max" className={`${inputClass} flex-1 min-w-0`} />
+          </div>
+        )}
+        {draft.kind === 'regex' && (
+          <input type="text" value={draft.pattern ?? ''} onChange={(e) => setDraft({ ...draft, pattern: e.target.value })} placeholder="e.g. [A-Z]{2}-\d{4}" className={`${inputClass} w-full font-mono`} />
+        )}
+        {draft.kind === 'allowed' && (
+          <input type="text" value={valuesText} onChange={(e) => setValuesText(e.target.value)} placeholder="Comma-separated values" className={`${inputClass} w-full`} />
+        )}
+        {draft.kind === 'foreign_key' && (
+          <div className="flex items-center gap-1.5">
+            <select value={draft.refDataset ?? ''} onChange={(e) => setDraft({ ...draft, refDataset: e.target.value || undefined, refColumn: undefined })} className={`${inputClass} flex-1 min-w-0`}>
+              <option value="">Dataset…</option>
+              {otherDatasets.map(d => <option key={d.id} value={d.name}>{d.name}</option>)}
+            </select>
+            <select value={draft.refColumn ?? ''} onChange={(e) => setDraft({ ...draft, refColumn: e.target.value || undefined })} disabled={!refDataset} className={`${inputClass} flex-1 min-w-0 disabled:opacity-40`}>
+              <option value="">Column…</option>
+              {refDataset?.table.headers.map(h => <option key={h} value={h}>{h}</option>)}
+            </select>
+          </div>
+        )}
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-[10px] text-gray-400 truncate">{draft.column && error ? error : VALIDATION_RULES.find(r => r.kind === draft.kind)?.hint}</span>
+          <button
+            onClick={addRule}
+            disabled={!!error}
+            className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-medium bg-blue-600 hover:bg-blue-500 text-white disabled:opacity-40 disabled:cursor-not-allowed transition-colors shrink-0"
+          >
+            <Plus className="w-3.5 h-3.5" /> Add Rule
+          </button>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between px-4 py-3 border-t border-gray-100 dark:border-gray-700">
+        <span className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">
+          {report.invalidRowCount} {report.invalidRowCount === 1 ? 'row breaks' : 'rows break'} a rule
+        </span>
+        <button
+          onClick={onToggleInvalidOnly}
+          disabled={report.invalidRowCount === 0 && !showInvalidOnly}
+          className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium transition-colors disabled:opacity-40 ${showInvalidOnly ? 'bg-red-500/10 text-red-600 dark:text-red-400' : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-red-500/10 hover:text-red-600'}`}
+        >
+          <Filter className="w-3.5 h-3.5" /> {showInvalidOnly ? 'Show All Rows' : 'Only Offending Rows'}
+        </button>
+      </div>
+    </div>
+  );
+};
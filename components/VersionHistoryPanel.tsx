@@ -0,0 +1,53 @@
+import React from 'react';
+import { X, History } from 'lucide-react';
+import { DatasetVersion } from '../types';
+import { describeDiff } from '../utils/history';
+
+interface VersionHistoryPanelProps {
+  history: DatasetVersion[];
+  currentVersion: number;
+  onJump: (version: number) => void;
+  onClose: () => void;
+}
+
+export const VersionHistoryPanel: React.FC<VersionHistoryPanelProps> = ({ history, currentVersion, onJump, onClose }) => {
+  return (
+    <div className="absolute right-0 top-full mt-2 w-80 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl shadow-2xl z-50 animate-fade-in">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100 dark:border-gray-700">
+        <span className="flex items-center gap-2 text-[10px] font-bold text-gray-400 uppercase tracking-widest">
+          <History className="w-3 h-3" /> Version History
+        </span>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><X className="w-3 h-3" /></button>
+      </div>
+
+      <div className="max-h-96 overflow-y-auto custom-scrollbar p-3">
+        {history.map((version, index) => {
+          const isCurrent = index === currentVersion;
+          const isUndone = index > currentVersion;
+          return (
+            <button
+              key={version.id}
+              onClick={() => onJump(index)}
+              className={`w-full flex gap-3 text-left rounded-lg px-2 py-2 transition-colors ${isCurrent ? 'bg-blue-500/10' : 'hover:bg-gray-50 dark:hover:bg-gray-700/50'}`}
+            >
+              <div className="flex flex-col items-center pt-1">
+                <span className={`w-2.5 h-2.5 rounded-full border-2 ${isCurrent ? 'bg-blue-500 border-blue-500' : isUndone ? 'border-gray-300 dark:border-gray-600' : 'bg-gray-300 dark:bg-gray-600 border-gray-300 dark:border-gray-600'}`} />
+                {index < history.length - 1 && <span className="flex-1 w-px bg-gray-200 dark:bg-gray-700 mt-1" />}
+              </div>
+              <div className={`min-w-0 flex-1 ${isUndone ? 'opacity-50' : ''}`}>
+                <div className="flex items-center justify-between gap-2">
+                  <span className={`text-xs truncate ${isCurrent ? 'font-semibold text-blue-600 dark:text-blue-400' : 'text-gray-700 dark:text-gray-200'}`}>{version.label}</span>
+                  <span className="text-[10px] text-gray-400 shrink-0">{new Date(version.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+                </div>
+                <p className="text-[10px] text-gray-400 mt-0.5">{index === 0 ? `${version.table.rowCount} rows · ${version.table.headers.length} columns` : describeDiff(version.diff)}</p>
+                {index > 0 && version.diff.changedColumns.length > 0 && (
+                  <p className="text-[10px] text-gray-400 truncate">in {version.diff.changedColumns.join(', ')}</p>
+                )}
+              </div>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,34 @@
+import { useEffect, useRef, useState } from 'react';
+import { ChartConfig, DataTable } from '../types';
+import { ChartData, chartDataKey } from '../utils/chartUtils';
+import { aggregateChartData } from '../services/dataWorkerClient';
+
+// Aggregates chart rows in the background worker. Only data-relevant config changes
+// trigger a new request; the previous result stays on screen until the new one lands.
+export const useChartData = (data: DataTable, config: ChartConfig) => {
+  const [result, setResult] = useState<ChartData>({ rows: [] });
+  const [isLoading, setIsLoading] = useState(false);
+  const configRef = useRef(config);
+  configRef.current = config;
+  const key = chartDataKey(config);
+
+  useEffect(() => {
+    let active = true;
+    setIsLoading(true);
+    aggregateChartData(data, configRef.current)
+      .then(next => {
+        if (active) setResult(next);
+      })
+      .catch(error => {
+        console.error('Chart aggregation failed:', error);
+        if (active) setResult({ rows: [] });
+      })
+      .finally(() => {
+        if (active) setIsLoading(false);
+      });
+    return () => { active = false; };
+  }, [data, key]);
+
+  const { rows: chartData, truncation, series, seriesTruncation } = result;
+  return { chartData, truncation, series, seriesTruncation, isLoading };
+};
@@ -0,0 +1,45 @@
+import { RefObject, useCallback, useEffect, useState } from 'react';
+
+// Browsers stop growing elements somewhere between 16M and 33M pixels, so taller lists
+// get a capped scroll height and move through the rows in proportionally larger steps
+const MAX_SCROLL_HEIGHT = 8_000_000;
+
+// Works out which rows of a fixed-height list are visible in a scroll container. Rows
+// between `first` and `last` are rendered; the paddings fill the space above and below.
+export const useVirtualRows = (containerRef: RefObject<HTMLElement | null>, rowCount: number, rowHeight: number, overscan = 10) => {
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewport, setViewport] = useState(800);
+
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const handleScroll = () => setScrollTop(el.scrollTop);
+    const observer = new ResizeObserver(() => setViewport(el.clientHeight));
+    el.addEventListener('scroll', handleScroll, { passive: true });
+    observer.observe(el);
+    setViewport(el.clientHeight);
+    return () => {
+      el.removeEventListener('scroll', handleScroll);
+      observer.disconnect();
+    };
+  }, [containerRef]);
+
+  const total = rowCount * rowHeight;
+  const height = Math.min(total, MAX_SCROLL_HEIGHT);
+  const maxScroll = Math.max(0, height - viewport);
+  const scale = total > height && maxScroll > 0 ? (total - viewport) / maxScroll : 1;
+  const top = Math.min(scrollTop, maxScroll);
+  const offset = top * scale;
+
+  const first = Math.max(0, Math.min(rowCount, Math.floor(offset / rowHeight) - overscan));
+  const last = Math.max(first, Math.min(rowCount, Math.ceil((offset + viewport) / rowHeight) + overscan));
+  const paddingTop = Math.max(0, top - (offset - first * rowHeight));
+  const paddingBottom = Math.max(0, height - paddingTop - (last - first) * rowHeight);
+
+  const scrollToTop = useCallback(() => {
+    containerRef.current?.scrollTo({ top: 0 });
+    setScrollTop(0);
+  }, [containerRef]);
+
+  return { first, last, paddingTop, paddingBottom, scrollToTop };
+};
@@ -0,0 +1,191 @@
+import { ChartConfig, DataTable, Dataset } from '../types';
+import { ChartData, processChartData, chartDataKey, hasChartFields } from '../utils/chartUtils';
+import { createAbortError } from '../utils/csvParser';
+import { DatasetReadResult, readDatasetFile } from '../utils/importers';
+import { QueryResult, SelectQuery, parseSql, queryDatasets, runSql } from '../utils/sql';
+import { QueryDataset, WorkerRequest, WorkerResponse } from '../workers/protocol';
+
+interface PendingRequest {
+  resolve: (value: any) => void;
+  reject: (reason: unknown) => void;
+  // Main-thread equivalent, used if the worker script cannot be loaded at all
+  fallback: () => Promise<any>;
+  onProgress?: (loaded: number, total: number) => void;
+}
+
+export interface ParseTask {
+  promise: Promise<DatasetReadResult>;
+  cancel: () => void;
+}
+
+// The worker keeps a handful of datasets; older ones are dropped and re-sent if needed
+const MAX_WORKER_DATASETS = 4;
+const MAX_CACHED_RESULTS = 100;
+
+let worker: Worker | null | undefined;
+let workerResponded = false;
+let nextRequestId = 1;
+let nextDatasetId = 1;
+const pending = new Map<number, PendingRequest>();
+const datasetKeys = new WeakMap<DataTable, string>();
+const loadedDatasets: string[] = [];
+const resultCache = new Map<string, ChartData>();
+const inFlight = new Map<string, Promise<ChartData>>();
+
+const handleResponse = (event: MessageEvent<WorkerResponse>) => {
+  const response = event.data;
+  workerResponded = true;
+  const request = pending.get(response.id);
+  if (!request) return;
+
+  switch (response.type) {
+    case 'progress':
+      request.onProgress?.(response.loaded, response.total);
+      return;
+    case 'parsed':
+    case 'aggregated':
+    case 'queried':
+      request.resolve(response.result);
+      break;
+    case 'cancelled':
+      request.reject(createAbortError());
+      break;
+    case 'error':
+      request.reject(new Error(response.message));
+      break;
+  }
+  pending.delete(response.id);
+};
+
+// Falls back to running on the main thread when workers are unavailable (e.g. no bundler)
+const getWorker = (): Worker | null => {
+  if (worker !== undefined) return worker;
+  try {
+    worker = new Worker(new URL('../workers/dataWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = handleResponse;
+    worker.onerror = (event) => {
+      console.error('Data worker failed:', event.message);
+      // A worker that never answered most likely failed to load; finish its work inline
+      pending.forEach(p => workerResponded
+        ? p.reject(new Error('Background worker stopped unexpectedly'))
+        : p.fallback().then(p.resolve, p.reject));
+      pending.clear();
+      worker?.terminate();
+      worker = null;
+      loadedDatasets.length = 0;
+      inFlight.clear();
+    };
+  } catch (error) {
+    console.warn('Web Workers unavailable, processing on the main thread:', error);
+    worker = null;
+  }
+  return worker;
+};
+
+const send = <T,>(target: Worker, request: WorkerRequest & { id: number }, fallback: () => Promise<T>, onProgress?: PendingRequest['onProgress']) => {
+  return new Promise<T>((resolve, reject) => {
+    pending.set(request.id, { resolve, reject, fallback, onProgress });
+    target.postMessage(request);
+  });
+};
+
+export const parseDatasetFile = (file: File, options: { sheet?: string; onProgress?: (loaded: number, total: number) => void } = {}): ParseTask => {
+  let isCancelled = false;
+  const parseInline = () => readDatasetFile(file, { ...options, isCancelled: () => isCancelled });
+
+  const target = getWorker();
+  if (!target) return { promise: parseInline(), cancel: () => { isCancelled = true; } };
+
+  const id = nextRequestId++;
+  return {
+    promise: send<DatasetReadResult>(target, { type: 'parse', id, file, sheet: options.sheet }, parseInline, options.onProgress),
+    cancel: () => {
+      isCancelled = true;
+      target.postMessage({ type: 'cancel', id } as WorkerRequest);
+    }
+  };
+};
+
+const forgetDataset = (datasetKey: string) => {
+  Array.from(resultCache.keys()).forEach(k => {
+    if (k.startsWith(`${datasetKey}|`)) resultCache.delete(k);
+  });
+};
+
+// Ships a table to the worker the first time it is charted. Tables are immutable
+// snapshots, so a new table (after a cleaning step, say) gets a new key. `pinned` tables
+// are needed by the same request and are never the ones evicted.
+const ensureLoaded = (target: Worker, data: DataTable, pinned: string[] = []): string => {
+  let datasetKey = datasetKeys.get(data);
+  if (!datasetKey) {
+    datasetKey = `ds${nextDatasetId++}`;
+    datasetKeys.set(data, datasetKey);
+  }
+
+  const index = loadedDatasets.indexOf(datasetKey);
+  if (index !== -1) {
+    loadedDatasets.splice(index, 1);
+    loadedDatasets.push(datasetKey);
+    return datasetKey;
+  }
+
+  target.postMessage({ type: 'load', datasetKey, table: data } as WorkerRequest);
+  loadedDatasets.push(datasetKey);
+  const oldest = loadedDatasets.findIndex(k => k !== datasetKey && !pinned.includes(k));
+  if (loadedDatasets.length > MAX_WORKER_DATASETS && oldest !== -1) {
+    const [evicted] = loadedDatasets.splice(oldest, 1);
+    target.postMessage({ type: 'drop', datasetKey: evicted } as WorkerRequest);
+    forgetDataset(evicted);
+  }
+  return datasetKey;
+};
+
+export const aggregateChartData = (data: DataTable, config: ChartConfig): Promise<ChartData> => {
+  if (!data || data.rowCount === 0 || !hasChartFields(config)) return Promise.resolve({ rows: [] });
+
+  const target = getWorker();
+  if (!target) return Promise.resolve(processChartData(data, config));
+
+  const datasetKey = ensureLoaded(target, data);
+  const cacheKey = `${datasetKey}|${chartDataKey(config)}`;
+  const cached = resultCache.get(cacheKey);
+  if (cached) return Promise.resolve(cached);
+  const running = inFlight.get(cacheKey);
+  if (running) return running;
+
+  const aggregateInline = async () => processChartData(data, config);
+  const promise = send<ChartData>(target, { type: 'aggregate', id: nextRequestId++, datasetKey, config }, aggregateInline)
+    .then(result => {
+      resultCache.set(cacheKey, result);
+      if (resultCache.size > MAX_CACHED_RESULTS) resultCache.delete(resultCache.keys().next().value!);
+      return result;
+    })
+    .finally(() => inFlight.delete(cacheKey));
+  inFlight.set(cacheKey, promise);
+  return promise;
+};
+
+// Lets the browser paint (a busy state, say) before work that blocks the main thread
+const yieldToBrowser = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+export const runQuery = async (source: string, datasets: Dataset[]): Promise<QueryResult> => {
+  const runInline = async () => {
+    await yieldToBrowser();
+    return runSql(source, datasets);
+  };
+
+  const target = getWorker();
+  if (!target) return runInline();
+
+  // Parsing is quick and tells which tables to ship; syntax errors surface right away
+  const query: SelectQuery = parseSql(source);
+  const read = queryDatasets(query, datasets);
+  const pinned: string[] = [];
+  const sources: QueryDataset[] = datasets.map(d => {
+    if (!read.includes(d)) return { name: d.name, columns: [], datasetKey: null };
+    const datasetKey = ensureLoaded(target, d.table, pinned);
+    pinned.push(datasetKey);
+    return { name: d.name, columns: d.columns, datasetKey };
+  });
+  return send<QueryResult>(target, { type: 'query', id: nextRequestId++, query, datasets: sources }, runInline);
+};
@@ -1,4 +1,5 @@
 import { GoogleGenAI, FunctionDeclaration, Type, Tool } from "@google/genai";
+import { AGGREGATION_OPTIONS } from "../utils/chartUtils";
 
 const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 
@@ -18,6 +19,12 @@ const generateVisualizationTool: FunctionDeclaration = {
       xAxisKey: { type: Type.STRING, description: "The column name for the X-axis (or Group by)." },
       yAxisKey: { type: Type.STRING, description: "The column name for the Y-axis. For Bubble/Scatter, this is the vertical value." },
       zAxisKey: { type: Type.STRING, description: "The column name for the Z-axis (Size), used specifically for Bubble charts." },
+      seriesKey: { type: Type.STRING, description: "Optional category column that splits bar, line, area and scatter charts into one coloured series per value, e.g. region." },
+      aggregation: {
+        type: Type.STRING,
+        enum: AGGREGATION_OPTIONS.map(o => o.type),
+        description: "How Y values are combined per X group (default 'sum'). 'avg' ignores empty cells, 'count' counts non-empty cells, 'distinct' counts unique values, 'p90'/'p95'/'p99' are percentiles, 'stddev' and 'variance' are sample statistics, 'first'/'last' take the first or last value in row order."
+      },
       title: { type: Type.STRING, description: "A descriptive title for the chart." }
     },
     required: ["type", "xAxisKey", "title"]
@@ -26,18 +33,31 @@ const generateVisualizationTool: FunctionDeclaration = {
 
 const cleanDataTool: FunctionDeclaration = {
   name: "cleanData",
-  description: "Perform data cleaning operations like removing outliers, imputing missing values, or dropping rows with null values.",
+  description: "Perform a data cleaning operation on the current dataset. Each call is one undoable step.",
   parameters: {
     type: Type.OBJECT,
     properties: {
       operation: { 
         type: Type.STRING, 
-        enum: ["remove_outliers", "impute_mean", "drop_missing"], 
-        description: "The cleaning operation to perform: 'remove_outliers' uses IQR method, 'impute_mean' fills nulls with column average, 'drop_missing' removes rows with any nulls in this column." 
+        enum: ["remove_outliers", "winsorize", "impute", "drop_missing", "trim", "change_case", "replace", "dedupe", "set_type"], 
+        description: "'remove_outliers' drops outlier rows, 'winsorize' caps values at percentiles, 'impute' fills missing values, 'drop_missing' removes rows with nulls in the column, 'trim' strips surrounding whitespace, 'change_case' normalises text case, 'replace' finds and replaces text, 'dedupe' removes duplicate rows, 'set_type' casts the column to another type." 
       },
-      column: { type: Type.STRING, description: "The column to apply the cleaning operation on." }
+      column: { type: Type.STRING, description: "The column to clean. Not used by 'dedupe'." },
+      method: { type: Type.STRING, enum: ["iqr", "zscore", "mad", "mean", "median", "mode", "constant", "ffill", "interpolate"], description: "For 'remove_outliers': iqr (default), zscore or mad. For 'impute': mean, median, mode, constant, ffill (previous value) or interpolate." },
+      threshold: { type: Type.NUMBER, description: "Outlier threshold: IQR multiplier (default 1.5), z-score (default 3) or modified z-score (default 3.5)." },
+      value: { type: Type.STRING, description: "Fill value when 'impute' uses the constant method." },
+      lower: { type: Type.NUMBER, description: "Lower percentile (0-100) for 'winsorize', e.g. 5." },
+      upper: { type: Type.NUMBER, description: "Upper percentile (0-100) for 'winsorize', e.g. 95." },
+      case: { type: Type.STRING, enum: ["lower", "upper", "title"], description: "Target case for 'change_case'." },
+      find: { type: Type.STRING, description: "Text or regular expression to find for 'replace'." },
+      replace: { type: Type.STRING, description: "Replacement text for 'replace'; $1 etc. refer to regex groups." },
+      regex: { type: Type.BOOLEAN, description: "Treat 'find' as a regular expression." },
+      matchCase: { type: Type.BOOLEAN, description: "Make 'replace' case sensitive." },
+      columns: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Key columns for 'dedupe'; omit to compare whole rows." },
+      keep: { type: Type.STRING, enum: ["first", "last"], description: "Which duplicate 'dedupe' keeps (default first)." },
+      type: { type: Type.STRING, enum: ["string", "number", "boolean", "date"], description: "Target type for 'set_type'." }
     },
-    required: ["operation", "column"]
+    required: ["operation"]
   }
 };
 
@@ -70,9 +90,10 @@ export const getGeminiResponse = async (
     Your capabilities:
     1. VISUALIZATION: Use 'generateVisualization' for any chart request.
     2. CLEANING: If data appears messy or the user requests it, use 'cleanData'. 
-       - Recommend 'remove_outliers' if user mentions anomalies or extreme values.
-       - Recommend 'impute_mean' for numeric columns with missing values.
+       - Recommend 'remove_outliers' (or 'winsorize' to keep the rows) if user mentions anomalies or extreme values.
+       - Recommend 'impute' with median for skewed numeric columns, mean otherwise, mode for categories, ffill or interpolate for time series.
        - Recommend 'drop_missing' if quality is more important than quantity.
+       - Use 'trim', 'change_case' and 'replace' for inconsistent text, 'dedupe' for repeated records and 'set_type' for columns read with the wrong type.
     3. DASHBOARD: Use 'addToDashboard' when a user likes a generated chart.
 
     Tone: Helpful, data-driven, and proactive. If you see missing values in the context, suggest cleaning them.
@@ -7,20 +7,165 @@ export interface User {
   joinedAt: string;
 }
 
+export type CellValue = string | number | boolean | null;
+
 export interface DataRow {
-  [key: string]: string | number | boolean | null;
+  [key: string]: CellValue;
 }
 
+// Columnar storage: numeric columns live in a Float64Array (NaN marks a missing value),
+// everything else is dictionary encoded with the narrowest code array that fits.
+export type ColumnData =
+  | { kind: 'numeric'; values: Float64Array }
+  | { kind: 'dictionary'; codes: Uint8Array | Uint16Array | Uint32Array; dictionary: CellValue[] };
+
+export interface DataTable {
+  headers: string[];
+  rowCount: number;
+  columns: Record<string, ColumnData>;
+  // Position of each row in the table it was filtered from; absent means 0..rowCount-1
+  rowIds?: Uint32Array;
+}
+
+export type ColumnType = 'string' | 'number' | 'boolean' | 'date';
+
 export interface ColumnMeta {
   name: string;
-  type: 'string' | 'number' | 'boolean' | 'date';
+  type: ColumnType;
+  format?: string; // Day/month order ('MDY' | 'DMY') the date column was read with
+  formula?: string; // Set on computed columns
+  formulaError?: string; // Rows the formula could not compute, e.g. "3 rows failed. Row 2: Division by zero"
   uniqueCount: number;
   missingCount: number;
 }
 
-export type ChartType = 'bar' | 'line' | 'scatter' | 'pie' | 'area' | 'heatmap' | 'doughnut' | 'bubble' | 'box' | 'venn' | 'contour';
+// A transformation described as plain data, so it can be kept in version history,
+// saved in a recipe and replayed against another upload
+export type ImputeMethod = 'mean' | 'median' | 'mode' | 'constant' | 'ffill' | 'interpolate';
+export type OutlierMethod = 'iqr' | 'zscore' | 'mad';
+export type TextCase = 'lower' | 'upper' | 'title';
+
+export type TransformStep =
+  | { op: 'remove_outliers'; column: string; method?: OutlierMethod; threshold?: number } // Defaults to IQR with 1.5
+  | { op: 'winsorize'; column: string; lower: number; upper: number } // Percentiles, 0-100
+  | { op: 'impute'; column: string; method: ImputeMethod; value?: string | number }
+  | { op: 'drop_missing'; column: string }
+  | { op: 'trim'; column: string }
+  | { op: 'change_case'; column: string; case: TextCase }
+  | { op: 'replace'; column: string; find: string; replace: string; regex?: boolean; matchCase?: boolean }
+  | { op: 'dedupe'; columns: string[]; keep?: 'first' | 'last' } // No columns means whole rows
+  | { op: 'set_type'; column: string; type: ColumnType; format?: string }
+  | { op: 'add_column'; name: string; formula: string } // Replaces the column if it is already computed
+  | { op: 'melt'; columns: string[]; keyName: string; valueName: string } // Other columns identify the rows
+  | { op: 'pivot_wider'; keyColumn: string; valueColumn: string; aggregation?: AggregationType }
+  | { op: 'split_column'; column: string; delimiter: string; regex?: boolean; limit?: number; removeSource?: boolean }
+  | { op: 'merge_columns'; columns: string[]; name: string; separator: string; removeSource?: boolean }
+  | { op: 'edit_cells'; edits: CellEdit[] };
+
+// A value typed into the grid. Rows are found by row id, which survives filtering and sorting.
+export interface CellEdit {
+  rowId: number;
+  column: string;
+  value: CellValue;
+}
+
+// Row filters built in Data Studio. Values are kept as typed so a half-finished condition
+// can be edited; conditions that cannot be read yet are ignored.
+export type FilterOperator =
+  | 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'between'
+  | 'contains' | 'not_contains' | 'starts_with' | 'ends_with' | 'regex'
+  | 'before' | 'after' | 'in_last' | 'in_current'
+  | 'is_null' | 'not_null';
+export type DateUnit = 'day' | 'week' | 'month' | 'quarter' | 'year';
+export type TimeGrain = 'hour' | DateUnit;
+
+export interface FilterCondition {
+  kind: 'condition';
+  id: string;
+  column: string;
+  operator: FilterOperator;
+  value: string;
+  value2: string; // Upper bound for 'between'
+  unit?: DateUnit; // For 'in_last' and 'in_current'
+  matchCase?: boolean;
+}
+
+export interface FilterGroup {
+  kind: 'group';
+  id: string;
+  combinator: 'and' | 'or';
+  children: (FilterCondition | FilterGroup)[];
+}
+
+export interface VersionDiff {
+  rowsAdded: number;
+  rowsRemoved: number;
+  cellsChanged: number;
+  changedColumns: string[];
+  columnsAdded: string[];
+  columnsRemoved: string[];
+}
+
+export interface DatasetVersion {
+  id: string;
+  label: string;
+  timestamp: number;
+  table: DataTable;
+  columns: ColumnMeta[];
+  diff: VersionDiff; // Compared with the version before it
+  step?: TransformStep; // Absent for versions that cannot be replayed (imports, joins)
+}
+
+export interface Dataset {
+  id: string;
+  name: string;
+  table: DataTable;
+  columns: ColumnMeta[];
+  history: DatasetVersion[];
+  version: number; // Index into history of the version currently shown
+}
+
+export interface Recipe {
+  id: string;
+  name: string;
+  createdAt: number;
+  steps: TransformStep[];
+}
+
+export type ValidationRuleKind = 'not_null' | 'unique' | 'range' | 'regex' | 'allowed' | 'foreign_key';
+
+// An expectation about one column. Rules are matched to datasets by column name, so a rule
+// declared once is checked against every dataset, upload and transformation with that column.
+export interface ValidationRule {
+  id: string;
+  column: string;
+  kind: ValidationRuleKind;
+  min?: string; // range: a number or a date, inclusive; either bound may be left out
+  max?: string;
+  pattern?: string; // regex: matched against the whole value
+  values?: string[]; // allowed
+  refDataset?: string; // foreign_key: dataset name and column the values must appear in
+  refColumn?: string;
+}
+
+export type ChartType = 'bar' | 'line' | 'scatter' | 'pie' | 'area' | 'heatmap' | 'doughnut' | 'bubble' | 'box' | 'venn' | 'contour' | 'correlation';
 export type ThemeType = 'default' | 'neon' | 'pastel' | 'dark' | 'professional';
-export type AggregationType = 'sum' | 'avg' | 'min' | 'max' | 'count';
+export type AggregationType =
+  | 'sum' | 'avg' | 'median' | 'mode' | 'min' | 'max' | 'count' | 'distinct'
+  | 'p90' | 'p95' | 'p99' | 'stddev' | 'variance' | 'first' | 'last';
+export type StackMode = 'none' | 'stacked' | 'percent';
+export type Orientation = 'vertical' | 'horizontal';
+export type SeriesMark = 'bar' | 'line' | 'area';
+export type AxisSide = 'left' | 'right';
+
+// How one series of a bar, line or area chart is drawn; unset fields follow the chart
+export interface SeriesStyle {
+  mark?: SeriesMark;
+  axis?: AxisSide;
+  color?: string;
+}
+export type LimitMode = 'first' | 'top' | 'bottom';
+export type CorrelationMethod = 'pearson' | 'spearman' | 'cramers_v';
 
 export interface TooltipConfig {
   show: boolean;
@@ -33,10 +178,23 @@ export interface ChartConfig {
   id: string;
   title: string;
   type: ChartType;
+  datasetId?: string; // Dataset the chart reads from; unset means the active dataset
   xAxisKey: string;
   yAxisKeys: string[]; 
   zAxisKey?: string; 
   aggregation?: AggregationType;
+  seriesKey?: string; // Bar, line, area and scatter charts: one series per value of this column
+  maxSeries?: number; // Series to draw before the rest share an "Other" series; unset uses DEFAULT_MAX_SERIES
+  stackMode?: StackMode; // Bar and area charts with several series; percent scales each group to 100
+  orientation?: Orientation; // Bar and area charts: horizontal puts the categories on the Y axis
+  seriesStyles?: Record<string, SeriesStyle>; // Keyed by Y column, or by series value when split by seriesKey
+  correlationMethod?: CorrelationMethod; // Correlation matrices, which compare the yAxisKeys columns
+  trendline?: boolean; // Scatter plots: least-squares line over every row
+  limit?: number; // Groups, heatmap cells or scatter points to draw; unset uses the chart type's default
+  limitMode?: LimitMode; // Which groups or cells to keep: first in axis order, or largest/smallest by value
+  groupOther?: boolean; // Aggregated charts: roll the groups past the limit into one "Other" group
+  timeGrain?: TimeGrain; // Aggregated charts over a date column: one point per period, empty periods included
+  timeZone?: string; // IANA zone that timestamps with an offset are bucketed in; defaults to UTC
   color?: string;
   theme?: ThemeType;
   tooltip?: TooltipConfig;
@@ -69,6 +227,7 @@ export interface ChatMessage {
 export enum AppView {
   DASHBOARD = 'dashboard',
   DATA = 'data',
+  SQL = 'sql',
   VISUALIZE = 'visualize',
   INSIGHTS = 'insights',
 }
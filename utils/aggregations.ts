@@ -0,0 +1,121 @@
+import { AggregationType, CellValue } from '../types';
+
+// Running state for one group of cells. Charts, pivots and reshapes share it so every
+// aggregation means the same thing wherever it is picked.
+export interface Accumulator {
+  filled: number; // Non-empty cells, numeric or not
+  count: number; // Numeric cells
+  sum: number;
+  min: number;
+  max: number;
+  first: number;
+  last: number;
+  values: number[] | null; // Every numeric cell, only for aggregations that need them all
+  distinct: Set<CellValue> | null;
+}
+
+const PERCENTILES: Partial<Record<AggregationType, number>> = { median: 0.5, p90: 0.9, p95: 0.95, p99: 0.99 };
+
+const KEEPS_VALUES = new Set<AggregationType>(['median', 'mode', 'p90', 'p95', 'p99', 'stddev', 'variance']);
+
+// Count and distinct count look at every non-empty cell; the rest only at numbers
+export const usesCells = (aggregation: AggregationType) => aggregation === 'count' || aggregation === 'distinct';
+
+// Empty groups add nothing to these, so a missing group is 0 rather than a gap
+export const isAdditive = (aggregation: AggregationType) =>
+  aggregation === 'sum' || aggregation === 'count' || aggregation === 'distinct';
+
+export const createAccumulator = (aggregation: AggregationType): Accumulator => ({
+  filled: 0,
+  count: 0,
+  sum: 0,
+  min: Infinity,
+  max: -Infinity,
+  first: NaN,
+  last: NaN,
+  values: KEEPS_VALUES.has(aggregation) ? [] : null,
+  distinct: aggregation === 'distinct' ? new Set() : null
+});
+
+// `cell` is the raw value, only needed when usesCells; `n` is its numeric value or NaN
+export const accumulate = (acc: Accumulator, n: number, cell?: CellValue) => {
+  if (cell !== undefined) {
+    if (cell === null || cell === '') return;
+    acc.filled++;
+    acc.distinct?.add(cell);
+  }
+  if (isNaN(n)) return;
+  if (acc.count === 0) acc.first = n;
+  acc.last = n;
+  acc.count++;
+  acc.sum += n;
+  if (n < acc.min) acc.min = n;
+  if (n > acc.max) acc.max = n;
+  acc.values?.push(n);
+};
+
+// Folds `from` into `into`, treating `from` as the later rows
+export const mergeAccumulators = (into: Accumulator, from: Accumulator) => {
+  if (from.count > 0) {
+    if (into.count === 0) into.first = from.first;
+    into.last = from.last;
+  }
+  into.filled += from.filled;
+  into.count += from.count;
+  into.sum += from.sum;
+  into.min = Math.min(into.min, from.min);
+  into.max = Math.max(into.max, from.max);
+  if (into.values && from.values) {
+    for (const n of from.values) into.values.push(n);
+  }
+  from.distinct?.forEach(value => into.distinct?.add(value));
+};
+
+const quantile = (sorted: number[], p: number) => {
+  const pos = (sorted.length - 1) * p;
+  const lower = Math.floor(pos);
+  const upper = Math.ceil(pos);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (pos - lower);
+};
+
+// Ties go to the smallest value, so the result does not depend on row order
+const mode = (sorted: number[]) => {
+  let best = sorted[0];
+  let bestRun = 0;
+  let run = 0;
+  for (let i = 0; i < sorted.length; i++) {
+    run = i > 0 && sorted[i] === sorted[i - 1] ? run + 1 : 1;
+    if (run > bestRun) {
+      best = sorted[i];
+      bestRun = run;
+    }
+  }
+  return best;
+};
+
+// Sample variance, as in the column profile
+const variance = (values: number[], mean: number) => {
+  if (values.length < 2) return 0;
+  let m2 = 0;
+  for (const n of values) m2 += (n - mean) * (n - mean);
+  return m2 / (values.length - 1);
+};
+
+// Null when the group has nothing to aggregate, so charts and pivots show a gap rather than a made-up 0
+export const finishAccumulator = (acc: Accumulator, aggregation: AggregationType): number | null => {
+  if (aggregation === 'count') return acc.filled;
+  if (aggregation === 'distinct') return acc.distinct?.size ?? 0;
+  if (acc.count === 0) return null;
+  switch (aggregation) {
+    case 'sum': return acc.sum;
+    case 'avg': return acc.sum / acc.count;
+    case 'min': return acc.min;
+    case 'max': return acc.max;
+    case 'first': return acc.first;
+    case 'last': return acc.last;
+    case 'stddev': return Math.sqrt(variance(acc.values!, acc.sum / acc.count));
+    case 'variance': return variance(acc.values!, acc.sum / acc.count);
+  }
+  const sorted = [...acc.values!].sort((a, b) => a - b);
+  return aggregation === 'mode' ? mode(sorted) : quantile(sorted, PERCENTILES[aggregation]!);
+};
@@ -1,4 +1,8 @@
-import { DataRow, ChartConfig } from '../types';
+import { DataTable, ChartConfig, AggregationType, AxisSide, CellValue, LimitMode, SeriesMark, SeriesStyle, StackMode } from '../types';
+import { columnReader, getNumericValues, getRow } from './dataTable';
+import { correlationMatrix } from './correlation';
+import { MAX_TIME_BUCKETS, createTimeBucketer, fillTimeBuckets } from './timeBuckets';
+import { Accumulator, accumulate, createAccumulator, finishAccumulator, isAdditive, mergeAccumulators, usesCells } from './aggregations';
 
 // Helper to calculate quartiles
 const getQuantile = (array: number[], quantile: number) => {
@@ -14,30 +18,279 @@ const getQuantile = (array: number[], quantile: number) => {
     }
 };
 
-export const processChartData = (data: DataRow[], config: ChartConfig) => {
-  if (!data || data.length === 0 || !config.xAxisKey) return [];
+// Settings that only affect how a chart is drawn, not the rows processChartData returns
+const DISPLAY_ONLY_KEYS = new Set([
+  'id', 'title', 'theme', 'tooltip', 'color', 'showBox', 'showXAxis', 'showYAxis', 'showGrid',
+  'showLegend', 'smoothCurve', 'showLabels', 'orientation', 'seriesStyles', 'trendline', 'x', 'y', 'width', 'height', 'isLocked', 'zIndex'
+]);
 
-  // 1. HEATMAP & CONTOUR (2D Frequency)
+export type LimitUnit = 'groups' | 'cells' | 'points' | 'periods';
+
+// What processChartData left out, so charts can say so instead of dropping data silently
+export interface ChartTruncation {
+  unit: LimitUnit;
+  mode: LimitMode;
+  shown: number;
+  total: number;
+  // Groups combined into the "Other" group
+  other?: number;
+}
+
+export interface ChartData {
+  rows: any[];
+  truncation?: ChartTruncation;
+  // Charts broken down by seriesKey: the row keys holding each series (scatter points carry
+  // theirs in a `series` field), in legend order
+  series?: string[];
+  // Series past maxSeries, which share the "Other" series
+  seriesTruncation?: { shown: number; total: number };
+}
+
+export const OTHER_LABEL = 'Other';
+
+// More series than this turn a legend into noise; the rest share an "Other" series
+export const DEFAULT_MAX_SERIES = 10;
+
+const DEFAULT_LIMITS: Record<LimitUnit, number> = { groups: 50, cells: 500, points: 1000, periods: MAX_TIME_BUCKETS };
+
+export const LIMIT_MODES: { mode: LimitMode; label: string }[] = [
+  { mode: 'top', label: 'Top by value' },
+  { mode: 'bottom', label: 'Bottom by value' },
+  { mode: 'first', label: 'First in axis order' }
+];
+
+// Bar, line, area, pie and doughnut charts group rows by the X column
+const isAggregated = (config: ChartConfig) =>
+  config.type === 'bar' || config.type === 'line' || config.type === 'area' || config.type === 'pie' || config.type === 'doughnut';
+
+// The limit settings that apply to a chart, with defaults filled in; null for charts that draw everything.
+// Lines and areas keep their axis order by default, since an ordered axis with holes or an "Other" point misleads.
+// Time-bucketed charts are bounded by their grain instead.
+export const resolveLimit = (config: ChartConfig): { unit: LimitUnit; limit: number; mode: LimitMode; groupOther: boolean } | null => {
+  if (config.timeGrain && isAggregated(config)) return null;
+  const isSeries = config.type === 'line' || config.type === 'area';
+  let unit: LimitUnit;
+  if (config.type === 'heatmap' || config.type === 'contour') unit = 'cells';
+  else if (config.type === 'scatter' || config.type === 'bubble') unit = 'points';
+  else if (isAggregated(config)) unit = 'groups';
+  else return null;
+  const limit = config.limit && config.limit > 0 ? Math.floor(config.limit) : DEFAULT_LIMITS[unit];
+  return {
+    unit,
+    limit,
+    mode: unit === 'points' ? 'first' : config.limitMode ?? (isSeries ? 'first' : 'top'),
+    groupOther: unit === 'groups' && (config.groupOther ?? !isSeries)
+  };
+};
+
+export const describeSeriesTruncation = (t: { shown: number; total: number }) =>
+  `Showing ${t.shown.toLocaleString()} of ${t.total.toLocaleString()} series; the rest are in "${OTHER_LABEL}"`;
+
+// Bar, line, area, scatter and bubble charts can be split into one series per value of a column
+export const supportsSeries = (config: ChartConfig) =>
+  config.type === 'bar' || config.type === 'line' || config.type === 'area' || config.type === 'scatter' || config.type === 'bubble';
+
+const BLANK_SERIES = '(blank)';
+
+const seriesLabel = (value: CellValue) => (value === null || value === '' ? BLANK_SERIES : String(value));
+
+// The most frequent values of the series column among the given rows (all when null), in natural
+// order so colours follow the labels rather than the counts. Returns each row's series and the list.
+const breakDownSeries = (data: DataTable, config: ChartConfig, rows: ArrayLike<number> | null, reserved: string[]) => {
+  const read = columnReader(data, config.seriesKey!);
+  const counts = new Map<string, number>();
+  const n = rows ? rows.length : data.rowCount;
+  for (let r = 0; r < n; r++) {
+    const label = seriesLabel(read(rows ? rows[r] : r));
+    counts.set(label, (counts.get(label) ?? 0) + 1);
+  }
+  const max = config.maxSeries && config.maxSeries > 0 ? Math.floor(config.maxSeries) : DEFAULT_MAX_SERIES;
+  const kept = [...counts.keys()]
+    .sort((a, b) => counts.get(b)! - counts.get(a)!)
+    .slice(0, max)
+    .sort((a, b) => a === b ? 0 : a === BLANK_SERIES ? 1 : b === BLANK_SERIES ? -1 : a.localeCompare(b, undefined, { numeric: true }));
+  // Series become row keys, so they must not overwrite the keys every row already has
+  const keys = new Map(kept.map(label => [label, reserved.includes(label) ? `${label} (${config.seriesKey})` : label]));
+  const hidden = counts.size - kept.length;
+  const otherKey = kept.includes(OTHER_LABEL) ? `${OTHER_LABEL} (${hidden})` : OTHER_LABEL;
+  return {
+    of: (i: number) => keys.get(seriesLabel(read(i))) ?? otherKey,
+    series: hidden > 0 ? [...keys.values(), otherKey] : [...keys.values()],
+    seriesTruncation: hidden > 0 ? { shown: kept.length, total: counts.size } : undefined
+  };
+};
+
+export const describeTruncation = (t: ChartTruncation): string => {
+  const shown = t.shown.toLocaleString();
+  const total = t.total.toLocaleString();
+  if (t.unit === 'points') return `Showing ${shown} of ${total} points, evenly sampled`;
+  if (t.unit === 'periods') return `Showing first ${shown} of ${total} periods; try a coarser time grain`;
+  const which = t.mode === 'top' ? `top ${shown}` : t.mode === 'bottom' ? `bottom ${shown}` : `first ${shown}`;
+  const other = t.other ? `; ${t.other.toLocaleString()} more in "${OTHER_LABEL}"` : '';
+  return `Showing ${which} of ${total} ${t.unit}${other}`;
+};
+
+const DECIMAL_NAME = /^[+-]?(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?$/;
+
+// Numbers in numeric order, then text in text order. Names written as plain decimal
+// numbers ("7", "-1.5", "2e3") compare as numbers; anything else, such as ISO dates
+// ("2024-03-05"), hex codes or "Infinity", counts as text.
+const compareNames = (a: any, b: any) => {
+  const isNumberA = DECIMAL_NAME.test(String(a.name).trim());
+  const isNumberB = DECIMAL_NAME.test(String(b.name).trim());
+  if (isNumberA && isNumberB) return Number(a.name) - Number(b.name);
+  if (isNumberA !== isNumberB) return isNumberA ? -1 : 1;
+  return String(a.name).localeCompare(String(b.name));
+};
+
+export const AGGREGATION_OPTIONS: { type: AggregationType; label: string }[] = [
+  { type: 'sum', label: 'Sum' },
+  { type: 'avg', label: 'Average' },
+  { type: 'median', label: 'Median' },
+  { type: 'mode', label: 'Mode' },
+  { type: 'min', label: 'Min' },
+  { type: 'max', label: 'Max' },
+  { type: 'count', label: 'Count' },
+  { type: 'distinct', label: 'Distinct Count' },
+  { type: 'p90', label: 'P90' },
+  { type: 'p95', label: 'P95' },
+  { type: 'p99', label: 'P99' },
+  { type: 'stddev', label: 'Std Dev' },
+  { type: 'variance', label: 'Variance' },
+  { type: 'first', label: 'First' },
+  { type: 'last', label: 'Last' }
+];
+
+// Stable key for the data-relevant part of a config, so cosmetic edits reuse cached results.
+// Series styles and orientation are cosmetic except for deciding whether the rows hold
+// percentages, so that decision is keyed on its own.
+export const chartDataKey = (config: ChartConfig): string => {
+  const entries = Object.entries(config)
+    .filter(([key, value]) => !DISPLAY_ONLY_KEYS.has(key) && value !== undefined)
+    .sort(([a], [b]) => a.localeCompare(b));
+  return JSON.stringify([...entries, ['percentStacked', isPercentStacked(config)]]);
+};
+
+export const STACK_MODES: { mode: StackMode; label: string }[] = [
+  { mode: 'none', label: 'Side by side' },
+  { mode: 'stacked', label: 'Stacked' },
+  { mode: 'percent', label: '100% stacked' }
+];
+
+// Stacking and orientation apply to bars and areas
+export const supportsStacking = (config: ChartConfig) => config.type === 'bar' || config.type === 'area';
+
+// True when some series is drawn as a different mark or on the right axis, so the series
+// no longer share one stack. Horizontal charts have a single value axis.
+export const hasMixedSeries = (config: ChartConfig) => {
+  const mark = config.type === 'area' ? 'area' : 'bar';
+  const singleAxis = config.orientation === 'horizontal';
+  return Object.values(config.seriesStyles ?? {}).some(style =>
+    (style.mark !== undefined && style.mark !== mark) || (style.axis === 'right' && !singleAxis));
+};
+
+// 100% stacked charts plot each series as a share of its group, so the rows hold percentages.
+// Shares only add up when every series is in the same stack; mixed charts stack plainly.
+export const isPercentStacked = (config: ChartConfig) =>
+  config.stackMode === 'percent' && supportsStacking(config) && !hasMixedSeries(config);
+
+export const SERIES_MARKS: { mark: SeriesMark; label: string }[] = [
+  { mark: 'bar', label: 'Bar' },
+  { mark: 'line', label: 'Line' },
+  { mark: 'area', label: 'Area' }
+];
+
+// Bar, line and area charts can mix marks and put series on a second value axis
+export const supportsCombo = (config: ChartConfig) => config.type === 'bar' || config.type === 'line' || config.type === 'area';
+
+// A series' mark, axis and colour, falling back to the chart type, the left axis and the palette
+export const resolveSeriesStyle = (config: ChartConfig, key: string, index: number, palette: string[]): Required<SeriesStyle> => {
+  const style = config.seriesStyles?.[key];
+  return {
+    mark: style?.mark ?? (config.type === 'line' || config.type === 'area' ? config.type : 'bar'),
+    axis: style?.axis ?? 'left',
+    color: style?.color ?? palette[index % palette.length]
+  };
+};
+
+export interface SeriesLayout {
+  mark: SeriesMark;
+  axis: AxisSide;
+  color: string;
+  stackId?: string;
+  radius: [number, number, number, number];
+}
+
+// How each series of a bar, line or area chart is placed. A second value axis has no room in a
+// horizontal chart, so every series stays on the first there. Bars stack with bars and areas with
+// areas on the same axis, and only the top bar of a stack gets rounded corners.
+export const resolveSeriesLayout = (config: ChartConfig, keys: string[], palette: string[], cornerRadius: number): SeriesLayout[] => {
+  const isHorizontal = config.orientation === 'horizontal' && supportsStacking(config);
+  const isStacked = (config.stackMode === 'stacked' || config.stackMode === 'percent') && keys.length > 1;
+  const rounded: [number, number, number, number] = isHorizontal
+    ? [0, cornerRadius, cornerRadius, 0]
+    : [cornerRadius, cornerRadius, 0, 0];
+  const layouts = keys.map((key, i) => {
+    const style = resolveSeriesStyle(config, key, i, palette);
+    const axis: AxisSide = isHorizontal ? 'left' : style.axis;
+    const stackId = isStacked && style.mark !== 'line' ? `${style.mark}-${axis}` : undefined;
+    return { ...style, axis, stackId };
+  });
+  return layouts.map((layout, i) => {
+    const isStackTop = !layouts.some((other, j) => j > i && other.stackId === layout.stackId);
+    return { ...layout, radius: !layout.stackId || isStackTop ? rounded : [0, 0, 0, 0] };
+  });
+};
+
+// Correlation matrices compare the selected columns with each other and have no X axis
+export const hasChartFields = (config: ChartConfig) =>
+  config.type === 'correlation' ? (config.yAxisKeys?.length ?? 0) >= 2 : !!config.xAxisKey;
+
+export const processChartData = (data: DataTable, config: ChartConfig): ChartData => {
+  if (!data || data.rowCount === 0 || !hasChartFields(config)) return { rows: [] };
+  const rowCount = data.rowCount;
+  const limits = resolveLimit(config);
+
+  // 0. CORRELATION MATRIX (one heatmap cell per pair of columns)
+  if (config.type === 'correlation') {
+    return { rows: correlationMatrix(data, config.yAxisKeys, config.correlationMethod).map(cell => ({ ...cell, z: cell.value })) };
+  }
+
+  // 1. HEATMAP & CONTOUR (2D Frequency, or an aggregated value when a Z column is set)
   if (config.type === 'heatmap' || config.type === 'contour') {
     const xKey = config.xAxisKey;
     const yKey = config.yAxisKeys?.[0]; 
     
-    if (!yKey) return []; 
+    if (!yKey) return { rows: [] };
 
-    const aggMap = new Map<string, number>();
+    const aggType = config.aggregation || 'sum';
+    const cells = new Map<string, { count: number; acc: Accumulator | null }>();
+    const readX = columnReader(data, xKey);
+    const readY = columnReader(data, yKey);
+    const zValues = config.zAxisKey ? getNumericValues(data, config.zAxisKey) : null;
+    const readZ = config.zAxisKey && usesCells(aggType) ? columnReader(data, config.zAxisKey) : null;
     
-    data.forEach(row => {
-        const xVal = String(row[xKey]);
-        const yVal = String(row[yKey]);
+    for (let i = 0; i < rowCount; i++) {
+        const xVal = String(readX(i));
+        const yVal = String(readY(i));
         const key = `${xVal}###${yVal}`;
-        aggMap.set(key, (aggMap.get(key) || 0) + 1);
-    });
+        let cell = cells.get(key);
+        if (!cell) cells.set(key, (cell = { count: 0, acc: zValues ? createAccumulator(aggType) : null }));
+        cell.count++;
+        if (cell.acc) accumulate(cell.acc, zValues![i], readZ ? readZ(i) : undefined);
+    }
 
-    const result = Array.from(aggMap.entries()).map(([key, value]) => {
+    const result = Array.from(cells.entries()).map(([key, cell]) => {
         const [x, y] = key.split('###');
+        const value = cell.acc ? finishAccumulator(cell.acc, aggType) : cell.count;
+        if (value === null) return null;
         return { x, y, value, z: value };
-    });
-    return result.slice(0, 500);
+    }).filter(Boolean) as { x: string; y: string; value: number; z: number }[];
+
+    const { limit, mode } = limits!;
+    if (result.length <= limit) return { rows: result };
+    if (mode !== 'first') result.sort((a, b) => mode === 'top' ? b.value - a.value : a.value - b.value);
+    return { rows: result.slice(0, limit), truncation: { unit: 'cells', mode, shown: limit, total: result.length } };
   }
 
   // 2. VENN DIAGRAM (Set Overlap)
@@ -45,15 +298,17 @@ export const processChartData = (data: DataRow[], config: ChartConfig) => {
       const setAKey = config.xAxisKey;
       const setBKey = config.yAxisKeys?.[0];
       
-      if (!setBKey) return [];
+      if (!setBKey) return { rows: [] };
 
       let countA = 0;
       let countB = 0;
       let intersection = 0;
+      const readA = columnReader(data, setAKey);
+      const readB = columnReader(data, setBKey);
 
-      data.forEach(row => {
-          const valA = row[setAKey];
-          const valB = row[setBKey];
+      for (let i = 0; i < rowCount; i++) {
+          const valA = readA(i);
+          const valB = readB(i);
           
           const isA = valA !== null && valA !== false && valA !== 0 && valA !== '';
           const isB = valB !== null && valB !== false && valB !== 0 && valB !== '';
@@ -61,33 +316,35 @@ export const processChartData = (data: DataRow[], config: ChartConfig) => {
           if (isA && isB) intersection++;
           else if (isA) countA++;
           else if (isB) countB++;
-      });
+      }
 
-      return [
+      return { rows: [
           { name: 'A', value: countA, label: setAKey },
           { name: 'B', value: countB, label: setBKey },
           { name: 'Intersection', value: intersection, label: 'Both' }
-      ];
+      ] };
   }
 
   // 3. BOX PLOT (Distribution Stats)
   if (config.type === 'box') {
       const xKey = config.xAxisKey;
       const yKey = config.yAxisKeys?.[0];
-      if (!yKey) return [];
+      if (!yKey) return { rows: [] };
 
       const groupedValues: Record<string, number[]> = {};
+      const readGroup = columnReader(data, xKey);
+      const yValues = getNumericValues(data, yKey);
 
-      data.forEach(row => {
-          const group = String(row[xKey]);
-          const val = Number(row[yKey]);
+      for (let i = 0; i < rowCount; i++) {
+          const group = String(readGroup(i));
+          const val = yValues[i];
           if (!isNaN(val)) {
               if (!groupedValues[group]) groupedValues[group] = [];
               groupedValues[group].push(val);
           }
-      });
+      }
 
-      return Object.entries(groupedValues).map(([name, values]) => {
+      return { rows: Object.entries(groupedValues).map(([name, values]) => {
           if (values.length === 0) return null;
           const min = Math.min(...values);
           const max = Math.max(...values);
@@ -96,85 +353,162 @@ export const processChartData = (data: DataRow[], config: ChartConfig) => {
           const q3 = getQuantile(values, 0.75);
 
           return { name, min, q1, median, q3, max };
-      }).filter(Boolean);
+      }).filter(Boolean) };
   }
 
   // 4. SCATTER & BUBBLE (Raw Data)
   if (config.type === 'scatter' || config.type === 'bubble') {
-    return data
-      .map(row => ({
-        ...row,
-        name: String(row[config.xAxisKey]),
-        x: Number(row[config.xAxisKey]),
-        y: Number(row[config.yAxisKeys?.[0] || '']),
-        z: config.zAxisKey ? Math.abs(Number(row[config.zAxisKey])) : 100
-      }))
-      .filter(pt => !isNaN(pt.x) && !isNaN(pt.y))
-      .slice(0, 1000);
+    const readName = columnReader(data, config.xAxisKey);
+    const xValues = getNumericValues(data, config.xAxisKey);
+    const yValues = getNumericValues(data, config.yAxisKeys?.[0] || '');
+    const zValues = config.zAxisKey ? getNumericValues(data, config.zAxisKey) : null;
+    const plottable: number[] = [];
+    for (let i = 0; i < rowCount; i++) {
+      if (!isNaN(xValues[i]) && !isNaN(yValues[i])) plottable.push(i);
+    }
+
+    const breakdown = config.seriesKey ? breakDownSeries(data, config, plottable, []) : null;
+
+    // Past the limit, take evenly spaced rows so the sample covers the whole table rather than its start
+    const { limit } = limits!;
+    const step = Math.max(1, plottable.length / limit);
+    const points: any[] = [];
+    for (let p = 0; p < plottable.length && points.length < limit; p += step) {
+      const i = plottable[Math.floor(p)];
+      points.push({
+        ...getRow(data, i),
+        name: String(readName(i)),
+        x: xValues[i],
+        y: yValues[i],
+        z: zValues ? Math.abs(zValues[i]) : 100,
+        ...(breakdown ? { series: breakdown.of(i) } : {})
+      });
+    }
+    const extra = breakdown ? { series: breakdown.series, seriesTruncation: breakdown.seriesTruncation } : {};
+    return plottable.length > points.length
+      ? { rows: points, truncation: { unit: 'points', mode: 'first', shown: points.length, total: plottable.length }, ...extra }
+      : { rows: points, ...extra };
   }
 
   // 5. AGGREGATION (Bar, Line, Area, Pie, Doughnut)
   const aggType = config.aggregation || 'sum';
   const groupedData: Record<string, any> = {};
+  const readX = columnReader(data, config.xAxisKey);
+  const yColumns = (config.yAxisKeys || []).map(key => [
+    key, getNumericValues(data, key), usesCells(aggType) ? columnReader(data, key) : null
+  ] as const);
+  const toPeriod = config.timeGrain ? createTimeBucketer(config.timeGrain, config.timeZone) : null;
 
-  data.forEach(row => {
-    const xValue = String(row[config.xAxisKey]);
-    
-    if (!groupedData[xValue]) {
-      groupedData[xValue] = { 
-        name: xValue, 
-        _count: 0, 
-        _sums: {}, 
-        _mins: {}, 
-        _maxs: {} 
-      };
-      
-      config.yAxisKeys?.forEach(key => {
-        groupedData[xValue]._sums[key] = 0;
-        groupedData[xValue]._mins[key] = Infinity;
-        groupedData[xValue]._maxs[key] = -Infinity;
-      });
-    }
+  // A series breakdown splits the first Y column (or the row count) into one key per series value
+  const breakdown = config.seriesKey && supportsSeries(config)
+    ? breakDownSeries(data, config, null, ['name', 'value'])
+    : null;
+  const valueKeys = breakdown ? breakdown.series : config.yAxisKeys || [];
+  const valueAgg: AggregationType = breakdown && !yColumns.length ? 'sum' : aggType;
+  const newGroup = (name: string) => {
+    const group: any = { name, _count: 0, _accs: {} };
+    valueKeys.forEach(key => { group._accs[key] = createAccumulator(valueAgg); });
+    return group;
+  };
 
-    groupedData[xValue]._count += 1;
+  for (let i = 0; i < rowCount; i++) {
+    // Rows without a date have no place on a time axis
+    const xValue = toPeriod ? toPeriod(readX(i)) : String(readX(i));
+    if (xValue === null) continue;
+    
+    const group = groupedData[xValue] ?? (groupedData[xValue] = newGroup(xValue));
+    group._count += 1;
 
-    config.yAxisKeys?.forEach(key => {
-      const val = Number(row[key]);
-      if (!isNaN(val)) {
-        groupedData[xValue]._sums[key] += val;
-        groupedData[xValue]._mins[key] = Math.min(groupedData[xValue]._mins[key], val);
-        groupedData[xValue]._maxs[key] = Math.max(groupedData[xValue]._maxs[key], val);
-      }
+    if (breakdown) {
+      const acc = group._accs[breakdown.of(i)];
+      if (yColumns.length === 0) accumulate(acc, 1);
+      else accumulate(acc, yColumns[0][1][i], yColumns[0][2] ? yColumns[0][2](i) : undefined);
+      continue;
+    }
+    yColumns.forEach(([key, values, read]) => {
+      accumulate(group._accs[key], values[i], read ? read(i) : undefined);
     });
-  });
+  }
 
-  let result = Object.values(groupedData).map(item => {
+  // Averages and spreads are rounded for display; sums, counts and picked values are exact
+  const rounded = !['sum', 'min', 'max', 'count', 'distinct', 'mode', 'first', 'last'].includes(valueAgg);
+  const extra = breakdown ? { series: breakdown.series, seriesTruncation: breakdown.seriesTruncation } : {};
+  const percent = isPercentStacked(config);
+  const finish = (item: any, asPercent = percent) => {
     const newItem: any = { name: item.name, value: item._count };
 
-    config.yAxisKeys?.forEach(key => {
-       if (aggType === 'sum') {
-         newItem[key] = item._sums[key];
-       } else if (aggType === 'avg') {
-         newItem[key] = item._count > 0 ? Number((item._sums[key] / item._count).toFixed(2)) : 0;
-       } else if (aggType === 'min') {
-         newItem[key] = item._mins[key] === Infinity ? 0 : item._mins[key];
-       } else if (aggType === 'max') {
-         newItem[key] = item._maxs[key] === -Infinity ? 0 : item._maxs[key];
-       } else if (aggType === 'count') {
-         newItem[key] = item._count;
-       }
+    valueKeys.forEach(key => {
+       const value = finishAccumulator(item._accs[key], valueAgg);
+       // A group with nothing in a series adds nothing to a sum or count; other aggregations leave a gap
+       if (value === null) newItem[key] = isAdditive(valueAgg) ? 0 : null;
+       else newItem[key] = rounded && !asPercent ? Number(value.toFixed(2)) : value;
     });
 
+    if (asPercent) {
+      // Shares of the group's magnitude, so negative values still stack to 100 in total
+      const total = valueKeys.reduce((sum, key) => sum + Math.abs(Number(newItem[key]) || 0), 0);
+      valueKeys.forEach(key => {
+        if (newItem[key] !== null) newItem[key] = total ? Number((newItem[key] / total * 100).toFixed(2)) : 0;
+      });
+    }
+
     return newItem;
+  };
+
+  if (config.timeGrain) {
+    const periods = Object.keys(groupedData);
+    // Not a date column at all: the grain has nothing to bucket, so group by value as usual
+    if (periods.length === 0) return processChartData(data, { ...config, timeGrain: undefined });
+    const filled = fillTimeBuckets(periods, config.timeGrain, config.timeZone);
+    const labels = filled ?? periods.sort();
+    const rows = labels.slice(0, MAX_TIME_BUCKETS).map(label => {
+      const item = groupedData[label];
+      if (item) return finish(item);
+      // Empty periods add nothing to a sum or count; other aggregations leave a gap
+      const gap: any = { name: label, value: 0 };
+      valueKeys.forEach(key => { gap[key] = isAdditive(valueAgg) ? 0 : null; });
+      return gap;
+    });
+    return labels.length > rows.length
+      ? { rows, truncation: { unit: 'periods', mode: 'first', shown: rows.length, total: labels.length }, ...extra }
+      : { rows, ...extra };
+  }
+
+  const groups = Object.values(groupedData);
+  const { limit, mode, groupOther } = limits ?? { limit: Infinity, mode: 'first' as LimitMode, groupOther: false };
+  if (groups.length <= limit) return { rows: groups.map(item => finish(item)).sort(compareNames), ...extra };
+
+  // Rank on the finished values, so "top" means the tallest bars whatever the aggregation
+  const ranked = groups.map(item => {
+    // 100% stacked groups all total 100, so they are ranked on their underlying values
+    const raw = finish(item, false);
+    const total = valueKeys.length ? valueKeys.reduce((sum, key) => sum + (Number(raw[key]) || 0), 0) : raw.value;
+    return { item, row: percent ? finish(item) : raw, total };
   });
+  if (mode === 'first') ranked.sort((a, b) => compareNames(a.row, b.row));
+  else ranked.sort((a, b) => mode === 'top' ? b.total - a.total : a.total - b.total);
 
-  // Sort the final results non-mutatively
-  return [...result].sort((a, b) => {
-    const numA = parseFloat(a.name);
-    const numB = parseFloat(b.name);
-    if (!isNaN(numA) && !isNaN(numB)) {
-      return numA - numB;
-    }
-    return String(a.name).localeCompare(String(b.name));
-  }).slice(0, 50);
-};
\ No newline at end of file
+  const kept = ranked.slice(0, limit);
+  const rest = ranked.slice(limit);
+  // Lines and areas stay in axis order; bars and slices read best largest first
+  const rows = config.type === 'line' || config.type === 'area' || mode === 'first'
+    ? kept.map(r => r.row).sort(compareNames)
+    : kept.map(r => r.row);
+
+  if (groupOther) {
+    // Merged from the group accumulators so the Other value uses the chart's own aggregation
+    const other = newGroup(OTHER_LABEL);
+    rest.forEach(({ item }) => {
+      other._count += item._count;
+      valueKeys.forEach(key => mergeAccumulators(other._accs[key], item._accs[key]));
+    });
+    if (rows.some(r => r.name === OTHER_LABEL)) other.name = `${OTHER_LABEL} (${rest.length})`;
+    rows.push(finish(other));
+  }
+
+  return {
+    rows,
+    truncation: { unit: 'groups', mode, shown: kept.length, total: groups.length, other: groupOther ? rest.length : undefined },
+    ...extra
+  };
+};
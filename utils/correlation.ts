@@ -0,0 +1,216 @@
+import { CorrelationMethod, DataTable } from '../types';
+import { columnReader, getNumericValues } from './dataTable';
+
+export interface CorrelationCell {
+  x: string;
+  y: string;
+  value: number;
+  // Rows where both columns have a value
+  n: number;
+}
+
+export const CORRELATION_METHODS: { method: CorrelationMethod; label: string; hint: string }[] = [
+  { method: 'pearson', label: 'Pearson', hint: 'Linear relationship between numeric columns, from -1 to 1.' },
+  { method: 'spearman', label: 'Spearman', hint: 'Rank correlation: catches any steadily rising or falling relationship, and is robust to outliers.' },
+  { method: 'cramers_v', label: "Cramér's V", hint: 'Association between categorical columns, from 0 (independent) to 1 (one determines the other).' }
+];
+
+// A matrix of more columns than this is unreadable as a heatmap
+export const MAX_CORRELATION_COLUMNS = 20;
+// Contingency tables over columns with more categories than this say little about association
+export const MAX_CATEGORIES = 200;
+
+const pearson = (xs: ArrayLike<number>, ys: ArrayLike<number>): { value: number; n: number } => {
+  let n = 0;
+  let sx = 0;
+  let sy = 0;
+  for (let i = 0; i < xs.length; i++) {
+    if (isNaN(xs[i]) || isNaN(ys[i])) continue;
+    n++;
+    sx += xs[i];
+    sy += ys[i];
+  }
+  if (n < 2) return { value: NaN, n };
+  const mx = sx / n;
+  const my = sy / n;
+  let cov = 0;
+  let vx = 0;
+  let vy = 0;
+  for (let i = 0; i < xs.length; i++) {
+    if (isNaN(xs[i]) || isNaN(ys[i])) continue;
+    const dx = xs[i] - mx;
+    const dy = ys[i] - my;
+    cov += dx * dy;
+    vx += dx * dx;
+    vy += dy * dy;
+  }
+  return { value: vx > 0 && vy > 0 ? cov / Math.sqrt(vx * vy) : NaN, n };
+};
+
+// Ranks starting at 1, with tied values sharing the average of their ranks. Missing values stay NaN.
+const rank = (values: ArrayLike<number>): Float64Array => {
+  const order: number[] = [];
+  for (let i = 0; i < values.length; i++) if (!isNaN(values[i])) order.push(i);
+  order.sort((a, b) => values[a] - values[b]);
+  const ranks = new Float64Array(values.length).fill(NaN);
+  for (let start = 0; start < order.length;) {
+    let end = start;
+    while (end + 1 < order.length && values[order[end + 1]] === values[order[start]]) end++;
+    const average = (start + end) / 2 + 1;
+    for (let k = start; k <= end; k++) ranks[order[k]] = average;
+    start = end + 1;
+  }
+  return ranks;
+};
+
+// Keeps only the rows where both columns have a value, so ranks are taken over the same rows
+const completePairs = (xs: ArrayLike<number>, ys: ArrayLike<number>) => {
+  const px: number[] = [];
+  const py: number[] = [];
+  for (let i = 0; i < xs.length; i++) {
+    if (isNaN(xs[i]) || isNaN(ys[i])) continue;
+    px.push(xs[i]);
+    py.push(ys[i]);
+  }
+  return [px, py] as const;
+};
+
+// Category codes per row, or null when the column has too many categories. Missing is -1.
+const categoryCodes = (table: DataTable, column: string): { codes: Int32Array; levels: number } | null => {
+  const read = columnReader(table, column);
+  const lookup = new Map<string, number>();
+  const codes = new Int32Array(table.rowCount);
+  for (let i = 0; i < table.rowCount; i++) {
+    const value = read(i);
+    if (value === null || value === '') {
+      codes[i] = -1;
+      continue;
+    }
+    const key = String(value);
+    let code = lookup.get(key);
+    if (code === undefined) {
+      if (lookup.size >= MAX_CATEGORIES) return null;
+      code = lookup.size;
+      lookup.set(key, code);
+    }
+    codes[i] = code;
+  }
+  return { codes, levels: lookup.size };
+};
+
+const cramersV = (a: { codes: Int32Array; levels: number }, b: { codes: Int32Array; levels: number }): { value: number; n: number } => {
+  const counts = new Float64Array(a.levels * b.levels);
+  const rowTotals = new Float64Array(a.levels);
+  const colTotals = new Float64Array(b.levels);
+  let n = 0;
+  for (let i = 0; i < a.codes.length; i++) {
+    const r = a.codes[i];
+    const c = b.codes[i];
+    if (r < 0 || c < 0) continue;
+    counts[r * b.levels + c]++;
+    rowTotals[r]++;
+    colTotals[c]++;
+    n++;
+  }
+  // Categories that never occur alongside a value in the other column do not count towards the table size
+  const rows = rowTotals.filter(t => t > 0).length;
+  const cols = colTotals.filter(t => t > 0).length;
+  const k = Math.min(rows, cols) - 1;
+  if (n === 0 || k < 1) return { value: NaN, n };
+  let chi2 = 0;
+  for (let r = 0; r < a.levels; r++) {
+    if (rowTotals[r] === 0) continue;
+    for (let c = 0; c < b.levels; c++) {
+      if (colTotals[c] === 0) continue;
+      const expected = (rowTotals[r] * colTotals[c]) / n;
+      const diff = counts[r * b.levels + c] - expected;
+      chi2 += (diff * diff) / expected;
+    }
+  }
+  return { value: Math.sqrt(chi2 / n / k), n };
+};
+
+// Every ordered pair of columns, diagonal included, in column order so the heatmap axes
+// follow the selection. Pairs without enough data are left out.
+export const correlationMatrix = (table: DataTable, columns: string[], method: CorrelationMethod = 'pearson'): CorrelationCell[] => {
+  const selected = columns.filter(c => c in table.columns).slice(0, MAX_CORRELATION_COLUMNS);
+  const pairs = new Map<string, { value: number; n: number }>();
+
+  if (method === 'cramers_v') {
+    const codes = selected.map(c => categoryCodes(table, c));
+    selected.forEach((_, i) => {
+      for (let j = i; j < selected.length; j++) {
+        const a = codes[i];
+        const b = codes[j];
+        if (a && b) pairs.set(`${i}:${j}`, cramersV(a, b));
+      }
+    });
+  } else {
+    const values = selected.map(c => getNumericValues(table, c));
+    const complete = values.map(v => v.every(x => !isNaN(x)));
+    // Columns without gaps are ranked once; others are re-ranked over the rows each pair shares
+    const ranks = method === 'spearman' ? values.map((v, i) => (complete[i] ? rank(v) : null)) : [];
+    selected.forEach((_, i) => {
+      for (let j = i; j < selected.length; j++) {
+        if (method === 'pearson') {
+          pairs.set(`${i}:${j}`, pearson(values[i], values[j]));
+        } else if (ranks[i] && ranks[j]) {
+          pairs.set(`${i}:${j}`, pearson(ranks[i]!, ranks[j]!));
+        } else {
+          const [px, py] = completePairs(values[i], values[j]);
+          pairs.set(`${i}:${j}`, pearson(rank(px), rank(py)));
+        }
+      }
+    });
+  }
+
+  const cells: CorrelationCell[] = [];
+  selected.forEach((x, i) => {
+    selected.forEach((y, j) => {
+      const pair = pairs.get(i <= j ? `${i}:${j}` : `${j}:${i}`);
+      if (!pair || isNaN(pair.value)) return;
+      cells.push({ x, y, value: Number(pair.value.toFixed(3)), n: pair.n });
+    });
+  });
+  return cells;
+};
+
+export interface Regression {
+  slope: number;
+  intercept: number;
+  r2: number;
+  n: number;
+  minX: number;
+  maxX: number;
+}
+
+// Ordinary least squares fit of y on x over the rows where both are present
+export const linearRegression = (xs: ArrayLike<number>, ys: ArrayLike<number>): Regression | null => {
+  let n = 0;
+  let sx = 0;
+  let sy = 0;
+  let minX = Infinity;
+  let maxX = -Infinity;
+  for (let i = 0; i < xs.length; i++) {
+    if (isNaN(xs[i]) || isNaN(ys[i])) continue;
+    n++;
+    sx += xs[i];
+    sy += ys[i];
+    if (xs[i] < minX) minX = xs[i];
+    if (xs[i] > maxX) maxX = xs[i];
+  }
+  if (n < 2 || minX === maxX) return null;
+  const mx = sx / n;
+  const my = sy / n;
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  for (let i = 0; i < xs.length; i++) {
+    if (isNaN(xs[i]) || isNaN(ys[i])) continue;
+    sxy += (xs[i] - mx) * (ys[i] - my);
+    sxx += (xs[i] - mx) * (xs[i] - mx);
+    syy += (ys[i] - my) * (ys[i] - my);
+  }
+  const slope = sxy / sxx;
+  return { slope, intercept: my - slope * mx, r2: syy > 0 ? (sxy * sxy) / (sxx * syy) : 1, n, minX, maxX };
+};
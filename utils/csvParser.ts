@@ -0,0 +1,367 @@
+export type CsvDelimiter = ',' | ';' | '\t' | '|';
+
+export const CSV_DELIMITERS: CsvDelimiter[] = [',', ';', '\t', '|'];
+
+export interface CsvParseError {
+  row: number;
+  message: string;
+}
+
+export interface CsvParseResult {
+  headers: string[];
+  rows: string[][];
+  delimiter: CsvDelimiter;
+  encoding: string;
+  errors: CsvParseError[];
+}
+
+export interface CsvRecord {
+  fields: string[];
+  line: number;
+  error?: string;
+}
+
+// --- Encoding ---
+
+// Looks at the byte order mark first, then falls back to strict UTF-8 and finally
+// Windows-1252, which is what Excel uses for "CSV (Comma delimited)" on most locales.
+export const detectEncoding = (bytes: Uint8Array): string => {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+
+  const sample = bytes.subarray(0, 64 * 1024);
+
+  // UTF-16 without a BOM shows up as a zero byte in every other position
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < Math.min(sample.length, 512); i++) {
+    if (sample[i] === 0) {
+      if (i % 2 === 0) evenZeros++;
+      else oddZeros++;
+    }
+  }
+  const half = Math.min(sample.length, 512) / 2;
+  if (half > 0 && oddZeros / half > 0.3 && evenZeros === 0) return 'utf-16le';
+  if (half > 0 && evenZeros / half > 0.3 && oddZeros === 0) return 'utf-16be';
+
+  try {
+    // A multi-byte sequence may be cut at the end of the sample, so decode in stream mode
+    new TextDecoder('utf-8', { fatal: true }).decode(sample, { stream: sample.length < bytes.length });
+    return 'utf-8';
+  } catch {
+    return 'windows-1252';
+  }
+};
+
+export const decodeText = (buffer: ArrayBuffer): { text: string; encoding: string } => {
+  const bytes = new Uint8Array(buffer);
+  const encoding = detectEncoding(bytes);
+  // TextDecoder strips a leading BOM by default
+  let text = new TextDecoder(encoding).decode(bytes);
+  if (text.charCodeAt(0) === 0xfeff) text = text.slice(1);
+  return { text, encoding };
+};
+
+// --- Tokenizer ---
+
+// RFC 4180 state machine. Input can be pushed in chunks of any size; quoted fields,
+// escaped quotes ("") and CR, LF or CRLF line breaks may straddle chunk boundaries.
+export const createCsvTokenizer = (delimiter: CsvDelimiter, onRecord: (record: CsvRecord) => void) => {
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let wasQuoted = false;
+  let afterQuote = false;
+  let pendingCR = false;
+  let line = 1;
+  let recordLine = 1;
+  let error: string | undefined;
+
+  const endField = () => {
+    fields.push(wasQuoted ? field : field.trim());
+    field = '';
+    wasQuoted = false;
+    afterQuote = false;
+  };
+
+  const endRecord = () => {
+    endField();
+    // Skip blank lines entirely
+    if (!(fields.length === 1 && fields[0] === '' && !error)) {
+      onRecord({ fields, line: recordLine, error });
+    }
+    fields = [];
+    error = undefined;
+  };
+
+  const push = (chunk: string) => {
+    for (let i = 0; i < chunk.length; i++) {
+      const char = chunk[i];
+
+      if (pendingCR) {
+        pendingCR = false;
+        if (char === '\n') continue;
+      }
+
+      if (inQuotes) {
+        if (char === '"') {
+          inQuotes = false;
+          afterQuote = true;
+        } else {
+          if (char === '\n' || char === '\r') {
+            // Normalise embedded CRLF / CR line breaks to LF
+            line++;
+            if (char === '\r') pendingCR = true;
+            field += '\n';
+          } else {
+            field += char;
+          }
+        }
+        continue;
+      }
+
+      if (afterQuote && char === '"') {
+        // Escaped quote inside a quoted field
+        field += '"';
+        inQuotes = true;
+        afterQuote = false;
+      } else if (char === delimiter) {
+        endField();
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r') pendingCR = true;
+        endRecord();
+        line++;
+        recordLine = line;
+      } else if (char === '"' && field.trim() === '' && !wasQuoted) {
+        field = '';
+        inQuotes = true;
+        wasQuoted = true;
+      } else if (afterQuote && (char === ' ' || char === '\t')) {
+        // Padding between a closing quote and the next delimiter
+        continue;
+      } else {
+        if (afterQuote && !error) {
+          error = `unexpected character after closing quote in field ${fields.length + 1}`;
+        } else if (char === '"' && !error) {
+          error = `stray quote in unquoted field ${fields.length + 1}`;
+        }
+        field += char;
+      }
+    }
+  };
+
+  const end = () => {
+    if (inQuotes) {
+      error = error || `unterminated quoted field ${fields.length + 1}`;
+      inQuotes = false;
+    }
+    if (field !== '' || fields.length > 0 || wasQuoted) endRecord();
+  };
+
+  return { push, end };
+};
+
+// --- Delimiter sniffing ---
+
+const sampleRecords = (sample: string, delimiter: CsvDelimiter, limit: number) => {
+  const counts: number[] = [];
+  const tokenizer = createCsvTokenizer(delimiter, record => {
+    if (counts.length < limit) counts.push(record.fields.length);
+  });
+  tokenizer.push(sample);
+  return counts;
+};
+
+// Picks the delimiter that splits the first records into the most consistent,
+// widest rows. The last sampled record is ignored since it may be truncated.
+export const detectDelimiter = (text: string): CsvDelimiter => {
+  const sample = text.slice(0, 64 * 1024);
+  let best: CsvDelimiter = ',';
+  let bestScore = 0;
+
+  CSV_DELIMITERS.forEach(delimiter => {
+    if (!sample.includes(delimiter)) return;
+    const counts = sampleRecords(sample, delimiter, 21);
+    const considered = counts.length > 1 ? counts.slice(0, -1) : counts;
+    if (considered.length === 0) return;
+
+    const modeCount = new Map<number, number>();
+    considered.forEach(c => modeCount.set(c, (modeCount.get(c) || 0) + 1));
+    let mode = 1;
+    let modeFreq = 0;
+    modeCount.forEach((freq, width) => {
+      if (freq > modeFreq || (freq === modeFreq && width > mode)) {
+        mode = width;
+        modeFreq = freq;
+      }
+    });
+    if (mode < 2) return;
+
+    const consistency = modeFreq / considered.length;
+    const score = consistency * 100 + Math.min(mode, 50);
+    if (score > bestScore) {
+      bestScore = score;
+      best = delimiter;
+    }
+  });
+
+  return best;
+};
+
+// --- Header normalisation ---
+
+// DataRow keys must be unique and non-empty, so blank headers get a positional
+// name and duplicates get a numeric suffix.
+export const normalizeHeaders = (raw: string[]): string[] => {
+  const seen = new Map<string, number>();
+  return raw.map((h, i) => {
+    const base = h.trim() || `Column ${i + 1}`;
+    const count = seen.get(base) || 0;
+    seen.set(base, count + 1);
+    return count === 0 ? base : `${base}_${count + 1}`;
+  });
+};
+
+// Strips empty cells beyond the expected width, which is what a trailing delimiter produces
+const trimTrailingEmpty = (fields: string[], width: number) => {
+  let end = fields.length;
+  while (end > width && fields[end - 1] === '') end--;
+  return end === fields.length ? fields : fields.slice(0, end);
+};
+
+// Turns tokenizer records into header + data rows. Kept apart from the tokenizer so
+// chunked readers report malformed records the same way as parseCSV.
+export const createRecordCollector = () => {
+  let headers: string[] | null = null;
+  const errors: CsvParseError[] = [];
+
+  const accept = (record: CsvRecord): string[] | null => {
+    if (!headers) {
+      let raw = record.fields;
+      while (raw.length > 1 && raw[raw.length - 1] === '') raw = raw.slice(0, -1);
+      headers = normalizeHeaders(raw);
+      if (record.error) errors.push({ row: record.line, message: `Header ${record.error}` });
+      return null;
+    }
+
+    if (record.error) {
+      errors.push({ row: record.line, message: record.error.charAt(0).toUpperCase() + record.error.slice(1) });
+      return null;
+    }
+
+    const fields = trimTrailingEmpty(record.fields, headers.length);
+    if (fields.length !== headers.length) {
+      errors.push({ row: record.line, message: `Expected ${headers.length} fields but found ${fields.length}` });
+      return null;
+    }
+    return fields;
+  };
+
+  return {
+    accept,
+    errors,
+    getHeaders: () => headers || []
+  };
+};
+
+export const parseCSV = (text: string, options: { delimiter?: CsvDelimiter; encoding?: string } = {}): CsvParseResult => {
+  const source = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const delimiter = options.delimiter || detectDelimiter(source);
+  const collector = createRecordCollector();
+  const rows: string[][] = [];
+
+  const tokenizer = createCsvTokenizer(delimiter, record => {
+    const fields = collector.accept(record);
+    if (fields) rows.push(fields);
+  });
+  tokenizer.push(source);
+  tokenizer.end();
+
+  return {
+    headers: collector.getHeaders(),
+    rows,
+    delimiter,
+    encoding: options.encoding || 'utf-8',
+    errors: collector.errors
+  };
+};
+
+export interface StreamOptions {
+  delimiter?: CsvDelimiter;
+  onProgress?: (loaded: number, total: number) => void;
+  isCancelled?: () => boolean;
+}
+
+export const createAbortError = () => new DOMException('Import cancelled', 'AbortError');
+
+const SNIFF_BYTES = 64 * 1024;
+
+// Reads the file chunk by chunk so a large export never has to exist as one string.
+// The delimiter is sniffed from the first 64 KB of decoded text.
+export const parseCSVStream = async (file: Blob, options: StreamOptions = {}): Promise<CsvParseResult> => {
+  const reader = file.stream().getReader();
+  const collector = createRecordCollector();
+  const rows: string[][] = [];
+  let decoder: TextDecoder | null = null;
+  let encoding = 'utf-8';
+  let delimiter = options.delimiter;
+  let tokenizer: ReturnType<typeof createCsvTokenizer> | null = null;
+  let pending = '';
+  let loaded = 0;
+
+  const start = () => {
+    if (pending.charCodeAt(0) === 0xfeff) pending = pending.slice(1);
+    delimiter = delimiter || detectDelimiter(pending);
+    tokenizer = createCsvTokenizer(delimiter, record => {
+      const fields = collector.accept(record);
+      if (fields) rows.push(fields);
+    });
+    tokenizer.push(pending);
+    pending = '';
+  };
+
+  const feed = (text: string) => {
+    if (tokenizer) {
+      tokenizer.push(text);
+      return;
+    }
+    pending += text;
+    if (pending.length >= SNIFF_BYTES) start();
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (options.isCancelled?.()) {
+      await reader.cancel();
+      throw createAbortError();
+    }
+    if (done) break;
+    if (!decoder) {
+      encoding = detectEncoding(value);
+      decoder = new TextDecoder(encoding);
+    }
+    loaded += value.byteLength;
+    feed(decoder.decode(value, { stream: true }));
+    options.onProgress?.(loaded, file.size);
+  }
+
+  if (decoder) feed(decoder.decode());
+  if (!tokenizer) start();
+  tokenizer!.end();
+
+  return {
+    headers: collector.getHeaders(),
+    rows,
+    delimiter: delimiter || ',',
+    encoding,
+    errors: collector.errors
+  };
+};
+
+export const formatParseErrors = (errors: CsvParseError[], limit = 3): string => {
+  if (errors.length === 0) return '';
+  const listed = errors.slice(0, limit).map(e => `row ${e.row}: ${e.message}`).join('; ');
+  const more = errors.length > limit ? ` and ${errors.length - limit} more` : '';
+  return `${listed}${more}`;
+};
@@ -0,0 +1,381 @@
+import { CellValue, ColumnData, DataRow, DataTable } from '../types';
+
+export interface ColumnStats {
+  count: number;
+  missingCount: number;
+  distinctCount: number;
+  min?: CellValue;
+  max?: CellValue;
+  // Only set for numeric columns
+  sum?: number;
+  mean?: number;
+  median?: number;
+}
+
+export interface RowQuery {
+  search?: string;
+  // Columns the search term is matched against; defaults to every column
+  searchColumns?: string[];
+  // Keep rows whose value in the column is one of the selected values. Empty sets are ignored.
+  filters?: Record<string, Set<CellValue>>;
+  // Any other row test, such as a compiled filter group
+  predicate?: (index: number) => boolean;
+}
+
+export const emptyTable: DataTable = { headers: [], rowCount: 0, columns: {} };
+
+const isMissingCell = (value: CellValue) => value === null || value === '';
+
+// Columns are immutable, so statistics are cached per column object and survive
+// every table derived with structural sharing (withColumn, renames, reorders)
+const statsCache = new WeakMap<ColumnData, ColumnStats>();
+const distinctCache = new WeakMap<ColumnData, CellValue[]>();
+const sortedCache = new WeakMap<ColumnData, Float64Array>();
+
+// --- Building ---
+
+const narrowCodes = (codes: Uint32Array, dictionarySize: number) => {
+  if (dictionarySize <= 0x100) return Uint8Array.from(codes);
+  if (dictionarySize <= 0x10000) return Uint16Array.from(codes);
+  return codes;
+};
+
+// Reads each value exactly once. Columns start out numeric and switch to dictionary
+// encoding at the first value that is not a number.
+export const createColumn = (length: number, get: (index: number) => CellValue | undefined): ColumnData => {
+  const values = new Float64Array(length);
+  let i = 0;
+  let pending: CellValue = null;
+  for (; i < length; i++) {
+    const v = get(i) ?? null;
+    if (v !== null && typeof v !== 'number') {
+      pending = v;
+      break;
+    }
+    values[i] = typeof v === 'number' ? v : NaN;
+  }
+  if (i === length) return { kind: 'numeric', values };
+
+  const dictionary: CellValue[] = [];
+  const lookup = new Map<CellValue, number>();
+  const encode = (v: CellValue) => {
+    let code = lookup.get(v);
+    if (code === undefined) {
+      code = dictionary.length;
+      dictionary.push(v);
+      lookup.set(v, code);
+    }
+    return code;
+  };
+
+  const codes = new Uint32Array(length);
+  for (let j = 0; j < i; j++) codes[j] = encode(isNaN(values[j]) ? null : values[j]);
+  codes[i] = encode(pending);
+  for (let j = i + 1; j < length; j++) codes[j] = encode(get(j) ?? null);
+  return { kind: 'dictionary', codes: narrowCodes(codes, dictionary.length), dictionary };
+};
+
+export const columnFromValues = (values: CellValue[]): ColumnData => createColumn(values.length, i => values[i]);
+
+export const createTable = (headers: string[], rows: DataRow[]): DataTable => {
+  const columns: Record<string, ColumnData> = {};
+  headers.forEach(h => {
+    columns[h] = createColumn(rows.length, i => rows[i][h]);
+  });
+  return { headers, rowCount: rows.length, columns };
+};
+
+// --- Reading ---
+
+const columnLength = (column: ColumnData) => column.kind === 'numeric' ? column.values.length : column.codes.length;
+
+// Returns a fast accessor for one column; unknown columns read as null
+export const columnReader = (table: DataTable, name: string): ((index: number) => CellValue) => {
+  const column = table.columns[name];
+  if (!column) return () => null;
+  if (column.kind === 'numeric') {
+    const { values } = column;
+    return i => {
+      const v = values[i];
+      return v !== v ? null : v;
+    };
+  }
+  const { codes, dictionary } = column;
+  return i => dictionary[codes[i]];
+};
+
+export const getValue = (table: DataTable, column: string, index: number): CellValue => columnReader(table, column)(index);
+
+export const getColumnValues = (table: DataTable, column: string): CellValue[] => {
+  const read = columnReader(table, column);
+  return Array.from({ length: table.rowCount }, (_, i) => read(i));
+};
+
+// Reads a numeric view of a column, with NaN for missing or non-numeric cells
+export const getNumericValues = (table: DataTable, column: string): Float64Array => {
+  const col = table.columns[column];
+  if (!col) return new Float64Array(table.rowCount).fill(NaN);
+  if (col.kind === 'numeric') return col.values;
+  const lookup = col.dictionary.map(v => (v === null || v === '' ? NaN : Number(v)));
+  return Float64Array.from(col.codes, code => lookup[code]);
+};
+
+export const getRow = (table: DataTable, index: number): DataRow => {
+  const row: DataRow = {};
+  table.headers.forEach(h => { row[h] = getValue(table, h, index); });
+  return row;
+};
+
+// Materializes rows for display or export. Pass indices to read a page or a filtered subset.
+export const getRows = (table: DataTable, indices?: ArrayLike<number>): DataRow[] => {
+  const readers = table.headers.map(h => [h, columnReader(table, h)] as const);
+  const count = indices ? indices.length : table.rowCount;
+  const rows: DataRow[] = new Array(count);
+  for (let n = 0; n < count; n++) {
+    const i = indices ? indices[n] : n;
+    const row: DataRow = {};
+    readers.forEach(([h, read]) => { row[h] = read(i); });
+    rows[n] = row;
+  }
+  return rows;
+};
+
+// --- Deriving tables ---
+
+// Adds or replaces a column; every other column is shared with the source table
+export const withColumn = (table: DataTable, name: string, column: ColumnData): DataTable => {
+  if (columnLength(column) !== table.rowCount) {
+    throw new Error(`Column "${name}" has ${columnLength(column)} values but the table has ${table.rowCount} rows`);
+  }
+  return {
+    ...table,
+    headers: name in table.columns ? table.headers : [...table.headers, name],
+    columns: { ...table.columns, [name]: column }
+  };
+};
+
+export const getRowIds = (table: DataTable): Uint32Array => {
+  if (table.rowIds) return table.rowIds;
+  const ids = new Uint32Array(table.rowCount);
+  for (let i = 0; i < ids.length; i++) ids[i] = i;
+  return ids;
+};
+
+export const takeRows = (table: DataTable, indices: ArrayLike<number>): DataTable => {
+  const sourceIds = getRowIds(table);
+  const columns: Record<string, ColumnData> = {};
+  table.headers.forEach(h => {
+    const col = table.columns[h];
+    if (col.kind === 'numeric') {
+      columns[h] = { kind: 'numeric', values: Float64Array.from(indices, i => col.values[i]) };
+    } else {
+      const codes = new (col.codes.constructor as Uint32ArrayConstructor)(indices.length);
+      for (let n = 0; n < indices.length; n++) codes[n] = col.codes[indices[n]];
+      columns[h] = { kind: 'dictionary', codes, dictionary: col.dictionary };
+    }
+  });
+  return { headers: table.headers, rowCount: indices.length, columns, rowIds: Uint32Array.from(indices, i => sourceIds[i]) };
+};
+
+export const filterRows = (table: DataTable, predicate: (index: number) => boolean): DataTable => {
+  const kept: number[] = [];
+  for (let i = 0; i < table.rowCount; i++) {
+    if (predicate(i)) kept.push(i);
+  }
+  return kept.length === table.rowCount ? table : takeRows(table, kept);
+};
+
+// Buffers that can be transferred instead of copied when a table crosses a worker boundary
+export const getTableBuffers = (table: DataTable): ArrayBuffer[] => {
+  const buffers = Object.values(table.columns).map(c => (c.kind === 'numeric' ? c.values.buffer : c.codes.buffer) as ArrayBuffer);
+  return Array.from(new Set(buffers));
+};
+
+// --- Statistics ---
+
+const compareText = (a: CellValue, b: CellValue) => String(a).localeCompare(String(b));
+
+// Sorted non-missing values of a numeric column, shared by median and quantile lookups
+export const getSortedNumbers = (column: ColumnData): Float64Array => {
+  const cached = sortedCache.get(column);
+  if (cached) return cached;
+  const values = column.kind === 'numeric'
+    ? column.values.filter(v => !isNaN(v))
+    : new Float64Array(0);
+  values.sort();
+  sortedCache.set(column, values);
+  return values;
+};
+
+const usedCodes = (codes: ArrayLike<number>, dictionarySize: number) => {
+  const used = new Uint8Array(dictionarySize);
+  for (let i = 0; i < codes.length; i++) used[codes[i]] = 1;
+  return used;
+};
+
+const computeStats = (column: ColumnData): ColumnStats => {
+  if (column.kind === 'numeric') {
+    const sorted = getSortedNumbers(column);
+    const count = sorted.length;
+    const stats: ColumnStats = { count, missingCount: column.values.length - count, distinctCount: 0 };
+    if (count === 0) return stats;
+
+    let sum = 0;
+    let distinct = 0;
+    for (let i = 0; i < count; i++) {
+      sum += sorted[i];
+      if (i === 0 || sorted[i] !== sorted[i - 1]) distinct++;
+    }
+    const mid = Math.floor(count / 2);
+    return {
+      ...stats,
+      distinctCount: distinct,
+      min: sorted[0],
+      max: sorted[count - 1],
+      sum,
+      mean: sum / count,
+      median: count % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid]
+    };
+  }
+
+  const { codes, dictionary } = column;
+  const frequency = new Uint32Array(dictionary.length);
+  for (let i = 0; i < codes.length; i++) frequency[codes[i]]++;
+
+  const stats: ColumnStats = { count: 0, missingCount: 0, distinctCount: 0 };
+  dictionary.forEach((value, code) => {
+    if (frequency[code] === 0) return;
+    if (isMissingCell(value)) {
+      stats.missingCount += frequency[code];
+      return;
+    }
+    stats.count += frequency[code];
+    stats.distinctCount++;
+    if (stats.min === undefined || compareText(value, stats.min) < 0) stats.min = value;
+    if (stats.max === undefined || compareText(value, stats.max) > 0) stats.max = value;
+  });
+  return stats;
+};
+
+export const getColumnStats = (table: DataTable, column: string): ColumnStats => {
+  const col = table.columns[column];
+  if (!col) return { count: 0, missingCount: table.rowCount, distinctCount: 0 };
+  let stats = statsCache.get(col);
+  if (!stats) {
+    stats = computeStats(col);
+    statsCache.set(col, stats);
+  }
+  return stats;
+};
+
+// Every value that occurs in the column (missing ones included), sorted for pickers
+export const getDistinctValues = (table: DataTable, column: string): CellValue[] => {
+  const col = table.columns[column];
+  if (!col) return [];
+  const cached = distinctCache.get(col);
+  if (cached) return cached;
+
+  let values: CellValue[];
+  if (col.kind === 'numeric') {
+    const sorted = getSortedNumbers(col);
+    values = Array.from(sorted.filter((v, i) => i === 0 || v !== sorted[i - 1]));
+    if (sorted.length < col.values.length) values.unshift(null);
+  } else {
+    const used = usedCodes(col.codes, col.dictionary.length);
+    values = col.dictionary.filter((_, code) => used[code]).sort(compareText);
+  }
+  distinctCache.set(col, values);
+  return values;
+};
+
+// --- Querying ---
+
+// Builds a per-row test for one column. Dictionary columns evaluate the test once per
+// distinct value, which keeps search and filters cheap on large, repetitive columns.
+const matchColumn = (table: DataTable, column: string, test: (value: CellValue) => boolean): ((index: number) => boolean) => {
+  const col = table.columns[column];
+  if (!col) return () => test(null);
+  if (col.kind === 'dictionary') {
+    const mask = col.dictionary.map(test);
+    const { codes } = col;
+    return i => mask[codes[i]];
+  }
+  const read = columnReader(table, column);
+  return i => test(read(i));
+};
+
+// The single entry point views use to find matching rows. Returns row indices in table order.
+export const queryRows = (table: DataTable, query: RowQuery = {}): Uint32Array => {
+  const tests: ((index: number) => boolean)[] = [];
+
+  Object.entries(query.filters ?? {}).forEach(([column, selected]) => {
+    if (selected.size > 0) tests.push(matchColumn(table, column, v => selected.has(v)));
+  });
+
+  if (query.predicate) tests.push(query.predicate);
+
+  const term = query.search?.trim().toLowerCase();
+  if (term) {
+    const matchers = (query.searchColumns ?? table.headers).map(h =>
+      matchColumn(table, h, v => String(v).toLowerCase().includes(term))
+    );
+    tests.push(i => matchers.some(m => m(i)));
+  }
+
+  const matches = new Uint32Array(table.rowCount);
+  let count = 0;
+  for (let i = 0; i < table.rowCount; i++) {
+    if (tests.every(t => t(i))) matches[count++] = i;
+  }
+  return matches.subarray(0, count);
+};
+
+export interface SortKey {
+  column: string;
+  direction: 'asc' | 'desc';
+}
+
+// Numbers compare numerically, everything else as text with embedded numbers in order
+const compareValues = (a: CellValue, b: CellValue) =>
+  typeof a === 'number' && typeof b === 'number' ? a - b : String(a).localeCompare(String(b), undefined, { numeric: true });
+
+// One sortable number per row: the value itself for numeric columns, the rank of the value
+// among the dictionary for encoded ones. Missing values become NaN.
+const sortKeys = (table: DataTable, column: string, indices: ArrayLike<number>): Float64Array => {
+  const col = table.columns[column];
+  const keys = new Float64Array(indices.length);
+  if (!col) return keys.fill(NaN);
+  if (col.kind === 'numeric') {
+    for (let p = 0; p < indices.length; p++) keys[p] = col.values[indices[p]];
+    return keys;
+  }
+  const order = col.dictionary.map((_, code) => code)
+    .filter(code => !isMissingCell(col.dictionary[code]))
+    .sort((a, b) => compareValues(col.dictionary[a], col.dictionary[b]));
+  const rank = new Float64Array(col.dictionary.length).fill(NaN);
+  order.forEach((code, r) => { rank[code] = r; });
+  for (let p = 0; p < indices.length; p++) keys[p] = rank[col.codes[indices[p]]];
+  return keys;
+};
+
+// Orders row indices by several columns. The sort is stable and missing values go last in
+// either direction.
+export const sortRows = (table: DataTable, indices: Uint32Array, sort: SortKey[]): Uint32Array => {
+  if (sort.length === 0 || indices.length < 2) return indices;
+  const keys = sort.map(s => ({ values: sortKeys(table, s.column, indices), sign: s.direction === 'asc' ? 1 : -1 }));
+  const positions = Array.from({ length: indices.length }, (_, p) => p);
+  positions.sort((a, b) => {
+    for (const { values, sign } of keys) {
+      const x = values[a];
+      const y = values[b];
+      if (x === y) continue;
+      if (x !== x || y !== y) {
+        if (x !== x && y !== y) continue;
+        return x !== x ? 1 : -1;
+      }
+      return (x - y) * sign;
+    }
+    return a - b;
+  });
+  return Uint32Array.from(positions, p => indices[p]);
+};
@@ -0,0 +1,192 @@
+import { CellValue, ColumnData, ColumnMeta, DataTable, Dataset } from '../types';
+import { columnFromValues, columnReader, createColumn, emptyTable } from './dataTable';
+import { coerceValue, summarizeColumns } from './schemaInference';
+import { createInitialVersion } from './history';
+
+export type JoinType = 'inner' | 'left' | 'full';
+
+export interface JoinSpec {
+  type: JoinType;
+  // Key columns are matched pairwise: leftKeys[i] against rightKeys[i]
+  leftKeys: string[];
+  rightKeys: string[];
+}
+
+export const JOIN_TYPES: { type: JoinType; label: string; description: string }[] = [
+  { type: 'inner', label: 'Inner', description: 'Only rows with a match on both sides' },
+  { type: 'left', label: 'Left', description: 'Every left row, with right columns where matched' },
+  { type: 'full', label: 'Full', description: 'Every row from both sides' }
+];
+
+// Appends " 2", " 3", ... until the name is not taken
+export const uniqueName = (name: string, taken: Iterable<string>, separator = ' '): string => {
+  const used = new Set(taken);
+  if (!used.has(name)) return name;
+  let n = 2;
+  while (used.has(`${name}${separator}${n}`)) n++;
+  return `${name}${separator}${n}`;
+};
+
+let nextDatasetId = 1;
+
+// `origin` labels the first entry of the dataset's version history
+export const createDataset = (name: string, table: DataTable, columns: ColumnMeta[], existing: Dataset[], origin = 'Imported'): Dataset => ({
+  id: `dataset-${nextDatasetId++}`,
+  name: uniqueName(name.trim() || 'Untitled', existing.map(d => d.name)),
+  table,
+  columns,
+  history: [createInitialVersion(origin, table, columns)],
+  version: 0
+});
+
+// Strips the extension from an uploaded file name ("orders.csv" -> "orders")
+export const datasetNameFromFile = (fileName: string, sheet?: string): string => {
+  const base = fileName.replace(/\.[^.]+$/, '') || fileName;
+  return sheet ? `${base} (${sheet})` : base;
+};
+
+export const getDatasetTable = (datasets: Dataset[], id: string | undefined, fallback: DataTable = emptyTable): DataTable => {
+  if (!id) return fallback;
+  return datasets.find(d => d.id === id)?.table ?? emptyTable;
+};
+
+// --- Joins ---
+
+// Rows with a missing key never match, as in SQL
+const keyReader = (table: DataTable, keys: string[]) => {
+  const readers = keys.map(k => columnReader(table, k));
+  return (index: number): string | null => {
+    const parts: string[] = [];
+    for (const read of readers) {
+      const v = read(index);
+      if (v === null || v === '') return null;
+      parts.push(String(v));
+    }
+    return parts.join('\u001f');
+  };
+};
+
+const pickColumn = (table: DataTable, name: string, indices: Int32Array): ColumnData => {
+  const read = columnReader(table, name);
+  return createColumn(indices.length, n => (indices[n] < 0 ? null : read(indices[n])));
+};
+
+export const joinDatasets = (left: Dataset, right: Dataset, spec: JoinSpec): { table: DataTable; columns: ColumnMeta[] } => {
+  const { leftKeys, rightKeys } = spec;
+  if (leftKeys.length === 0 || leftKeys.length !== rightKeys.length) {
+    throw new Error('Pick the same number of key columns on both sides');
+  }
+  const missing = [
+    ...leftKeys.filter(k => !(k in left.table.columns)).map(k => `${left.name}.${k}`),
+    ...rightKeys.filter(k => !(k in right.table.columns)).map(k => `${right.name}.${k}`)
+  ];
+  if (missing.length > 0) throw new Error(`Unknown key ${missing.length === 1 ? 'column' : 'columns'}: ${missing.join(', ')}`);
+
+  const rightIndex = new Map<string, number[]>();
+  const readRightKey = keyReader(right.table, rightKeys);
+  for (let i = 0; i < right.table.rowCount; i++) {
+    const key = readRightKey(i);
+    if (key === null) continue;
+    const bucket = rightIndex.get(key);
+    if (bucket) bucket.push(i);
+    else rightIndex.set(key, [i]);
+  }
+
+  const leftRows: number[] = [];
+  const rightRows: number[] = [];
+  const matchedRight = new Uint8Array(right.table.rowCount);
+  const readLeftKey = keyReader(left.table, leftKeys);
+  for (let i = 0; i < left.table.rowCount; i++) {
+    const key = readLeftKey(i);
+    const matches = key === null ? undefined : rightIndex.get(key);
+    if (matches) {
+      matches.forEach(r => {
+        leftRows.push(i);
+        rightRows.push(r);
+        matchedRight[r] = 1;
+      });
+    } else if (spec.type !== 'inner') {
+      leftRows.push(i);
+      rightRows.push(-1);
+    }
+  }
+  if (spec.type === 'full') {
+    for (let r = 0; r < right.table.rowCount; r++) {
+      if (!matchedRight[r]) {
+        leftRows.push(-1);
+        rightRows.push(r);
+      }
+    }
+  }
+
+  const leftIndices = Int32Array.from(leftRows);
+  const rightIndices = Int32Array.from(rightRows);
+  const headers: string[] = [];
+  const columns: Record<string, ColumnData> = {};
+  const meta: ColumnMeta[] = [];
+
+  left.table.headers.forEach(h => {
+    const keyPosition = leftKeys.indexOf(h);
+    if (keyPosition !== -1 && spec.type === 'full') {
+      // Unmatched right rows still need their key, so key columns take whichever side has it
+      const readLeft = columnReader(left.table, h);
+      const readRight = columnReader(right.table, rightKeys[keyPosition]);
+      columns[h] = createColumn(leftIndices.length, n => (leftIndices[n] >= 0 ? readLeft(leftIndices[n]) : readRight(rightIndices[n])));
+    } else {
+      columns[h] = pickColumn(left.table, h, leftIndices);
+    }
+    headers.push(h);
+    meta.push(left.columns.find(c => c.name === h) ?? { name: h, type: 'string', uniqueCount: 0, missingCount: 0 });
+  });
+
+  right.table.headers.forEach(h => {
+    if (rightKeys.includes(h)) return;
+    const name = uniqueName(h, headers, '_');
+    columns[name] = pickColumn(right.table, h, rightIndices);
+    headers.push(name);
+    const source = right.columns.find(c => c.name === h);
+    meta.push({ ...(source ?? { type: 'string', uniqueCount: 0, missingCount: 0 }), name });
+  });
+
+  const table: DataTable = { headers, rowCount: leftIndices.length, columns };
+  return { table, columns: summarizeColumns(table, meta) };
+};
+
+// --- Unions ---
+
+// Stacks datasets on top of each other, matching columns by name. A column whose type
+// differs between sources is kept as text so every value survives.
+export const unionDatasets = (sources: Dataset[]): { table: DataTable; columns: ColumnMeta[] } => {
+  if (sources.length < 2) throw new Error('Pick at least two datasets to combine');
+
+  const headers: string[] = [];
+  const meta = new Map<string, ColumnMeta>();
+  sources.forEach(ds => ds.table.headers.forEach(h => {
+    const source = ds.columns.find(c => c.name === h) ?? { name: h, type: 'string', uniqueCount: 0, missingCount: 0 };
+    const known = meta.get(h);
+    if (!known) {
+      headers.push(h);
+      meta.set(h, { ...source });
+    } else if (known.type !== source.type || known.format !== source.format) {
+      meta.set(h, { ...known, type: 'string', format: undefined });
+    }
+  }));
+
+  const rowCount = sources.reduce((sum, ds) => sum + ds.table.rowCount, 0);
+  const columns: Record<string, ColumnData> = {};
+  headers.forEach(h => {
+    const column = meta.get(h)!;
+    const values: CellValue[] = [];
+    sources.forEach(ds => {
+      const read = columnReader(ds.table, h);
+      for (let i = 0; i < ds.table.rowCount; i++) {
+        const v = read(i);
+        values.push(column.type === 'string' && v !== null ? coerceValue(v, 'string') : v);
+      }
+    });
+    columns[h] = columnFromValues(values);
+  });
+
+  const table: DataTable = { headers, rowCount, columns };
+  return { table, columns: summarizeColumns(table, headers.map(h => meta.get(h)!)) };
+};
@@ -0,0 +1,163 @@
+import * as XLSX from 'xlsx';
+import { CellValue, DataTable } from '../types';
+import { CsvDelimiter } from './csvParser';
+import { columnReader } from './dataTable';
+
+export type ExportFormat = 'csv' | 'tsv' | 'json' | 'ndjson' | 'xlsx';
+export type ExportEncoding = 'utf-8' | 'utf-8-bom' | 'utf-16le' | 'windows-1252';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  // Only used by CSV; TSV always separates with tabs
+  delimiter: CsvDelimiter;
+  // Text formats only; xlsx files are always written as a zipped workbook
+  encoding: ExportEncoding;
+  includeHeader: boolean;
+}
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string; extension: string; mime: string }[] = [
+  { format: 'csv', label: 'CSV', extension: 'csv', mime: 'text/csv' },
+  { format: 'tsv', label: 'TSV', extension: 'tsv', mime: 'text/tab-separated-values' },
+  { format: 'json', label: 'JSON', extension: 'json', mime: 'application/json' },
+  { format: 'ndjson', label: 'NDJSON', extension: 'ndjson', mime: 'application/x-ndjson' },
+  { format: 'xlsx', label: 'Excel', extension: 'xlsx', mime: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }
+];
+
+export const EXPORT_ENCODINGS: { encoding: ExportEncoding; label: string }[] = [
+  { encoding: 'utf-8', label: 'UTF-8' },
+  { encoding: 'utf-8-bom', label: 'UTF-8 with BOM (Excel)' },
+  { encoding: 'utf-16le', label: 'UTF-16 LE' },
+  { encoding: 'windows-1252', label: 'Windows-1252 (Latin)' }
+];
+
+export const DELIMITER_LABELS: Record<CsvDelimiter, string> = {
+  ',': 'Comma',
+  ';': 'Semicolon',
+  '\t': 'Tab',
+  '|': 'Pipe'
+};
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = { format: 'csv', delimiter: ',', encoding: 'utf-8', includeHeader: true };
+
+// Excel stops reading a sheet past this many rows
+export const XLSX_MAX_ROWS = 1048576;
+
+export const exportFileName = (name: string, format: ExportFormat) => {
+  const base = name.trim().replace(/\.[a-z0-9]+$/i, '').replace(/[\\/:*?"<>|]+/g, '_').replace(/\s+/g, '_') || 'dataset';
+  return `${base}.${EXPORT_FORMATS.find(f => f.format === format)!.extension}`;
+};
+
+// RFC 4180: a field is quoted when it contains the delimiter, a quote, a line break or
+// surrounding spaces, and quotes inside it are doubled
+export const escapeDelimited = (value: unknown, delimiter: string): string => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  const needsQuotes = text.includes(delimiter) || /["\r\n]/.test(text) || text.trim() !== text;
+  return needsQuotes ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Rows of values, header line included, as delimited text with CRLF line breaks. For grids
+// such as pivots, whose column labels need not be unique.
+export const matrixToDelimited = (lines: unknown[][], delimiter: string = ','): string =>
+  lines.map(line => line.map(value => escapeDelimited(value, delimiter)).join(delimiter)).join('\r\n');
+
+// Plain objects, such as aggregated chart rows, as delimited text with CRLF line breaks
+export const rowsToDelimited = (headers: string[], rows: Record<string, unknown>[], delimiter: string = ','): string =>
+  matrixToDelimited([headers, ...rows.map(row => headers.map(h => row[h]))], delimiter);
+
+// Saves a blob through a temporary link, as a browser download
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.setAttribute('href', url);
+  link.setAttribute('download', fileName);
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const tableToDelimited = (table: DataTable, indices: ArrayLike<number>, headers: string[], delimiter: string, includeHeader: boolean) => {
+  const readers = headers.map(h => columnReader(table, h));
+  const lines: string[] = includeHeader ? [headers.map(h => escapeDelimited(h, delimiter)).join(delimiter)] : [];
+  for (let i = 0; i < indices.length; i++) {
+    const index = indices[i];
+    lines.push(readers.map(read => escapeDelimited(read(index), delimiter)).join(delimiter));
+  }
+  return lines.join('\r\n');
+};
+
+const rowObject = (readers: (readonly [string, (index: number) => CellValue])[], index: number) => {
+  const row: Record<string, CellValue> = {};
+  readers.forEach(([h, read]) => { row[h] = read(index); });
+  return row;
+};
+
+let windows1252: Map<string, number> | null = null;
+
+// Characters outside the code page become "?", as most encoders do
+const encodeWindows1252 = (text: string): Uint8Array => {
+  if (!windows1252) {
+    const decoded = new TextDecoder('windows-1252').decode(Uint8Array.from({ length: 256 }, (_, i) => i));
+    windows1252 = new Map(Array.from(decoded, (char, byte) => [char, byte]));
+  }
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) bytes[i] = windows1252.get(text[i]) ?? 0x3f;
+  return bytes;
+};
+
+const encodeText = (text: string, encoding: ExportEncoding): Uint8Array => {
+  switch (encoding) {
+    case 'utf-8':
+      return new TextEncoder().encode(text);
+    case 'utf-8-bom':
+      return new TextEncoder().encode(`\uFEFF${text}`);
+    case 'utf-16le': {
+      const bytes = new Uint8Array((text.length + 1) * 2);
+      bytes[0] = 0xff;
+      bytes[1] = 0xfe;
+      for (let i = 0; i < text.length; i++) {
+        const code = text.charCodeAt(i);
+        bytes[2 + i * 2] = code & 0xff;
+        bytes[3 + i * 2] = code >> 8;
+      }
+      return bytes;
+    }
+    case 'windows-1252':
+      return encodeWindows1252(text);
+  }
+};
+
+// Writes the given rows, in the given order, with the given columns in the given order.
+// Callers pass their filtered and sorted row indices and their current column order.
+export const exportTable = (table: DataTable, indices: ArrayLike<number>, headers: string[], options: ExportOptions, sheetName = 'Data'): Blob => {
+  const { format, encoding, includeHeader } = options;
+  const mime = EXPORT_FORMATS.find(f => f.format === format)!.mime;
+
+  if (format === 'xlsx') {
+    if (indices.length + (includeHeader ? 1 : 0) > XLSX_MAX_ROWS) {
+      throw new Error(`Excel sheets hold at most ${XLSX_MAX_ROWS.toLocaleString()} rows; filter the data or export as CSV`);
+    }
+    const readers = headers.map(h => columnReader(table, h));
+    const matrix: CellValue[][] = includeHeader ? [headers] : [];
+    for (let i = 0; i < indices.length; i++) {
+      const index = indices[i];
+      matrix.push(readers.map(read => read(index)));
+    }
+    const workbook = XLSX.utils.book_new();
+    // Sheet names are limited to 31 characters and may not contain []:*?/\
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(matrix), sheetName.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, 31) || 'Data');
+    return new Blob([XLSX.write(workbook, { type: 'array', bookType: 'xlsx' })], { type: mime });
+  }
+
+  let text: string;
+  if (format === 'csv' || format === 'tsv') {
+    text = tableToDelimited(table, indices, headers, format === 'tsv' ? '\t' : options.delimiter, includeHeader);
+  } else {
+    const readers = headers.map(h => [h, columnReader(table, h)] as const);
+    const lines: string[] = [];
+    for (let i = 0; i < indices.length; i++) lines.push(JSON.stringify(rowObject(readers, indices[i])));
+    if (format === 'json') text = lines.length > 0 ? `[\n${lines.map(l => `  ${l}`).join(',\n')}\n]` : '[]';
+    else text = lines.map(l => `${l}\n`).join('');
+  }
+  const charset = encoding === 'utf-8-bom' ? 'utf-8' : encoding;
+  return new Blob([encodeText(text, encoding)], { type: `${mime};charset=${charset}` });
+};
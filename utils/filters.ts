@@ -0,0 +1,262 @@
+import { CellValue, ColumnMeta, ColumnType, DataTable, DateUnit, FilterCondition, FilterGroup, FilterOperator } from '../types';
+import { columnReader, getNumericValues } from './dataTable';
+
+type Arity = 'none' | 'one' | 'two' | 'relative' | 'period';
+
+interface OperatorInfo {
+  operator: FilterOperator;
+  arity: Arity;
+  types: ColumnType[];
+  label: string;
+  // Per-type wording, e.g. "=" for numbers and "on" for dates
+  labels?: Partial<Record<ColumnType, string>>;
+}
+
+export const FILTER_OPERATORS: OperatorInfo[] = [
+  { operator: 'eq', arity: 'one', types: ['string', 'number', 'date', 'boolean'], label: 'is', labels: { number: '=', date: 'on' } },
+  { operator: 'neq', arity: 'one', types: ['string', 'number', 'boolean'], label: 'is not', labels: { number: '≠' } },
+  { operator: 'gt', arity: 'one', types: ['number'], label: '>' },
+  { operator: 'gte', arity: 'one', types: ['number'], label: '≥' },
+  { operator: 'lt', arity: 'one', types: ['number'], label: '<' },
+  { operator: 'lte', arity: 'one', types: ['number'], label: '≤' },
+  { operator: 'between', arity: 'two', types: ['number', 'date'], label: 'between' },
+  { operator: 'before', arity: 'one', types: ['date'], label: 'before' },
+  { operator: 'after', arity: 'one', types: ['date'], label: 'after' },
+  { operator: 'in_last', arity: 'relative', types: ['date'], label: 'in the last' },
+  { operator: 'in_current', arity: 'period', types: ['date'], label: 'in the current' },
+  { operator: 'contains', arity: 'one', types: ['string'], label: 'contains' },
+  { operator: 'not_contains', arity: 'one', types: ['string'], label: 'does not contain' },
+  { operator: 'starts_with', arity: 'one', types: ['string'], label: 'starts with' },
+  { operator: 'ends_with', arity: 'one', types: ['string'], label: 'ends with' },
+  { operator: 'regex', arity: 'one', types: ['string'], label: 'matches regex' },
+  { operator: 'is_null', arity: 'none', types: ['string', 'number', 'date', 'boolean'], label: 'is empty' },
+  { operator: 'not_null', arity: 'none', types: ['string', 'number', 'date', 'boolean'], label: 'is not empty' }
+];
+
+export const DATE_UNITS: { unit: DateUnit; label: string }[] = [
+  { unit: 'day', label: 'days' },
+  { unit: 'week', label: 'weeks' },
+  { unit: 'month', label: 'months' },
+  { unit: 'quarter', label: 'quarters' },
+  { unit: 'year', label: 'years' }
+];
+
+export const operatorInfo = (operator: FilterOperator) => FILTER_OPERATORS.find(o => o.operator === operator)!;
+
+export const operatorsFor = (type: ColumnType) => FILTER_OPERATORS.filter(o => o.types.includes(type));
+
+export const operatorLabel = (operator: FilterOperator, type: ColumnType) => {
+  const info = operatorInfo(operator);
+  return info.labels?.[type] ?? info.label;
+};
+
+// --- Building ---
+
+let nextFilterId = 1;
+
+const filterId = () => `f${nextFilterId++}`;
+
+export const createCondition = (column: ColumnMeta): FilterCondition => ({
+  kind: 'condition',
+  id: filterId(),
+  column: column.name,
+  operator: column.type === 'string' ? 'contains' : column.type === 'date' ? 'in_last' : 'eq',
+  value: '',
+  value2: '',
+  unit: column.type === 'date' ? 'day' : undefined
+});
+
+export const createGroup = (combinator: FilterGroup['combinator'] = 'and', children: FilterGroup['children'] = []): FilterGroup => ({
+  kind: 'group',
+  id: filterId(),
+  combinator,
+  children
+});
+
+type FilterNode = FilterCondition | FilterGroup;
+
+// Returns a copy of the tree with one node replaced; a null replacement removes it
+export const replaceNode = (group: FilterGroup, id: string, replacement: FilterNode | null): FilterGroup => ({
+  ...group,
+  children: group.children.flatMap(child => {
+    if (child.id === id) return replacement ? [replacement] : [];
+    return child.kind === 'group' ? [replaceNode(child, id, replacement)] : [child];
+  })
+});
+
+export const countConditions = (group: FilterGroup): number =>
+  group.children.reduce((n, child) => n + (child.kind === 'group' ? countConditions(child) : 1), 0);
+
+// --- Evaluating ---
+
+const isBlank = (v: CellValue) => v === null || v === '';
+
+const pad = (n: number) => String(n).padStart(2, '0');
+const dayKey = (d: Date) => `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+
+// Start of the current period and the start of the period N units back, as YYYY-MM-DD
+const periodStart = (now: Date, unit: DateUnit) => {
+  const d = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  if (unit === 'week') d.setDate(d.getDate() - ((d.getDay() + 6) % 7)); // Weeks start on Monday
+  if (unit === 'month') d.setDate(1);
+  if (unit === 'quarter') d.setMonth(d.getMonth() - (d.getMonth() % 3), 1);
+  if (unit === 'year') d.setMonth(0, 1);
+  return d;
+};
+
+const shift = (date: Date, unit: DateUnit, amount: number) => {
+  const d = new Date(date);
+  if (unit === 'day') d.setDate(d.getDate() + amount);
+  if (unit === 'week') d.setDate(d.getDate() + amount * 7);
+  if (unit === 'month') d.setMonth(d.getMonth() + amount);
+  if (unit === 'quarter') d.setMonth(d.getMonth() + amount * 3);
+  if (unit === 'year') d.setFullYear(d.getFullYear() + amount);
+  return d;
+};
+
+const DATE_INPUT = /^\d{4}-\d{2}-\d{2}$/;
+
+// Each condition compiles to a row test, or to a problem message when its value cannot be
+// used. Conditions still waiting for a value compile to nothing and are left out.
+type Compiled = { test: (i: number) => boolean } | { problem: string } | null;
+
+const compileCondition = (table: DataTable, type: ColumnType, c: FilterCondition, now: Date): Compiled => {
+  if (!(c.column in table.columns)) return { problem: `${c.column} no longer exists` };
+  const read = columnReader(table, c.column);
+  const info = operatorInfo(c.operator);
+  if (!info.types.includes(type)) return { problem: `"${info.label}" does not apply to ${type} columns` };
+
+  if (c.operator === 'is_null') return { test: i => isBlank(read(i)) };
+  if (c.operator === 'not_null') return { test: i => !isBlank(read(i)) };
+
+  if (type === 'number') {
+    const values = getNumericValues(table, c.column);
+    const a = c.value.trim() === '' ? NaN : Number(c.value);
+    const b = c.value2.trim() === '' ? NaN : Number(c.value2);
+    if (c.value.trim() === '' || (info.arity === 'two' && c.value2.trim() === '')) return null;
+    if (isNaN(a) || (info.arity === 'two' && isNaN(b))) return { problem: 'Enter a number' };
+    const lo = Math.min(a, b);
+    const hi = Math.max(a, b);
+    switch (c.operator) {
+      case 'eq': return { test: i => values[i] === a };
+      case 'neq': return { test: i => !isNaN(values[i]) && values[i] !== a };
+      case 'gt': return { test: i => values[i] > a };
+      case 'gte': return { test: i => values[i] >= a };
+      case 'lt': return { test: i => values[i] < a };
+      case 'lte': return { test: i => values[i] <= a };
+      case 'between': return { test: i => values[i] >= lo && values[i] <= hi };
+    }
+  }
+
+  if (type === 'date') {
+    // Stored dates are ISO strings, so comparing the day part as text orders them correctly
+    const day = (i: number) => {
+      const v = read(i);
+      return typeof v === 'string' ? v.slice(0, 10) : null;
+    };
+    const inRange = (from: string, to: string) => (i: number) => {
+      const d = day(i);
+      return d !== null && d >= from && d <= to;
+    };
+    if (c.operator === 'in_last' || c.operator === 'in_current') {
+      const unit = c.unit ?? 'day';
+      if (c.operator === 'in_current') {
+        const start = periodStart(now, unit);
+        return { test: inRange(dayKey(start), dayKey(shift(shift(start, unit, 1), 'day', -1))) };
+      }
+      if (c.value.trim() === '') return null;
+      const n = Number(c.value);
+      if (!Number.isInteger(n) || n < 1) return { problem: 'Enter a whole number of periods' };
+      // "Last 7 days" is today and the six days before it
+      const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+      return { test: inRange(dayKey(shift(shift(today, unit, -n), 'day', 1)), dayKey(today)) };
+    }
+    if (c.value === '' || (info.arity === 'two' && c.value2 === '')) return null;
+    if (!DATE_INPUT.test(c.value) || (info.arity === 'two' && !DATE_INPUT.test(c.value2))) return { problem: 'Enter a date as YYYY-MM-DD' };
+    const [from, to] = [c.value, c.value2].sort();
+    switch (c.operator) {
+      case 'eq': return { test: i => day(i) === c.value };
+      case 'before': return { test: i => { const d = day(i); return d !== null && d < c.value; } };
+      case 'after': return { test: i => { const d = day(i); return d !== null && d > c.value; } };
+      case 'between': return { test: inRange(from, to) };
+    }
+  }
+
+  // Text and booleans compare their string form
+  if (c.value === '') return null;
+  const fold = (s: string) => (c.matchCase ? s : s.toLowerCase());
+  const target = fold(c.value);
+  const text = (i: number) => {
+    const v = read(i);
+    return isBlank(v) ? null : fold(String(v));
+  };
+  switch (c.operator) {
+    case 'eq': return { test: i => text(i) === target };
+    case 'neq': return { test: i => { const t = text(i); return t !== null && t !== target; } };
+    case 'contains': return { test: i => text(i)?.includes(target) ?? false };
+    case 'not_contains': return { test: i => !(text(i)?.includes(target) ?? false) };
+    case 'starts_with': return { test: i => text(i)?.startsWith(target) ?? false };
+    case 'ends_with': return { test: i => text(i)?.endsWith(target) ?? false };
+    case 'regex': {
+      let pattern: RegExp;
+      try {
+        pattern = new RegExp(c.value, c.matchCase ? '' : 'i');
+      } catch {
+        return { problem: 'Invalid regular expression' };
+      }
+      return { test: i => { const v = read(i); return !isBlank(v) && pattern.test(String(v)); } };
+    }
+  }
+  return null;
+};
+
+export interface CompiledFilter {
+  // Null when no condition is complete, meaning every row passes
+  test: ((index: number) => boolean) | null;
+  problems: Record<string, string>; // Condition id to message
+}
+
+export const compileFilter = (table: DataTable, columns: ColumnMeta[], group: FilterGroup, now = new Date()): CompiledFilter => {
+  const problems: Record<string, string> = {};
+  const types = new Map(columns.map(c => [c.name, c.type]));
+
+  const compileGroup = (g: FilterGroup): ((i: number) => boolean) | null => {
+    const tests = g.children.flatMap(child => {
+      if (child.kind === 'group') {
+        const test = compileGroup(child);
+        return test ? [test] : [];
+      }
+      const compiled = compileCondition(table, types.get(child.column) ?? 'string', child, now);
+      if (compiled && 'problem' in compiled) problems[child.id] = compiled.problem;
+      return compiled && 'test' in compiled ? [compiled.test] : [];
+    });
+    if (tests.length === 0) return null;
+    if (tests.length === 1) return tests[0];
+    return g.combinator === 'and' ? i => tests.every(t => t(i)) : i => tests.some(t => t(i));
+  };
+
+  return { test: compileGroup(group), problems };
+};
+
+// --- Describing ---
+
+const describeCondition = (c: FilterCondition, type: ColumnType) => {
+  const label = operatorLabel(c.operator, type);
+  switch (operatorInfo(c.operator).arity) {
+    case 'none': return `${c.column} ${label}`;
+    case 'two': return `${c.column} ${label} ${c.value} and ${c.value2}`;
+    case 'relative': return `${c.column} ${label} ${c.value} ${DATE_UNITS.find(u => u.unit === c.unit)?.label ?? 'days'}`;
+    case 'period': return `${c.column} ${label} ${c.unit ?? 'day'}`;
+    default: return `${c.column} ${label} ${type === 'string' ? `"${c.value}"` : c.value}`;
+  }
+};
+
+// A readable form of the filter, e.g. `region is "East" AND (revenue > 100 OR units ≥ 5)`
+export const describeFilter = (group: FilterGroup, columns: ColumnMeta[], nested = false): string => {
+  const types = new Map(columns.map(c => [c.name, c.type]));
+  const parts = group.children.map(child =>
+    child.kind === 'group' ? describeFilter(child, columns, true) : describeCondition(child, types.get(child.column) ?? 'string')
+  ).filter(Boolean);
+  const text = parts.join(` ${group.combinator.toUpperCase()} `);
+  return nested && parts.length > 1 ? `(${text})` : text;
+};
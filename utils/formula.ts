@@ -0,0 +1,500 @@
+import { CellValue, ColumnMeta, ColumnType, DataTable } from '../types';
+import { columnReader } from './dataTable';
+import { parseDate, parseNumber } from './schemaInference';
+
+// A small expression language for computed columns. Formulas are parsed into a tree and
+// evaluated row by row; nothing is ever handed to eval or Function.
+//
+//   revenue - cost
+//   IF([unit price] > 100, "premium", "standard")
+//   YEAR(order_date) & "-Q" & QUARTER(order_date)
+
+export type FormulaNode =
+  | { kind: 'literal'; value: CellValue }
+  | { kind: 'column'; name: string }
+  | { kind: 'unary'; op: '-' | 'NOT'; operand: FormulaNode }
+  | { kind: 'binary'; op: BinaryOp; left: FormulaNode; right: FormulaNode }
+  | { kind: 'call'; name: string; args: FormulaNode[] };
+
+export type BinaryOp = '+' | '-' | '*' | '/' | '%' | '^' | '&' | '=' | '!=' | '<' | '<=' | '>' | '>=' | 'AND' | 'OR';
+
+export interface FormulaResult {
+  values: CellValue[];
+  type: ColumnType;
+  errorCount: number;
+  firstError?: string;
+}
+
+// --- Tokens ---
+
+type Token =
+  | { type: 'number'; value: number; pos: number }
+  | { type: 'string'; value: string; pos: number }
+  | { type: 'identifier'; value: string; pos: number }
+  | { type: 'column'; value: string; pos: number } // [bracketed name]
+  | { type: 'operator'; value: string; pos: number }
+  | { type: 'end'; value: ''; pos: number };
+
+const OPERATORS = ['<=', '>=', '<>', '!=', '==', '&&', '||', '+', '-', '*', '/', '%', '^', '&', '=', '<', '>', '(', ')', ',', '!'];
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const ch = source[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+    const start = i;
+    if (/[0-9.]/.test(ch)) {
+      const match = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(source.slice(i));
+      if (!match) throw new Error(`Unexpected "${ch}" at position ${i + 1}`);
+      tokens.push({ type: 'number', value: Number(match[0]), pos: start });
+      i += match[0].length;
+    } else if (ch === '"' || ch === "'") {
+      // A doubled quote inside a string stands for the quote itself
+      let value = '';
+      i++;
+      while (true) {
+        if (i >= source.length) throw new Error(`Unterminated text starting at position ${start + 1}`);
+        if (source[i] === ch) {
+          if (source[i + 1] === ch) {
+            value += ch;
+            i += 2;
+            continue;
+          }
+          i++;
+          break;
+        }
+        value += source[i++];
+      }
+      tokens.push({ type: 'string', value, pos: start });
+    } else if (ch === '[') {
+      const end = source.indexOf(']', i);
+      if (end === -1) throw new Error(`Missing "]" for the column name at position ${start + 1}`);
+      tokens.push({ type: 'column', value: source.slice(i + 1, end), pos: start });
+      i = end + 1;
+    } else if (/[A-Za-z_]/.test(ch)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i))!;
+      tokens.push({ type: 'identifier', value: match[0], pos: start });
+      i += match[0].length;
+    } else {
+      const op = OPERATORS.find(o => source.startsWith(o, i));
+      if (!op) throw new Error(`Unexpected "${ch}" at position ${i + 1}`);
+      tokens.push({ type: 'operator', value: op, pos: start });
+      i += op.length;
+    }
+  }
+  tokens.push({ type: 'end', value: '', pos: source.length });
+  return tokens;
+};
+
+// --- Parsing ---
+
+// Operator aliases accepted for people used to Excel, SQL or JavaScript
+const OPERATOR_ALIASES: Record<string, BinaryOp> = { '==': '=', '<>': '!=', '&&': 'AND', '||': 'OR' };
+
+const BINARY_PRECEDENCE: Record<BinaryOp, number> = {
+  OR: 1, AND: 2,
+  '=': 4, '!=': 4, '<': 4, '<=': 4, '>': 4, '>=': 4,
+  '&': 5,
+  '+': 6, '-': 6,
+  '*': 7, '/': 7, '%': 7,
+  '^': 9
+};
+const NOT_PRECEDENCE = 3;
+const NEGATE_PRECEDENCE = 8;
+
+export const parseFormula = (source: string): FormulaNode => {
+  if (!source.trim()) throw new Error('Enter a formula');
+  const tokens = tokenize(source);
+  let index = 0;
+  const peek = () => tokens[index];
+  const next = () => tokens[index++];
+
+  const expect = (value: string) => {
+    const token = next();
+    if (token.type !== 'operator' || token.value !== value) {
+      throw new Error(`Expected "${value}" but found ${token.type === 'end' ? 'end of formula' : `"${token.value}"`} at position ${token.pos + 1}`);
+    }
+  };
+
+  const binaryOp = (token: Token): BinaryOp | null => {
+    if (token.type === 'operator') {
+      const op = OPERATOR_ALIASES[token.value] ?? token.value;
+      return op in BINARY_PRECEDENCE ? (op as BinaryOp) : null;
+    }
+    if (token.type === 'identifier') {
+      const word = token.value.toUpperCase();
+      return word === 'AND' || word === 'OR' ? word : null;
+    }
+    return null;
+  };
+
+  const parsePrimary = (): FormulaNode => {
+    const token = next();
+    switch (token.type) {
+      case 'number':
+      case 'string':
+        return { kind: 'literal', value: token.value };
+      case 'column':
+        return { kind: 'column', name: token.value };
+      case 'identifier': {
+        const word = token.value.toUpperCase();
+        if (peek().type === 'operator' && peek().value === '(') {
+          next();
+          const args: FormulaNode[] = [];
+          if (!(peek().type === 'operator' && peek().value === ')')) {
+            do {
+              args.push(parseExpression(0));
+            } while (peek().type === 'operator' && peek().value === ',' && next());
+          }
+          expect(')');
+          return { kind: 'call', name: word, args };
+        }
+        if (word === 'TRUE' || word === 'FALSE') return { kind: 'literal', value: word === 'TRUE' };
+        if (word === 'NULL') return { kind: 'literal', value: null };
+        if (word === 'NOT') return { kind: 'unary', op: 'NOT', operand: parseExpression(NOT_PRECEDENCE) };
+        return { kind: 'column', name: token.value };
+      }
+      case 'operator':
+        if (token.value === '(') {
+          const inner = parseExpression(0);
+          expect(')');
+          return inner;
+        }
+        if (token.value === '-') return { kind: 'unary', op: '-', operand: parseExpression(NEGATE_PRECEDENCE) };
+        if (token.value === '+') return parseExpression(NEGATE_PRECEDENCE);
+        if (token.value === '!') return { kind: 'unary', op: 'NOT', operand: parseExpression(NOT_PRECEDENCE) };
+        throw new Error(`Unexpected "${token.value}" at position ${token.pos + 1}`);
+      default:
+        throw new Error('Formula ends unexpectedly');
+    }
+  };
+
+  const parseExpression = (minPrecedence: number): FormulaNode => {
+    let left = parsePrimary();
+    while (true) {
+      const op = binaryOp(peek());
+      if (!op) break;
+      const precedence = BINARY_PRECEDENCE[op];
+      if (precedence <= minPrecedence) break;
+      next();
+      // ^ is right associative: 2^3^2 = 2^(3^2)
+      const right = parseExpression(op === '^' ? precedence - 1 : precedence);
+      left = { kind: 'binary', op, left, right };
+    }
+    return left;
+  };
+
+  const tree = parseExpression(0);
+  const rest = peek();
+  if (rest.type !== 'end') {
+    const hint = rest.type === 'identifier' ? '. Wrap column names with spaces in [brackets]' : '';
+    throw new Error(`Unexpected "${rest.value}" at position ${rest.pos + 1}${hint}`);
+  }
+  return tree;
+};
+
+// Every column a formula reads, in order of first use
+export const formulaColumns = (node: FormulaNode, found: string[] = []): string[] => {
+  switch (node.kind) {
+    case 'column': if (!found.includes(node.name)) found.push(node.name); break;
+    case 'unary': formulaColumns(node.operand, found); break;
+    case 'binary': formulaColumns(node.left, found); formulaColumns(node.right, found); break;
+    case 'call': node.args.forEach(a => formulaColumns(a, found)); break;
+  }
+  return found;
+};
+
+// --- Values ---
+
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2})(?::(\d{2}))?Z?)?$/;
+
+export const toNumber = (v: CellValue): number | null => {
+  if (v === null || v === '') return null;
+  const n = parseNumber(v);
+  if (n === null) throw new Error(`"${v}" is not a number`);
+  return n;
+};
+
+const toText = (v: CellValue): string | null => (v === null ? null : String(v));
+
+export const toBoolean = (v: CellValue): boolean => {
+  if (typeof v === 'boolean') return v;
+  if (typeof v === 'number') return v !== 0;
+  if (typeof v === 'string') return v !== '' && v.toLowerCase() !== 'false';
+  return false;
+};
+
+// Dates travel as ISO strings, like date columns; the arithmetic happens in UTC
+const toDate = (v: CellValue): Date | null => {
+  if (v === null || v === '') return null;
+  const iso = typeof v === 'string' ? (ISO_DATE.test(v) ? v : parseDate(v)) : null;
+  const m = iso ? ISO_DATE.exec(iso) : null;
+  if (!m) throw new Error(`"${v}" is not a date`);
+  return new Date(Date.UTC(+m[1], +m[2] - 1, +m[3], +(m[4] ?? 0), +(m[5] ?? 0), +(m[6] ?? 0)));
+};
+
+const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+
+const fromDate = (d: Date): string => {
+  if (isNaN(d.getTime())) throw new Error('Date is out of range');
+  const date = `${pad(d.getUTCFullYear(), 4)}-${pad(d.getUTCMonth() + 1)}-${pad(d.getUTCDate())}`;
+  const time = d.getUTCHours() || d.getUTCMinutes() || d.getUTCSeconds()
+    ? `T${pad(d.getUTCHours())}:${pad(d.getUTCMinutes())}:${pad(d.getUTCSeconds())}`
+    : '';
+  return date + time;
+};
+
+const checked = (n: number): number => {
+  if (!isFinite(n)) throw new Error('Result is not a finite number');
+  return n;
+};
+
+export const compareValues = (a: CellValue, b: CellValue): number => {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  if (typeof a === 'boolean' || typeof b === 'boolean') return Number(a) - Number(b);
+  const na = typeof a === 'number' ? a : parseNumber(a);
+  const nb = typeof b === 'number' ? b : parseNumber(b);
+  if ((typeof a === 'number' || typeof b === 'number') && na !== null && nb !== null) return na - nb;
+  return String(a).localeCompare(String(b));
+};
+
+const DAY = 86400000;
+const DATE_UNITS = ['day', 'week', 'month', 'quarter', 'year'] as const;
+type DateUnit = typeof DATE_UNITS[number];
+
+const toUnit = (v: CellValue): DateUnit => {
+  const unit = String(v ?? 'day').toLowerCase().replace(/s$/, '') as DateUnit;
+  if (!DATE_UNITS.includes(unit)) throw new Error(`Unknown date unit "${v}"; use ${DATE_UNITS.join(', ')}`);
+  return unit;
+};
+
+const addToDate = (date: Date, amount: number, unit: DateUnit): Date => {
+  const d = new Date(date.getTime());
+  if (unit === 'day' || unit === 'week') d.setUTCDate(d.getUTCDate() + amount * (unit === 'week' ? 7 : 1));
+  else d.setUTCMonth(d.getUTCMonth() + amount * (unit === 'year' ? 12 : unit === 'quarter' ? 3 : 1));
+  return d;
+};
+
+const diffDates = (end: Date, start: Date, unit: DateUnit): number => {
+  if (unit === 'day' || unit === 'week') return Math.trunc((end.getTime() - start.getTime()) / (unit === 'week' ? 7 * DAY : DAY));
+  const months = (end.getUTCFullYear() - start.getUTCFullYear()) * 12 + end.getUTCMonth() - start.getUTCMonth()
+    - (end.getUTCDate() < start.getUTCDate() ? 1 : 0);
+  return Math.trunc(months / (unit === 'year' ? 12 : unit === 'quarter' ? 3 : 1));
+};
+
+// --- Functions ---
+
+type Thunk = () => CellValue;
+
+interface FormulaFunction {
+  category: 'Math' | 'Text' | 'Date' | 'Logic' | 'Null';
+  signature: string;
+  description: string;
+  min: number;
+  max: number; // Infinity for variadic functions
+  // Arguments are thunks so IF, CASE and COALESCE only evaluate the branch they use
+  call: (args: Thunk[]) => CellValue;
+}
+
+// Evaluates every argument and returns null as soon as one of them is null
+const strict = (fn: (...values: CellValue[]) => CellValue) => (args: Thunk[]) => {
+  const values = args.map(a => a());
+  return values.some(v => v === null) ? null : fn(...values);
+};
+
+const math = (fn: (...n: number[]) => number) => strict((...values) => checked(fn(...values.map(v => toNumber(v)!))));
+const text = (fn: (s: string, ...rest: CellValue[]) => CellValue) => strict((s, ...rest) => fn(toText(s)!, ...rest));
+const datePart = (fn: (d: Date) => number) => strict(v => fn(toDate(v)!));
+const numbers = (args: Thunk[]) => args.map(a => toNumber(a())).filter((n): n is number => n !== null);
+
+export const FORMULA_FUNCTIONS: Record<string, FormulaFunction> = {
+  ABS: { category: 'Math', signature: 'ABS(x)', description: 'Absolute value', min: 1, max: 1, call: math(Math.abs) },
+  ROUND: { category: 'Math', signature: 'ROUND(x, digits)', description: 'Round to a number of decimals (default 0)', min: 1, max: 2, call: math((x, digits = 0) => Number(x.toFixed(Math.max(0, Math.min(15, digits))))) },
+  FLOOR: { category: 'Math', signature: 'FLOOR(x)', description: 'Round down', min: 1, max: 1, call: math(Math.floor) },
+  CEIL: { category: 'Math', signature: 'CEIL(x)', description: 'Round up', min: 1, max: 1, call: math(Math.ceil) },
+  SQRT: { category: 'Math', signature: 'SQRT(x)', description: 'Square root', min: 1, max: 1, call: math(Math.sqrt) },
+  POWER: { category: 'Math', signature: 'POWER(x, y)', description: 'x raised to y', min: 2, max: 2, call: math(Math.pow) },
+  MOD: { category: 'Math', signature: 'MOD(x, y)', description: 'Remainder of x / y', min: 2, max: 2, call: math((x, y) => { if (y === 0) throw new Error('Division by zero'); return x % y; }) },
+  LN: { category: 'Math', signature: 'LN(x)', description: 'Natural logarithm', min: 1, max: 1, call: math(Math.log) },
+  LOG: { category: 'Math', signature: 'LOG(x, base)', description: 'Logarithm (default base 10)', min: 1, max: 2, call: math((x, base = 10) => Math.log(x) / Math.log(base)) },
+  EXP: { category: 'Math', signature: 'EXP(x)', description: 'e raised to x', min: 1, max: 1, call: math(Math.exp) },
+  MIN: { category: 'Math', signature: 'MIN(a, b, ...)', description: 'Smallest value, ignoring nulls', min: 1, max: Infinity, call: args => { const n = numbers(args); return n.length ? Math.min(...n) : null; } },
+  MAX: { category: 'Math', signature: 'MAX(a, b, ...)', description: 'Largest value, ignoring nulls', min: 1, max: Infinity, call: args => { const n = numbers(args); return n.length ? Math.max(...n) : null; } },
+  NUMBER: { category: 'Math', signature: 'NUMBER(x)', description: 'Convert text to a number', min: 1, max: 1, call: strict(v => toNumber(v)) },
+
+  CONCAT: { category: 'Text', signature: 'CONCAT(a, b, ...)', description: 'Join values as text; nulls are skipped', min: 1, max: Infinity, call: args => args.map(a => toText(a()) ?? '').join('') },
+  TEXT: { category: 'Text', signature: 'TEXT(x)', description: 'Convert a value to text', min: 1, max: 1, call: strict(v => toText(v)) },
+  UPPER: { category: 'Text', signature: 'UPPER(s)', description: 'Uppercase', min: 1, max: 1, call: text(s => s.toUpperCase()) },
+  LOWER: { category: 'Text', signature: 'LOWER(s)', description: 'Lowercase', min: 1, max: 1, call: text(s => s.toLowerCase()) },
+  TRIM: { category: 'Text', signature: 'TRIM(s)', description: 'Remove surrounding whitespace', min: 1, max: 1, call: text(s => s.trim()) },
+  LEN: { category: 'Text', signature: 'LEN(s)', description: 'Number of characters', min: 1, max: 1, call: text(s => s.length) },
+  LEFT: { category: 'Text', signature: 'LEFT(s, n)', description: 'First n characters', min: 2, max: 2, call: text((s, n) => s.slice(0, Math.max(0, toNumber(n)!))) },
+  RIGHT: { category: 'Text', signature: 'RIGHT(s, n)', description: 'Last n characters', min: 2, max: 2, call: text((s, n) => { const count = Math.max(0, toNumber(n)!); return count === 0 ? '' : s.slice(-count); }) },
+  MID: { category: 'Text', signature: 'MID(s, start, length)', description: 'Characters from a 1-based position', min: 3, max: 3, call: text((s, start, length) => s.substr(Math.max(0, toNumber(start)! - 1), Math.max(0, toNumber(length)!))) },
+  REPLACE: { category: 'Text', signature: 'REPLACE(s, find, with)', description: 'Replace every occurrence of find', min: 3, max: 3, call: text((s, find, replacement) => s.split(String(find)).join(String(replacement))) },
+  CONTAINS: { category: 'Text', signature: 'CONTAINS(s, find)', description: 'Whether s contains find (case insensitive)', min: 2, max: 2, call: text((s, find) => s.toLowerCase().includes(String(find).toLowerCase())) },
+
+  YEAR: { category: 'Date', signature: 'YEAR(date)', description: 'Calendar year', min: 1, max: 1, call: datePart(d => d.getUTCFullYear()) },
+  QUARTER: { category: 'Date', signature: 'QUARTER(date)', description: 'Quarter, 1-4', min: 1, max: 1, call: datePart(d => Math.floor(d.getUTCMonth() / 3) + 1) },
+  MONTH: { category: 'Date', signature: 'MONTH(date)', description: 'Month, 1-12', min: 1, max: 1, call: datePart(d => d.getUTCMonth() + 1) },
+  DAY: { category: 'Date', signature: 'DAY(date)', description: 'Day of the month', min: 1, max: 1, call: datePart(d => d.getUTCDate()) },
+  WEEKDAY: { category: 'Date', signature: 'WEEKDAY(date)', description: 'Day of the week, 1 = Monday to 7 = Sunday', min: 1, max: 1, call: datePart(d => d.getUTCDay() || 7) },
+  HOUR: { category: 'Date', signature: 'HOUR(date)', description: 'Hour of the day, 0-23', min: 1, max: 1, call: datePart(d => d.getUTCHours()) },
+  DATE: { category: 'Date', signature: 'DATE(year, month, day)', description: 'Build a date', min: 3, max: 3, call: strict((y, m, d) => fromDate(new Date(Date.UTC(toNumber(y)!, toNumber(m)! - 1, toNumber(d)!)))) },
+  TODAY: { category: 'Date', signature: 'TODAY()', description: "Today's date", min: 0, max: 0, call: () => fromDate(new Date(Date.UTC(new Date().getFullYear(), new Date().getMonth(), new Date().getDate()))) },
+  DATEDIFF: { category: 'Date', signature: 'DATEDIFF(end, start, unit)', description: 'Whole units between two dates; unit is "day" (default), "week", "month", "quarter" or "year"', min: 2, max: 3, call: args => { const [end, start, unit] = args.map(a => a()); return end === null || start === null ? null : diffDates(toDate(end)!, toDate(start)!, toUnit(args.length > 2 ? unit : 'day')); } },
+  DATEADD: { category: 'Date', signature: 'DATEADD(date, n, unit)', description: 'Move a date by n units (default days)', min: 2, max: 3, call: args => { const [date, n, unit] = args.map(a => a()); return date === null || n === null ? null : fromDate(addToDate(toDate(date)!, toNumber(n)!, toUnit(args.length > 2 ? unit : 'day'))); } },
+
+  IF: { category: 'Logic', signature: 'IF(condition, then, else)', description: 'Pick a value by condition; else defaults to null', min: 2, max: 3, call: ([condition, then, otherwise]) => toBoolean(condition()) ? then() : (otherwise ? otherwise() : null) },
+  CASE: { category: 'Logic', signature: 'CASE(cond1, value1, cond2, value2, ..., else)', description: 'Value of the first true condition; an odd last argument is the fallback', min: 2, max: Infinity, call: args => {
+    for (let i = 0; i + 1 < args.length; i += 2) if (toBoolean(args[i]())) return args[i + 1]();
+    return args.length % 2 === 1 ? args[args.length - 1]() : null;
+  } },
+  AND: { category: 'Logic', signature: 'AND(a, b, ...)', description: 'True when every argument is true', min: 1, max: Infinity, call: args => args.every(a => toBoolean(a())) },
+  OR: { category: 'Logic', signature: 'OR(a, b, ...)', description: 'True when any argument is true', min: 1, max: Infinity, call: args => args.some(a => toBoolean(a())) },
+  NOT: { category: 'Logic', signature: 'NOT(x)', description: 'Negate a condition', min: 1, max: 1, call: ([x]) => !toBoolean(x()) },
+
+  COALESCE: { category: 'Null', signature: 'COALESCE(a, b, ...)', description: 'First argument that is not null', min: 1, max: Infinity, call: args => {
+    for (const arg of args) { const v = arg(); if (v !== null && v !== '') return v; }
+    return null;
+  } },
+  IFNULL: { category: 'Null', signature: 'IFNULL(x, fallback)', description: 'x, or fallback when x is null', min: 2, max: 2, call: ([x, fallback]) => { const v = x(); return v === null || v === '' ? fallback() : v; } },
+  ISNULL: { category: 'Null', signature: 'ISNULL(x)', description: 'Whether x is null or empty', min: 1, max: 1, call: ([x]) => { const v = x(); return v === null || v === ''; } },
+  NULLIF: { category: 'Null', signature: 'NULLIF(a, b)', description: 'Null when a equals b, otherwise a', min: 2, max: 2, call: ([a, b]) => { const v = a(); return v !== null && compareValues(v, b()) === 0 ? null : v; } }
+};
+
+// --- Evaluation ---
+
+export const applyOperator = (op: BinaryOp, left: Thunk, right: Thunk): CellValue => {
+  // AND / OR short-circuit like their function forms
+  if (op === 'AND') return toBoolean(left()) && toBoolean(right());
+  if (op === 'OR') return toBoolean(left()) || toBoolean(right());
+
+  const a = left();
+  const b = right();
+  if (op === '&') return (toText(a) ?? '') + (toText(b) ?? '');
+  if (op === '=' || op === '!=') {
+    const equal = a === null || b === null ? a === b : compareValues(a, b) === 0;
+    return op === '=' ? equal : !equal;
+  }
+  if (a === null || b === null) return null;
+  switch (op) {
+    case '<': return compareValues(a, b) < 0;
+    case '<=': return compareValues(a, b) <= 0;
+    case '>': return compareValues(a, b) > 0;
+    case '>=': return compareValues(a, b) >= 0;
+  }
+
+  const x = toNumber(a);
+  const y = toNumber(b);
+  if (x === null || y === null) return null;
+  switch (op) {
+    case '+': return checked(x + y);
+    case '-': return checked(x - y);
+    case '*': return checked(x * y);
+    case '/':
+      if (y === 0) throw new Error('Division by zero');
+      return checked(x / y);
+    case '%':
+      if (y === 0) throw new Error('Division by zero');
+      return checked(x % y);
+    case '^': return checked(Math.pow(x, y));
+  }
+  return null;
+};
+
+// Resolves columns and functions once, so every row only runs closures
+const compileNode = (node: FormulaNode, table: DataTable): ((row: number) => CellValue) => {
+  switch (node.kind) {
+    case 'literal': {
+      const { value } = node;
+      return () => value;
+    }
+    case 'column': {
+      if (!(node.name in table.columns)) {
+        const similar = table.headers.find(h => h.toLowerCase() === node.name.toLowerCase());
+        throw new Error(`Unknown column "${node.name}"${similar ? `; did you mean [${similar}]?` : /\s/.test(node.name) ? '' : '. Wrap names with spaces in [brackets]'}`);
+      }
+      const read = columnReader(table, node.name);
+      return row => {
+        const v = read(row);
+        return v === '' ? null : v;
+      };
+    }
+    case 'unary': {
+      const operand = compileNode(node.operand, table);
+      if (node.op === 'NOT') return row => !toBoolean(operand(row));
+      return row => {
+        const n = toNumber(operand(row));
+        return n === null ? null : -n;
+      };
+    }
+    case 'binary': {
+      const left = compileNode(node.left, table);
+      const right = compileNode(node.right, table);
+      const { op } = node;
+      return row => applyOperator(op, () => left(row), () => right(row));
+    }
+    case 'call': {
+      const fn = FORMULA_FUNCTIONS[node.name];
+      if (!fn) throw new Error(`Unknown function ${node.name}()`);
+      if (node.args.length < fn.min || node.args.length > fn.max) {
+        const expected = fn.min === fn.max ? `${fn.min}` : fn.max === Infinity ? `at least ${fn.min}` : `${fn.min} to ${fn.max}`;
+        throw new Error(`${node.name}() takes ${expected} ${fn.max === 1 && fn.min === 1 ? 'argument' : 'arguments'}, got ${node.args.length}. Usage: ${fn.signature}`);
+      }
+      const args = node.args.map(a => compileNode(a, table));
+      return row => fn.call(args.map(a => () => a(row)));
+    }
+  }
+};
+
+// Throws when the formula cannot run against this table (syntax, unknown columns or functions)
+export const compileFormula = (source: string, table: DataTable) => compileNode(parseFormula(source), table);
+
+const ISO_DATE_VALUE = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}:\d{2}Z?)?$/;
+
+// Text results that all look like ISO dates become a date column, mixed results become text
+export const resultType = (values: CellValue[]): ColumnType => {
+  const present = values.filter(v => v !== null);
+  if (present.length === 0) return 'string';
+  if (present.every(v => typeof v === 'number')) return 'number';
+  if (present.every(v => typeof v === 'boolean')) return 'boolean';
+  if (present.every(v => typeof v === 'string' && ISO_DATE_VALUE.test(v))) return 'date';
+  return 'string';
+};
+
+// Evaluates a formula for every row (or the first `limit` rows). Rows that fail become
+// null and are counted, so one bad value does not sink the whole column.
+export const evaluateFormula = (source: string, table: DataTable, limit = table.rowCount): FormulaResult => {
+  const evaluate = compileFormula(source, table);
+  const count = Math.min(limit, table.rowCount);
+  const values: CellValue[] = new Array(count);
+  let errorCount = 0;
+  let firstError: string | undefined;
+  for (let i = 0; i < count; i++) {
+    try {
+      const v = evaluate(i);
+      values[i] = typeof v === 'number' && !isFinite(v) ? null : v;
+    } catch (err) {
+      values[i] = null;
+      errorCount++;
+      firstError ??= `Row ${i + 1}: ${err instanceof Error ? err.message : 'error'}`;
+    }
+  }
+  const type = resultType(values);
+  if (type === 'string') {
+    for (let i = 0; i < count; i++) if (values[i] !== null) values[i] = String(values[i]);
+  }
+  return { values, type, errorCount, firstError };
+};
+
+export const isComputedColumn = (meta?: ColumnMeta) => !!meta?.formula;
+
+// Column names with anything but letters, digits and underscores need brackets in a formula
+export const columnReference = (name: string) => /^[A-Za-z_][A-Za-z0-9_]*$/.test(name) && !FORMULA_FUNCTIONS[name.toUpperCase()] && !['AND', 'OR', 'NOT', 'TRUE', 'FALSE', 'NULL'].includes(name.toUpperCase())
+  ? name
+  : `[${name}]`;
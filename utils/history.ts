@@ -0,0 +1,107 @@
+import { ColumnMeta, DataTable, Dataset, DatasetVersion, TransformStep, VersionDiff } from '../types';
+import { columnReader, getRowIds } from './dataTable';
+
+// Versions share unchanged columns, so a long history costs little; the cap only
+// guards against unbounded growth in long sessions
+export const MAX_HISTORY = 50;
+
+let nextVersionId = 1;
+
+// Counts what changed between two versions of a table. Rows are matched through their
+// row ids, so filtered-out rows count as removed rather than as edited cells.
+export const diffTables = (before: DataTable, after: DataTable): VersionDiff => {
+  const columnsAdded = after.headers.filter(h => !(h in before.columns));
+  const columnsRemoved = before.headers.filter(h => !(h in after.columns));
+
+  const beforeIds = getRowIds(before);
+  const afterIds = getRowIds(after);
+  const beforeIndex = new Map<number, number>();
+  beforeIds.forEach((id, i) => beforeIndex.set(id, i));
+
+  // Pairs of [index in before, index in after] for rows present in both versions
+  const shared: [number, number][] = [];
+  afterIds.forEach((id, i) => {
+    const j = beforeIndex.get(id);
+    if (j !== undefined) shared.push([j, i]);
+  });
+
+  let cellsChanged = 0;
+  const changedColumns: string[] = [];
+  after.headers.forEach(h => {
+    const prev = before.columns[h];
+    const next = after.columns[h];
+    if (!prev || !next || (prev === next && before.rowIds === after.rowIds)) return;
+    const readPrev = columnReader(before, h);
+    const readNext = columnReader(after, h);
+    let changed = 0;
+    shared.forEach(([j, i]) => {
+      if (readPrev(j) !== readNext(i)) changed++;
+    });
+    if (changed > 0) {
+      cellsChanged += changed;
+      changedColumns.push(h);
+    }
+  });
+
+  return {
+    rowsAdded: after.rowCount - shared.length,
+    rowsRemoved: before.rowCount - shared.length,
+    cellsChanged,
+    changedColumns,
+    columnsAdded,
+    columnsRemoved
+  };
+};
+
+export const describeDiff = (diff: VersionDiff): string => {
+  const parts: string[] = [];
+  if (diff.rowsAdded > 0) parts.push(`+${diff.rowsAdded} ${diff.rowsAdded === 1 ? 'row' : 'rows'}`);
+  if (diff.rowsRemoved > 0) parts.push(`−${diff.rowsRemoved} ${diff.rowsRemoved === 1 ? 'row' : 'rows'}`);
+  if (diff.cellsChanged > 0) parts.push(`${diff.cellsChanged} ${diff.cellsChanged === 1 ? 'cell' : 'cells'} changed`);
+  if (diff.columnsAdded.length > 0) parts.push(`+${diff.columnsAdded.length} ${diff.columnsAdded.length === 1 ? 'column' : 'columns'}`);
+  if (diff.columnsRemoved.length > 0) parts.push(`−${diff.columnsRemoved.length} ${diff.columnsRemoved.length === 1 ? 'column' : 'columns'}`);
+  return parts.length > 0 ? parts.join(' · ') : 'No changes';
+};
+
+const createVersion = (label: string, table: DataTable, columns: ColumnMeta[], diff: VersionDiff, step?: TransformStep): DatasetVersion => ({
+  id: `v${nextVersionId++}`,
+  label,
+  timestamp: Date.now(),
+  table,
+  columns,
+  diff,
+  step
+});
+
+// The first version of a dataset: every row counts as added
+export const createInitialVersion = (label: string, table: DataTable, columns: ColumnMeta[]): DatasetVersion => {
+  return createVersion(label, table, columns, {
+    rowsAdded: table.rowCount,
+    rowsRemoved: 0,
+    cellsChanged: 0,
+    changedColumns: [],
+    columnsAdded: [...table.headers],
+    columnsRemoved: []
+  });
+};
+
+// Records a transformation as a new version. Anything that was undone is discarded,
+// like any editor's redo stack after a fresh edit. Passing the step makes the version
+// part of the dataset's recipe. Past the cap the oldest steps go, but never the imported
+// version, which recipes rely on being first.
+export const commitVersion = (dataset: Dataset, label: string, table: DataTable, columns: ColumnMeta[], step?: TransformStep): Dataset => {
+  const diff = diffTables(dataset.table, table);
+  const kept = dataset.history.slice(0, dataset.version + 1);
+  const all = [...kept, createVersion(label, table, columns, diff, step)];
+  const history = all.length > MAX_HISTORY ? [all[0], ...all.slice(all.length - MAX_HISTORY + 1)] : all;
+  return { ...dataset, table, columns, history, version: history.length - 1 };
+};
+
+export const checkoutVersion = (dataset: Dataset, version: number): Dataset => {
+  const target = dataset.history[version];
+  if (!target || version === dataset.version) return dataset;
+  return { ...dataset, table: target.table, columns: target.columns, version };
+};
+
+export const canUndo = (dataset: Dataset | null) => !!dataset && dataset.version > 0;
+export const canRedo = (dataset: Dataset | null) => !!dataset && dataset.version < dataset.history.length - 1;
@@ -0,0 +1,235 @@
+import * as XLSX from 'xlsx';
+import { CellValue, ColumnMeta, DataRow, DataTable } from '../types';
+import { CsvParseError, StreamOptions, createAbortError, decodeText, normalizeHeaders, parseCSVStream } from './csvParser';
+import { TypeFallback, applyInferredSchema } from './schemaInference';
+
+export type ImportFormat = 'csv' | 'json' | 'ndjson' | 'xlsx';
+
+// Rows are arrays aligned with `headers`, so large files are not also held as one object per row
+export interface ImportResult {
+  headers: string[];
+  rows: CellValue[][];
+  errors: CsvParseError[];
+}
+
+export interface SheetSummary {
+  name: string;
+  rowCount: number;
+}
+
+export interface ImportOptions extends StreamOptions {
+  sheet?: string;
+}
+
+export interface ParsedDataset {
+  table: DataTable;
+  columns: ColumnMeta[];
+  errors: CsvParseError[];
+  fallbacks: TypeFallback[];
+}
+
+// A workbook with several sheets comes back as a sheet list so the user can pick one
+export type DatasetReadResult = { sheets: SheetSummary[] } | { dataset: ParsedDataset };
+
+export const IMPORT_ACCEPT = '.csv,.tsv,.txt,.json,.ndjson,.jsonl,.xlsx,.xls';
+
+export const detectFileFormat = (fileName: string): ImportFormat => {
+  const ext = fileName.toLowerCase().split('.').pop() || '';
+  if (ext === 'json') return 'json';
+  if (ext === 'ndjson' || ext === 'jsonl') return 'ndjson';
+  if (ext === 'xlsx' || ext === 'xls') return 'xlsx';
+  return 'csv';
+};
+
+// --- CSV ---
+
+// Cells stay as text here; schema inference decides which columns are numbers or dates
+export const importCSV = async (file: Blob, options: StreamOptions = {}): Promise<ImportResult> => {
+  const { headers, rows, errors } = await parseCSVStream(file, options);
+  return { headers, rows, errors };
+};
+
+// --- JSON / NDJSON ---
+
+// Nested objects become dotted column names ("customer.address.city"). Arrays are
+// kept as JSON text since they have no natural single-cell representation.
+export const flattenRecord = (value: unknown, prefix = '', out: DataRow = {}): DataRow => {
+  if (value === null || value === undefined) {
+    out[prefix || 'value'] = null;
+  } else if (Array.isArray(value)) {
+    out[prefix || 'value'] = JSON.stringify(value);
+  } else if (typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>);
+    if (entries.length === 0 && prefix) out[prefix] = null;
+    entries.forEach(([key, child]) => flattenRecord(child, prefix ? `${prefix}.${key}` : key, out));
+  } else if (typeof value === 'number' || typeof value === 'boolean' || typeof value === 'string') {
+    out[prefix || 'value'] = value;
+  } else {
+    out[prefix || 'value'] = String(value);
+  }
+  return out;
+};
+
+// Builds the header list in first-seen order and fills keys missing from a record with null
+const tabulate = (records: DataRow[]): { headers: string[]; rows: CellValue[][] } => {
+  const seen = new Set<string>();
+  const headers: string[] = [];
+  records.forEach(r => Object.keys(r).forEach(k => {
+    if (!seen.has(k)) {
+      seen.add(k);
+      headers.push(k);
+    }
+  }));
+  const rows = records.map(r => headers.map(h => r[h] ?? null));
+  return { headers, rows };
+};
+
+// API dumps usually wrap the records, e.g. { "data": [...], "meta": {...} }. Use the
+// largest array of objects found on the top level as the record list.
+const findRecordArray = (doc: unknown): unknown[] | null => {
+  if (Array.isArray(doc)) return doc;
+  if (!doc || typeof doc !== 'object') return null;
+  let best: unknown[] | null = null;
+  Object.values(doc as Record<string, unknown>).forEach(v => {
+    if (Array.isArray(v) && v.some(item => item && typeof item === 'object') && (!best || v.length > best.length)) {
+      best = v;
+    }
+  });
+  return best;
+};
+
+export const parseJSONDataset = (text: string): ImportResult => {
+  const doc = JSON.parse(text);
+  const records = findRecordArray(doc) ?? [doc];
+  return { ...tabulate(records.map(r => flattenRecord(r))), errors: [] };
+};
+
+export const parseNDJSON = (text: string): ImportResult => {
+  const records: DataRow[] = [];
+  const errors: CsvParseError[] = [];
+  text.split(/\r?\n/).forEach((line, i) => {
+    if (line.trim() === '') return;
+    try {
+      records.push(flattenRecord(JSON.parse(line)));
+    } catch (err) {
+      errors.push({ row: i + 1, message: err instanceof Error ? err.message : 'Invalid JSON' });
+    }
+  });
+  return { ...tabulate(records), errors };
+};
+
+export const importJSON = async (file: Blob, format: 'json' | 'ndjson'): Promise<ImportResult> => {
+  const { text } = decodeText(await file.arrayBuffer());
+  if (format === 'ndjson') return parseNDJSON(text);
+  try {
+    return parseJSONDataset(text);
+  } catch (err) {
+    // Line-delimited files are often saved with a plain .json extension
+    const fallback = parseNDJSON(text);
+    if (fallback.rows.length > 0) return fallback;
+    throw err;
+  }
+};
+
+// --- Excel ---
+
+// Parsing the workbook is one blocking call, so cancellation is checked on either side of it
+export const readWorkbook = async (file: Blob, isCancelled?: () => boolean): Promise<XLSX.WorkBook> => {
+  const buffer = await file.arrayBuffer();
+  if (isCancelled?.()) throw createAbortError();
+  // Number formats are kept so date cells can be told apart from plain numbers in parseWorksheet
+  const workbook = XLSX.read(buffer, { type: 'array', cellNF: true });
+  if (isCancelled?.()) throw createAbortError();
+  return workbook;
+};
+
+export const getSheetSummaries = (workbook: XLSX.WorkBook): SheetSummary[] => {
+  return workbook.SheetNames.map(name => {
+    const ref = workbook.Sheets[name]?.['!ref'];
+    const rowCount = ref ? Math.max(0, XLSX.utils.decode_range(ref).e.r) : 0;
+    return { name, rowCount };
+  });
+};
+
+const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+
+// Excel stores dates as day serials with no time zone. Reading the parts straight off the
+// serial keeps the calendar date the sheet shows; going through a JS Date shifts it by the
+// local offset.
+const serialToIso = (serial: number, date1904: boolean): string | null => {
+  const parts = XLSX.SSF.parse_date_code(serial, { date1904 });
+  if (!parts) return null;
+  const date = `${pad(parts.y, 4)}-${pad(parts.m)}-${pad(parts.d)}`;
+  if (parts.H === 0 && parts.M === 0 && parts.S === 0) return date;
+  return `${date}T${pad(parts.H)}:${pad(parts.M)}:${pad(parts.S)}`;
+};
+
+// Copy of the sheet with date-formatted number cells replaced by ISO strings
+const withIsoDates = (sheet: XLSX.WorkSheet, date1904: boolean): XLSX.WorkSheet => {
+  const out: XLSX.WorkSheet = { ...sheet };
+  for (const address of Object.keys(sheet)) {
+    if (address.startsWith('!')) continue;
+    const cell = sheet[address] as XLSX.CellObject;
+    if (cell.t !== 'n' || typeof cell.v !== 'number' || !cell.z || !XLSX.SSF.is_date(cell.z)) continue;
+    const iso = serialToIso(cell.v, date1904);
+    out[address] = iso === null ? { t: 'z' } : { t: 's', v: iso };
+  }
+  return out;
+};
+
+const toCellValue = (cell: unknown): string | number | boolean | null => {
+  if (cell === null || cell === undefined) return null;
+  if (typeof cell === 'number' || typeof cell === 'boolean' || typeof cell === 'string') return cell;
+  return String(cell);
+};
+
+export const parseWorksheet = (workbook: XLSX.WorkBook, sheetName: string): ImportResult => {
+  const sheet = workbook.Sheets[sheetName];
+  if (!sheet) throw new Error(`Worksheet "${sheetName}" not found`);
+
+  const date1904 = Boolean(workbook.Workbook?.WBProps?.date1904);
+  const matrix = XLSX.utils.sheet_to_json<unknown[]>(withIsoDates(sheet, date1904), { header: 1, raw: true, defval: null, blankrows: false });
+  if (matrix.length === 0) return { headers: [], rows: [], errors: [] };
+
+  const width = matrix.reduce((max, r) => Math.max(max, r.length), 0);
+  const rawHeaders = Array.from({ length: width }, (_, i) => {
+    const h = matrix[0][i];
+    return h === null || h === undefined ? '' : String(h);
+  });
+  const headers = normalizeHeaders(rawHeaders);
+
+  // The matrix is ours, so its rows are converted in place rather than copied
+  const rows = matrix.slice(1) as CellValue[][];
+  rows.forEach(values => {
+    for (let i = 0; i < headers.length; i++) values[i] = toCellValue(values[i]);
+    values.length = headers.length;
+  });
+  return { headers, rows, errors: [] };
+};
+
+export const importFile = async (file: File, options: ImportOptions = {}): Promise<ImportResult> => {
+  const format = detectFileFormat(file.name);
+  if (format === 'json' || format === 'ndjson') return importJSON(file, format);
+  if (format === 'xlsx') {
+    const workbook = await readWorkbook(file, options.isCancelled);
+    return parseWorksheet(workbook, options.sheet ?? workbook.SheetNames[0]);
+  }
+  return importCSV(file, options);
+};
+
+// Full import pipeline: parse the file, then infer and apply the column schema
+export const readDatasetFile = async (file: File, options: ImportOptions = {}): Promise<DatasetReadResult> => {
+  let imported: ImportResult;
+  if (detectFileFormat(file.name) === 'xlsx') {
+    if (options.isCancelled?.()) throw createAbortError();
+    const workbook = await readWorkbook(file, options.isCancelled);
+    if (!options.sheet && workbook.SheetNames.length > 1) return { sheets: getSheetSummaries(workbook) };
+    imported = parseWorksheet(workbook, options.sheet ?? workbook.SheetNames[0]);
+  } else {
+    imported = await importFile(file, options);
+  }
+  if (options.isCancelled?.()) throw createAbortError();
+
+  const { table, columns, fallbacks } = applyInferredSchema(imported.headers, imported.rows);
+  return { dataset: { table, columns, errors: imported.errors, fallbacks } };
+};
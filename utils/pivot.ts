@@ -0,0 +1,236 @@
+import { AggregationType, CellValue, ChartConfig, ColumnMeta, DataTable } from '../types';
+import { columnFromValues, columnReader, getNumericValues } from './dataTable';
+import { uniqueName } from './datasets';
+import { summarizeColumns } from './schemaInference';
+import { AGGREGATION_OPTIONS } from './chartUtils';
+import { matrixToDelimited } from './exporters';
+import { Accumulator, accumulate, createAccumulator, finishAccumulator } from './aggregations';
+
+export interface PivotValue {
+  column: string;
+  aggregation: AggregationType;
+}
+
+export interface PivotSpec {
+  rows: string[];
+  columns: string[];
+  values: PivotValue[];
+  subtotals: boolean;
+  grandTotals: boolean;
+}
+
+export interface PivotColumn {
+  key: string[]; // Column field values; empty for the grand total column
+  value: number; // Index into spec.values
+  label: string;
+  isTotal: boolean;
+}
+
+export interface PivotRow {
+  kind: 'data' | 'subtotal' | 'total';
+  labels: string[]; // Row field values; a subtotal only has the levels it totals
+  cells: (number | null)[]; // One per pivot column
+}
+
+export interface PivotResult {
+  spec: PivotSpec;
+  columns: PivotColumn[];
+  rows: PivotRow[];
+  hiddenColumns: number; // Column keys beyond MAX_PIVOT_COLUMNS that were left out
+}
+
+export type PivotChartType = 'heatmap' | 'stacked_bar';
+
+// Wider pivots are unreadable and slow to render; the rest are reported as hidden
+export const MAX_PIVOT_COLUMNS = 200;
+
+const BLANK = '(blank)';
+const SEPARATOR = '\u001f';
+const TOTAL_KEY = '\u0002';
+
+const labelOf = (value: CellValue) => (value === null || value === '' ? BLANK : String(value));
+
+// Blanks sort last; numbers inside labels sort numerically ("Q2" before "Q10")
+const compareLabels = (a: string, b: string) =>
+  a === b ? 0 : a === BLANK ? 1 : b === BLANK ? -1 : a.localeCompare(b, undefined, { numeric: true });
+
+const compareKeys = (a: string[], b: string[]) => {
+  for (let i = 0; i < a.length; i++) {
+    const diff = compareLabels(a[i], b[i]);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+};
+
+export const pivotValueLabel = (value: PivotValue) =>
+  `${AGGREGATION_OPTIONS.find(o => o.type === value.aggregation)?.label ?? value.aggregation} of ${value.column}`;
+
+const finish = (acc: Accumulator | undefined, aggregation: AggregationType): number | null =>
+  acc ? finishAccumulator(acc, aggregation) : null;
+
+interface RowNode {
+  label: string;
+  children: Map<string, RowNode>;
+}
+
+// Subtotals and totals are aggregated from the underlying rows rather than from the cells,
+// so averages, minimums and maximums stay correct at every level
+export const buildPivot = (table: DataTable, spec: PivotSpec): PivotResult => {
+  const rowReaders = spec.rows.map(c => columnReader(table, c));
+  const columnReaders = spec.columns.map(c => columnReader(table, c));
+  const valueReaders = spec.values.map(v => ({ read: columnReader(table, v.column), numbers: getNumericValues(table, v.column) }));
+  const withColumnTotal = spec.grandTotals && spec.columns.length > 0;
+
+  const accumulators = new Map<string, Accumulator[]>();
+  const columnKeys = new Map<string, string[]>();
+  const root: RowNode = { label: '', children: new Map() };
+
+  const add = (rowKey: string, columnKey: string, i: number) => {
+    const key = rowKey + TOTAL_KEY + columnKey;
+    let accs = accumulators.get(key);
+    if (!accs) {
+      accs = spec.values.map(v => createAccumulator(v.aggregation));
+      accumulators.set(key, accs);
+    }
+    valueReaders.forEach(({ read, numbers }, v) => {
+      accumulate(accs![v], numbers[i], read(i));
+    });
+  };
+
+  for (let i = 0; i < table.rowCount; i++) {
+    const rowLabels = rowReaders.map(read => labelOf(read(i)));
+    const columnLabels = columnReaders.map(read => labelOf(read(i)));
+    const columnKey = columnLabels.join(SEPARATOR);
+    if (!columnKeys.has(columnKey)) columnKeys.set(columnKey, columnLabels);
+
+    let node = root;
+    rowLabels.forEach(label => {
+      let child = node.children.get(label);
+      if (!child) node.children.set(label, (child = { label, children: new Map() }));
+      node = child;
+    });
+
+    // Depth 0 is the grand total row, depth rows.length the detail rows, anything between a subtotal
+    for (let depth = 0; depth <= rowLabels.length; depth++) {
+      const isDetail = depth === rowLabels.length;
+      if (!isDetail && (depth === 0 ? !spec.grandTotals : !spec.subtotals)) continue;
+      const rowKey = `${depth}|${rowLabels.slice(0, depth).join(SEPARATOR)}`;
+      add(rowKey, columnKey, i);
+      if (withColumnTotal) add(rowKey, TOTAL_KEY, i);
+    }
+  }
+
+  const sortedKeys = [...columnKeys.values()].sort(compareKeys);
+  const keptKeys = sortedKeys.slice(0, MAX_PIVOT_COLUMNS);
+  const valueLabels = spec.values.map(pivotValueLabel);
+  const columns: PivotColumn[] = keptKeys.flatMap(key => spec.values.map((_, value) => ({
+    key,
+    value,
+    label: key.length === 0 ? valueLabels[value] : spec.values.length > 1 ? `${key.join(' · ')} · ${valueLabels[value]}` : key.join(' · '),
+    isTotal: false
+  })));
+  if (withColumnTotal) {
+    spec.values.forEach((_, value) => columns.push({
+      key: [],
+      value,
+      label: spec.values.length > 1 ? `Total · ${valueLabels[value]}` : 'Total',
+      isTotal: true
+    }));
+  }
+
+  const makeRow = (kind: PivotRow['kind'], labels: string[]): PivotRow => {
+    const rowKey = `${labels.length}|${labels.join(SEPARATOR)}`;
+    return {
+      kind,
+      labels,
+      cells: columns.map(c => finish(
+        accumulators.get(rowKey + TOTAL_KEY + (c.isTotal ? TOTAL_KEY : c.key.join(SEPARATOR)))?.[c.value],
+        spec.values[c.value].aggregation
+      ))
+    };
+  };
+
+  const rows: PivotRow[] = [];
+  const walk = (node: RowNode, path: string[]) => {
+    [...node.children.values()].sort((a, b) => compareLabels(a.label, b.label)).forEach(child => {
+      const childPath = [...path, child.label];
+      if (childPath.length === spec.rows.length) {
+        rows.push(makeRow('data', childPath));
+      } else {
+        walk(child, childPath);
+        if (spec.subtotals) rows.push(makeRow('subtotal', childPath));
+      }
+    });
+  };
+  if (spec.rows.length === 0) {
+    if (table.rowCount > 0) rows.push(makeRow('data', []));
+  } else {
+    walk(root, []);
+    if (spec.grandTotals && rows.length > 0) rows.push(makeRow('total', []));
+  }
+
+  return { spec, columns, rows, hiddenColumns: sortedKeys.length - keptKeys.length };
+};
+
+// The row header cells of a pivot row, one per row field
+export const pivotRowLabels = (row: PivotRow, fieldCount: number): string[] => {
+  if (row.kind === 'total') return ['Grand Total', ...Array(Math.max(0, fieldCount - 1)).fill('')];
+  const labels = [...row.labels];
+  if (row.kind === 'subtotal') labels[labels.length - 1] = `${labels[labels.length - 1]} Total`;
+  return [...labels, ...Array(fieldCount - labels.length).fill('')];
+};
+
+// --- Export ---
+
+export const pivotToCsv = (result: PivotResult): string => {
+  const fieldCount = result.spec.rows.length;
+  const lines: unknown[][] = [[...result.spec.rows, ...result.columns.map(c => c.label)]];
+  result.rows.forEach(row => lines.push([...pivotRowLabels(row, fieldCount), ...row.cells]));
+  return matrixToDelimited(lines);
+};
+
+// Turns the detail cells of the first value field into a dataset a chart can read: wide
+// (one column per column key) for stacked bars, long (row, column, value) for heatmaps
+export const pivotChart = (result: PivotResult, type: PivotChartType): { table: DataTable; columns: ColumnMeta[]; chart: Partial<ChartConfig> } => {
+  const { spec } = result;
+  const rowField = spec.rows.join(' · ') || 'All';
+  const columnField = uniqueName(spec.columns.join(' · ') || 'All', [rowField], '_');
+  const valueLabel = pivotValueLabel(spec.values[0]);
+  const detailRows = result.rows.filter(r => r.kind === 'data');
+  const valueColumns = result.columns.map((c, index) => ({ c, index })).filter(({ c }) => !c.isTotal && c.value === 0);
+  const rowLabel = (row: PivotRow) => row.labels.join(' · ') || 'All';
+  const title = `${valueLabel} by ${rowField}${spec.columns.length > 0 ? ` and ${columnField}` : ''}`;
+
+  const columnData: DataTable['columns'] = {};
+  const meta: ColumnMeta[] = [];
+  let rowCount = 0;
+  const addColumn = (name: string, values: CellValue[], columnType: ColumnMeta['type']) => {
+    columnData[name] = columnFromValues(values);
+    rowCount = values.length;
+    meta.push({ name, type: columnType, uniqueCount: 0, missingCount: 0 });
+  };
+
+  let chart: Partial<ChartConfig>;
+  if (type === 'stacked_bar') {
+    addColumn(rowField, detailRows.map(rowLabel), 'string');
+    const seriesNames: string[] = [];
+    valueColumns.forEach(({ c, index }) => {
+      const name = uniqueName(c.key.join(' · ') || valueLabel, [rowField, ...seriesNames], '_');
+      seriesNames.push(name);
+      addColumn(name, detailRows.map(r => r.cells[index]), 'number');
+    });
+    chart = { type: 'bar', title, xAxisKey: rowField, yAxisKeys: seriesNames, aggregation: 'sum', stackMode: 'stacked' };
+  } else {
+    const cells = detailRows.flatMap(row => valueColumns
+      .filter(({ index }) => row.cells[index] !== null)
+      .map(({ c, index }) => [rowLabel(row), c.key.join(' · ') || 'All', row.cells[index]] as const));
+    const valueField = uniqueName(valueLabel, [rowField, columnField], '_');
+    addColumn(rowField, cells.map(c => c[0]), 'string');
+    addColumn(columnField, cells.map(c => c[1]), 'string');
+    addColumn(valueField, cells.map(c => c[2]), 'number');
+    chart = { type: 'heatmap', title, xAxisKey: columnField, yAxisKeys: [rowField], zAxisKey: valueField, aggregation: 'sum' };
+  }
+
+  const table: DataTable = { headers: meta.map(m => m.name), rowCount, columns: columnData };
+  return { table, columns: summarizeColumns(table, meta), chart };
+};
@@ -0,0 +1,322 @@
+import { CellValue, ColumnData, ColumnMeta, ColumnType, DataTable } from '../types';
+import { getColumnStats, getSortedNumbers } from './dataTable';
+
+export type ValuePattern = 'email' | 'url' | 'phone';
+
+export interface HistogramBin {
+  start: number;
+  end: number;
+  count: number;
+}
+
+export interface ColumnProfile {
+  name: string;
+  type: ColumnType;
+  rowCount: number;
+  count: number;
+  missingCount: number;
+  distinctCount: number;
+  // Distinct values per present value; 1 means every value is unique
+  distinctRatio: number;
+  topValues: { value: CellValue; count: number }[];
+  min?: CellValue;
+  max?: CellValue;
+  // Number columns only
+  mean?: number;
+  std?: number;
+  skew?: number;
+  zeroCount?: number;
+  negativeCount?: number;
+  quantiles?: { p: number; value: number }[];
+  // Numbers are binned by value, dates by timestamp
+  histogram: HistogramBin[];
+  // Text columns only
+  lengths?: { min: number; max: number; mean: number; histogram: HistogramBin[] };
+  patterns: { pattern: ValuePattern; count: number }[];
+}
+
+export const QUANTILES = [0.01, 0.05, 0.25, 0.5, 0.75, 0.95, 0.99];
+export const TOP_VALUES = 10;
+const HISTOGRAM_BINS = 20;
+
+const PATTERNS: { pattern: ValuePattern; label: string; test: RegExp }[] = [
+  { pattern: 'email', label: 'Email', test: /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/ },
+  { pattern: 'url', label: 'URL', test: /^(https?:\/\/|www\.)[^\s]+$/i },
+  { pattern: 'phone', label: 'Phone', test: /^\+?[\d\s().-]{7,20}$/ }
+];
+
+export const patternLabel = (pattern: ValuePattern) => PATTERNS.find(p => p.pattern === pattern)?.label ?? pattern;
+
+// Profiles depend only on the column data, its name and its type, so they are cached like column stats
+const profileCache = new WeakMap<ColumnData, Map<string, ColumnProfile>>();
+
+const isMissingCell = (value: CellValue) => value === null || value === '';
+
+// Linear interpolation between the closest ranks
+const quantile = (sorted: ArrayLike<number>, p: number) => {
+  const pos = (sorted.length - 1) * p;
+  const lower = Math.floor(pos);
+  const upper = Math.ceil(pos);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (pos - lower);
+};
+
+// Equal-width bins over weighted values. A single distinct value gets a single bin, and
+// whole-number data such as string lengths never gets bins narrower than one.
+const buildHistogram = (values: ArrayLike<number>, weights?: ArrayLike<number>, wholeNumbers = false): HistogramBin[] => {
+  if (values.length === 0) return [];
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < values.length; i++) {
+    if (values[i] < min) min = values[i];
+    if (values[i] > max) max = values[i];
+  }
+  const width = wholeNumbers ? Math.max(1, Math.ceil((max - min + 1) / HISTOGRAM_BINS)) : (max - min) / HISTOGRAM_BINS || 1;
+  const binCount = min === max ? 1 : wholeNumbers ? Math.ceil((max - min + 1) / width) : HISTOGRAM_BINS;
+  const bins: HistogramBin[] = Array.from({ length: binCount }, (_, b) => ({ start: min + b * width, end: min + (b + 1) * width, count: 0 }));
+  for (let i = 0; i < values.length; i++) {
+    const b = Math.min(binCount - 1, Math.floor((values[i] - min) / width));
+    bins[b].count += weights ? weights[i] : 1;
+  }
+  return bins;
+};
+
+const topByCount = (counts: Map<CellValue, number>) =>
+  Array.from(counts, ([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, TOP_VALUES);
+
+const profileNumbers = (column: ColumnData, base: ColumnProfile): ColumnProfile => {
+  const sorted = getSortedNumbers(column);
+  const n = sorted.length;
+  if (n === 0) return base;
+
+  const mean = base.mean ?? 0;
+  let m2 = 0;
+  let m3 = 0;
+  let zeroCount = 0;
+  let negativeCount = 0;
+  // Equal values are adjacent in sorted order, so frequent values are runs; only the longest are kept
+  const top: { value: CellValue; count: number }[] = [];
+  let runStart = 0;
+  for (let i = 0; i < n; i++) {
+    const d = sorted[i] - mean;
+    m2 += d * d;
+    m3 += d * d * d;
+    if (sorted[i] === 0) zeroCount++;
+    if (sorted[i] < 0) negativeCount++;
+    if (i === n - 1 || sorted[i + 1] !== sorted[i]) {
+      const count = i + 1 - runStart;
+      if (top.length < TOP_VALUES || count > top[top.length - 1].count) {
+        top.push({ value: sorted[i], count });
+        top.sort((a, b) => b.count - a.count);
+        if (top.length > TOP_VALUES) top.pop();
+      }
+      runStart = i + 1;
+    }
+  }
+  // Sample standard deviation; skew is the moment coefficient of the values as given
+  const variance = n > 1 ? m2 / (n - 1) : 0;
+  const populationVariance = m2 / n;
+  return {
+    ...base,
+    std: Math.sqrt(variance),
+    skew: populationVariance > 0 ? (m3 / n) / Math.pow(populationVariance, 1.5) : 0,
+    zeroCount,
+    negativeCount,
+    quantiles: QUANTILES.map(p => ({ p, value: quantile(sorted, p) })),
+    histogram: buildHistogram(sorted),
+    topValues: top
+  };
+};
+
+// Text statistics are computed once per distinct value and weighted by how often it occurs
+const profileDictionary = (column: Extract<ColumnData, { kind: 'dictionary' }>, base: ColumnProfile): ColumnProfile => {
+  const { codes, dictionary } = column;
+  const frequency = new Uint32Array(dictionary.length);
+  for (let i = 0; i < codes.length; i++) frequency[codes[i]]++;
+
+  const counts = new Map<CellValue, number>();
+  const patternCounts = new Map<ValuePattern, number>();
+  const lengths: number[] = [];
+  const lengthWeights: number[] = [];
+  const times: number[] = [];
+  const timeWeights: number[] = [];
+  let lengthTotal = 0;
+
+  dictionary.forEach((value, code) => {
+    const count = frequency[code];
+    if (count === 0 || isMissingCell(value)) return;
+    counts.set(value, count);
+    if (base.type === 'date') {
+      const time = Date.parse(String(value));
+      if (!isNaN(time)) {
+        times.push(time);
+        timeWeights.push(count);
+      }
+      return;
+    }
+    if (base.type !== 'string') return;
+    const text = String(value);
+    lengths.push(text.length);
+    lengthWeights.push(count);
+    lengthTotal += text.length * count;
+    const trimmed = text.trim();
+    PATTERNS.forEach(({ pattern, test }) => {
+      // Phone numbers need enough digits to rule out plain numbers and dates
+      if (test.test(trimmed) && (pattern !== 'phone' || trimmed.replace(/\D/g, '').length >= 7)) {
+        patternCounts.set(pattern, (patternCounts.get(pattern) ?? 0) + count);
+      }
+    });
+  });
+
+  const profile: ColumnProfile = {
+    ...base,
+    topValues: topByCount(counts),
+    histogram: base.type === 'date' ? buildHistogram(times, timeWeights) : [],
+    patterns: PATTERNS.map(({ pattern }) => ({ pattern, count: patternCounts.get(pattern) ?? 0 })).filter(p => p.count > 0)
+  };
+  if (lengths.length > 0) {
+    let min = Infinity;
+    let max = 0;
+    lengths.forEach(l => {
+      if (l < min) min = l;
+      if (l > max) max = l;
+    });
+    profile.lengths = { min, max, mean: lengthTotal / base.count, histogram: buildHistogram(lengths, lengthWeights, true) };
+  }
+  return profile;
+};
+
+export const profileColumn = (table: DataTable, meta: ColumnMeta): ColumnProfile => {
+  const column = table.columns[meta.name];
+  const stats = getColumnStats(table, meta.name);
+  const base: ColumnProfile = {
+    name: meta.name,
+    type: meta.type,
+    rowCount: table.rowCount,
+    count: stats.count,
+    missingCount: stats.missingCount,
+    distinctCount: stats.distinctCount,
+    distinctRatio: stats.count > 0 ? stats.distinctCount / stats.count : 0,
+    topValues: [],
+    min: stats.min,
+    max: stats.max,
+    mean: stats.mean,
+    histogram: [],
+    patterns: []
+  };
+  if (!column) return base;
+
+  let cached = profileCache.get(column);
+  if (!cached) {
+    cached = new Map();
+    profileCache.set(column, cached);
+  }
+  const key = `${meta.type}:${meta.name}`;
+  let profile = cached.get(key);
+  if (!profile) {
+    profile = column.kind === 'numeric' ? profileNumbers(column, base) : profileDictionary(column, base);
+    cached.set(key, profile);
+  }
+  return profile;
+};
+
+export const profileTable = (table: DataTable, columns: ColumnMeta[]): ColumnProfile[] =>
+  table.headers
+    .map(h => columns.find(c => c.name === h))
+    .filter((c): c is ColumnMeta => !!c)
+    .map(c => profileColumn(table, c));
+
+// --- Reports ---
+
+export const formatStat = (value: number | undefined, type: ColumnType = 'number') => {
+  if (value === undefined || !isFinite(value)) return '—';
+  if (type === 'date') return new Date(value).toISOString().slice(0, 10);
+  return value.toLocaleString(undefined, { maximumFractionDigits: Math.abs(value) < 1 ? 4 : 2 });
+};
+
+export const formatPercent = (part: number, whole: number) => (whole > 0 ? `${((part / whole) * 100).toFixed(1)}%` : '—');
+
+export const quantileLabel = (p: number) => (p === 0.5 ? 'Median' : `P${Math.round(p * 100)}`);
+
+export const profilesToJson = (datasetName: string, profiles: ColumnProfile[], generatedAt = new Date()): string =>
+  JSON.stringify({ dataset: datasetName, generatedAt: generatedAt.toISOString(), columns: profiles }, null, 2);
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const histogramSvg = (bins: HistogramBin[]) => {
+  const peak = Math.max(1, ...bins.map(b => b.count));
+  const width = 200 / Math.max(1, bins.length);
+  const bars = bins.map((b, i) => {
+    const height = Math.max(b.count > 0 ? 1 : 0, (b.count / peak) * 40);
+    return `<rect x="${(i * width).toFixed(1)}" y="${(40 - height).toFixed(1)}" width="${Math.max(1, width - 1).toFixed(1)}" height="${height.toFixed(1)}" />`;
+  }).join('');
+  return `<svg width="200" height="40" viewBox="0 0 200 40" fill="#3b82f6">${bars}</svg>`;
+};
+
+const statRows = (profile: ColumnProfile): [string, string][] => {
+  const rows: [string, string][] = [
+    ['Present', `${profile.count.toLocaleString()} (${formatPercent(profile.count, profile.rowCount)})`],
+    ['Missing', `${profile.missingCount.toLocaleString()} (${formatPercent(profile.missingCount, profile.rowCount)})`],
+    ['Distinct', `${profile.distinctCount.toLocaleString()} (${formatPercent(profile.distinctCount, profile.count)} of present)`]
+  ];
+  if (profile.type === 'number') {
+    rows.push(
+      ['Mean', formatStat(profile.mean)],
+      ['Std. deviation', formatStat(profile.std)],
+      ['Skew', formatStat(profile.skew)],
+      ['Zeros', (profile.zeroCount ?? 0).toLocaleString()],
+      ['Negative', (profile.negativeCount ?? 0).toLocaleString()],
+      ...(profile.quantiles ?? []).map(q => [quantileLabel(q.p), formatStat(q.value)] as [string, string])
+    );
+  }
+  if (profile.min !== undefined) rows.push(['Min', String(profile.min)], ['Max', String(profile.max)]);
+  if (profile.lengths) {
+    rows.push(['Length', `${profile.lengths.min}–${profile.lengths.max} characters, ${formatStat(profile.lengths.mean)} on average`]);
+  }
+  profile.patterns.forEach(p => rows.push([`${patternLabel(p.pattern)} values`, `${p.count.toLocaleString()} (${formatPercent(p.count, profile.count)})`]));
+  return rows;
+};
+
+// A self-contained page that can be mailed or archived alongside the data
+export const profilesToHtml = (datasetName: string, profiles: ColumnProfile[], generatedAt = new Date()): string => {
+  const sections = profiles.map(profile => {
+    const stats = statRows(profile).map(([label, value]) => `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`).join('');
+    const top = profile.topValues.map(v => `<tr><td>${escapeHtml(v.value === null ? 'null' : String(v.value))}</td><td>${v.count.toLocaleString()}</td></tr>`).join('');
+    const histogram = profile.histogram.length > 0 ? histogramSvg(profile.histogram) : profile.lengths ? histogramSvg(profile.lengths.histogram) : '';
+    return `<section>
+<h2>${escapeHtml(profile.name)} <small>${profile.type}</small></h2>
+${histogram ? `<figure>${histogram}<figcaption>${profile.histogram.length > 0 ? 'Value distribution' : 'Length distribution'}</figcaption></figure>` : ''}
+<div class="grid"><table>${stats}</table>${top ? `<table><thead><tr><th>Most frequent</th><th>Count</th></tr></thead>${top}</table>` : ''}</div>
+</section>`;
+  }).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(datasetName)} data quality report</title>
+<style>
+body { font-family: system-ui, sans-serif; color: #111827; margin: 2rem auto; max-width: 960px; padding: 0 1rem; }
+h1 { font-size: 1.5rem; margin-bottom: 0.25rem; }
+h2 { font-size: 1.1rem; margin: 0 0 0.75rem; }
+h2 small { color: #6b7280; font-weight: 500; text-transform: uppercase; font-size: 0.7rem; letter-spacing: 0.1em; }
+section { border: 1px solid #e5e7eb; border-radius: 12px; padding: 1rem 1.25rem; margin-top: 1rem; }
+.grid { display: flex; gap: 2rem; flex-wrap: wrap; }
+table { border-collapse: collapse; font-size: 0.8rem; }
+th, td { text-align: left; padding: 0.2rem 1rem 0.2rem 0; vertical-align: top; }
+th { color: #6b7280; font-weight: 500; }
+figure { margin: 0 0 0.75rem; }
+figcaption { color: #9ca3af; font-size: 0.7rem; }
+.meta { color: #6b7280; font-size: 0.85rem; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(datasetName)}</h1>
+<p class="meta">${profiles[0]?.rowCount.toLocaleString() ?? 0} rows · ${profiles.length} columns · generated ${generatedAt.toLocaleString()}</p>
+${sections}
+</body>
+</html>
+`;
+};
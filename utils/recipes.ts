@@ -0,0 +1,124 @@
+import { Dataset, Recipe, TransformStep } from '../types';
+import { commitVersion } from './history';
+import { applyTransform, describeStep, stepColumns, toTransformStep } from './transforms';
+import { uniqueName } from './datasets';
+
+const STORAGE_KEY = 'insightflow_recipes';
+const RECIPE_FORMAT = 'insightflow-recipe';
+
+export interface RecipeStepResult {
+  step: TransformStep;
+  label: string;
+  status: 'applied' | 'failed';
+  message: string;
+  missingColumns: string[];
+}
+
+export interface RecipeRun {
+  recipeName: string;
+  datasetName: string;
+  results: RecipeStepResult[];
+}
+
+// Cell edits point at rows by row id, and a fresh upload numbers its rows from 0 again,
+// so replaying them would overwrite unrelated rows
+const isReplayable = (step: TransformStep) => step.op !== 'edit_cells';
+
+const UNREPLAYABLE_MESSAGE = 'Cell edits belong to the rows they were made on and cannot be replayed';
+
+// The replayable steps that produced the version currently shown; undone steps and cell edits are left out
+export const datasetSteps = (dataset: Dataset): TransformStep[] =>
+  dataset.history
+    .slice(1, dataset.version + 1)
+    .flatMap(v => (v.step && isReplayable(v.step) ? [v.step] : []));
+
+let nextRecipeId = 1;
+
+// Saved recipes keep their ids across reloads while the counter starts over, so taken ids are skipped
+const recipeId = (existing: Recipe[]) => {
+  let id: string;
+  do id = `recipe-${nextRecipeId++}`; while (existing.some(r => r.id === id));
+  return id;
+};
+
+export const createRecipe = (name: string, steps: TransformStep[], existing: Recipe[]): Recipe => ({
+  id: recipeId(existing),
+  name: uniqueName(name.trim() || 'Untitled recipe', existing.map(r => r.name)),
+  createdAt: Date.now(),
+  steps: steps.filter(isReplayable)
+});
+
+// Applies each step as its own version, so a replay can be undone step by step. A step
+// whose columns are missing is reported and skipped; the remaining steps still run.
+export const runRecipe = (dataset: Dataset, recipe: Recipe): { dataset: Dataset; run: RecipeRun } => {
+  let current = dataset;
+  const results = recipe.steps.map((step): RecipeStepResult => {
+    const label = describeStep(step);
+    // Recipes saved before cell edits were left out may still hold some
+    if (!isReplayable(step)) return { step, label, status: 'failed', message: UNREPLAYABLE_MESSAGE, missingColumns: [] };
+    const missingColumns = stepColumns(step).filter(c => !(c in current.table.columns));
+    if (missingColumns.length > 0) {
+      const message = `Missing ${missingColumns.length === 1 ? 'column' : 'columns'} ${missingColumns.join(', ')}`;
+      return { step, label, status: 'failed', message, missingColumns };
+    }
+    try {
+      const result = applyTransform(current.table, current.columns, step);
+      if (result.table !== current.table) {
+        current = commitVersion(current, label, result.table, result.columns, step);
+      }
+      return { step, label, status: 'applied', message: result.message, missingColumns };
+    } catch (err) {
+      return { step, label, status: 'failed', message: err instanceof Error ? err.message : 'Unknown error', missingColumns };
+    }
+  });
+  return { dataset: current, run: { recipeName: recipe.name, datasetName: dataset.name, results } };
+};
+
+// --- JSON ---
+
+export const serializeRecipe = (recipe: Recipe): string =>
+  JSON.stringify({ format: RECIPE_FORMAT, version: 1, name: recipe.name, createdAt: recipe.createdAt, steps: recipe.steps }, null, 2);
+
+export const parseRecipe = (json: string, existing: Recipe[]): Recipe => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+  if (!parsed || parsed.format !== RECIPE_FORMAT || !Array.isArray(parsed.steps)) {
+    throw new Error('File is not an InsightFlow recipe');
+  }
+  const steps = parsed.steps.map(toTransformStep);
+  const invalid = steps.indexOf(null);
+  if (invalid !== -1) throw new Error(`Step ${invalid + 1} is not a supported transformation`);
+  const edit = steps.findIndex(step => !isReplayable(step!));
+  if (edit !== -1) throw new Error(`Step ${edit + 1}: ${UNREPLAYABLE_MESSAGE.toLowerCase()}`);
+  return {
+    ...createRecipe(typeof parsed.name === 'string' ? parsed.name : '', steps, existing),
+    createdAt: typeof parsed.createdAt === 'number' ? parsed.createdAt : Date.now()
+  };
+};
+
+export const recipeFileName = (recipe: Recipe) =>
+  `${recipe.name.replace(/[^\w-]+/g, '_').toLowerCase() || 'recipe'}.recipe.json`;
+
+// --- Persistence ---
+
+export const loadRecipes = (): Recipe[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    if (!Array.isArray(saved)) return [];
+    return saved.flatMap(r => {
+      if (!r || typeof r.name !== 'string' || !Array.isArray(r.steps)) return [];
+      const steps = r.steps.map(toTransformStep);
+      return steps.includes(null) ? [] : [{ ...r, steps }];
+    });
+  } catch {
+    return [];
+  }
+};
+
+export const saveRecipes = (recipes: Recipe[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(recipes));
+};
@@ -0,0 +1,254 @@
+import { AggregationType, CellValue, ColumnMeta, ColumnType, DataTable } from '../types';
+import { columnReader, createColumn, getNumericValues, getRowIds } from './dataTable';
+import { uniqueName } from './datasets';
+import { coerceValue, inferColumnType } from './schemaInference';
+import { Accumulator, accumulate, createAccumulator, finishAccumulator } from './aggregations';
+
+// Operations that change the shape of a table rather than its values. Each returns the new
+// table with column metadata in header order; callers summarize the columns.
+
+export interface ReshapeResult {
+  table: DataTable;
+  columns: ColumnMeta[];
+  // Cells that had to be combined or dropped, reported as a warning
+  collisions?: number;
+}
+
+// A wide pivot quickly becomes unusable, and a mistyped key column would create one column per row
+export const MAX_WIDER_COLUMNS = 500;
+export const MAX_SPLIT_PARTS = 20;
+
+const BLANK = '(blank)';
+
+const isBlank = (v: CellValue) => v === null || v === '';
+
+const newMeta = (name: string, type: ColumnType, format?: string): ColumnMeta => ({
+  name,
+  type,
+  ...(format && { format }),
+  uniqueCount: 0,
+  missingCount: 0
+});
+
+// Rows of a reshaped table are new rows, so they get ids that cannot match the source's;
+// the version diff then reports the rows as replaced instead of as edited cells
+const freshRowIds = (source: DataTable, count: number) => {
+  const ids = getRowIds(source);
+  let start = 0;
+  for (let i = 0; i < ids.length; i++) if (ids[i] >= start) start = ids[i] + 1;
+  return Uint32Array.from({ length: count }, (_, i) => start + i);
+};
+
+// Builds a column from raw text, typed the way an import would type it
+const inferredColumn = (name: string, values: CellValue[]) => {
+  const { type, format } = inferColumnType(values);
+  return {
+    data: createColumn(values.length, i => coerceValue(values[i], type, format)),
+    meta: newMeta(name, type, format)
+  };
+};
+
+const insertAfter = <T>(items: T[], anchor: number, inserted: T[]) => [...items.slice(0, anchor + 1), ...inserted, ...items.slice(anchor + 1)];
+
+// --- Melt (wide to long) ---
+
+export const melt = (table: DataTable, columns: ColumnMeta[], valueColumns: string[], keyName: string, valueName: string): ReshapeResult => {
+  if (valueColumns.length === 0) throw new Error('Pick at least one column to unpivot');
+  const melted = new Set(valueColumns);
+  const idColumns = columns.filter(c => !melted.has(c.name));
+  const taken = idColumns.map(c => c.name);
+  if (taken.includes(keyName) || taken.includes(valueName)) throw new Error(`A column named ${taken.includes(keyName) ? keyName : valueName} already exists`);
+  if (keyName === valueName) throw new Error('The key and value columns need different names');
+
+  // Values keep their type when every melted column shares it; mixed columns become text
+  const types = new Set(columns.filter(c => melted.has(c.name)).map(c => c.type));
+  const valueType: ColumnType = types.size === 1 ? [...types][0] : 'string';
+  const valueFormat = valueType === 'date' ? columns.find(c => melted.has(c.name))?.format : undefined;
+
+  const rowCount = table.rowCount * valueColumns.length;
+  const width = valueColumns.length;
+  const idReaders = idColumns.map(c => columnReader(table, c.name));
+  const valueReaders = valueColumns.map(c => columnReader(table, c));
+
+  const next: DataTable['columns'] = {};
+  idColumns.forEach((c, n) => {
+    const read = idReaders[n];
+    next[c.name] = createColumn(rowCount, i => read(Math.floor(i / width)));
+  });
+  next[keyName] = createColumn(rowCount, i => valueColumns[i % width]);
+  next[valueName] = createColumn(rowCount, i => {
+    const v = valueReaders[i % width](Math.floor(i / width));
+    return valueType === 'string' ? coerceValue(v, 'string') : v;
+  });
+
+  return {
+    table: { headers: [...taken, keyName, valueName], rowCount, columns: next, rowIds: freshRowIds(table, rowCount) },
+    columns: [...idColumns, newMeta(keyName, 'string'), newMeta(valueName, valueType, valueFormat)]
+  };
+};
+
+// --- Pivot wider (long to wide) ---
+
+// Every other column identifies a row. Without an aggregation, the first value wins when
+// several rows share a key and the rest are counted as collisions.
+export const pivotWider = (table: DataTable, columns: ColumnMeta[], keyColumn: string, valueColumn: string, aggregation?: AggregationType): ReshapeResult => {
+  if (keyColumn === valueColumn) throw new Error('The key and value columns must be different');
+  const idColumns = columns.filter(c => c.name !== keyColumn && c.name !== valueColumn);
+  const readKey = columnReader(table, keyColumn);
+  const readValue = columnReader(table, valueColumn);
+  const numbers = aggregation ? getNumericValues(table, valueColumn) : null;
+  const idReaders = idColumns.map(c => columnReader(table, c.name));
+
+  const keys = new Map<string, number>(); // Key label to output column index, in order of appearance
+  const groups = new Map<string, number>(); // Id values to output row
+  const firstRows: number[] = [];
+  const cells: { value: CellValue; acc: Accumulator | null }[][] = [];
+  let collisions = 0;
+
+  for (let i = 0; i < table.rowCount; i++) {
+    const rawKey = readKey(i);
+    const key = isBlank(rawKey) ? BLANK : String(rawKey);
+    let k = keys.get(key);
+    if (k === undefined) {
+      k = keys.size;
+      if (k >= MAX_WIDER_COLUMNS) throw new Error(`${keyColumn} has more than ${MAX_WIDER_COLUMNS} distinct values; pick a column with fewer`);
+      keys.set(key, k);
+    }
+    const id = JSON.stringify(idReaders.map(read => read(i)));
+    let row = groups.get(id);
+    if (row === undefined) {
+      row = firstRows.length;
+      groups.set(id, row);
+      firstRows.push(i);
+      cells.push([]);
+    }
+    const value = readValue(i);
+    let cell = cells[row][k];
+    if (!cell) {
+      cells[row][k] = cell = { value, acc: aggregation ? createAccumulator(aggregation) : null };
+    } else if (!aggregation) {
+      collisions++;
+    }
+    if (cell.acc) accumulate(cell.acc, numbers![i], value);
+  }
+
+  const taken = idColumns.map(c => c.name);
+  const keyNames = [...keys.keys()].map(key => {
+    const name = uniqueName(key, taken, '_');
+    taken.push(name);
+    return name;
+  });
+  const valueMeta = columns.find(c => c.name === valueColumn);
+  const rowCount = firstRows.length;
+
+  const next: DataTable['columns'] = {};
+  idColumns.forEach((c, n) => {
+    const read = idReaders[n];
+    next[c.name] = createColumn(rowCount, r => read(firstRows[r]));
+  });
+  keyNames.forEach((name, k) => {
+    next[name] = createColumn(rowCount, r => {
+      const cell = cells[r][k];
+      if (!cell) return null;
+      return cell.acc ? finishAccumulator(cell.acc, aggregation!) : cell.value;
+    });
+  });
+
+  return {
+    table: { headers: taken, rowCount, columns: next, rowIds: freshRowIds(table, rowCount) },
+    columns: [
+      ...idColumns,
+      ...keyNames.map(name => aggregation ? newMeta(name, 'number') : newMeta(name, valueMeta?.type ?? 'string', valueMeta?.format))
+    ],
+    collisions
+  };
+};
+
+// --- Split and merge ---
+
+export const splitPattern = (delimiter: string, regex = false): RegExp => {
+  try {
+    return new RegExp(regex ? delimiter : delimiter.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  } catch {
+    throw new Error(`Invalid pattern: ${delimiter}`);
+  }
+};
+
+// Names for the parts of a split column: column_1, column_2, ...
+export const splitColumnNames = (column: string, count: number, taken: string[]) => {
+  const names: string[] = [];
+  for (let n = 1; n <= count; n++) names.push(uniqueName(`${column}_${n}`, [...taken, ...names], '_'));
+  return names;
+};
+
+// Parts are trimmed and typed on their own, so "2024-03" splits into two number columns.
+// With a limit, the last column keeps the unsplit remainder.
+export const splitColumn = (table: DataTable, columns: ColumnMeta[], column: string, delimiter: string, options: { regex?: boolean; limit?: number; removeSource?: boolean } = {}): ReshapeResult => {
+  if (delimiter === '') throw new Error('Enter a delimiter to split on');
+  const pattern = splitPattern(delimiter, options.regex);
+  const limit = Math.min(options.limit ?? MAX_SPLIT_PARTS, MAX_SPLIT_PARTS);
+  const read = columnReader(table, column);
+
+  const parts: string[][] = [];
+  let width = 0;
+  for (let i = 0; i < table.rowCount; i++) {
+    const v = read(i);
+    if (isBlank(v)) {
+      parts.push([]);
+      continue;
+    }
+    const text = String(v);
+    const pieces: string[] = [];
+    let rest = text;
+    while (pieces.length < limit - 1) {
+      const match = pattern.exec(rest);
+      // Empty matches (e.g. a regex like "x*") would never advance
+      if (!match || match[0] === '') break;
+      pieces.push(rest.slice(0, match.index));
+      rest = rest.slice(match.index + match[0].length);
+    }
+    pieces.push(rest);
+    parts.push(pieces.map(p => p.trim()));
+    width = Math.max(width, pieces.length);
+  }
+
+  const remaining = options.removeSource ? columns.filter(c => c.name !== column) : columns;
+  const names = splitColumnNames(column, width, remaining.map(c => c.name));
+  const built = names.map((name, n) => inferredColumn(name, parts.map(p => (p[n] === undefined || p[n] === '' ? null : p[n]))));
+
+  const next = { ...table.columns };
+  if (options.removeSource) delete next[column];
+  built.forEach(b => { next[b.meta.name] = b.data; });
+
+  const anchor = columns.findIndex(c => c.name === column);
+  const ordered = insertAfter(columns, anchor, built.map(b => b.meta)).filter(c => !(options.removeSource && c.name === column));
+  return {
+    table: { ...table, headers: ordered.map(c => c.name), columns: next },
+    columns: ordered
+  };
+};
+
+// Blank cells are skipped so they do not leave doubled separators behind
+export const mergeColumns = (table: DataTable, columns: ColumnMeta[], sources: string[], name: string, separator: string, removeSource = false): ReshapeResult => {
+  if (sources.length < 2) throw new Error('Pick at least two columns to merge');
+  if (name in table.columns && !(removeSource && sources.includes(name))) throw new Error(`A column named ${name} already exists`);
+  const readers = sources.map(c => columnReader(table, c));
+  const merged = createColumn(table.rowCount, i => {
+    const parts = readers.map(read => read(i)).filter(v => !isBlank(v)).map(v => String(v));
+    return parts.length > 0 ? parts.join(separator) : null;
+  });
+
+  const next = { ...table.columns };
+  if (removeSource) sources.forEach(c => delete next[c]);
+  next[name] = merged;
+
+  // The merged column goes after the last source
+  const kept = removeSource ? columns.filter(c => !sources.includes(c.name)) : columns;
+  const lastSource = Math.max(...sources.map(c => columns.findIndex(m => m.name === c)));
+  const position = columns.slice(0, lastSource + 1).filter(c => kept.includes(c)).length;
+  const ordered = [...kept.slice(0, position), newMeta(name, 'string'), ...kept.slice(position)];
+  return {
+    table: { ...table, headers: ordered.map(c => c.name), columns: next },
+    columns: ordered
+  };
+};
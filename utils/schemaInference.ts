@@ -0,0 +1,310 @@
+import { CellValue, ColumnMeta, ColumnType, DataTable } from '../types';
+import { columnReader, createColumn, getColumnStats, getColumnValues, withColumn } from './dataTable';
+
+export type DateOrder = 'MDY' | 'DMY';
+
+// A column whose inferred type did not fit every value, so it was kept as text
+export interface TypeFallback {
+  column: string;
+  type: ColumnType; // The type inferred from the sample
+  failed: number; // Values that would have been emptied or changed by the conversion
+}
+
+export interface SchemaOptions {
+  // How to read ambiguous dates like 03/04/2024 when no value in the column settles it
+  dateOrder?: DateOrder;
+  sampleSize?: number;
+}
+
+// Placeholders spreadsheets use for "no value". They only mean missing where text is not
+// expected; in a text column "NA" may well be a country or a name.
+const MISSING_TOKENS = new Set(['', 'na', 'n/a', 'null', 'nan', '#n/a']);
+const TRUE_TOKENS = new Set(['true', 'yes', 'y']);
+const FALSE_TOKENS = new Set(['false', 'no', 'n']);
+const NUMBER_PATTERN = /^[+-]?(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?$/;
+const GROUPED_NUMBER_PATTERN = /^[+-]?\d{1,3}(,\d{3})+(\.\d+)?$/;
+const LEADING_ZERO_PATTERN = /^[+-]?0\d+$/;
+
+const MONTHS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6, jul: 7, aug: 8, sep: 9, sept: 9, oct: 10, nov: 11, dec: 12,
+  january: 1, february: 2, march: 3, april: 4, june: 6, july: 7, august: 8, september: 9, october: 10, november: 11, december: 12
+};
+
+export const defaultDateOrder = (): DateOrder => {
+  const lang = typeof navigator !== 'undefined' ? navigator.language : 'en-US';
+  return /^en-(US|PH)|^en$/i.test(lang) ? 'MDY' : 'DMY';
+};
+
+export const isMissing = (value: CellValue | undefined): boolean => {
+  if (value === null || value === undefined) return true;
+  if (typeof value === 'number') return isNaN(value);
+  if (typeof value === 'string') return MISSING_TOKENS.has(value.trim().toLowerCase());
+  return false;
+};
+
+// --- Dates ---
+
+interface DateParts {
+  year: number;
+  month: number;
+  day: number;
+  time?: string;
+  offset?: string;
+}
+
+const TIME = '(?:[T ](\\d{1,2}):(\\d{2})(?::(\\d{2})(?:\\.(\\d{1,3})\\d*)?)?\\s*([AaPp][Mm])?)?';
+const ISO_DATE = new RegExp(`^(\\d{4})[-/](\\d{1,2})[-/](\\d{1,2})${TIME}\\s*(Z|[+-]\\d{2}:?\\d{2})?$`);
+const NUMERIC_DATE = new RegExp(`^(\\d{1,2})([/.-])(\\d{1,2})\\2(\\d{2}|\\d{4})${TIME}$`);
+const NAMED_MONTH_DMY = new RegExp(`^(\\d{1,2})[ -]([A-Za-z]{3,9})\\.?[ ,-]+(\\d{4})${TIME}$`);
+const NAMED_MONTH_MDY = new RegExp(`^([A-Za-z]{3,9})\\.? (\\d{1,2}),? (\\d{4})${TIME}$`);
+
+const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+
+const buildTime = (h?: string, m?: string, s?: string, ms?: string, meridiem?: string): string | undefined | null => {
+  if (h === undefined) return undefined;
+  let hours = Number(h);
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    const pm = meridiem.toLowerCase() === 'pm';
+    hours = (hours % 12) + (pm ? 12 : 0);
+  }
+  const minutes = Number(m);
+  const seconds = s ? Number(s) : 0;
+  if (hours > 23 || minutes > 59 || seconds > 59) return null;
+  const millis = ms ? `.${ms.padEnd(3, '0')}` : '';
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${millis}`;
+};
+
+const validDay = (year: number, month: number, day: number) => {
+  if (month < 1 || month > 12 || day < 1) return false;
+  return day <= new Date(Date.UTC(year, month, 0)).getUTCDate();
+};
+
+const expandYear = (y: string) => {
+  if (y.length === 4) return Number(y);
+  const n = Number(y);
+  return n < 50 ? 2000 + n : 1900 + n;
+};
+
+// Returns both readings of a numeric date so the column can decide between them
+const matchDate = (raw: string): { iso?: DateParts; first?: number; second?: number; rest?: Omit<DateParts, 'month' | 'day'> } | null => {
+  const text = raw.trim();
+  let m = ISO_DATE.exec(text);
+  if (m) {
+    const time = buildTime(m[4], m[5], m[6], m[7], m[8]);
+    if (time === null) return null;
+    const parts = { year: Number(m[1]), month: Number(m[2]), day: Number(m[3]), time, offset: m[9] };
+    return validDay(parts.year, parts.month, parts.day) ? { iso: parts } : null;
+  }
+
+  m = NUMERIC_DATE.exec(text);
+  if (m) {
+    const time = buildTime(m[5], m[6], m[7], m[8], m[9]);
+    if (time === null) return null;
+    return { first: Number(m[1]), second: Number(m[3]), rest: { year: expandYear(m[4]), time } };
+  }
+
+  m = NAMED_MONTH_DMY.exec(text);
+  if (m && MONTHS[m[2].toLowerCase()]) {
+    const time = buildTime(m[4], m[5], m[6], m[7], m[8]);
+    if (time === null) return null;
+    const parts = { year: Number(m[3]), month: MONTHS[m[2].toLowerCase()], day: Number(m[1]), time };
+    return validDay(parts.year, parts.month, parts.day) ? { iso: parts } : null;
+  }
+
+  m = NAMED_MONTH_MDY.exec(text);
+  if (m && MONTHS[m[1].toLowerCase()]) {
+    const time = buildTime(m[4], m[5], m[6], m[7], m[8]);
+    if (time === null) return null;
+    const parts = { year: Number(m[3]), month: MONTHS[m[1].toLowerCase()], day: Number(m[2]), time };
+    return validDay(parts.year, parts.month, parts.day) ? { iso: parts } : null;
+  }
+
+  return null;
+};
+
+const formatDateParts = (parts: DateParts): string => {
+  const date = `${pad(parts.year, 4)}-${pad(parts.month)}-${pad(parts.day)}`;
+  if (parts.offset) {
+    // Explicit offsets are normalised to UTC; a bare midnight UTC stamp is treated as a calendar date
+    const offset = parts.offset === 'Z' ? 'Z' : parts.offset.replace(/^([+-]\d{2})(\d{2})$/, '$1:$2');
+    const instant = new Date(`${date}T${parts.time || '00:00:00'}${offset}`);
+    if (isNaN(instant.getTime())) return date;
+    const iso = instant.toISOString();
+    return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso.replace('.000Z', 'Z');
+  }
+  if (!parts.time || parts.time === '00:00:00') return date;
+  return `${date}T${parts.time}`;
+};
+
+// Normalises a date-like value to ISO 8601 ("2024-03-05" or "2024-03-05T14:30:00").
+// Returns null when the value is not a valid date in the given order.
+export const parseDate = (value: CellValue, order: DateOrder = defaultDateOrder()): string | null => {
+  if (typeof value !== 'string') return null;
+  const match = matchDate(value);
+  if (!match) return null;
+  if (match.iso) return formatDateParts(match.iso);
+  const month = order === 'MDY' ? match.first! : match.second!;
+  const day = order === 'MDY' ? match.second! : match.first!;
+  const { year, time } = match.rest!;
+  if (!validDay(year, month, day)) return null;
+  return formatDateParts({ year, month, day, time });
+};
+
+// --- Scalars ---
+
+export const parseNumber = (value: CellValue): number | null => {
+  if (typeof value === 'number') return isNaN(value) ? null : value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (typeof value !== 'string') return null;
+  const text = value.trim();
+  if (NUMBER_PATTERN.test(text)) return Number(text);
+  if (GROUPED_NUMBER_PATTERN.test(text)) return Number(text.replace(/,/g, ''));
+  return null;
+};
+
+export const parseBoolean = (value: CellValue): boolean | null => {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number') return value === 1 ? true : value === 0 ? false : null;
+  if (typeof value !== 'string') return null;
+  const text = value.trim().toLowerCase();
+  if (TRUE_TOKENS.has(text) || text === '1') return true;
+  if (FALSE_TOKENS.has(text) || text === '0') return false;
+  return null;
+};
+
+// --- Inference ---
+
+const detectDateOrder = (values: CellValue[], fallback: DateOrder): DateOrder | null => {
+  let mdyPossible = true;
+  let dmyPossible = true;
+  values.forEach(v => {
+    const match = typeof v === 'string' ? matchDate(v) : null;
+    if (!match || match.iso) return;
+    const { year } = match.rest!;
+    if (!validDay(year, match.first!, match.second!)) mdyPossible = false;
+    if (!validDay(year, match.second!, match.first!)) dmyPossible = false;
+  });
+  if (mdyPossible && dmyPossible) return fallback;
+  if (mdyPossible) return 'MDY';
+  if (dmyPossible) return 'DMY';
+  return null;
+};
+
+export const inferColumnType = (values: CellValue[], options: SchemaOptions = {}): Pick<ColumnMeta, 'type' | 'format'> => {
+  const sampleSize = options.sampleSize ?? 5000;
+  const sample: CellValue[] = [];
+  for (let i = 0; i < values.length && sample.length < sampleSize; i++) {
+    if (!isMissing(values[i])) sample.push(values[i]);
+  }
+  if (sample.length === 0) return { type: 'string' };
+
+  if (sample.every(v => typeof v === 'boolean' || (typeof v === 'string' && (TRUE_TOKENS.has(v.trim().toLowerCase()) || FALSE_TOKENS.has(v.trim().toLowerCase()))))) {
+    return { type: 'boolean' };
+  }
+
+  // Zip codes, account numbers and the like keep their leading zeros
+  const hasLeadingZeros = sample.some(v => typeof v === 'string' && LEADING_ZERO_PATTERN.test(v.trim()));
+  if (!hasLeadingZeros && sample.every(v => parseNumber(v) !== null && typeof v !== 'boolean')) {
+    return { type: 'number' };
+  }
+
+  if (sample.every(v => typeof v === 'string' && matchDate(v) !== null)) {
+    const order = detectDateOrder(sample, options.dateOrder ?? defaultDateOrder());
+    if (order && sample.every(v => parseDate(v, order) !== null)) {
+      const numeric = sample.some(v => { const m = matchDate(v as string); return m && !m.iso; });
+      return numeric ? { type: 'date', format: order } : { type: 'date' };
+    }
+  }
+
+  return { type: 'string' };
+};
+
+const isEmpty = (value: CellValue | undefined): boolean =>
+  value === null || value === undefined || value === '' || (typeof value === 'number' && isNaN(value));
+
+export const coerceValue = (value: CellValue | undefined, type: ColumnType, format?: string): CellValue => {
+  if (type === 'string' ? isEmpty(value) : isMissing(value)) return null;
+  switch (type) {
+    case 'number': return parseNumber(value);
+    case 'boolean': return parseBoolean(value);
+    case 'date': return parseDate(value, (format as DateOrder) || defaultDateOrder());
+    default: return typeof value === 'string' ? value : String(value);
+  }
+};
+
+// Recomputes unique and missing counts after the data changed, keeping each column's type
+export const summarizeColumns = (table: DataTable, columns: ColumnMeta[]): ColumnMeta[] => {
+  return columns.map(c => {
+    const { distinctCount, missingCount } = getColumnStats(table, c.name);
+    return { ...c, uniqueCount: distinctCount, missingCount };
+  });
+};
+
+
+// True when converting `before` lost it: emptied it, or dropped a leading zero that the
+// sample did not show
+const conversionFailed = (before: CellValue | undefined, after: CellValue, type: ColumnType) =>
+  (after === null && !isMissing(before)) ||
+  (type === 'number' && typeof before === 'string' && LEADING_ZERO_PATTERN.test(before.trim()));
+
+// Infers a schema for freshly imported rows and stores every cell, converted to its
+// column's type, in a columnar table. The type comes from a sample, so a column where a
+// later value does not fit is kept as text rather than losing that value.
+//
+// `rows` are arrays aligned with `headers`. They are emptied as their cells move into
+// columns, so a large import is never held as rows and typed columns at once.
+export const applyInferredSchema = (headers: string[], rows: CellValue[][], options: SchemaOptions = {}): { table: DataTable; columns: ColumnMeta[]; fallbacks: TypeFallback[] } => {
+  const rowCount = rows.length;
+  const cells: (CellValue[] | null)[] = headers.map(() => new Array(rowCount));
+  for (let i = 0; i < rowCount; i++) {
+    const row = rows[i];
+    for (let c = 0; c < headers.length; c++) cells[c]![i] = row[c] ?? null;
+    (rows as (CellValue[] | null)[])[i] = null;
+  }
+  rows.length = 0;
+
+  const schema: ColumnMeta[] = [];
+  const columns: DataTable['columns'] = {};
+  const fallbacks: TypeFallback[] = [];
+  headers.forEach((name, c) => {
+    const values = cells[c]!;
+    let meta: ColumnMeta = { name, ...inferColumnType(values, options), uniqueCount: 0, missingCount: 0 };
+    let failed = 0;
+    let column = createColumn(rowCount, i => {
+      const after = coerceValue(values[i], meta.type, meta.format);
+      if (meta.type !== 'string' && conversionFailed(values[i], after, meta.type)) failed++;
+      return after;
+    });
+    if (failed > 0) {
+      fallbacks.push({ column: name, type: meta.type, failed });
+      meta = { ...meta, type: 'string', format: undefined };
+      column = createColumn(rowCount, i => coerceValue(values[i], 'string'));
+    }
+    schema.push(meta);
+    columns[name] = column;
+    cells[c] = null;
+  });
+  const table: DataTable = { headers, rowCount, columns };
+  return { table, columns: summarizeColumns(table, schema), fallbacks };
+};
+
+export const describeTypeFallbacks = (fallbacks: TypeFallback[]): string =>
+  fallbacks.map(f => `${f.column} kept as text (${f.failed} ${f.failed === 1 ? 'value does' : 'values do'} not fit ${f.type})`).join('; ');
+
+// Converts one column to a user-chosen type. Values that cannot be represented in the
+// new type become null and are counted so the caller can report them.
+export const retypeColumn = (table: DataTable, column: string, type: ColumnType, format?: string): { table: DataTable; format?: string; failed: number } => {
+  let failed = 0;
+  const resolvedFormat = type === 'date' && !format
+    ? detectDateOrder(getColumnValues(table, column).map(v => typeof v === 'string' ? v : null), defaultDateOrder()) ?? defaultDateOrder()
+    : format;
+  const read = columnReader(table, column);
+  const next = createColumn(table.rowCount, i => {
+    const before = read(i);
+    const after = coerceValue(before, type, resolvedFormat);
+    if (after === null && !isMissing(before)) failed++;
+    return after;
+  });
+  return { table: withColumn(table, column, next), format: resolvedFormat, failed };
+};
@@ -0,0 +1,1001 @@
+import { CellValue, ColumnMeta, DataTable, Dataset } from '../types';
+import { columnFromValues, columnReader } from './dataTable';
+import { uniqueName } from './datasets';
+import { summarizeColumns } from './schemaInference';
+import { BinaryOp, FORMULA_FUNCTIONS, applyOperator, compareValues, resultType, toBoolean, toNumber } from './formula';
+
+// A read-only SQL dialect over the loaded datasets. Queries are parsed into a tree and run
+// against the columnar tables directly; scalar functions are shared with computed columns.
+//
+//   SELECT region, SUM(revenue) AS total
+//   FROM orders o JOIN customers c ON o.customer_id = c.id
+//   WHERE c.segment <> 'Internal'
+//   GROUP BY region ORDER BY total DESC LIMIT 10
+
+type AggregateName = 'COUNT' | 'SUM' | 'AVG' | 'MIN' | 'MAX';
+
+interface ColumnRef {
+  table?: string;
+  name: string;
+}
+
+export type SqlExpr =
+  | { kind: 'literal'; value: CellValue }
+  | ({ kind: 'column' } & ColumnRef)
+  | { kind: 'unary'; op: '-' | 'NOT'; operand: SqlExpr }
+  | { kind: 'binary'; op: BinaryOp; left: SqlExpr; right: SqlExpr }
+  | { kind: 'call'; name: string; args: SqlExpr[] }
+  | { kind: 'cast'; operand: SqlExpr; to: 'number' | 'integer' | 'text' }
+  | { kind: 'aggregate'; name: AggregateName; arg: SqlExpr | null; distinct: boolean } // arg is null for COUNT(*)
+  | { kind: 'is_null'; operand: SqlExpr; negated: boolean }
+  | { kind: 'in'; operand: SqlExpr; list: SqlExpr[]; negated: boolean }
+  | { kind: 'between'; operand: SqlExpr; low: SqlExpr; high: SqlExpr; negated: boolean }
+  | { kind: 'like'; operand: SqlExpr; pattern: SqlExpr; negated: boolean }
+  | { kind: 'case'; operand?: SqlExpr; branches: { when: SqlExpr; then: SqlExpr }[]; otherwise?: SqlExpr };
+
+type SelectItem =
+  | { kind: 'star'; table?: string }
+  | { kind: 'expr'; expr: SqlExpr; alias?: string; text: string };
+
+interface TableRef {
+  name: string;
+  alias: string;
+}
+
+type SqlJoinType = 'inner' | 'left' | 'right' | 'full' | 'cross';
+
+export interface SelectQuery {
+  distinct: boolean;
+  items: SelectItem[];
+  from?: TableRef;
+  joins: { type: SqlJoinType; source: TableRef; on?: SqlExpr }[];
+  where?: SqlExpr;
+  groupBy: SqlExpr[];
+  having?: SqlExpr;
+  orderBy: { expr: SqlExpr; descending: boolean }[];
+  limit?: number;
+  offset?: number;
+}
+
+export interface QueryResult {
+  table: DataTable;
+  columns: ColumnMeta[];
+  sources: string[]; // Names of the datasets the query read
+  warning?: string;
+}
+
+// --- Tokens ---
+
+interface Token {
+  type: 'number' | 'string' | 'identifier' | 'quoted' | 'operator' | 'end'; // quoted: "name", `name` or [name]
+  value: string;
+  pos: number;
+  end: number;
+}
+
+const OPERATORS = ['<=', '>=', '<>', '!=', '==', '||', '+', '-', '*', '/', '%', '=', '<', '>', '(', ')', ',', '.', ';'];
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  const push = (type: Token['type'], value: string, start: number) => tokens.push({ type, value, pos: start, end: i });
+
+  // A doubled closing quote inside the quotes stands for the quote itself
+  const readQuoted = (close: string, start: number, what: string) => {
+    let value = '';
+    i++;
+    while (true) {
+      if (i >= source.length) throw new Error(`Unterminated ${what} starting at position ${start + 1}`);
+      if (source[i] === close) {
+        if (close !== ']' && source[i + 1] === close) {
+          value += close;
+          i += 2;
+          continue;
+        }
+        i++;
+        return value;
+      }
+      value += source[i++];
+    }
+  };
+
+  while (i < source.length) {
+    const ch = source[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+    if (source.startsWith('--', i)) {
+      const lineEnd = source.indexOf('\n', i);
+      i = lineEnd === -1 ? source.length : lineEnd;
+      continue;
+    }
+    if (source.startsWith('/*', i)) {
+      const close = source.indexOf('*/', i + 2);
+      if (close === -1) throw new Error(`Unterminated comment starting at position ${i + 1}`);
+      i = close + 2;
+      continue;
+    }
+    const start = i;
+    if (/[0-9]/.test(ch) || (ch === '.' && /[0-9]/.test(source[i + 1] ?? ''))) {
+      const match = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(source.slice(i))!;
+      i += match[0].length;
+      push('number', match[0], start);
+    } else if (ch === "'") {
+      push('string', readQuoted("'", start, 'text'), start);
+    } else if (ch === '"' || ch === '`' || ch === '[') {
+      push('quoted', readQuoted(ch === '[' ? ']' : ch, start, 'name'), start);
+    } else if (/[A-Za-z_]/.test(ch)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i))!;
+      i += match[0].length;
+      push('identifier', match[0], start);
+    } else {
+      const op = OPERATORS.find(o => source.startsWith(o, i));
+      if (!op) throw new Error(`Unexpected "${ch}" at position ${i + 1}`);
+      i += op.length;
+      push('operator', op, start);
+    }
+  }
+  tokens.push({ type: 'end', value: '', pos: source.length, end: source.length });
+  return tokens;
+};
+
+// --- Parsing ---
+
+const RESERVED = new Set([
+  'SELECT', 'DISTINCT', 'FROM', 'WHERE', 'GROUP', 'BY', 'HAVING', 'ORDER', 'ASC', 'DESC', 'LIMIT', 'OFFSET',
+  'JOIN', 'INNER', 'LEFT', 'RIGHT', 'FULL', 'OUTER', 'CROSS', 'ON', 'AS', 'AND', 'OR', 'NOT', 'IS', 'NULL',
+  'IN', 'BETWEEN', 'LIKE', 'CASE', 'WHEN', 'THEN', 'ELSE', 'END', 'TRUE', 'FALSE', 'UNION'
+]);
+
+const AGGREGATES = new Set<string>(['COUNT', 'SUM', 'AVG', 'MIN', 'MAX']);
+
+// Common SQL spellings of the formula functions
+const FUNCTION_ALIASES: Record<string, string> = {
+  SUBSTR: 'MID', SUBSTRING: 'MID', LENGTH: 'LEN', CEILING: 'CEIL', IIF: 'IF', POW: 'POWER', NVL: 'IFNULL'
+};
+
+const CAST_TYPES: Record<string, 'number' | 'integer' | 'text'> = {
+  INT: 'integer', INTEGER: 'integer', BIGINT: 'integer',
+  REAL: 'number', FLOAT: 'number', DOUBLE: 'number', NUMERIC: 'number', DECIMAL: 'number', NUMBER: 'number',
+  TEXT: 'text', VARCHAR: 'text', CHAR: 'text', STRING: 'text'
+};
+
+const BINARY_PRECEDENCE: Record<string, number> = {
+  OR: 1, AND: 2,
+  '=': 4, '==': 4, '!=': 4, '<>': 4, '<': 4, '<=': 4, '>': 4, '>=': 4,
+  '||': 5,
+  '+': 6, '-': 6,
+  '*': 7, '/': 7, '%': 7
+};
+const OPERATOR_NAMES: Record<string, BinaryOp> = { '==': '=', '<>': '!=', '||': '&' };
+const NOT_PRECEDENCE = 3;
+const COMPARISON_PRECEDENCE = 4;
+const NEGATE_PRECEDENCE = 8;
+
+export const parseSql = (source: string): SelectQuery => {
+  if (!source.trim()) throw new Error('Enter a query');
+  const tokens = tokenize(source);
+  let index = 0;
+  const peek = (offset = 0) => tokens[Math.min(index + offset, tokens.length - 1)];
+  const next = () => tokens[Math.min(index++, tokens.length - 1)];
+
+  const describe = (token: Token) => (token.type === 'end' ? 'end of query' : token.type === 'string' ? `'${token.value}'` : `"${token.value}"`);
+  const fail = (token: Token, expected?: string): never => {
+    throw new Error(expected
+      ? `Expected ${expected} but found ${describe(token)} at position ${token.pos + 1}`
+      : `Unexpected ${describe(token)} at position ${token.pos + 1}`);
+  };
+
+  const isKeyword = (token: Token, ...words: string[]) => token.type === 'identifier' && words.includes(token.value.toUpperCase());
+  const isOp = (token: Token, value: string) => token.type === 'operator' && token.value === value;
+  const isName = (token: Token) => token.type === 'quoted' || (token.type === 'identifier' && !RESERVED.has(token.value.toUpperCase()));
+  const acceptKeyword = (...words: string[]) => (isKeyword(peek(), ...words) ? next().value.toUpperCase() : null);
+  const expectKeyword = (word: string) => {
+    if (!acceptKeyword(word)) fail(peek(), word);
+  };
+  const acceptOp = (value: string) => (isOp(peek(), value) ? (next(), true) : false);
+  const expectOp = (value: string) => {
+    if (!acceptOp(value)) fail(peek(), `"${value}"`);
+  };
+
+  const parseName = (what: string): string => (isName(peek()) ? next().value : fail(peek(), what));
+  const acceptAlias = (): string | undefined => {
+    if (acceptKeyword('AS')) return parseName('an alias');
+    return isName(peek()) ? next().value : undefined;
+  };
+
+  const parseColumn = (first: string): SqlExpr =>
+    acceptOp('.') ? { kind: 'column', table: first, name: parseName('a column name') } : { kind: 'column', name: first };
+
+  const parseCall = (word: string): SqlExpr => {
+    expectOp('(');
+    if (word === 'CAST') {
+      const operand = parseExpression(0);
+      expectKeyword('AS');
+      const typeToken = peek();
+      const to = CAST_TYPES[parseName('a type').toUpperCase()];
+      if (!to) throw new Error(`Cannot CAST to "${typeToken.value}"; use INTEGER, REAL or TEXT`);
+      expectOp(')');
+      return { kind: 'cast', operand, to };
+    }
+    const distinct = AGGREGATES.has(word) && !!acceptKeyword('DISTINCT');
+    if (word === 'COUNT' && !distinct && isOp(peek(), '*')) {
+      next();
+      expectOp(')');
+      return { kind: 'aggregate', name: 'COUNT', arg: null, distinct: false };
+    }
+    const args: SqlExpr[] = [];
+    if (!isOp(peek(), ')')) {
+      do args.push(parseExpression(0));
+      while (acceptOp(','));
+    }
+    expectOp(')');
+    // MIN and MAX with several arguments are the row-wise formula functions
+    if (AGGREGATES.has(word) && (args.length === 1 || (word !== 'MIN' && word !== 'MAX'))) {
+      if (args.length !== 1) throw new Error(`${word}() takes one argument`);
+      return { kind: 'aggregate', name: word as AggregateName, arg: args[0], distinct };
+    }
+    return { kind: 'call', name: FUNCTION_ALIASES[word] ?? word, args };
+  };
+
+  const parseCase = (): SqlExpr => {
+    const operand = isKeyword(peek(), 'WHEN') ? undefined : parseExpression(0);
+    const branches: { when: SqlExpr; then: SqlExpr }[] = [];
+    while (acceptKeyword('WHEN')) {
+      const when = parseExpression(0);
+      expectKeyword('THEN');
+      branches.push({ when, then: parseExpression(0) });
+    }
+    if (branches.length === 0) fail(peek(), 'WHEN');
+    const otherwise = acceptKeyword('ELSE') ? parseExpression(0) : undefined;
+    expectKeyword('END');
+    return { kind: 'case', operand, branches, otherwise };
+  };
+
+  const parsePrimary = (): SqlExpr => {
+    const token = next();
+    switch (token.type) {
+      case 'number':
+        return { kind: 'literal', value: Number(token.value) };
+      case 'string':
+        return { kind: 'literal', value: token.value };
+      case 'quoted':
+        return parseColumn(token.value);
+      case 'identifier': {
+        const word = token.value.toUpperCase();
+        if (isOp(peek(), '(')) return parseCall(word);
+        if (word === 'NULL') return { kind: 'literal', value: null };
+        if (word === 'TRUE' || word === 'FALSE') return { kind: 'literal', value: word === 'TRUE' };
+        if (word === 'NOT') return { kind: 'unary', op: 'NOT', operand: parseExpression(NOT_PRECEDENCE) };
+        if (word === 'CASE') return parseCase();
+        if (RESERVED.has(word)) return fail(token, 'an expression');
+        return parseColumn(token.value);
+      }
+      case 'operator':
+        if (token.value === '(') {
+          const inner = parseExpression(0);
+          expectOp(')');
+          return inner;
+        }
+        if (token.value === '-') return { kind: 'unary', op: '-', operand: parseExpression(NEGATE_PRECEDENCE) };
+        if (token.value === '+') return parseExpression(NEGATE_PRECEDENCE);
+        return fail(token, 'an expression');
+      default:
+        return fail(token, 'an expression');
+    }
+  };
+
+  const parseExpression = (minPrecedence: number): SqlExpr => {
+    let left = parsePrimary();
+    while (true) {
+      const token = peek();
+      // IS [NOT] NULL and [NOT] IN / BETWEEN / LIKE bind like comparisons
+      if (COMPARISON_PRECEDENCE > minPrecedence) {
+        if (isKeyword(token, 'IS')) {
+          next();
+          const negated = !!acceptKeyword('NOT');
+          expectKeyword('NULL');
+          left = { kind: 'is_null', operand: left, negated };
+          continue;
+        }
+        const negated = isKeyword(token, 'NOT') && isKeyword(peek(1), 'IN', 'BETWEEN', 'LIKE');
+        if (negated || isKeyword(token, 'IN', 'BETWEEN', 'LIKE')) {
+          if (negated) next();
+          const word = next().value.toUpperCase();
+          if (word === 'IN') {
+            expectOp('(');
+            const list = [parseExpression(0)];
+            while (acceptOp(',')) list.push(parseExpression(0));
+            expectOp(')');
+            left = { kind: 'in', operand: left, list, negated };
+          } else if (word === 'LIKE') {
+            left = { kind: 'like', operand: left, pattern: parseExpression(COMPARISON_PRECEDENCE), negated };
+          } else {
+            const low = parseExpression(COMPARISON_PRECEDENCE);
+            expectKeyword('AND');
+            left = { kind: 'between', operand: left, low, high: parseExpression(COMPARISON_PRECEDENCE), negated };
+          }
+          continue;
+        }
+      }
+      const symbol = token.type === 'operator' ? token.value : isKeyword(token, 'AND', 'OR') ? token.value.toUpperCase() : null;
+      const precedence = symbol ? BINARY_PRECEDENCE[symbol] : undefined;
+      if (!symbol || precedence === undefined || precedence <= minPrecedence) break;
+      next();
+      left = { kind: 'binary', op: OPERATOR_NAMES[symbol] ?? (symbol as BinaryOp), left, right: parseExpression(precedence) };
+    }
+    return left;
+  };
+
+  const parseSource = (): TableRef => {
+    const name = parseName('a table name');
+    return { name, alias: acceptAlias() ?? name };
+  };
+
+  const parseJoinType = (): SqlJoinType | null => {
+    if (acceptKeyword('JOIN')) return 'inner';
+    const word = acceptKeyword('INNER', 'CROSS', 'LEFT', 'RIGHT', 'FULL');
+    if (!word) return null;
+    if (word !== 'INNER' && word !== 'CROSS') acceptKeyword('OUTER');
+    expectKeyword('JOIN');
+    return word.toLowerCase() as SqlJoinType;
+  };
+
+  const parseCount = (clause: string) => {
+    const token = next();
+    if (token.type !== 'number' || !Number.isInteger(Number(token.value))) fail(token, `a whole number after ${clause}`);
+    return Number(token.value);
+  };
+
+  expectKeyword('SELECT');
+  const distinct = !!acceptKeyword('DISTINCT');
+
+  const items: SelectItem[] = [];
+  do {
+    if (acceptOp('*')) {
+      items.push({ kind: 'star' });
+    } else if (isName(peek()) && isOp(peek(1), '.') && isOp(peek(2), '*')) {
+      const table = next().value;
+      next();
+      next();
+      items.push({ kind: 'star', table });
+    } else {
+      const start = peek().pos;
+      const expr = parseExpression(0);
+      const text = source.slice(start, tokens[index - 1].end);
+      items.push({ kind: 'expr', expr, alias: acceptAlias(), text });
+    }
+  } while (acceptOp(','));
+
+  const query: SelectQuery = { distinct, items, joins: [], groupBy: [], orderBy: [] };
+
+  if (acceptKeyword('FROM')) {
+    query.from = parseSource();
+    while (true) {
+      if (acceptOp(',')) {
+        query.joins.push({ type: 'cross', source: parseSource() });
+        continue;
+      }
+      const type = parseJoinType();
+      if (!type) break;
+      const source = parseSource();
+      if (type === 'cross') {
+        query.joins.push({ type, source });
+      } else {
+        expectKeyword('ON');
+        query.joins.push({ type, source, on: parseExpression(0) });
+      }
+    }
+  }
+  if (acceptKeyword('WHERE')) query.where = parseExpression(0);
+  if (acceptKeyword('GROUP')) {
+    expectKeyword('BY');
+    do query.groupBy.push(parseExpression(0));
+    while (acceptOp(','));
+  }
+  if (acceptKeyword('HAVING')) query.having = parseExpression(0);
+  if (acceptKeyword('ORDER')) {
+    expectKeyword('BY');
+    do {
+      const expr = parseExpression(0);
+      query.orderBy.push({ expr, descending: acceptKeyword('ASC', 'DESC') === 'DESC' });
+    } while (acceptOp(','));
+  }
+  if (acceptKeyword('LIMIT')) {
+    query.limit = parseCount('LIMIT');
+    if (acceptKeyword('OFFSET')) query.offset = parseCount('OFFSET');
+  }
+  acceptOp(';');
+  const rest = peek();
+  if (rest.type !== 'end') {
+    if (isKeyword(rest, 'UNION')) throw new Error('UNION is not supported; use Join or Union Datasets in Data Studio');
+    fail(rest);
+  }
+  return query;
+};
+
+// --- Expressions ---
+
+const children = (expr: SqlExpr): SqlExpr[] => {
+  switch (expr.kind) {
+    case 'unary':
+    case 'cast':
+    case 'is_null': return [expr.operand];
+    case 'binary': return [expr.left, expr.right];
+    case 'call': return expr.args;
+    case 'aggregate': return expr.arg ? [expr.arg] : [];
+    case 'in': return [expr.operand, ...expr.list];
+    case 'between': return [expr.operand, expr.low, expr.high];
+    case 'like': return [expr.operand, expr.pattern];
+    case 'case': return [
+      ...(expr.operand ? [expr.operand] : []),
+      ...expr.branches.flatMap(b => [b.when, b.then]),
+      ...(expr.otherwise ? [expr.otherwise] : [])
+    ];
+    default: return [];
+  }
+};
+
+const someExpr = (expr: SqlExpr, test: (e: SqlExpr) => boolean): boolean => test(expr) || children(expr).some(c => someExpr(c, test));
+const isAggregate = (expr: SqlExpr) => expr.kind === 'aggregate';
+
+const columnRefs = (expr: SqlExpr, found: ColumnRef[] = []): ColumnRef[] => {
+  if (expr.kind === 'column') found.push(expr);
+  children(expr).forEach(c => columnRefs(c, found));
+  return found;
+};
+
+const splitAnd = (expr: SqlExpr): SqlExpr[] =>
+  expr.kind === 'binary' && expr.op === 'AND' ? [...splitAnd(expr.left), ...splitAnd(expr.right)] : [expr];
+
+const likePattern = (pattern: string) =>
+  new RegExp(`^${pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/%/g, '.*').replace(/_/g, '.')}$`, 'is');
+
+type Evaluator = (unit: number) => CellValue;
+
+interface Scope {
+  column: (ref: ColumnRef) => Evaluator;
+  aggregate?: (node: Extract<SqlExpr, { kind: 'aggregate' }>) => Evaluator;
+}
+
+const compileExpr = (expr: SqlExpr, scope: Scope): Evaluator => {
+  switch (expr.kind) {
+    case 'literal': {
+      const { value } = expr;
+      return () => value;
+    }
+    case 'column':
+      return scope.column(expr);
+    case 'unary': {
+      const operand = compileExpr(expr.operand, scope);
+      if (expr.op === 'NOT') return i => { const v = operand(i); return v === null ? null : !toBoolean(v); };
+      return i => { const n = toNumber(operand(i)); return n === null ? null : -n; };
+    }
+    case 'binary': {
+      const left = compileExpr(expr.left, scope);
+      const right = compileExpr(expr.right, scope);
+      const { op } = expr;
+      if (op === 'AND' || op === 'OR') return i => applyOperator(op, () => left(i), () => right(i));
+      // Any other operator with a null operand is null, as in SQL (so x = NULL never matches)
+      return i => {
+        const a = left(i);
+        const b = right(i);
+        return a === null || b === null ? null : applyOperator(op, () => a, () => b);
+      };
+    }
+    case 'call': {
+      const fn = FORMULA_FUNCTIONS[expr.name];
+      if (!fn) throw new Error(`Unknown function ${expr.name}()`);
+      if (expr.args.length < fn.min || expr.args.length > fn.max) {
+        const expected = fn.min === fn.max ? `${fn.min}` : fn.max === Infinity ? `at least ${fn.min}` : `${fn.min} to ${fn.max}`;
+        throw new Error(`${expr.name}() takes ${expected} ${fn.max === 1 && fn.min === 1 ? 'argument' : 'arguments'}, got ${expr.args.length}. Usage: ${fn.signature}`);
+      }
+      const args = expr.args.map(a => compileExpr(a, scope));
+      return i => fn.call(args.map(a => () => a(i)));
+    }
+    case 'cast': {
+      const operand = compileExpr(expr.operand, scope);
+      if (expr.to === 'text') return i => { const v = operand(i); return v === null ? null : String(v); };
+      const integer = expr.to === 'integer';
+      return i => { const n = toNumber(operand(i)); return n === null ? null : integer ? Math.trunc(n) : n; };
+    }
+    case 'aggregate':
+      if (!scope.aggregate) throw new Error(`${expr.name}() can only be used in SELECT, HAVING or ORDER BY`);
+      return scope.aggregate(expr);
+    case 'is_null': {
+      const operand = compileExpr(expr.operand, scope);
+      const { negated } = expr;
+      return i => (operand(i) === null) !== negated;
+    }
+    case 'in': {
+      const operand = compileExpr(expr.operand, scope);
+      const list = expr.list.map(e => compileExpr(e, scope));
+      const { negated } = expr;
+      return i => {
+        const v = operand(i);
+        if (v === null) return null;
+        return list.some(item => { const w = item(i); return w !== null && compareValues(v, w) === 0; }) !== negated;
+      };
+    }
+    case 'between': {
+      const [operand, low, high] = [expr.operand, expr.low, expr.high].map(e => compileExpr(e, scope));
+      const { negated } = expr;
+      return i => {
+        const v = operand(i);
+        const lo = low(i);
+        const hi = high(i);
+        if (v === null || lo === null || hi === null) return null;
+        return (compareValues(v, lo) >= 0 && compareValues(v, hi) <= 0) !== negated;
+      };
+    }
+    case 'like': {
+      const operand = compileExpr(expr.operand, scope);
+      const pattern = compileExpr(expr.pattern, scope);
+      const { negated } = expr;
+      const cache = new Map<string, RegExp>();
+      return i => {
+        const v = operand(i);
+        const p = pattern(i);
+        if (v === null || p === null) return null;
+        const key = String(p);
+        let regex = cache.get(key);
+        if (!regex) cache.set(key, (regex = likePattern(key)));
+        return regex.test(String(v)) !== negated;
+      };
+    }
+    case 'case': {
+      const operand = expr.operand ? compileExpr(expr.operand, scope) : null;
+      const branches = expr.branches.map(b => ({ when: compileExpr(b.when, scope), then: compileExpr(b.then, scope) }));
+      const otherwise = expr.otherwise ? compileExpr(expr.otherwise, scope) : () => null;
+      return i => {
+        const subject = operand ? operand(i) : null;
+        for (const branch of branches) {
+          const when = branch.when(i);
+          const hit = operand ? subject !== null && when !== null && compareValues(subject, when) === 0 : toBoolean(when);
+          if (hit) return branch.then(i);
+        }
+        return otherwise(i);
+      };
+    }
+  }
+};
+
+// --- Execution ---
+
+interface Source {
+  ref: TableRef;
+  dataset: Dataset;
+}
+
+// The joined input: one row-index array per source, where -1 is the missing side of an outer join
+interface Frame {
+  rows: Int32Array[];
+  length: number;
+}
+
+// Runtime failures (a bad cast, division by zero) leave the value empty instead of failing the query
+interface RunState {
+  errors: number;
+  firstError?: string;
+}
+
+const guard = (evaluate: Evaluator, state: RunState): Evaluator => i => {
+  try {
+    const v = evaluate(i);
+    return typeof v === 'number' && !isFinite(v) ? null : v;
+  } catch (err) {
+    state.errors++;
+    state.firstError ??= err instanceof Error ? err.message : 'error';
+    return null;
+  }
+};
+
+// Joins beyond this many row pairs are refused rather than freezing the tab
+const MAX_JOIN_ROWS = 2_000_000;
+
+const findByName = <T>(items: T[], name: string, nameOf: (item: T) => string): T | undefined =>
+  items.find(item => nameOf(item) === name) ?? items.find(item => nameOf(item).toLowerCase() === name.toLowerCase());
+
+// Table and column names are case insensitive unless two of them differ only by case
+const resolveColumn = (sources: Source[], ref: ColumnRef): { index: number; name: string } => {
+  const lookup = (index: number) => findByName(sources[index].dataset.table.headers, ref.name, h => h);
+  if (ref.table !== undefined) {
+    const source = findByName(sources, ref.table, s => s.ref.alias);
+    if (!source) throw new Error(`Unknown table or alias "${ref.table}"`);
+    const index = sources.indexOf(source);
+    const name = lookup(index);
+    if (name === undefined) throw new Error(`${ref.table} has no column "${ref.name}"`);
+    return { index, name };
+  }
+  const exact = sources.flatMap((s, index) => (s.dataset.table.headers.includes(ref.name) ? [{ index, name: ref.name }] : []));
+  const matches = exact.length > 0 ? exact : sources.flatMap((_, index) => {
+    const name = lookup(index);
+    return name === undefined ? [] : [{ index, name }];
+  });
+  if (matches.length === 0) throw new Error(`Unknown column "${ref.name}"`);
+  if (matches.length > 1) {
+    throw new Error(`Column "${ref.name}" is ambiguous; prefix it with a table, e.g. ${sqlIdentifier(sources[matches[0].index].ref.alias)}.${sqlIdentifier(matches[0].name)}`);
+  }
+  return matches[0];
+};
+
+const rowScope = (sources: Source[], frame: Frame): Scope => ({
+  column: ref => {
+    const { index, name } = resolveColumn(sources, ref);
+    const read = columnReader(sources[index].dataset.table, name);
+    const rows = frame.rows[index];
+    return i => {
+      const row = rows[i];
+      if (!(row >= 0)) return null;
+      const v = read(row);
+      return v === '' ? null : v;
+    };
+  }
+});
+
+const takeFrame = (frame: Frame, units: number[]): Frame => ({
+  rows: frame.rows.map(rows => Int32Array.from(units, i => rows[i])),
+  length: units.length
+});
+
+const hashKey = (v: CellValue) => (typeof v === 'string' ? v : String(v));
+
+const joinSource = (sources: Source[], frame: Frame, join: SelectQuery['joins'][number], state: RunState): Frame => {
+  const newIndex = sources.length - 1;
+  const table = sources[newIndex].dataset.table;
+
+  // Equalities between the tables joined so far and the new one are matched through a hash
+  // index; any other ON condition is checked on the candidate pairs
+  const leftKeys: SqlExpr[] = [];
+  const rightKeys: SqlExpr[] = [];
+  const residual: SqlExpr[] = [];
+  const sidesOf = (expr: SqlExpr) => new Set(columnRefs(expr).map(ref => resolveColumn(sources, ref).index));
+  (join.on ? splitAnd(join.on) : []).forEach(condition => {
+    if (condition.kind === 'binary' && condition.op === '=' && !someExpr(condition, isAggregate)) {
+      const a = sidesOf(condition.left);
+      const b = sidesOf(condition.right);
+      const onlyNew = (s: Set<number>) => s.size === 1 && s.has(newIndex);
+      const onlyOld = (s: Set<number>) => s.size > 0 && !s.has(newIndex);
+      if (onlyOld(a) && onlyNew(b)) return (leftKeys.push(condition.left), rightKeys.push(condition.right));
+      if (onlyNew(a) && onlyOld(b)) return (leftKeys.push(condition.right), rightKeys.push(condition.left));
+    }
+    residual.push(condition);
+  });
+
+  const pairLeft: number[] = [];
+  const pairRight: number[] = [];
+  const tooLarge = () => new Error(`The join produces more than ${MAX_JOIN_ROWS.toLocaleString()} row pairs; narrow it with an equality in ON or a smaller table`);
+
+  if (leftKeys.length > 0) {
+    const oldScope = rowScope(sources, { rows: [...frame.rows, new Int32Array(0)], length: frame.length });
+    const newScope = rowScope(sources, { rows: [...frame.rows.map(() => new Int32Array(0)), Int32Array.from({ length: table.rowCount }, (_, i) => i)], length: table.rowCount });
+    const keyReader = (keys: SqlExpr[], scope: Scope) => {
+      const readers = keys.map(k => guard(compileExpr(k, scope), state));
+      return (i: number) => {
+        let key = '';
+        for (const read of readers) {
+          const v = read(i);
+          if (v === null) return null; // A missing key never matches
+          key += hashKey(v) + '\u001f';
+        }
+        return key;
+      };
+    };
+    const readNew = keyReader(rightKeys, newScope);
+    const index = new Map<string, number[]>();
+    for (let r = 0; r < table.rowCount; r++) {
+      const key = readNew(r);
+      if (key === null) continue;
+      const bucket = index.get(key);
+      if (bucket) bucket.push(r);
+      else index.set(key, [r]);
+    }
+    const readOld = keyReader(leftKeys, oldScope);
+    for (let i = 0; i < frame.length; i++) {
+      const key = readOld(i);
+      const matches = key === null ? undefined : index.get(key);
+      if (!matches) continue;
+      if (pairLeft.length + matches.length > MAX_JOIN_ROWS) throw tooLarge();
+      matches.forEach(r => {
+        pairLeft.push(i);
+        pairRight.push(r);
+      });
+    }
+  } else {
+    if (frame.length * table.rowCount > MAX_JOIN_ROWS) throw tooLarge();
+    for (let i = 0; i < frame.length; i++) {
+      for (let r = 0; r < table.rowCount; r++) {
+        pairLeft.push(i);
+        pairRight.push(r);
+      }
+    }
+  }
+
+  let keep: Uint8Array | null = null;
+  if (residual.length > 0) {
+    const pairs: Frame = { rows: [...takeFrame(frame, pairLeft).rows, Int32Array.from(pairRight)], length: pairLeft.length };
+    const condition = residual.reduce((left, right): SqlExpr => ({ kind: 'binary', op: 'AND', left, right }));
+    const test = guard(compileExpr(condition, rowScope(sources, pairs)), state);
+    keep = Uint8Array.from({ length: pairs.length }, (_, k) => (toBoolean(test(k)) ? 1 : 0));
+  }
+
+  const out: number[][] = sources.map(() => []);
+  const push = (oldRow: number, newRow: number) => {
+    frame.rows.forEach((rows, s) => out[s].push(oldRow < 0 ? -1 : rows[oldRow]));
+    out[newIndex].push(newRow);
+  };
+  const matchedNew = new Uint8Array(table.rowCount);
+  let k = 0;
+  for (let i = 0; i < frame.length; i++) {
+    let matched = false;
+    for (; k < pairLeft.length && pairLeft[k] === i; k++) {
+      if (keep && !keep[k]) continue;
+      matched = true;
+      matchedNew[pairRight[k]] = 1;
+      push(i, pairRight[k]);
+    }
+    if (!matched && (join.type === 'left' || join.type === 'full')) push(i, -1);
+  }
+  if (join.type === 'right' || join.type === 'full') {
+    for (let r = 0; r < table.rowCount; r++) if (!matchedNew[r]) push(-1, r);
+  }
+  return { rows: out.map(rows => Int32Array.from(rows)), length: out[newIndex].length };
+};
+
+const aggregateValues = (name: AggregateName, values: CellValue[]): CellValue => {
+  if (name === 'COUNT') return values.length;
+  if (values.length === 0) return null;
+  if (name === 'MIN' || name === 'MAX') {
+    const sign = name === 'MIN' ? -1 : 1;
+    return values.reduce((best, v) => (compareValues(v, best) * sign > 0 ? v : best));
+  }
+  let sum = 0;
+  for (const v of values) sum += toNumber(v)!;
+  return name === 'SUM' ? sum : sum / values.length;
+};
+
+// Outside aggregates a grouped query can only read the columns it groups by, which hold one
+// value per group, so those are read from the group's first row
+const groupScope = (base: Scope, groups: number[][], state: RunState, isKeyColumn: (ref: ColumnRef) => boolean): Scope => ({
+  column: ref => {
+    const read = base.column(ref);
+    if (!isKeyColumn(ref)) throw new Error(`Column "${ref.name}" must appear in GROUP BY or be used in an aggregate`);
+    return g => read(groups[g][0] ?? -1);
+  },
+  aggregate: node => {
+    if (node.arg && someExpr(node.arg, isAggregate)) throw new Error('Aggregate functions cannot be nested');
+    const read = node.arg ? guard(compileExpr(node.arg, base), state) : null;
+    const { name, distinct } = node;
+    return g => {
+      const members = groups[g];
+      if (!read) return members.length;
+      let values = members.map(read).filter(v => v !== null);
+      if (distinct) {
+        const seen = new Set<string>();
+        values = values.filter(v => !seen.has(hashKey(v)) && !!seen.add(hashKey(v)));
+      }
+      return aggregateValues(name, values);
+    };
+  }
+});
+
+// SELECT-list aliases can be used in GROUP BY, HAVING and ORDER BY when no input column has that name
+const withAliases = (scope: Scope, aliases: Map<string, SqlExpr>): Scope => ({
+  ...scope,
+  column: ref => {
+    const alias = ref.table === undefined ? aliases.get(ref.name.toLowerCase()) : undefined;
+    if (!alias) return scope.column(ref);
+    try {
+      return scope.column(ref);
+    } catch {
+      return compileExpr(alias, scope);
+    }
+  }
+});
+
+const compareNullsFirst = (a: CellValue, b: CellValue) => (a === null || b === null ? (a === null ? 0 : 1) - (b === null ? 0 : 1) : compareValues(a, b));
+
+interface OutputColumn {
+  name: string;
+  expr: SqlExpr;
+  meta?: ColumnMeta; // Plain column references keep the source column's type
+}
+
+export const executeQuery = (query: SelectQuery, datasets: Dataset[]): QueryResult => {
+  const state: RunState = { errors: 0 };
+
+  const refs = query.from ? [query.from, ...query.joins.map(j => j.source)] : [];
+  const sources: Source[] = refs.map(ref => {
+    const dataset = findByName(datasets, ref.name, d => d.name);
+    if (!dataset) {
+      throw new Error(`Unknown table "${ref.name}". Available tables: ${datasets.map(d => sqlIdentifier(d.name)).join(', ') || 'none'}`);
+    }
+    return { ref, dataset };
+  });
+  sources.forEach((s, i) => {
+    if (sources.findIndex(o => o.ref.alias.toLowerCase() === s.ref.alias.toLowerCase()) !== i) {
+      throw new Error(`${s.ref.alias} appears twice in FROM; give one of them an alias, e.g. ${sqlIdentifier(s.ref.name)} AS t2`);
+    }
+  });
+
+  // --- FROM and JOIN ---
+  let frame: Frame = sources.length === 0
+    ? { rows: [], length: 1 } // SELECT without FROM returns one row
+    : { rows: [Int32Array.from({ length: sources[0].dataset.table.rowCount }, (_, i) => i)], length: sources[0].dataset.table.rowCount };
+  query.joins.forEach((join, i) => {
+    frame = joinSource(sources.slice(0, i + 2), frame, join, state);
+  });
+
+  // --- WHERE ---
+  if (query.where) {
+    const test = guard(compileExpr(query.where, rowScope(sources, frame)), state);
+    const kept: number[] = [];
+    for (let i = 0; i < frame.length; i++) if (toBoolean(test(i))) kept.push(i);
+    frame = takeFrame(frame, kept);
+  }
+
+  // --- SELECT list ---
+  const outputs: OutputColumn[] = [];
+  const taken: string[] = [];
+  const addOutput = (name: string, expr: SqlExpr, meta?: ColumnMeta) => {
+    const unique = uniqueName(name, taken, '_');
+    taken.push(unique);
+    outputs.push({ name: unique, expr, meta });
+  };
+  const sourceMeta = (index: number, name: string) => sources[index].dataset.columns.find(c => c.name === name);
+  query.items.forEach(item => {
+    if (item.kind === 'star') {
+      if (sources.length === 0) throw new Error('SELECT * needs a FROM clause');
+      const selected = item.table === undefined ? sources : [findByName(sources, item.table, s => s.ref.alias)];
+      if (!selected[0]) throw new Error(`Unknown table or alias "${item.table}"`);
+      selected.forEach(source => source!.dataset.table.headers.forEach(h => {
+        addOutput(h, { kind: 'column', table: source!.ref.alias, name: h }, sourceMeta(sources.indexOf(source!), h));
+      }));
+      return;
+    }
+    if (item.expr.kind === 'column') {
+      const { index, name } = resolveColumn(sources, item.expr);
+      addOutput(item.alias ?? name, item.expr, sourceMeta(index, name));
+    } else {
+      addOutput(item.alias ?? item.text, item.expr);
+    }
+  });
+  const aliases = new Map<string, SqlExpr>();
+  query.items.forEach(item => {
+    if (item.kind === 'expr' && item.alias) aliases.set(item.alias.toLowerCase(), item.expr);
+  });
+
+  // --- GROUP BY and HAVING ---
+  const rows = rowScope(sources, frame);
+  const grouped = query.groupBy.length > 0
+    || query.having !== undefined
+    || outputs.some(o => someExpr(o.expr, isAggregate))
+    || query.orderBy.some(o => someExpr(o.expr, isAggregate));
+  if (grouped && query.items.some(item => item.kind === 'star')) throw new Error('SELECT * cannot be combined with GROUP BY or aggregates');
+
+  let scope = rows;
+  let units: number[];
+  if (grouped) {
+    // Note every column the GROUP BY keys read, aliases and SELECT positions included
+    const keyColumns = new Set<string>();
+    const columnKey = (ref: ColumnRef) => {
+      const { index, name } = resolveColumn(sources, ref);
+      return `${index}:${name}`;
+    };
+    const keyScope: Scope = {
+      column: ref => {
+        const read = rows.column(ref);
+        keyColumns.add(columnKey(ref));
+        return read;
+      }
+    };
+    const keyReaders = query.groupBy.map(expr => {
+      // GROUP BY 2 groups by the second SELECT column
+      if (expr.kind === 'literal' && typeof expr.value === 'number') {
+        const output = outputs[expr.value - 1];
+        if (!output) throw new Error(`GROUP BY ${expr.value} does not match a SELECT column`);
+        return guard(compileExpr(output.expr, keyScope), state);
+      }
+      return guard(compileExpr(expr, withAliases(keyScope, aliases)), state);
+    });
+    const groups: number[][] = [];
+    if (keyReaders.length === 0) {
+      groups.push(Array.from({ length: frame.length }, (_, i) => i));
+    } else {
+      const groupOf = new Map<string, number>();
+      for (let i = 0; i < frame.length; i++) {
+        const key = keyReaders.map(read => { const v = read(i); return v === null ? '\u0000' : `${typeof v}:${v}`; }).join('\u001f');
+        const g = groupOf.get(key);
+        if (g === undefined) {
+          groupOf.set(key, groups.length);
+          groups.push([i]);
+        } else {
+          groups[g].push(i);
+        }
+      }
+    }
+    scope = groupScope(rows, groups, state, ref => keyColumns.has(columnKey(ref)));
+    units = groups.map((_, g) => g);
+    if (query.having) {
+      const test = guard(compileExpr(query.having, withAliases(scope, aliases)), state);
+      units = units.filter(g => toBoolean(test(g)));
+    }
+  } else {
+    units = Array.from({ length: frame.length }, (_, i) => i);
+  }
+
+  const values = outputs.map(o => {
+    const read = guard(compileExpr(o.expr, scope), state);
+    return units.map(read);
+  });
+
+  // --- DISTINCT, ORDER BY, LIMIT ---
+  let order = units.map((_, p) => p);
+  if (query.distinct) {
+    const seen = new Set<string>();
+    order = order.filter(p => {
+      const key = values.map(column => { const v = column[p]; return v === null ? '\u0000' : `${typeof v}:${v}`; }).join('\u001f');
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+  if (query.orderBy.length > 0) {
+    const keys = query.orderBy.map(({ expr }) => {
+      if (expr.kind === 'literal' && typeof expr.value === 'number') {
+        const column = values[expr.value - 1];
+        if (!column) throw new Error(`ORDER BY ${expr.value} does not match a SELECT column`);
+        return column;
+      }
+      if (expr.kind === 'column' && expr.table === undefined) {
+        const output = outputs.findIndex(o => o.name.toLowerCase() === expr.name.toLowerCase());
+        if (output !== -1) return values[output];
+      }
+      const read = guard(compileExpr(expr, withAliases(scope, aliases)), state);
+      return units.map(read);
+    });
+    order.sort((a, b) => {
+      for (let k = 0; k < keys.length; k++) {
+        const diff = compareNullsFirst(keys[k][a], keys[k][b]);
+        if (diff !== 0) return query.orderBy[k].descending ? -diff : diff;
+      }
+      return 0;
+    });
+  }
+  const offset = query.offset ?? 0;
+  order = order.slice(offset, query.limit === undefined ? undefined : offset + query.limit);
+
+  // --- Result table ---
+  const columns: DataTable['columns'] = {};
+  const meta: ColumnMeta[] = outputs.map((output, c) => {
+    const column = order.map(p => values[c][p]);
+    const type = output.meta?.type ?? resultType(column);
+    if (type === 'string') column.forEach((v, i) => { if (v !== null) column[i] = String(v); });
+    columns[output.name] = columnFromValues(column);
+    return { name: output.name, type, ...(output.meta?.format && { format: output.meta.format }), uniqueCount: 0, missingCount: 0 };
+  });
+  const table: DataTable = { headers: outputs.map(o => o.name), rowCount: order.length, columns };
+
+  return {
+    table,
+    columns: summarizeColumns(table, meta),
+    sources: [...new Set(sources.map(s => s.dataset.name))],
+    warning: state.errors > 0
+      ? `${state.errors} ${state.errors === 1 ? 'value' : 'values'} could not be computed and were left empty. First error: ${state.firstError}`
+      : undefined
+  };
+};
+
+export const runSql = (source: string, datasets: Dataset[]): QueryResult => executeQuery(parseSql(source), datasets);
+
+// The datasets a query reads, so only those need shipping to the worker
+export const queryDatasets = (query: SelectQuery, datasets: Dataset[]): Dataset[] => {
+  const refs = query.from ? [query.from, ...query.joins.map(j => j.source)] : [];
+  const found = refs.map(ref => findByName(datasets, ref.name, d => d.name)).filter((d): d is Dataset => d !== undefined);
+  return [...new Set(found)];
+};
+
+// Dataset and column names that are not plain words need double quotes in a query
+export const sqlIdentifier = (name: string) =>
+  /^[A-Za-z_][A-Za-z0-9_]*$/.test(name) && !RESERVED.has(name.toUpperCase()) ? name : `"${name.replace(/"/g, '""')}"`;
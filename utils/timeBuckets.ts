@@ -0,0 +1,186 @@
+import { CellValue, TimeGrain } from '../types';
+
+export const TIME_GRAINS: { grain: TimeGrain; label: string }[] = [
+  { grain: 'hour', label: 'Hour' },
+  { grain: 'day', label: 'Day' },
+  { grain: 'week', label: 'Week (from Monday)' },
+  { grain: 'month', label: 'Month' },
+  { grain: 'quarter', label: 'Quarter' },
+  { grain: 'year', label: 'Year' }
+];
+
+export const DEFAULT_TIME_ZONE = 'UTC';
+
+export const browserTimeZone = () => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || DEFAULT_TIME_ZONE;
+  } catch {
+    return DEFAULT_TIME_ZONE;
+  }
+};
+
+const COMMON_TIME_ZONES = [
+  'UTC', 'America/Los_Angeles', 'America/Denver', 'America/Chicago', 'America/New_York', 'America/Sao_Paulo',
+  'Europe/London', 'Europe/Paris', 'Europe/Berlin', 'Europe/Moscow', 'Africa/Johannesburg', 'Asia/Dubai',
+  'Asia/Kolkata', 'Asia/Singapore', 'Asia/Shanghai', 'Asia/Tokyo', 'Australia/Sydney', 'Pacific/Auckland'
+];
+
+// The browser's own zone first, so local time is one pick away
+export const timeZoneOptions = (): string[] => {
+  const local = browserTimeZone();
+  return COMMON_TIME_ZONES.includes(local) ? COMMON_TIME_ZONES : [local, ...COMMON_TIME_ZONES];
+};
+
+// Filling an hourly axis over years would build a chart nobody can read
+export const MAX_TIME_BUCKETS = 5000;
+
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?)?\s*(Z|[+-]\d{2}:?\d{2})?$/i;
+
+const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+
+const zoneFormatters = new Map<string, Intl.DateTimeFormat>();
+
+const zoneFormatter = (timeZone: string) => {
+  let formatter = zoneFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone, hourCycle: 'h23', year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit'
+    });
+    zoneFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+// Unknown zone names fall back to UTC rather than failing the whole chart
+const resolveTimeZone = (timeZone: string) => {
+  try {
+    zoneFormatter(timeZone);
+    return timeZone;
+  } catch {
+    return DEFAULT_TIME_ZONE;
+  }
+};
+
+// The zone's wall-clock time at an instant, as a Date whose UTC fields hold it
+const zoneWallClock = (instant: Date, timeZone: string): Date => {
+  if (timeZone === 'UTC') return instant;
+  const parts: Record<string, number> = {};
+  zoneFormatter(timeZone).formatToParts(instant).forEach(p => { if (p.type !== 'literal') parts[p.type] = Number(p.value); });
+  return new Date(Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute));
+};
+
+// The instant a wall-clock time falls on in the zone. Times skipped by a DST change land
+// next to the gap.
+const zoneInstant = (wall: Date, timeZone: string): Date => {
+  const guess = wall.getTime();
+  const offset = zoneWallClock(wall, timeZone).getTime() - guess;
+  const corrected = zoneWallClock(new Date(guess - offset), timeZone).getTime() - (guess - offset);
+  return new Date(guess - corrected);
+};
+
+// Wall-clock time of a value, as a Date whose UTC fields hold it. Dates and timestamps without
+// an offset are already wall-clock time; timestamps with one (stored in UTC) are moved into the zone.
+const wallClock = (value: CellValue, timeZone: string): Date | null => {
+  if (typeof value !== 'string') return null;
+  const m = ISO_DATE.exec(value.trim());
+  if (!m) return null;
+  const [, y, mo, d, h = '0', mi = '0', s = '0', offset] = m;
+  const wall = new Date(Date.UTC(Number(y), Number(mo) - 1, Number(d), Number(h), Number(mi), Number(s)));
+  if (isNaN(wall.getTime())) return null;
+  if (!offset) return wall;
+
+  const minutes = offset.toUpperCase() === 'Z' ? 0 : (offset[0] === '-' ? -1 : 1) * (Number(offset.slice(1, 3)) * 60 + Number(offset.slice(-2)));
+  return zoneWallClock(new Date(wall.getTime() - minutes * 60000), timeZone);
+};
+
+const bucketStart = (wall: Date, grain: TimeGrain): Date => {
+  const y = wall.getUTCFullYear();
+  const m = wall.getUTCMonth();
+  switch (grain) {
+    case 'hour': return new Date(Date.UTC(y, m, wall.getUTCDate(), wall.getUTCHours()));
+    case 'day': return new Date(Date.UTC(y, m, wall.getUTCDate()));
+    case 'week': return new Date(Date.UTC(y, m, wall.getUTCDate() - ((wall.getUTCDay() + 6) % 7)));
+    case 'month': return new Date(Date.UTC(y, m, 1));
+    case 'quarter': return new Date(Date.UTC(y, m - (m % 3), 1));
+    case 'year': return new Date(Date.UTC(y, 0, 1));
+  }
+};
+
+const nextBucket = (start: Date, grain: TimeGrain): Date => {
+  const d = new Date(start);
+  switch (grain) {
+    case 'hour': d.setUTCHours(d.getUTCHours() + 1); break;
+    case 'day': d.setUTCDate(d.getUTCDate() + 1); break;
+    case 'week': d.setUTCDate(d.getUTCDate() + 7); break;
+    case 'month': d.setUTCMonth(d.getUTCMonth() + 1); break;
+    case 'quarter': d.setUTCMonth(d.getUTCMonth() + 3); break;
+    case 'year': d.setUTCFullYear(d.getUTCFullYear() + 1); break;
+  }
+  return d;
+};
+
+// Labels sort chronologically as plain strings: "2024-03-05 14:00", "2024-03-05", "2024-03", "2024-Q1", "2024"
+const bucketLabel = (start: Date, grain: TimeGrain): string => {
+  const y = pad(start.getUTCFullYear(), 4);
+  const m = pad(start.getUTCMonth() + 1);
+  const d = pad(start.getUTCDate());
+  switch (grain) {
+    case 'hour': return `${y}-${m}-${d} ${pad(start.getUTCHours())}:00`;
+    case 'day':
+    case 'week': return `${y}-${m}-${d}`;
+    case 'month': return `${y}-${m}`;
+    case 'quarter': return `${y}-Q${Math.floor(start.getUTCMonth() / 3) + 1}`;
+    case 'year': return y;
+  }
+};
+
+const parseLabel = (label: string, grain: TimeGrain): Date => {
+  const y = Number(label.slice(0, 4));
+  switch (grain) {
+    case 'hour': return new Date(Date.UTC(y, Number(label.slice(5, 7)) - 1, Number(label.slice(8, 10)), Number(label.slice(11, 13))));
+    case 'day':
+    case 'week': return new Date(Date.UTC(y, Number(label.slice(5, 7)) - 1, Number(label.slice(8, 10))));
+    case 'month': return new Date(Date.UTC(y, Number(label.slice(5, 7)) - 1, 1));
+    case 'quarter': return new Date(Date.UTC(y, (Number(label.slice(6)) - 1) * 3, 1));
+    case 'year': return new Date(Date.UTC(y, 0, 1));
+  }
+};
+
+// Maps a cell to the label of its period, or null when it is not a date. Date columns repeat
+// values a lot, so each distinct value is only parsed once.
+export const createTimeBucketer = (grain: TimeGrain, timeZone: string = DEFAULT_TIME_ZONE) => {
+  timeZone = resolveTimeZone(timeZone);
+  const cache = new Map<CellValue, string | null>();
+  return (value: CellValue): string | null => {
+    let label = cache.get(value);
+    if (label === undefined) {
+      const wall = wallClock(value, timeZone);
+      label = wall ? bucketLabel(bucketStart(wall, grain), grain) : null;
+      cache.set(value, label);
+    }
+    return label;
+  };
+};
+
+const HOUR_MS = 3600000;
+
+// Every period label from the first to the last, so empty periods show as gaps rather than
+// being skipped. Null when the range holds more than MAX_TIME_BUCKETS periods.
+// Hours step through real instants in the zone, so a DST change skips or repeats an hour
+// the way clocks do; the labels passed in are always kept.
+export const fillTimeBuckets = (labels: string[], grain: TimeGrain, timeZone: string = DEFAULT_TIME_ZONE): string[] | null => {
+  if (labels.length === 0) return [];
+  const sorted = [...labels].sort();
+  const last = sorted[sorted.length - 1];
+  const filled = new Set(sorted);
+  const zone = resolveTimeZone(timeZone);
+  const byInstant = grain === 'hour' && zone !== 'UTC';
+  let d = byInstant ? zoneInstant(parseLabel(sorted[0], grain), zone) : parseLabel(sorted[0], grain);
+  for (; ; d = byInstant ? new Date(d.getTime() + HOUR_MS) : nextBucket(d, grain)) {
+    const label = bucketLabel(byInstant ? bucketStart(zoneWallClock(d, zone), grain) : d, grain);
+    if (label > last) break;
+    filled.add(label);
+    if (filled.size > MAX_TIME_BUCKETS) return null;
+  }
+  return [...filled].sort();
+};
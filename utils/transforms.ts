@@ -0,0 +1,464 @@
+import { CellValue, ColumnMeta, ColumnType, DataTable, ImputeMethod, OutlierMethod, TextCase, TransformStep } from '../types';
+import { columnReader, createColumn, filterRows, getColumnStats, getNumericValues, getRowIds, getSortedNumbers, withColumn } from './dataTable';
+import { coerceValue, retypeColumn, summarizeColumns } from './schemaInference';
+import { evaluateFormula, formulaColumns, parseFormula } from './formula';
+import { melt, mergeColumns, pivotWider, splitColumn } from './reshape';
+import { AGGREGATION_OPTIONS } from './chartUtils';
+
+export type TransformOp = TransformStep['op'];
+
+export interface TransformResult {
+  table: DataTable;
+  columns: ColumnMeta[];
+  message: string;
+  // Set when the step ran but some values could not be handled (e.g. failed type conversions)
+  warning?: boolean;
+}
+
+// What happened when a step was applied to a dataset: a new version, or the reason there is none
+export interface StepOutcome {
+  applied: boolean;
+  message: string;
+}
+
+export const IMPUTE_METHODS: { method: ImputeMethod; label: string; numericOnly: boolean }[] = [
+  { method: 'mean', label: 'Mean', numericOnly: true },
+  { method: 'median', label: 'Median', numericOnly: true },
+  { method: 'mode', label: 'Most frequent', numericOnly: false },
+  { method: 'constant', label: 'Constant', numericOnly: false },
+  { method: 'ffill', label: 'Previous value', numericOnly: false },
+  { method: 'interpolate', label: 'Interpolation', numericOnly: true }
+];
+
+export const OUTLIER_METHODS: { method: OutlierMethod; label: string; threshold: number; hint: string }[] = [
+  { method: 'iqr', label: 'IQR', threshold: 1.5, hint: 'Outside the quartiles by more than threshold × IQR' },
+  { method: 'zscore', label: 'Z-score', threshold: 3, hint: 'More than threshold standard deviations from the mean' },
+  { method: 'mad', label: 'MAD', threshold: 3.5, hint: 'Modified z-score above threshold; robust to skewed data' }
+];
+
+export const TEXT_CASES: { value: TextCase; label: string }[] = [
+  { value: 'lower', label: 'lowercase' },
+  { value: 'upper', label: 'UPPERCASE' },
+  { value: 'title', label: 'Title Case' }
+];
+
+const plural = (n: number, one: string, many = `${one}s`) => `${n} ${n === 1 ? one : many}`;
+
+export const describeStep = (step: TransformStep): string => {
+  switch (step.op) {
+    case 'remove_outliers': return `Removed ${OUTLIER_METHODS.find(m => m.method === (step.method ?? 'iqr'))?.label} outliers in ${step.column}`;
+    case 'winsorize': return `Winsorized ${step.column} at ${step.lower}–${step.upper}%`;
+    case 'impute': return `Filled missing ${step.column} with ${step.method === 'constant' ? step.value : IMPUTE_METHODS.find(m => m.method === step.method)?.label.toLowerCase()}`;
+    case 'drop_missing': return `Dropped rows missing ${step.column}`;
+    case 'trim': return `Trimmed whitespace in ${step.column}`;
+    case 'change_case': return `Changed ${step.column} to ${TEXT_CASES.find(c => c.value === step.case)?.label}`;
+    case 'replace': return `Replaced "${step.find}" in ${step.column}`;
+    case 'dedupe': return step.columns.length > 0 ? `Removed duplicates on ${step.columns.join(', ')}` : 'Removed duplicate rows';
+    case 'set_type': return `Changed ${step.column} to ${step.type}`;
+    case 'add_column': return `Computed ${step.name} = ${step.formula}`;
+    case 'melt': return `Unpivoted ${plural(step.columns.length, 'column')} into ${step.keyName} and ${step.valueName}`;
+    case 'pivot_wider': return `Spread ${step.valueColumn} into columns by ${step.keyColumn}`;
+    case 'split_column': return `Split ${step.column} on ${step.regex ? `/${step.delimiter}/` : `"${step.delimiter}"`}`;
+    case 'merge_columns': return `Merged ${step.columns.join(', ')} into ${step.name}`;
+    case 'edit_cells': return step.edits.length === 1
+      ? `Edited ${step.edits[0].column} in row ${step.edits[0].rowId + 1}`
+      : `Edited ${plural(step.edits.length, 'cell')}`;
+  }
+};
+
+// Columns a step reads; a recipe step fails when any of them is missing
+export const stepColumns = (step: TransformStep): string[] => {
+  if (step.op === 'dedupe' || step.op === 'melt' || step.op === 'merge_columns') return step.columns;
+  if (step.op === 'pivot_wider') return [step.keyColumn, step.valueColumn];
+  if (step.op === 'edit_cells') return Array.from(new Set(step.edits.map(e => e.column)));
+  if (step.op === 'add_column') {
+    try {
+      return formulaColumns(parseFormula(step.formula));
+    } catch {
+      return [];
+    }
+  }
+  return [step.column];
+};
+
+// --- Helpers ---
+
+const isBlank = (v: CellValue) => v === null || v === '';
+
+const requireNumeric = (table: DataTable, column: string) => {
+  if (table.columns[column].kind !== 'numeric') throw new Error(`${column} is not a numeric column`);
+  return getNumericValues(table, column);
+};
+
+// Linear interpolation between the closest ranks, p in 0..1
+const quantile = (sorted: Float64Array, p: number) => {
+  const pos = (sorted.length - 1) * Math.min(1, Math.max(0, p));
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+};
+
+// Rewrites every value of a column. Dictionary columns map each distinct value once.
+const mapColumn = (table: DataTable, column: string, fn: (v: CellValue) => CellValue) => {
+  const col = table.columns[column];
+  const read = columnReader(table, column);
+  let mapped: (i: number) => CellValue;
+  if (col.kind === 'dictionary') {
+    const dictionary = col.dictionary.map(fn);
+    mapped = i => dictionary[col.codes[i]];
+  } else {
+    mapped = i => fn(read(i));
+  }
+  let changed = 0;
+  for (let i = 0; i < table.rowCount; i++) if (mapped(i) !== read(i)) changed++;
+  if (changed === 0) return { table, changed };
+  return { table: withColumn(table, column, createColumn(table.rowCount, mapped)), changed };
+};
+
+const mostFrequent = (table: DataTable, column: string): CellValue => {
+  const read = columnReader(table, column);
+  const counts = new Map<CellValue, number>();
+  let best: CellValue = null;
+  let bestCount = 0;
+  for (let i = 0; i < table.rowCount; i++) {
+    const v = read(i);
+    if (isBlank(v)) continue;
+    const count = (counts.get(v) ?? 0) + 1;
+    counts.set(v, count);
+    if (count > bestCount) {
+      best = v;
+      bestCount = count;
+    }
+  }
+  return best;
+};
+
+const toTitleCase = (text: string) => text.toLowerCase().replace(/(^|[\s\-_/])(\S)/g, (_, sep: string, c: string) => sep + c.toUpperCase());
+
+// Returns the value reader for the filled column and how the gaps were filled
+const imputer = (table: DataTable, columns: ColumnMeta[], column: string, method: ImputeMethod, value?: string | number): { get: (i: number) => CellValue; fill: string } => {
+  const read = columnReader(table, column);
+  const withFill = (fillValue: CellValue, fill: string) => ({
+    get: (i: number) => { const v = read(i); return isBlank(v) ? fillValue : v; },
+    fill
+  });
+
+  switch (method) {
+    case 'mean':
+    case 'median': {
+      requireNumeric(table, column);
+      const stats = getColumnStats(table, column);
+      const stat = method === 'mean' ? stats.mean : stats.median;
+      if (stat === undefined) throw new Error(`${column} has no values to compute a ${method} from`);
+      const rounded = Number(stat.toFixed(2));
+      return withFill(rounded, `the ${method} (${rounded})`);
+    }
+    case 'mode': {
+      const mode = mostFrequent(table, column);
+      if (mode === null) throw new Error(`${column} has no values to pick from`);
+      return withFill(mode, `the most frequent value (${mode})`);
+    }
+    case 'constant': {
+      const meta = columns.find(c => c.name === column);
+      const constant = coerceValue(value ?? null, meta?.type ?? 'string', meta?.format);
+      if (constant === null) throw new Error(`"${value ?? ''}" is not a valid ${meta?.type ?? 'value'} for ${column}`);
+      return withFill(constant, String(constant));
+    }
+    case 'ffill': {
+      const filled: CellValue[] = [];
+      let last: CellValue = null;
+      for (let i = 0; i < table.rowCount; i++) {
+        const v = read(i);
+        if (!isBlank(v)) last = v;
+        filled.push(isBlank(v) ? last : v);
+      }
+      return { get: i => filled[i], fill: 'the previous value' };
+    }
+    case 'interpolate': {
+      // Straight line between the nearest known neighbours; leading and trailing gaps
+      // take the closest known value
+      const values = requireNumeric(table, column).slice();
+      let prev = -1;
+      for (let i = 0; i <= values.length; i++) {
+        if (i < values.length && isNaN(values[i])) continue;
+        if (prev >= 0 || i < values.length) {
+          for (let j = prev + 1; j < i; j++) {
+            if (prev < 0) values[j] = values[i];
+            else if (i === values.length) values[j] = values[prev];
+            else values[j] = values[prev] + (values[i] - values[prev]) * (j - prev) / (i - prev);
+          }
+        }
+        prev = i;
+      }
+      return { get: i => (isNaN(values[i]) ? null : values[i]), fill: 'interpolated values' };
+    }
+  }
+};
+
+const outlierBounds = (values: Float64Array, method: OutlierMethod, threshold: number): [number, number] | null => {
+  const sorted = values.filter(v => !isNaN(v)).sort();
+  if (sorted.length <= 4) return null;
+  if (method === 'iqr') {
+    const q1 = sorted[Math.floor(sorted.length * 0.25)];
+    const q3 = sorted[Math.floor(sorted.length * 0.75)];
+    const iqr = q3 - q1;
+    return [q1 - threshold * iqr, q3 + threshold * iqr];
+  }
+  if (method === 'zscore') {
+    const mean = sorted.reduce((a, b) => a + b, 0) / sorted.length;
+    const std = Math.sqrt(sorted.reduce((a, b) => a + (b - mean) ** 2, 0) / (sorted.length - 1));
+    return std === 0 ? null : [mean - threshold * std, mean + threshold * std];
+  }
+  // Modified z-score (Iglewicz & Hoaglin): 0.6745 * (x - median) / MAD
+  const median = quantile(sorted, 0.5);
+  const mad = quantile(sorted.map(v => Math.abs(v - median)).sort(), 0.5);
+  if (mad === 0) return null;
+  const spread = threshold * mad / 0.6745;
+  return [median - spread, median + spread];
+};
+
+const dedupe = (table: DataTable, keys: string[], keep: 'first' | 'last') => {
+  const readers = (keys.length > 0 ? keys : table.headers).map(k => columnReader(table, k));
+  const kept = new Map<string, number>();
+  for (let i = 0; i < table.rowCount; i++) {
+    const key = JSON.stringify(readers.map(read => read(i)));
+    if (keep === 'last' || !kept.has(key)) kept.set(key, i);
+  }
+  const survivors = new Uint8Array(table.rowCount);
+  kept.forEach(i => { survivors[i] = 1; });
+  return filterRows(table, i => survivors[i] === 1);
+};
+
+// --- Applying ---
+
+export const applyTransform = (table: DataTable, columns: ColumnMeta[], step: TransformStep): TransformResult => {
+  const missing = stepColumns(step).filter(c => !(c in table.columns));
+  if (missing.length > 0) {
+    throw new Error(`Column ${missing.map(c => `"${c}"`).join(', ')} not found`);
+  }
+
+  const finish = (next: DataTable, message: string, nextColumns = columns, warning = false): TransformResult => ({
+    table: next,
+    columns: summarizeColumns(next, nextColumns),
+    message,
+    warning
+  });
+
+  switch (step.op) {
+    case 'remove_outliers': {
+      const { column } = step;
+      const method = step.method ?? 'iqr';
+      const values = requireNumeric(table, column);
+      const threshold = step.threshold ?? OUTLIER_METHODS.find(m => m.method === method)!.threshold;
+      const bounds = outlierBounds(values, method, threshold);
+      if (!bounds) return finish(table, `Not enough spread in ${column} to detect outliers.`);
+      const [min, max] = bounds;
+      const next = filterRows(table, i => isNaN(values[i]) || (values[i] >= min && values[i] <= max));
+      return finish(next, `Outliers removed. Dropped ${plural(table.rowCount - next.rowCount, 'row')}.`);
+    }
+    case 'winsorize': {
+      const { column } = step;
+      requireNumeric(table, column);
+      const sorted = getSortedNumbers(table.columns[column]);
+      if (sorted.length === 0) return finish(table, `${column} has no values to winsorize.`);
+      const low = quantile(sorted, step.lower / 100);
+      const high = quantile(sorted, step.upper / 100);
+      const { table: next, changed } = mapColumn(table, column, v => (typeof v === 'number' ? Math.min(high, Math.max(low, v)) : v));
+      return finish(next, `Capped ${plural(changed, 'value')} in ${column} to ${Number(low.toFixed(2))}–${Number(high.toFixed(2))}.`);
+    }
+    case 'impute': {
+      const { column } = step;
+      const missingBefore = getColumnStats(table, column).missingCount;
+      if (missingBefore === 0) return finish(table, `No missing values in ${column}.`);
+      const { get, fill } = imputer(table, columns, column, step.method, step.value);
+      const next = withColumn(table, column, createColumn(table.rowCount, get));
+      const filled = missingBefore - getColumnStats(next, column).missingCount;
+      return finish(next, `Filled ${plural(filled, 'missing value')} in ${column} with ${fill}.`);
+    }
+    case 'drop_missing': {
+      const read = columnReader(table, step.column);
+      const next = filterRows(table, i => !isBlank(read(i)));
+      return finish(next, `Dropped ${plural(table.rowCount - next.rowCount, 'row')} with missing values in ${step.column}.`);
+    }
+    case 'trim': {
+      const { table: next, changed } = mapColumn(table, step.column, v => (typeof v === 'string' ? v.trim() : v));
+      return finish(next, `Trimmed ${plural(changed, 'value')} in ${step.column}.`);
+    }
+    case 'change_case': {
+      const convert = step.case === 'lower' ? (s: string) => s.toLowerCase()
+        : step.case === 'upper' ? (s: string) => s.toUpperCase()
+        : toTitleCase;
+      const { table: next, changed } = mapColumn(table, step.column, v => (typeof v === 'string' ? convert(v) : v));
+      return finish(next, `Changed the case of ${plural(changed, 'value')} in ${step.column}.`);
+    }
+    case 'replace': {
+      // Only text values are edited; numbers and booleans are left alone
+      let pattern: RegExp;
+      try {
+        const source = step.regex ? step.find : step.find.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        pattern = new RegExp(source, step.matchCase ? 'g' : 'gi');
+      } catch {
+        throw new Error(`Invalid pattern: ${step.find}`);
+      }
+      const { table: next, changed } = mapColumn(table, step.column, v => (typeof v === 'string' ? v.replace(pattern, step.replace) : v));
+      return finish(next, `Replaced text in ${plural(changed, 'value')} of ${step.column}.`);
+    }
+    case 'dedupe': {
+      const next = dedupe(table, step.columns, step.keep ?? 'first');
+      return finish(next, `Removed ${plural(table.rowCount - next.rowCount, 'duplicate row')}.`);
+    }
+    case 'set_type': {
+      const { column } = step;
+      const { table: next, format, failed } = retypeColumn(table, column, step.type, step.format);
+      const nextColumns = columns.map(c => c.name === column ? { ...c, type: step.type, format } : c);
+      return failed > 0
+        ? finish(next, `${column} is now ${step.type}. ${plural(failed, 'value')} could not be converted and became null.`, nextColumns, true)
+        : finish(next, `${column} is now ${step.type}.`, nextColumns);
+    }
+    case 'add_column': {
+      const name = step.name.trim();
+      const existing = columns.find(c => c.name === name);
+      if (name in table.columns && !existing?.formula) throw new Error(`A column named ${name} already exists`);
+      if (formulaColumns(parseFormula(step.formula)).includes(name)) throw new Error(`${name} cannot refer to itself`);
+      const result = evaluateFormula(step.formula, table);
+      const next = withColumn(table, name, createColumn(table.rowCount, i => result.values[i]));
+      const meta: ColumnMeta = {
+        name,
+        type: result.type,
+        formula: step.formula,
+        formulaError: result.errorCount > 0 ? `${plural(result.errorCount, 'row')} failed. ${result.firstError}` : undefined,
+        uniqueCount: 0,
+        missingCount: 0
+      };
+      const nextColumns = existing ? columns.map(c => c.name === name ? meta : c) : [...columns, meta];
+      const verb = existing ? 'Updated' : 'Added';
+      return result.errorCount > 0
+        ? finish(next, `${verb} ${name}. ${meta.formulaError}`, nextColumns, true)
+        : finish(next, `${verb} ${name} (${result.type}).`, nextColumns);
+    }
+    case 'melt': {
+      const result = melt(table, columns, step.columns, step.keyName.trim(), step.valueName.trim());
+      return finish(result.table, `Unpivoted ${plural(step.columns.length, 'column')} into ${plural(result.table.rowCount, 'row')}.`, result.columns);
+    }
+    case 'pivot_wider': {
+      const result = pivotWider(table, columns, step.keyColumn, step.valueColumn, step.aggregation);
+      const added = result.columns.length - (columns.length - 2);
+      const message = `Spread ${step.valueColumn} into ${plural(added, 'column')} over ${plural(result.table.rowCount, 'row')}.`;
+      return result.collisions
+        ? finish(result.table, `${message} ${plural(result.collisions, 'value')} shared a row and key and were dropped; pick an aggregation to combine them.`, result.columns, true)
+        : finish(result.table, message, result.columns);
+    }
+    case 'split_column': {
+      const result = splitColumn(table, columns, step.column, step.delimiter, step);
+      const added = result.columns.length - columns.length + (step.removeSource ? 1 : 0);
+      return finish(result.table, `Split ${step.column} into ${plural(added, 'column')}.`, result.columns);
+    }
+    case 'merge_columns': {
+      const name = step.name.trim();
+      const result = mergeColumns(table, columns, step.columns, name, step.separator, step.removeSource);
+      return finish(result.table, `Merged ${plural(step.columns.length, 'column')} into ${name}.`, result.columns);
+    }
+    case 'edit_cells': {
+      // Row ids survive sorting and filtering, so edits land on the rows they were made on.
+      // They only mean something for this dataset; recipes leave them out.
+      const positions = new Map<number, number>();
+      getRowIds(table).forEach((id, i) => positions.set(id, i));
+      const byColumn = new Map<string, Map<number, CellValue>>();
+      let skipped = 0;
+      step.edits.forEach(edit => {
+        const index = positions.get(edit.rowId);
+        if (index === undefined) {
+          skipped++;
+          return;
+        }
+        const meta = columns.find(c => c.name === edit.column);
+        if (!byColumn.has(edit.column)) byColumn.set(edit.column, new Map());
+        byColumn.get(edit.column)!.set(index, meta ? coerceValue(edit.value, meta.type, meta.format) : edit.value);
+      });
+      let next = table;
+      byColumn.forEach((edits, column) => {
+        const read = columnReader(table, column);
+        next = withColumn(next, column, createColumn(table.rowCount, i => (edits.has(i) ? edits.get(i)! : read(i))));
+      });
+      const applied = step.edits.length - skipped;
+      return skipped > 0
+        ? finish(next, `Edited ${plural(applied, 'cell')}. ${plural(skipped, 'edit')} pointed at rows that are no longer in the dataset.`, columns, true)
+        : finish(next, `Edited ${plural(applied, 'cell')}.`);
+    }
+  }
+};
+
+// --- Validation ---
+
+const COLUMN_TYPES: ColumnType[] = ['string', 'number', 'boolean', 'date'];
+const STEP_FIELDS = [
+  'op', 'column', 'columns', 'name', 'formula', 'method', 'threshold', 'lower', 'upper', 'value', 'case', 'find', 'replace', 'regex', 'matchCase', 'keep', 'type', 'format',
+  'keyName', 'valueName', 'keyColumn', 'valueColumn', 'aggregation', 'delimiter', 'limit', 'separator', 'removeSource', 'edits'
+];
+
+const isNumber = (v: unknown): v is number => typeof v === 'number' && isFinite(v);
+const isOptional = (v: unknown, check: (v: unknown) => boolean) => v === undefined || v === null || check(v);
+const oneOf = (values: readonly unknown[]) => (v: unknown) => values.includes(v);
+
+const isName = (v: unknown): v is string => typeof v === 'string' && v.trim() !== '';
+const isNameList = (v: unknown, min: number) => Array.isArray(v) && v.length >= min && v.every(c => typeof c === 'string');
+const isFlag = (v: unknown) => isOptional(v, f => typeof f === 'boolean');
+
+const isValidStep = (raw: Record<string, any>): boolean => {
+  switch (raw.op as TransformOp) {
+    case 'add_column':
+      return isName(raw.name) && isName(raw.formula);
+    case 'melt':
+      return isNameList(raw.columns, 1) && isName(raw.keyName) && isName(raw.valueName);
+    case 'pivot_wider':
+      return isName(raw.keyColumn) && isName(raw.valueColumn) && isOptional(raw.aggregation, oneOf(AGGREGATION_OPTIONS.map(o => o.type)));
+    case 'merge_columns':
+      return isNameList(raw.columns, 2) && isName(raw.name) && typeof raw.separator === 'string' && isFlag(raw.removeSource);
+    case 'edit_cells':
+      return Array.isArray(raw.edits) && raw.edits.length > 0 && raw.edits.every((e: any) =>
+        e && Number.isInteger(e.rowId) && e.rowId >= 0 && typeof e.column === 'string'
+        && (e.value === null || typeof e.value === 'string' || typeof e.value === 'boolean' || isNumber(e.value)));
+  }
+  if (raw.op !== 'dedupe' && typeof raw.column !== 'string') return false;
+  switch (raw.op as TransformOp) {
+    case 'remove_outliers':
+      return isOptional(raw.method, oneOf(OUTLIER_METHODS.map(m => m.method))) && isOptional(raw.threshold, v => isNumber(v) && v > 0);
+    case 'winsorize':
+      return isNumber(raw.lower) && isNumber(raw.upper) && raw.lower >= 0 && raw.lower < raw.upper && raw.upper <= 100;
+    case 'impute':
+      return oneOf(IMPUTE_METHODS.map(m => m.method))(raw.method)
+        && (raw.method !== 'constant' || typeof raw.value === 'string' || isNumber(raw.value));
+    case 'drop_missing':
+    case 'trim':
+      return true;
+    case 'change_case':
+      return oneOf(TEXT_CASES.map(c => c.value))(raw.case);
+    case 'replace':
+      return typeof raw.find === 'string' && raw.find !== '' && typeof raw.replace === 'string'
+        && isOptional(raw.regex, v => typeof v === 'boolean') && isOptional(raw.matchCase, v => typeof v === 'boolean');
+    case 'dedupe':
+      return Array.isArray(raw.columns) && raw.columns.every((c: unknown) => typeof c === 'string') && isOptional(raw.keep, oneOf(['first', 'last']));
+    case 'set_type':
+      return oneOf(COLUMN_TYPES)(raw.type) && isOptional(raw.format, v => typeof v === 'string');
+    case 'split_column':
+      return typeof raw.delimiter === 'string' && raw.delimiter !== '' && isFlag(raw.regex)
+        && isOptional(raw.limit, v => Number.isInteger(v) && (v as number) >= 2) && isFlag(raw.removeSource);
+    default:
+      return false;
+  }
+};
+
+// Turns untrusted input (recipe files, AI tool calls) into a step, or null when it is not a
+// valid one. Unknown fields are dropped. `impute_mean` comes from recipes saved before
+// imputation had methods.
+export const toTransformStep = (value: unknown): TransformStep | null => {
+  if (!value || typeof value !== 'object') return null;
+  const raw = value as Record<string, any>;
+  if (raw.op === 'impute_mean') return toTransformStep({ op: 'impute', column: raw.column, method: 'mean' });
+  if (!isValidStep(raw)) return null;
+  const step: Record<string, unknown> = {};
+  STEP_FIELDS.forEach(field => {
+    if (raw[field] !== undefined && raw[field] !== null) step[field] = raw[field];
+  });
+  return step as TransformStep;
+};
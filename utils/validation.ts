@@ -0,0 +1,265 @@
+import { CellValue, ColumnMeta, DataTable, Dataset, ValidationRule, ValidationRuleKind } from '../types';
+import { columnReader } from './dataTable';
+
+const STORAGE_KEY = 'insightflow_validation_rules';
+
+export const VALIDATION_RULES: { kind: ValidationRuleKind; label: string; hint: string }[] = [
+  { kind: 'not_null', label: 'Not null', hint: 'Every row has a value' },
+  { kind: 'unique', label: 'Unique', hint: 'No value appears twice' },
+  { kind: 'range', label: 'Within range', hint: 'Numbers or dates between the bounds, inclusive' },
+  { kind: 'regex', label: 'Matches pattern', hint: 'The whole value matches a regular expression' },
+  { kind: 'allowed', label: 'In allowed set', hint: 'Only the listed values' },
+  { kind: 'foreign_key', label: 'Exists in dataset', hint: 'Every value appears in a column of another dataset' }
+];
+
+export interface RuleResult {
+  rule: ValidationRule;
+  // Rows checked: the whole table for not-null, rows with a value otherwise
+  checked: number;
+  violations: number;
+  // 1 marks a row that breaks the rule
+  mask: Uint8Array | null;
+  // Set when the rule could not be checked, e.g. an invalid pattern
+  problem?: string;
+}
+
+export interface ValidationReport {
+  results: RuleResult[];
+  // 1 marks a row that breaks at least one rule
+  invalidRows: Uint8Array;
+  invalidRowCount: number;
+  // Share of checked values that pass, from 0 to 100; null when no rule applies
+  score: number | null;
+}
+
+export const ruleLabel = (kind: ValidationRuleKind) => VALIDATION_RULES.find(r => r.kind === kind)?.label ?? kind;
+
+export const describeRule = (rule: ValidationRule): string => {
+  switch (rule.kind) {
+    case 'not_null': return `${rule.column} is not null`;
+    case 'unique': return `${rule.column} is unique`;
+    case 'range': {
+      if (rule.min && rule.max) return `${rule.column} between ${rule.min} and ${rule.max}`;
+      return rule.min ? `${rule.column} ≥ ${rule.min}` : `${rule.column} ≤ ${rule.max}`;
+    }
+    case 'regex': return `${rule.column} matches /${rule.pattern}/`;
+    case 'allowed': return `${rule.column} in ${(rule.values ?? []).slice(0, 5).join(', ')}${(rule.values?.length ?? 0) > 5 ? ', …' : ''}`;
+    case 'foreign_key': return `${rule.column} exists in ${rule.refDataset}.${rule.refColumn}`;
+  }
+};
+
+export const createRule = (column: string, kind: ValidationRuleKind): ValidationRule => ({
+  id: `rule-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`,
+  column,
+  kind
+});
+
+// Returns an error message for a rule that cannot be saved yet
+export const ruleError = (rule: ValidationRule): string | null => {
+  switch (rule.kind) {
+    case 'range':
+      return rule.min?.trim() || rule.max?.trim() ? null : 'Enter a minimum, a maximum or both';
+    case 'regex':
+      if (!rule.pattern) return 'Enter a pattern';
+      try {
+        new RegExp(rule.pattern);
+        return null;
+      } catch {
+        return 'Not a valid regular expression';
+      }
+    case 'allowed':
+      return rule.values && rule.values.length > 0 ? null : 'List at least one value';
+    case 'foreign_key':
+      return rule.refDataset && rule.refColumn ? null : 'Pick the dataset and column to look values up in';
+    default:
+      return null;
+  }
+};
+
+const isMissingCell = (value: CellValue) => value === null || value === '';
+
+// Evaluates a value test once per distinct value on dictionary columns. Missing values are
+// left to the not-null rule and never count as violations here.
+const checkValues = (table: DataTable, column: string, fails: (value: CellValue) => boolean) => {
+  const col = table.columns[column];
+  const mask = new Uint8Array(table.rowCount);
+  let checked = 0;
+  let violations = 0;
+  if (col.kind === 'dictionary') {
+    const verdicts = col.dictionary.map(v => (isMissingCell(v) ? -1 : fails(v) ? 1 : 0));
+    for (let i = 0; i < table.rowCount; i++) {
+      const verdict = verdicts[col.codes[i]];
+      if (verdict < 0) continue;
+      checked++;
+      if (verdict === 1) {
+        mask[i] = 1;
+        violations++;
+      }
+    }
+  } else {
+    for (let i = 0; i < table.rowCount; i++) {
+      const v = col.values[i];
+      if (v !== v) continue;
+      checked++;
+      if (fails(v)) {
+        mask[i] = 1;
+        violations++;
+      }
+    }
+  }
+  return { mask, checked, violations };
+};
+
+// Bounds compare as numbers on number columns and as ISO text otherwise, so dates work
+// with either a day ("2024-03-01") or a full timestamp
+const rangeTest = (rule: ValidationRule, meta: ColumnMeta | undefined): ((value: CellValue) => boolean) | string => {
+  const min = rule.min?.trim() || undefined;
+  const max = rule.max?.trim() || undefined;
+  if (meta?.type === 'number') {
+    const lo = min !== undefined ? Number(min) : -Infinity;
+    const hi = max !== undefined ? Number(max) : Infinity;
+    if (isNaN(lo) || isNaN(hi)) return 'Range bounds must be numbers';
+    return v => typeof v !== 'number' || v < lo || v > hi;
+  }
+  if (meta?.type === 'date') {
+    return v => {
+      const text = String(v);
+      return (min !== undefined && text < min) || (max !== undefined && text.slice(0, max.length) > max);
+    };
+  }
+  return 'Range rules need a number or date column';
+};
+
+const referenceValues = (rule: ValidationRule, datasets: Dataset[]): Set<string> | string => {
+  const ref = datasets.find(d => d.name === rule.refDataset);
+  if (!ref) return `Dataset "${rule.refDataset}" is not loaded`;
+  if (!rule.refColumn || !(rule.refColumn in ref.table.columns)) return `${rule.refDataset} has no column "${rule.refColumn}"`;
+  const read = columnReader(ref.table, rule.refColumn);
+  const values = new Set<string>();
+  for (let i = 0; i < ref.table.rowCount; i++) {
+    const v = read(i);
+    if (!isMissingCell(v)) values.add(String(v));
+  }
+  return values;
+};
+
+const checkRule = (table: DataTable, columns: ColumnMeta[], rule: ValidationRule, datasets: Dataset[]): RuleResult => {
+  const failed = (problem: string): RuleResult => ({ rule, checked: 0, violations: 0, mask: null, problem });
+
+  if (rule.kind === 'not_null') {
+    const read = columnReader(table, rule.column);
+    const mask = new Uint8Array(table.rowCount);
+    let violations = 0;
+    for (let i = 0; i < table.rowCount; i++) {
+      if (isMissingCell(read(i))) {
+        mask[i] = 1;
+        violations++;
+      }
+    }
+    return { rule, checked: table.rowCount, violations, mask };
+  }
+
+  if (rule.kind === 'unique') {
+    const read = columnReader(table, rule.column);
+    const firstSeen = new Map<string, number>();
+    const mask = new Uint8Array(table.rowCount);
+    let checked = 0;
+    let violations = 0;
+    // Every copy of a duplicated value is flagged, not only the later ones
+    for (let i = 0; i < table.rowCount; i++) {
+      const v = read(i);
+      if (isMissingCell(v)) continue;
+      checked++;
+      const key = String(v);
+      const first = firstSeen.get(key);
+      if (first === undefined) {
+        firstSeen.set(key, i);
+        continue;
+      }
+      if (!mask[first]) {
+        mask[first] = 1;
+        violations++;
+      }
+      mask[i] = 1;
+      violations++;
+    }
+    return { rule, checked, violations, mask };
+  }
+
+  const error = ruleError(rule);
+  if (error) return failed(error);
+
+  let fails: (value: CellValue) => boolean;
+  switch (rule.kind) {
+    case 'range': {
+      const test = rangeTest(rule, columns.find(c => c.name === rule.column));
+      if (typeof test === 'string') return failed(test);
+      fails = test;
+      break;
+    }
+    case 'regex': {
+      const pattern = new RegExp(`^(?:${rule.pattern})$`);
+      fails = v => !pattern.test(String(v));
+      break;
+    }
+    case 'allowed': {
+      const allowed = new Set(rule.values);
+      fails = v => !allowed.has(String(v));
+      break;
+    }
+    case 'foreign_key': {
+      const values = referenceValues(rule, datasets);
+      if (typeof values === 'string') return failed(values);
+      fails = v => !values.has(String(v));
+      break;
+    }
+  }
+  return { rule, ...checkValues(table, rule.column, fails) };
+};
+
+// Checks every rule whose column exists in the table. Rules for other columns are skipped
+// rather than reported, since they belong to other datasets.
+export const validateTable = (table: DataTable, columns: ColumnMeta[], rules: ValidationRule[], datasets: Dataset[]): ValidationReport => {
+  const results = rules.filter(r => r.column in table.columns).map(r => checkRule(table, columns, r, datasets));
+  const invalidRows = new Uint8Array(table.rowCount);
+  let invalidRowCount = 0;
+  results.forEach(({ mask }) => {
+    if (!mask) return;
+    for (let i = 0; i < mask.length; i++) {
+      if (mask[i] && !invalidRows[i]) {
+        invalidRows[i] = 1;
+        invalidRowCount++;
+      }
+    }
+  });
+  const checked = results.reduce((sum, r) => sum + r.checked, 0);
+  const violations = results.reduce((sum, r) => sum + r.violations, 0);
+  return {
+    results,
+    invalidRows,
+    invalidRowCount,
+    score: checked > 0 ? Math.round((1 - violations / checked) * 1000) / 10 : null
+  };
+};
+
+// Descriptions of the rules a single cell breaks, for the grid's tooltip
+export const cellViolations = (report: ValidationReport, column: string, index: number): string[] =>
+  report.results.filter(r => r.rule.column === column && r.mask?.[index]).map(r => describeRule(r.rule));
+
+// --- Persistence ---
+
+const isRule = (r: any): r is ValidationRule =>
+  r && typeof r.id === 'string' && typeof r.column === 'string' && VALIDATION_RULES.some(v => v.kind === r.kind);
+
+export const loadValidationRules = (): ValidationRule[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(saved) ? saved.filter(isRule) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveValidationRules = (rules: ValidationRule[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(rules));
+};
@@ -1,16 +1,19 @@
 
 import React, { useState, useRef, useEffect } from 'react';
 import { Send, Paperclip, Sparkles, Loader2, Bot, User } from 'lucide-react';
-import { DataRow, ChatMessage, ChartConfig } from '../types';
+import { DataTable, ChatMessage, ChartConfig } from '../types';
 import { getGeminiResponse } from '../services/geminiService';
+import { getRow } from '../utils/dataTable';
+import { AGGREGATION_OPTIONS } from '../utils/chartUtils';
+import { StepOutcome } from '../utils/transforms';
 
 interface AiInsightsProps {
-  data: DataRow[];
+  data: DataTable;
   headers: string[];
   messages: ChatMessage[];
   setMessages: React.Dispatch<React.SetStateAction<ChatMessage[]>>;
   onUpdateVisualization: (config: ChartConfig) => void;
-  onCleanData: (column: string, operation: string) => void;
+  onCleanData: (args: Record<string, unknown>) => StepOutcome;
   onAddToDashboard: (config: ChartConfig) => void;
 }
 
@@ -36,8 +39,8 @@ export const AiInsights: React.FC<AiInsightsProps> = ({
     setLoading(true);
 
     try {
-        const dataSummary = data.length > 0 
-            ? `Dataset has ${data.length} rows. Columns: ${headers.join(', ')}. Sample Row: ${JSON.stringify(data[0])}`
+        const dataSummary = data.rowCount > 0 
+            ? `Dataset has ${data.rowCount} rows. Columns: ${headers.join(', ')}. Sample Row: ${JSON.stringify(getRow(data, 0))}`
             : "No data uploaded yet.";
         
         const historyForApi = messages.map(m => ({
@@ -65,6 +68,8 @@ export const AiInsights: React.FC<AiInsightsProps> = ({
                          type: args.type,
                          xAxisKey: args.xAxisKey,
                          yAxisKeys: args.yAxisKey ? [args.yAxisKey] : [],
+                         seriesKey: args.seriesKey || undefined,
+                         aggregation: AGGREGATION_OPTIONS.some(o => o.type === args.aggregation) ? args.aggregation : undefined,
                      };
                      onUpdateVisualization(config);
                      setMessages(prev => [...prev, { 
@@ -74,11 +79,11 @@ export const AiInsights: React.FC<AiInsightsProps> = ({
                          isToolOutput: true
                     }]);
                  } else if (call.name === 'cleanData') {
-                     onCleanData(args.column, args.operation);
+                     const outcome = onCleanData(args);
                      setMessages(prev => [...prev, { 
                         id: Date.now().toString(), 
                         role: 'model', 
-                        content: `Executed ${args.operation} on column ${args.column}.`,
+                        content: outcome.applied ? `Executed: ${outcome.message}` : `Could not run ${args.operation}: ${outcome.message}`,
                         isToolOutput: true
                    }]);
                  } else if (call.name === 'addToDashboard') {
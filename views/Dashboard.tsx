@@ -1,13 +1,19 @@
 
 import React, { useRef, useState, useEffect, useMemo, useCallback } from 'react';
-import { DashboardItem, DataRow, ChartType, AggregationType, ThemeType } from '../types';
-import { BarChart, Bar, LineChart, Line, PieChart, Pie, Cell, ResponsiveContainer, AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, Label, ScatterChart, Scatter, ComposedChart, Legend } from 'recharts';
+import { DashboardItem, DataTable, Dataset, ChartType, AggregationType, ThemeType, LimitMode, TimeGrain, StackMode, Orientation } from '../types';
+import { Bar, Line, PieChart, Pie, Cell, ResponsiveContainer, Area, XAxis, YAxis, CartesianGrid, Tooltip, Label, ScatterChart, Scatter, ComposedChart, Legend } from 'recharts';
 import { Trash2, GripVertical, Download, Maximize2, Lock, Unlock, Grid3X3, Magnet, LayoutGrid, RotateCcw, LayoutTemplate, Settings2, Check, X, Palette, Calculator, Type as TypeIcon, Square, MoreVertical, Copy, Eye, EyeOff, Activity, AlignLeft, Layers, ArrowUpCircle, ArrowDownCircle, FileJson, Table } from 'lucide-react';
 import { CHART_THEMES } from './Visualization';
-import { processChartData } from '../utils/chartUtils';
+import { useChartData } from '../hooks/useChartData';
+import { aggregateChartData } from '../services/dataWorkerClient';
+import { getDatasetTable } from '../utils/datasets';
+import { downloadBlob, rowsToDelimited } from '../utils/exporters';
+import { AGGREGATION_OPTIONS, DEFAULT_MAX_SERIES, LIMIT_MODES, STACK_MODES, describeSeriesTruncation, describeTruncation, hasMixedSeries, isPercentStacked, resolveLimit, resolveSeriesLayout, supportsSeries, supportsStacking } from '../utils/chartUtils';
+import { DEFAULT_TIME_ZONE, TIME_GRAINS, timeZoneOptions } from '../utils/timeBuckets';
 
 interface DashboardProps {
-  data: DataRow[];
+  data: DataTable;
+  datasets: Dataset[];
   headers: string[];
   isDarkMode: boolean;
   items: DashboardItem[];
@@ -24,11 +30,16 @@ const interpolateColor = (minColor: number[], maxColor: number[], factor: number
 };
 
 const HeatmapRect = (props: any) => {
-    const { cx, cy, value, min, max, width = 30, height = 30, type, isDarkMode } = props;
+    const { cx, cy, value, min, max, width = 30, height = 30, type, isDarkMode, diverging } = props;
     if (!cx || !cy) return null;
     const range = max - min || 1;
     const factor = (value - min) / range;
-    const color = isDarkMode
+    // Negative correlations are drawn in red, scaled by their strength
+    const color = diverging && value < 0
+        ? interpolateColor(isDarkMode ? [254, 202, 202] : [254, 226, 226], [153, 27, 27], Math.min(1, -value))
+        : diverging
+        ? (isDarkMode ? interpolateColor([186, 230, 253], [30, 64, 175], Math.min(1, value)) : interpolateColor([219, 234, 254], [30, 58, 138], Math.min(1, value)))
+        : isDarkMode
         ? interpolateColor([186, 230, 253], [30, 64, 175], factor)
         : interpolateColor([219, 234, 254], [30, 58, 138], factor);
     
@@ -83,14 +94,99 @@ const MiniVenn = ({ data, isDarkMode }: { data: any[], isDarkMode: boolean }) =>
     );
 }
 
-const DashboardChart = React.memo(({ item, data, isDarkMode }: { item: DashboardItem, data: DataRow[], isDarkMode: boolean }) => {
+// Limit controls for the card editor; hidden for chart types that always draw everything
+const LimitSettings = ({ item, onChange }: { item: DashboardItem, onChange: (updates: Partial<DashboardItem>) => void }) => {
+    const limits = resolveLimit(item);
+    if (!limits) return null;
+    return (
+        <div>
+            <label className="text-[9px] font-bold text-gray-400 dark:text-gray-500 uppercase mb-1">{limits.unit === 'points' ? 'Max Points' : limits.unit === 'cells' ? 'Max Cells' : 'Max Groups'}</label>
+            <div className="flex items-center gap-2">
+                {limits.unit !== 'points' && (
+                    <select value={limits.mode} onChange={(e) => onChange({ limitMode: e.target.value as LimitMode })} className="flex-1 min-w-0 bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded px-2 py-2 text-[11px] outline-none">
+                        {LIMIT_MODES.map(m => <option key={m.mode} value={m.mode}>{m.label}</option>)}
+                    </select>
+                )}
+                <input type="number" min={1} value={limits.limit} onChange={(e) => onChange({ limit: Math.max(1, Number(e.target.value) || 1) })} className={`${limits.unit === 'points' ? 'flex-1' : 'w-16'} bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded px-2 py-2 text-[11px] outline-none`} />
+            </div>
+            {limits.unit === 'groups' && (
+                <label className="flex items-center gap-2 mt-2 text-[10px] text-gray-500 dark:text-gray-400 cursor-pointer">
+                    <input type="checkbox" checked={limits.groupOther} onChange={(e) => onChange({ groupOther: e.target.checked })} className="rounded" />
+                    Combine the rest into "Other"
+                </label>
+            )}
+        </div>
+    );
+};
+
+// Shown for aggregated cards whose X column is a date
+const TimeGrainSettings = ({ item, onChange }: { item: DashboardItem, onChange: (updates: Partial<DashboardItem>) => void }) => (
+    <div className="grid grid-cols-2 gap-2">
+        <div>
+            <label className="text-[9px] font-bold text-gray-400 dark:text-gray-500 uppercase mb-1">Time Grain</label>
+            <select value={item.timeGrain || ''} onChange={(e) => onChange({ timeGrain: (e.target.value || undefined) as TimeGrain | undefined })} className="w-full bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded px-2 py-2 text-[11px] outline-none">
+                <option value="">None</option>
+                {TIME_GRAINS.map(g => <option key={g.grain} value={g.grain}>{g.label}</option>)}
+            </select>
+        </div>
+        <div>
+            <label className="text-[9px] font-bold text-gray-400 dark:text-gray-500 uppercase mb-1">Time Zone</label>
+            <select value={item.timeZone || DEFAULT_TIME_ZONE} disabled={!item.timeGrain} onChange={(e) => onChange({ timeZone: e.target.value })} className="w-full bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded px-2 py-2 text-[11px] outline-none disabled:opacity-40">
+                {timeZoneOptions().map(z => <option key={z} value={z}>{z}</option>)}
+            </select>
+        </div>
+    </div>
+);
+
+// Shown for bar, line, area and scatter cards
+const SeriesSettings = ({ item, columns, onChange }: { item: DashboardItem, columns: string[], onChange: (updates: Partial<DashboardItem>) => void }) => (
+    <div className="grid grid-cols-[1fr_auto] gap-2">
+        <div>
+            <label className="text-[9px] font-bold text-gray-400 dark:text-gray-500 uppercase mb-1">Series / Color By</label>
+            <select value={item.seriesKey || ''} onChange={(e) => onChange({ seriesKey: e.target.value || undefined })} className="w-full bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded px-2 py-2 text-[11px] outline-none">
+                <option value="">None</option>
+                {columns.map(c => <option key={c} value={c}>{c}</option>)}
+            </select>
+        </div>
+        <div>
+            <label className="text-[9px] font-bold text-gray-400 dark:text-gray-500 uppercase mb-1">Max</label>
+            <input type="number" min={1} value={item.maxSeries ?? DEFAULT_MAX_SERIES} disabled={!item.seriesKey} onChange={(e) => onChange({ maxSeries: Math.max(1, Number(e.target.value) || 1) })} className="w-16 bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded px-2 py-2 text-[11px] outline-none disabled:opacity-40" />
+        </div>
+    </div>
+);
+
+// Shown for bar and area cards
+const LayoutSettings = ({ item, onChange }: { item: DashboardItem, onChange: (updates: Partial<DashboardItem>) => void }) => (
+    <div className="grid grid-cols-2 gap-2">
+        <div>
+            <label className="text-[9px] font-bold text-gray-400 dark:text-gray-500 uppercase mb-1">Stacking</label>
+            <select value={item.stackMode === 'percent' && hasMixedSeries(item) ? 'stacked' : item.stackMode || 'none'} onChange={(e) => onChange({ stackMode: e.target.value as StackMode })} title={hasMixedSeries(item) ? '100% stacking needs every series drawn with the chart\'s mark on the left axis' : undefined} className="w-full bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded px-2 py-2 text-[11px] outline-none">
+                {STACK_MODES.map(m => <option key={m.mode} value={m.mode} disabled={m.mode === 'percent' && hasMixedSeries(item)}>{m.mode === 'none' && item.type === 'area' ? 'Overlapping' : m.label}</option>)}
+            </select>
+        </div>
+        <div>
+            <label className="text-[9px] font-bold text-gray-400 dark:text-gray-500 uppercase mb-1">Orientation</label>
+            <select value={item.orientation || 'vertical'} onChange={(e) => onChange({ orientation: e.target.value as Orientation })} className="w-full bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded px-2 py-2 text-[11px] outline-none">
+                <option value="vertical">Vertical</option>
+                <option value="horizontal">Horizontal</option>
+            </select>
+        </div>
+    </div>
+);
+
+const DashboardChartContent = ({ item, chartData, series, isDarkMode }: { item: DashboardItem, chartData: any[], series?: string[], isDarkMode: boolean }) => {
     const colors = CHART_THEMES[item.theme || 'default'];
-    const chartConfigProxy = useMemo(() => ({ ...item }), [item]);
-    const chartData = useMemo(() => processChartData(data, chartConfigProxy), [data, chartConfigProxy]);
     
     const hasYAxis = item.yAxisKeys && item.yAxisKeys.length > 0;
     const dataKey = hasYAxis ? item.yAxisKeys[0] : "value";
-    const yAxisLabel = hasYAxis ? `${item.yAxisKeys[0]}` : 'Count';
+    // A series breakdown replaces the Y columns with one key per series value
+    const keys = series ?? (hasYAxis ? item.yAxisKeys : [dataKey]);
+    const isPercent = isPercentStacked(item);
+    const isHorizontal = item.orientation === 'horizontal' && supportsStacking(item);
+    const yAxisLabel = `${isPercent ? '% of ' : ''}${hasYAxis ? item.yAxisKeys[0] : 'Count'}`;
+    const formatValue = isPercent ? (v: number) => `${v}%` : undefined;
+    const valueDomain = isPercent ? [0, 100] : undefined;
+    const layout = isHorizontal ? 'vertical' : 'horizontal';
 
     const axisStroke = isDarkMode ? "#6b7280" : "#94a3b8";
     const axisStyle = { fontSize: 10, fill: axisStroke, fontWeight: 500 };
@@ -101,34 +197,37 @@ const DashboardChart = React.memo(({ item, data, isDarkMode }: { item: Dashboard
     const showX = item.showXAxis ?? true;
     const showY = item.showYAxis ?? true;
     const showG = item.showGrid ?? true;
-    const showL = item.showLegend ?? false;
+    const showL = item.showLegend ?? !!series;
     const showT = item.tooltip?.show ?? true;
     const lineType = item.smoothCurve ?? true ? 'monotone' : 'linear';
 
     const chartAxes = (
         <>
-            {showG && <CartesianGrid strokeDasharray="3 3" vertical={false} stroke={gridStroke} />}
-            <XAxis hide={!showX} dataKey="name" tick={axisStyle} interval="preserveStartEnd" tickLine={false} axisLine={false} height={30}>
-                <Label value={item.xAxisKey} position="insideBottom" offset={-5} style={labelStyle} />
-            </XAxis>
-            <YAxis hide={!showY} tick={axisStyle} tickLine={false} axisLine={false} width={showY ? 45 : 0}>
-                <Label value={yAxisLabel} angle={-90} position="insideLeft" style={{ ...labelStyle, textAnchor: 'middle' }} />
-            </YAxis>
-            {showT && <Tooltip contentStyle={{ backgroundColor: isDarkMode ? '#111827' : '#ffffff', borderColor: isDarkMode ? '#1f2937' : '#e2e8f0', fontSize: '10px', borderRadius: '6px', color: isDarkMode ? '#fff' : '#111' }} />}
+            {showG && <CartesianGrid strokeDasharray="3 3" vertical={isHorizontal} horizontal={!isHorizontal} stroke={gridStroke} />}
+            {isHorizontal ? (
+                <>
+                    <XAxis hide={!showX} type="number" tick={axisStyle} tickFormatter={formatValue} domain={valueDomain} tickLine={false} axisLine={false} height={30}>
+                        <Label value={yAxisLabel} position="insideBottom" offset={-5} style={labelStyle} />
+                    </XAxis>
+                    <YAxis yAxisId="left" hide={!showY} type="category" dataKey="name" tick={axisStyle} interval="preserveStartEnd" tickLine={false} axisLine={false} width={showY ? 70 : 0}>
+                        <Label value={item.xAxisKey} angle={-90} position="insideLeft" style={{ ...labelStyle, textAnchor: 'middle' }} />
+                    </YAxis>
+                </>
+            ) : (
+                <>
+                    <XAxis hide={!showX} dataKey="name" tick={axisStyle} interval="preserveStartEnd" tickLine={false} axisLine={false} height={30}>
+                        <Label value={item.xAxisKey} position="insideBottom" offset={-5} style={labelStyle} />
+                    </XAxis>
+                    <YAxis yAxisId="left" hide={!showY} tick={axisStyle} tickFormatter={formatValue} domain={valueDomain} tickLine={false} axisLine={false} width={showY ? 45 : 0}>
+                        <Label value={yAxisLabel} angle={-90} position="insideLeft" style={{ ...labelStyle, textAnchor: 'middle' }} />
+                    </YAxis>
+                </>
+            )}
+            {showT && <Tooltip contentStyle={{ backgroundColor: isDarkMode ? '#111827' : '#ffffff', borderColor: isDarkMode ? '#1f2937' : '#e2e8f0', fontSize: '10px', borderRadius: '6px', color: isDarkMode ? '#fff' : '#111' }} formatter={isPercent ? (value: any) => `${value}%` : undefined} />}
             {showL && <Legend verticalAlign="top" align="right" wrapperStyle={{ fontSize: '10px', paddingTop: '0px' }} />}
         </>
     );
 
-    if (item.type === 'bar') {
-        return (
-            <ResponsiveContainer width="100%" height="100%">
-                <BarChart data={chartData} margin={margin}>
-                    {chartAxes}
-                    <Bar dataKey={dataKey} fill={colors[0]} radius={[2, 2, 0, 0]} />
-                </BarChart>
-            </ResponsiveContainer>
-        )
-    }
     if (item.type === 'box') {
         return (
              <ResponsiveContainer width="100%" height="100%">
@@ -169,34 +268,25 @@ const DashboardChart = React.memo(({ item, data, isDarkMode }: { item: Dashboard
             </ResponsiveContainer>
         )
     }
-    if (item.type === 'area') {
-         return (
-          <ResponsiveContainer width="100%" height="100%">
-            <AreaChart data={chartData} margin={margin}>
-               {chartAxes}
-               <Area type={lineType} dataKey={dataKey} stroke={colors[0]} fill={colors[0]} fillOpacity={0.2} strokeWidth={2} />
-            </AreaChart>
-          </ResponsiveContainer>
-        );
-    }
-    if (item.type === 'heatmap' || item.type === 'contour') {
+    if (item.type === 'heatmap' || item.type === 'contour' || item.type === 'correlation') {
+        const isCorrelation = item.type === 'correlation';
         const values = chartData.map(d => d.value as number);
-        const minVal = Math.min(...values);
-        const maxVal = Math.max(...values);
+        const minVal = isCorrelation ? (item.correlationMethod === 'cramers_v' ? 0 : -1) : Math.min(...values);
+        const maxVal = isCorrelation ? 1 : Math.max(...values);
         return (
             <ResponsiveContainer width="100%" height="100%">
                 <ScatterChart margin={{ top: 10, right: 10, left: 0, bottom: 40 }}>
                      {showG && <CartesianGrid strokeDasharray="3 3" stroke={gridStroke} opacity={0.5} />}
                      <XAxis hide={!showX} type="category" dataKey="x" tick={axisStyle} tickLine={false} axisLine={false} height={30}>
-                        <Label value={item.xAxisKey} position="insideBottom" offset={-5} style={labelStyle} />
+                        {!isCorrelation && <Label value={item.xAxisKey} position="insideBottom" offset={-5} style={labelStyle} />}
                      </XAxis>
-                     <YAxis hide={!showY} type="category" dataKey="y" tick={axisStyle} tickLine={false} axisLine={false} width={showY ? 45 : 0}>
-                        <Label value={item.yAxisKeys?.[0] || 'Y'} angle={-90} position="insideLeft" style={{ ...labelStyle, textAnchor: 'middle' }} />
+                     <YAxis hide={!showY} type="category" dataKey="y" tick={axisStyle} tickLine={false} axisLine={false} width={showY ? (isCorrelation ? 70 : 45) : 0}>
+                        {!isCorrelation && <Label value={item.yAxisKeys?.[0] || 'Y'} angle={-90} position="insideLeft" style={{ ...labelStyle, textAnchor: 'middle' }} />}
                      </YAxis>
                      {showT && <Tooltip contentStyle={{ backgroundColor: isDarkMode ? '#111827' : '#fff', borderColor: gridStroke, fontSize: '10px', borderRadius: '6px' }} />}
                      <Scatter 
                         data={chartData} 
-                        shape={(props: any) => <HeatmapRect {...props} isDarkMode={isDarkMode} min={minVal} max={maxVal} width={25} height={25} type={item.type} />}
+                        shape={(props: any) => <HeatmapRect {...props} isDarkMode={isDarkMode} min={minVal} max={maxVal} width={25} height={25} type={item.type} diverging={isCorrelation && item.correlationMethod !== 'cramers_v'} />}
                      />
                 </ScatterChart>
             </ResponsiveContainer>
@@ -205,18 +295,62 @@ const DashboardChart = React.memo(({ item, data, isDarkMode }: { item: Dashboard
     if (item.type === 'venn') {
         return <MiniVenn data={chartData} isDarkMode={isDarkMode} />
     }
+    if (item.type === 'scatter' || item.type === 'bubble') {
+        return (
+            <ResponsiveContainer width="100%" height="100%">
+                <ScatterChart margin={margin}>
+                    {showG && <CartesianGrid strokeDasharray="3 3" stroke={gridStroke} />}
+                    <XAxis hide={!showX} type="number" dataKey="x" name={item.xAxisKey} tick={axisStyle} tickLine={false} axisLine={false} height={30}>
+                        <Label value={item.xAxisKey} position="insideBottom" offset={-5} style={labelStyle} />
+                    </XAxis>
+                    <YAxis hide={!showY} type="number" dataKey="y" name={yAxisLabel} tick={axisStyle} tickLine={false} axisLine={false} width={showY ? 45 : 0}>
+                        <Label value={yAxisLabel} angle={-90} position="insideLeft" style={{ ...labelStyle, textAnchor: 'middle' }} />
+                    </YAxis>
+                    {showT && <Tooltip contentStyle={{ backgroundColor: isDarkMode ? '#111827' : '#fff', borderColor: gridStroke, fontSize: '10px', borderRadius: '6px' }} />}
+                    {showL && <Legend verticalAlign="top" align="right" wrapperStyle={{ fontSize: '10px', paddingTop: '0px' }} />}
+                    {series ? series.map((name, i) => (
+                        <Scatter key={name} name={name} data={chartData.filter(d => d.series === name)} fill={colors[i % colors.length]} />
+                    )) : <Scatter name={yAxisLabel} data={chartData} fill={colors[0]} />}
+                </ScatterChart>
+            </ResponsiveContainer>
+        );
+    }
     
+    // Bar, line and area cards, with each series drawn as its own mark on its own axis
+    const layouts = resolveSeriesLayout(item, keys, colors, 2);
+    const hasRightAxis = layouts.some(layout => layout.axis === 'right');
     return (
         <ResponsiveContainer width="100%" height="100%">
-            <LineChart data={chartData} margin={margin}>
+            <ComposedChart data={chartData} layout={layout} margin={margin}>
                 {chartAxes}
-                <Line type={lineType} dataKey={dataKey} stroke={colors[0]} dot={false} strokeWidth={3} />
-            </LineChart>
+                {hasRightAxis && <YAxis yAxisId="right" orientation="right" hide={!showY} tick={axisStyle} tickFormatter={formatValue} domain={valueDomain} tickLine={false} axisLine={false} width={showY ? 45 : 0} />}
+                {keys.map((key, i) => {
+                    const { mark, axis, color, stackId, radius } = layouts[i];
+                    if (mark === 'line') return <Line key={key} yAxisId={axis} type={lineType} dataKey={key} stroke={color} dot={false} strokeWidth={3} />;
+                    if (mark === 'area') return <Area key={key} yAxisId={axis} type={lineType} dataKey={key} stackId={stackId} stroke={color} fill={color} fillOpacity={0.2} strokeWidth={2} />;
+                    return <Bar key={key} yAxisId={axis} dataKey={key} fill={color} stackId={stackId} radius={radius} />;
+                })}
+            </ComposedChart>
         </ResponsiveContainer>
     )
+};
+
+const DashboardChart = React.memo(({ item, data, isDarkMode }: { item: DashboardItem, data: DataTable, isDarkMode: boolean }) => {
+    const { chartData, truncation, series, seriesTruncation } = useChartData(data, item);
+    const notice = [truncation && describeTruncation(truncation), seriesTruncation && describeSeriesTruncation(seriesTruncation)].filter(Boolean).join(' · ');
+    return (
+        <>
+            <DashboardChartContent item={item} chartData={chartData} series={series} isDarkMode={isDarkMode} />
+            {notice && chartData.length > 0 && (
+                <div className="absolute bottom-1 left-2 right-2 truncate text-[9px] font-bold uppercase tracking-wider text-amber-600 dark:text-amber-400" title={notice}>
+                    {notice}
+                </div>
+            )}
+        </>
+    );
 });
 
-export const Dashboard: React.FC<DashboardProps> = ({ data, headers, isDarkMode, items, onUpdateItem, onRemoveItem, onNavigateToData }) => {
+export const Dashboard: React.FC<DashboardProps> = ({ data, datasets, headers, isDarkMode, items, onUpdateItem, onRemoveItem, onNavigateToData }) => {
   const canvasRef = useRef<HTMLDivElement>(null);
   const [draggingId, setDraggingId] = useState<string | null>(null);
   const [resizingId, setResizingId] = useState<string | null>(null);
@@ -357,22 +491,24 @@ export const Dashboard: React.FC<DashboardProps> = ({ data, headers, isDarkMode,
       else onUpdateItem(id, { zIndex: Math.max(1, minZ - 1) });
   };
 
-  const handleExportCSV = (id: string) => {
+  const isDateColumn = (item: DashboardItem) => {
+    const table = getDatasetTable(datasets, item.datasetId, data);
+    return datasets.find(d => d.table === table)?.columns.find(c => c.name === item.xAxisKey)?.type === 'date';
+  };
+
+  const itemHeaders = (item: DashboardItem) => getDatasetTable(datasets, item.datasetId, data).headers;
+
+  const handleExportCSV = async (id: string) => {
     const item = items.find(i => i.id === id);
     if (!item) return;
-    const chartData = processChartData(data, item);
+    const { rows: chartData } = await aggregateChartData(getDatasetTable(datasets, item.datasetId, data), item);
     if (chartData.length === 0) return;
 
-    const csvHeaders = Object.keys(chartData[0]).join(',');
-    const csvRows = chartData.map(row => Object.values(row).map(v => typeof v === 'string' ? `"${v}"` : v).join(',')).join('\n');
-    const csvContent = `${csvHeaders}\n${csvRows}`;
+    // Rows can differ in their keys, e.g. pie slices without some series, so take the union
+    const csvHeaders = Array.from(new Set(chartData.flatMap(row => Object.keys(row))));
+    const csvContent = rowsToDelimited(csvHeaders, chartData);
     
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.setAttribute('href', url);
-    link.setAttribute('download', `${item.title.replace(/\s+/g, '_')}_data.csv`);
-    link.click();
+    downloadBlob(new Blob([csvContent], { type: 'text/csv;charset=utf-8;' }), `${item.title.replace(/\s+/g, '_')}_data.csv`);
   };
 
   const handleDownloadDashboard = async () => {
@@ -409,7 +545,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ data, headers, isDarkMode,
     }
   };
 
-  if (data.length === 0) {
+  if (datasets.length === 0) {
       return (
         <div className="flex-1 p-8 flex flex-col items-center justify-center text-center bg-gray-50 dark:bg-gray-900 transition-colors duration-300">
             <div className="bg-white dark:bg-gray-800/50 p-8 rounded-2xl border border-gray-200 dark:border-gray-700 max-w-md shadow-sm">
@@ -522,10 +658,20 @@ export const Dashboard: React.FC<DashboardProps> = ({ data, headers, isDarkMode,
                                         <div>
                                             <label className="flex items-center gap-1.5 text-[9px] font-bold text-gray-400 dark:text-gray-500 uppercase mb-1"><Calculator className="w-2.5 h-2.5" /> Agg</label>
                                             <select value={item.aggregation || 'sum'} onChange={(e) => onUpdateItem(item.id, { aggregation: e.target.value as AggregationType })} className="w-full bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded px-2 py-2 text-[11px] outline-none">
-                                                <option value="sum">Sum</option><option value="avg">Avg</option><option value="count">Count</option><option value="min">Min</option><option value="max">Max</option>
+                                                {AGGREGATION_OPTIONS.map(o => <option key={o.type} value={o.type}>{o.label}</option>)}
                                             </select>
                                         </div>
                                     </div>
+                                    {isDateColumn(item) && ['bar', 'line', 'area', 'pie', 'doughnut'].includes(item.type) && (
+                                        <TimeGrainSettings item={item} onChange={(updates) => onUpdateItem(item.id, updates)} />
+                                    )}
+                                    {supportsStacking(item) && (
+                                        <LayoutSettings item={item} onChange={(updates) => onUpdateItem(item.id, updates)} />
+                                    )}
+                                    {supportsSeries(item) && (
+                                        <SeriesSettings item={item} columns={itemHeaders(item)} onChange={(updates) => onUpdateItem(item.id, updates)} />
+                                    )}
+                                    <LimitSettings item={item} onChange={(updates) => onUpdateItem(item.id, updates)} />
 
                                     {/* Expanded Display Options */}
                                     <div className="pt-2 border-t border-gray-100 dark:border-gray-700 grid grid-cols-2 gap-x-6 gap-y-2">
@@ -551,7 +697,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ data, headers, isDarkMode,
                                         </label>
                                         <label className="flex items-center justify-between cursor-pointer group">
                                             <span className="text-[10px] font-bold text-gray-500 dark:text-gray-400 uppercase tracking-widest group-hover:text-blue-500 transition-colors">Legend</span>
-                                            <input type="checkbox" checked={item.showLegend ?? false} onChange={(e) => onUpdateItem(item.id, { showLegend: e.target.checked })} className="sr-only peer" />
+                                            <input type="checkbox" checked={item.showLegend ?? !!item.seriesKey} onChange={(e) => onUpdateItem(item.id, { showLegend: e.target.checked })} className="sr-only peer" />
                                             <div className="w-7 h-4 bg-gray-200 dark:bg-gray-700 rounded-full peer peer-checked:bg-blue-600 after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:rounded-full after:h-3 after:w-3 after:transition-all peer-checked:after:translate-x-3 relative"></div>
                                         </label>
                                         {(item.type === 'line' || item.type === 'area') && (
@@ -577,7 +723,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ data, headers, isDarkMode,
                                 </div>
                             </div>
                         ) : null}
-                        <DashboardChart item={item} data={data} isDarkMode={isDarkMode} />
+                        <DashboardChart item={item} data={getDatasetTable(datasets, item.datasetId, data)} isDarkMode={isDarkMode} />
                     </div>
 
                     {!isLocked && !item.isLocked && (
@@ -1,26 +1,86 @@
 
 import React, { useState, useMemo, useRef, useEffect } from 'react';
 import { 
-  Upload, Search, ChevronLeft, ChevronRight, Sigma, 
+  Upload, Search, Sigma, 
   BarChart3, ArrowUp, ArrowDown, Activity, Filter, X, CheckSquare, Square, ListFilter,
   GripHorizontal,
   ArrowRightLeft,
   AlertCircle,
   Hash,
   Type,
-  CheckCircle2
+  CheckCircle2,
+  Calendar,
+  Database,
+  ChevronDown,
+  Merge,
+  Trash2,
+  Undo2,
+  Redo2,
+  History,
+  ScrollText,
+  Wand2,
+  FunctionSquare,
+  Table2,
+  Shuffle,
+  SlidersHorizontal,
+  Pin,
+  PinOff,
+  ScanSearch,
+  ShieldCheck,
+  Download
 } from 'lucide-react';
-import { DataRow } from '../types';
+import { DataTable, ColumnMeta, ColumnType, CellValue, Dataset, FilterGroup, Recipe, TransformStep, ValidationRule } from '../types';
+import { IMPORT_ACCEPT } from '../utils/importers';
+import { SortKey, columnReader, getColumnStats, getDistinctValues, getRowIds, getRows, queryRows, sortRows, takeRows } from '../utils/dataTable';
+import { coerceValue } from '../utils/schemaInference';
+import { useVirtualRows } from '../hooks/useVirtualRows';
+import { canRedo, canUndo } from '../utils/history';
+import { VersionHistoryPanel } from '../components/VersionHistoryPanel';
+import { RecipePanel } from '../components/RecipePanel';
+import { CleanDataModal } from '../components/CleanDataModal';
+import { ComputedColumnModal } from '../components/ComputedColumnModal';
+import { PivotTableModal } from '../components/PivotTableModal';
+import { ReshapeModal } from '../components/ReshapeModal';
+import { ColumnProfileModal } from '../components/ColumnProfileModal';
+import { FilterBuilderPanel } from '../components/FilterBuilderPanel';
+import { ValidationPanel, scoreColor } from '../components/ValidationPanel';
+import { ExportPanel } from '../components/ExportPanel';
+import { compileFilter, countConditions, createGroup, describeFilter } from '../utils/filters';
+import { profileColumn } from '../utils/profile';
+import { PivotChartType, PivotResult } from '../utils/pivot';
+import { RecipeRun, datasetSteps } from '../utils/recipes';
+import { cellViolations, validateTable } from '../utils/validation';
+import { ExportOptions, downloadBlob, exportTable } from '../utils/exporters';
 
 interface DataStudioProps {
-  data: DataRow[];
+  data: DataTable;
   headers: string[];
+  columnMeta: ColumnMeta[];
+  datasets: Dataset[];
+  activeDatasetId: string | null;
   onFileUpload: (file: File) => void;
+  onColumnTypeChange: (column: string, type: ColumnType) => void;
+  onSelectDataset: (id: string) => void;
+  onRemoveDataset: (id: string) => void;
+  onCombineDatasets: () => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  onJumpToVersion: (version: number) => void;
+  onApplyStep: (step: TransformStep) => void;
+  recipes: Recipe[];
+  onSaveRecipe: (name: string) => void;
+  onApplyRecipe: (recipeId: string) => RecipeRun | null;
+  onDeleteRecipe: (recipeId: string) => void;
+  onImportRecipe: (json: string) => void;
+  onPivotToChart: (type: PivotChartType, result: PivotResult) => void;
+  onSaveFilteredView: (name: string, table: DataTable, description: string) => void;
+  validationRules: ValidationRule[];
+  onChangeValidationRules: (rules: ValidationRule[]) => void;
 }
 
 interface ColumnStats {
   header: string;
-  type: 'number' | 'string' | 'boolean';
+  type: ColumnType;
   mean?: number;
   median?: number;
   min?: string | number;
@@ -28,14 +88,60 @@ interface ColumnStats {
   validCount: number;
   missingCount: number;
   totalRows: number;
+  // Bin heights for the card's sparkline: values for numbers and dates, lengths for text
+  spark: number[];
 }
 
-export const DataStudio: React.FC<DataStudioProps> = ({ data, headers: initialHeaders, onFileUpload }) => {
+const displayValue = (value?: CellValue) => typeof value === 'boolean' ? String(value) : value ?? undefined;
+
+// Every grid row has the same height so only the visible slice needs to be in the DOM
+const ROW_HEIGHT = 40;
+const DEFAULT_COLUMN_WIDTH = 180;
+
+interface CellEditor {
+  index: number;
+  column: string;
+  draft: string;
+  error?: string;
+}
+
+const COLUMN_TYPES: { type: ColumnType; label: string }[] = [
+  { type: 'string', label: 'Text' },
+  { type: 'number', label: 'Number' },
+  { type: 'date', label: 'Date' },
+  { type: 'boolean', label: 'Boolean' }
+];
+
+export const DataStudio: React.FC<DataStudioProps> = ({ 
+  data, headers: initialHeaders, columnMeta, datasets, activeDatasetId, 
+  onFileUpload, onColumnTypeChange, onSelectDataset, onRemoveDataset, onCombineDatasets,
+  onUndo, onRedo, onJumpToVersion, onApplyStep, recipes, onSaveRecipe, onApplyRecipe, onDeleteRecipe, onImportRecipe,
+  onPivotToChart, onSaveFilteredView, validationRules, onChangeValidationRules
+}) => {
   const [searchTerm, setSearchTerm] = useState('');
-  const [currentPage, setCurrentPage] = useState(1);
   const [activeFilterCol, setActiveFilterCol] = useState<string | null>(null);
-  const [columnFilters, setColumnFilters] = useState<Record<string, Set<any>>>({});
+  const [columnFilters, setColumnFilters] = useState<Record<string, Set<CellValue>>>({});
   const [filterSearch, setFilterSearch] = useState('');
+  const [typeMenuCol, setTypeMenuCol] = useState<string | null>(null);
+  const [isDatasetMenuOpen, setIsDatasetMenuOpen] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isRecipesOpen, setIsRecipesOpen] = useState(false);
+  // Column the cleaning dialog opens on; '' opens it without a preselected column
+  const [cleanColumn, setCleanColumn] = useState<string | null>(null);
+  // '' opens the modal for a new computed column, a name edits that column's formula
+  const [formulaColumn, setFormulaColumn] = useState<string | null>(null);
+  const [isPivotOpen, setIsPivotOpen] = useState(false);
+  const [isReshapeOpen, setIsReshapeOpen] = useState(false);
+  // '' opens the profile on the first column
+  const [profileColumnName, setProfileColumnName] = useState<string | null>(null);
+  const [advancedFilter, setAdvancedFilter] = useState<FilterGroup>(() => createGroup());
+  const [isFilterBuilderOpen, setIsFilterBuilderOpen] = useState(false);
+  const [isValidationOpen, setIsValidationOpen] = useState(false);
+  const [showInvalidOnly, setShowInvalidOnly] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [sort, setSort] = useState<SortKey[]>([]);
+  const [pinnedColumns, setPinnedColumns] = useState<string[]>([]);
+  const [editor, setEditor] = useState<CellEditor | null>(null);
   
   const [orderedHeaders, setOrderedHeaders] = useState<string[]>(initialHeaders);
   const [columnWidths, setColumnWidths] = useState<Record<string, number>>({});
@@ -43,11 +149,25 @@ export const DataStudio: React.FC<DataStudioProps> = ({ data, headers: initialHe
   const [draggedHeader, setDraggedHeader] = useState<string | null>(null);
   const [dragOverHeader, setDragOverHeader] = useState<string | null>(null);
 
-  const rowsPerPage = 50;
+  const gridRef = useRef<HTMLDivElement>(null);
   const filterRef = useRef<HTMLDivElement>(null);
+  const typeMenuRef = useRef<HTMLDivElement>(null);
+  const datasetMenuRef = useRef<HTMLDivElement>(null);
+  const historyRef = useRef<HTMLDivElement>(null);
+  const recipesRef = useRef<HTMLDivElement>(null);
+  const filterBuilderRef = useRef<HTMLDivElement>(null);
+  const validationRef = useRef<HTMLDivElement>(null);
+  const exportRef = useRef<HTMLDivElement>(null);
+  const activeDataset = datasets.find(d => d.id === activeDatasetId) ?? null;
 
   useEffect(() => {
     setOrderedHeaders(initialHeaders);
+    // Reshaping can remove columns; a filter on a missing column would hide every row
+    setColumnFilters(prev => Object.keys(prev).every(h => initialHeaders.includes(h))
+      ? prev
+      : Object.fromEntries(Object.entries(prev).filter(([h]) => initialHeaders.includes(h))));
+    setSort(prev => prev.every(k => initialHeaders.includes(k.column)) ? prev : prev.filter(k => initialHeaders.includes(k.column)));
+    setPinnedColumns(prev => prev.every(h => initialHeaders.includes(h)) ? prev : prev.filter(h => initialHeaders.includes(h)));
   }, [initialHeaders]);
 
   useEffect(() => {
@@ -81,49 +201,175 @@ export const DataStudio: React.FC<DataStudioProps> = ({ data, headers: initialHe
         setActiveFilterCol(null);
         setFilterSearch('');
       }
+      if (typeMenuRef.current && !typeMenuRef.current.contains(event.target as Node)) {
+        setTypeMenuCol(null);
+      }
+      if (datasetMenuRef.current && !datasetMenuRef.current.contains(event.target as Node)) {
+        setIsDatasetMenuOpen(false);
+      }
+      if (historyRef.current && !historyRef.current.contains(event.target as Node)) {
+        setIsHistoryOpen(false);
+      }
+      if (recipesRef.current && !recipesRef.current.contains(event.target as Node)) {
+        setIsRecipesOpen(false);
+      }
+      if (filterBuilderRef.current && !filterBuilderRef.current.contains(event.target as Node)) {
+        setIsFilterBuilderOpen(false);
+      }
+      if (validationRef.current && !validationRef.current.contains(event.target as Node)) {
+        setIsValidationOpen(false);
+      }
+      if (exportRef.current && !exportRef.current.contains(event.target as Node)) {
+        setIsExportOpen(false);
+      }
     };
     document.addEventListener('mousedown', handleClickOutside);
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
 
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z or Ctrl+Y redoes, unless the user is typing
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (!(e.ctrlKey || e.metaKey) || target.closest('input, textarea, select')) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        onUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        onRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onUndo, onRedo]);
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
       onFileUpload(e.target.files[0]);
     }
   };
 
-  const uniqueColumnValues = useMemo(() => {
-    const map: Record<string, any[]> = {};
-    orderedHeaders.forEach(h => {
-      const values = Array.from(new Set(data.map(r => r[h])));
-      map[h] = values.sort((a, b) => String(a).localeCompare(String(b)));
+  const filterValues = useMemo(() => {
+    return activeFilterCol ? getDistinctValues(data, activeFilterCol) : [];
+  }, [data, activeFilterCol]);
+
+  const compiledFilter = useMemo(() => compileFilter(data, columnMeta, advancedFilter), [data, columnMeta, advancedFilter]);
+  const filterConditionCount = countConditions(advancedFilter);
+
+  // Rules are re-checked whenever the table changes, so uploads, transforms and edits all show up here
+  const validation = useMemo(
+    () => validateTable(data, columnMeta, validationRules, datasets),
+    [data, columnMeta, validationRules, datasets]
+  );
+
+  const filteredIndices = useMemo(() => {
+    const test = compiledFilter.test;
+    const invalidRows = showInvalidOnly ? validation.invalidRows : null;
+    const predicate = invalidRows
+      ? (i: number) => invalidRows[i] === 1 && (!test || test(i))
+      : test ?? undefined;
+    return queryRows(data, { search: searchTerm, searchColumns: orderedHeaders, filters: columnFilters, predicate });
+  }, [data, orderedHeaders, searchTerm, columnFilters, compiledFilter, showInvalidOnly, validation]);
+
+  const sortedIndices = useMemo(() => sortRows(data, filteredIndices, sort), [data, filteredIndices, sort]);
+
+  const { first, last, paddingTop, paddingBottom, scrollToTop } = useVirtualRows(gridRef, sortedIndices.length, ROW_HEIGHT);
+
+  // A new query starts from the top; edits keep the scroll position so the changed row stays in view
+  useEffect(() => {
+    scrollToTop();
+  }, [activeDatasetId, searchTerm, columnFilters, advancedFilter, showInvalidOnly, sort, scrollToTop]);
+
+  useEffect(() => {
+    setEditor(null);
+  }, [data]);
+
+  const visibleIndices = useMemo(() => sortedIndices.subarray(first, last), [sortedIndices, first, last]);
+  const visibleRows = useMemo(() => getRows(data, visibleIndices), [data, visibleIndices]);
+
+  // Pinned columns move to the left edge and stay there while the grid scrolls sideways
+  const displayHeaders = useMemo(() => [
+    ...orderedHeaders.filter(h => pinnedColumns.includes(h)),
+    ...orderedHeaders.filter(h => !pinnedColumns.includes(h))
+  ], [orderedHeaders, pinnedColumns]);
+
+  const pinnedOffsets = useMemo(() => {
+    const offsets: Record<string, number> = {};
+    let left = 0;
+    displayHeaders.filter(h => pinnedColumns.includes(h)).forEach(h => {
+      offsets[h] = left;
+      left += columnWidths[h] || DEFAULT_COLUMN_WIDTH;
     });
-    return map;
-  }, [data, orderedHeaders]);
-
-  const filteredData = useMemo(() => {
-    return data.filter(row => {
-      const matchesGlobal = orderedHeaders.some(h => 
-        String(row[h]).toLowerCase().includes(searchTerm.toLowerCase())
-      );
-      if (!matchesGlobal) return false;
-
-      return Object.entries(columnFilters).every(([col, selectedSet]) => {
-        const s = selectedSet as Set<any>;
-        if (s.size === 0) return true;
-        return s.has(row[col]);
-      });
+    return offsets;
+  }, [displayHeaders, pinnedColumns, columnWidths]);
+
+  const togglePinned = (column: string) => {
+    setPinnedColumns(prev => prev.includes(column) ? prev.filter(h => h !== column) : [...prev, column]);
+  };
+
+  // Click cycles ascending, descending, unsorted. Shift+click adds the column as a further sort key.
+  const handleSort = (column: string, additive: boolean) => {
+    setSort(prev => {
+      const current = prev.find(k => k.column === column);
+      const next: SortKey | null = !current ? { column, direction: 'asc' } : current.direction === 'asc' ? { column, direction: 'desc' } : null;
+      if (!additive) return next ? [next] : [];
+      if (!current) return [...prev, next!];
+      return next ? prev.map(k => k.column === column ? next : k) : prev.filter(k => k.column !== column);
     });
-  }, [data, orderedHeaders, searchTerm, columnFilters]);
+  };
 
-  const toggleFilterValue = (column: string, value: any) => {
+  const startEditing = (index: number, column: string, value: CellValue | undefined) => {
+    if (columnMeta.find(c => c.name === column)?.formula) return;
+    setEditor({ index, column, draft: value === null || value === undefined ? '' : String(value) });
+  };
+
+  // Stores the typed value as the column's type; an empty input clears the cell
+  const commitEdit = (cancelIfInvalid = false) => {
+    if (!editor) return;
+    const meta = columnMeta.find(c => c.name === editor.column);
+    const type = meta?.type ?? 'string';
+    const isBlank = editor.draft.trim() === '';
+    const value = isBlank ? null : coerceValue(editor.draft, type, meta?.format);
+    if (!isBlank && value === null) {
+      if (cancelIfInvalid) setEditor(null);
+      else setEditor({ ...editor, error: `"${editor.draft}" is not a valid ${type}` });
+      return;
+    }
+    setEditor(null);
+    if (value === columnReader(data, editor.column)(editor.index)) return;
+    onApplyStep({ op: 'edit_cells', edits: [{ rowId: getRowIds(data)[editor.index], column: editor.column, value }] });
+  };
+
+  // Saves exactly what the grid shows: search, value filters and the filter builder together
+  const handleSaveFilteredView = (name: string) => {
+    const parts = [
+      describeFilter(advancedFilter, columnMeta),
+      ...Object.keys(columnFilters).filter(c => columnFilters[c].size > 0).map(c => `${c} in ${columnFilters[c].size} values`),
+      searchTerm.trim() ? `search "${searchTerm.trim()}"` : ''
+    ].filter(Boolean);
+    onSaveFilteredView(name.trim(), takeRows(data, filteredIndices), parts.join(' AND '));
+    setIsFilterBuilderOpen(false);
+  };
+
+  // Exports what the grid shows: filtered and sorted rows, columns in their dragged order
+  const handleExport = (options: ExportOptions, fileName: string): string | null => {
+    try {
+      downloadBlob(exportTable(data, sortedIndices, orderedHeaders, options, activeDataset?.name), fileName);
+      return null;
+    } catch (err) {
+      return err instanceof Error ? err.message : 'Could not write the file';
+    }
+  };
+
+  const toggleFilterValue = (column: string, value: CellValue) => {
     setColumnFilters(prev => {
       const newSet = new Set(prev[column] || []);
       if (newSet.has(value)) newSet.delete(value);
       else newSet.add(value);
       return { ...prev, [column]: newSet };
     });
-    setCurrentPage(1);
   };
 
   const clearColumnFilter = (column: string) => {
@@ -179,67 +425,41 @@ export const DataStudio: React.FC<DataStudioProps> = ({ data, headers: initialHe
   };
 
   const columnStats = useMemo(() => {
-    if (data.length === 0) return [];
-    const stats: ColumnStats[] = [];
-    
-    orderedHeaders.forEach(header => {
-      const allValues = data.map(row => row[header]);
-      const validValues = allValues.filter(val => val !== null && val !== undefined && val !== '');
-      const missingCount = allValues.length - validValues.length;
-      
-      const numericValues = validValues.filter(val => typeof val === 'number' && !isNaN(val)) as number[];
-      const isNumeric = numericValues.length > 0 && (numericValues.length / validValues.length) > 0.5;
-      const isBoolean = validValues.every(val => typeof val === 'boolean' || val === 'true' || val === 'false' || val === 0 || val === 1);
-      
-      const type = isNumeric ? 'number' : (isBoolean ? 'boolean' : 'string');
+    if (data.rowCount === 0) return [];
+    return orderedHeaders.map(header => {
+      const summary = getColumnStats(data, header);
+      const meta = columnMeta.find(c => c.name === header);
+      const type = meta?.type ?? 'string';
+      const profile = meta ? profileColumn(data, meta) : null;
 
       const stat: ColumnStats = {
         header,
         type,
-        validCount: validValues.length,
-        missingCount,
-        totalRows: allValues.length
+        validCount: summary.count,
+        missingCount: summary.missingCount,
+        totalRows: data.rowCount,
+        min: displayValue(summary.min),
+        max: displayValue(summary.max),
+        spark: (profile?.histogram.length ? profile.histogram : profile?.lengths?.histogram ?? []).map(b => b.count)
       };
-
-      if (isNumeric && numericValues.length > 0) {
-        const sorted = [...numericValues].sort((a, b) => a - b);
-        const sum = numericValues.reduce((acc, curr) => acc + curr, 0);
-        const mean = sum / numericValues.length;
-        const mid = Math.floor(numericValues.length / 2);
-        const median = numericValues.length % 2 === 0 
-            ? (sorted[mid - 1] + sorted[mid]) / 2 
-            : sorted[mid];
-
-        stat.mean = Number(mean.toFixed(2));
-        stat.median = Number(median.toFixed(2));
-        stat.min = sorted[0];
-        stat.max = sorted[sorted.length - 1];
-      } else if (validValues.length > 0) {
-        const sorted = [...validValues].map(v => String(v)).sort();
-        stat.min = sorted[0];
-        stat.max = sorted[sorted.length - 1];
+      if (type === 'number' && summary.mean !== undefined && summary.median !== undefined) {
+        stat.mean = Number(summary.mean.toFixed(2));
+        stat.median = Number(summary.median.toFixed(2));
       }
-
-      stats.push(stat);
+      return stat;
     });
-    return stats;
-  }, [data, orderedHeaders]);
-
-  const totalPages = Math.ceil(filteredData.length / rowsPerPage);
-  const paginatedData = filteredData.slice(
-    (currentPage - 1) * rowsPerPage,
-    currentPage * rowsPerPage
-  );
+  }, [data, orderedHeaders, columnMeta]);
 
   const getHeaderIcon = (type: string) => {
     switch (type) {
       case 'number': return <Hash className="w-3 h-3 text-blue-500" />;
       case 'boolean': return <CheckCircle2 className="w-3 h-3 text-green-500" />;
+      case 'date': return <Calendar className="w-3 h-3 text-purple-500" />;
       default: return <Type className="w-3 h-3 text-amber-500" />;
     }
   };
 
-  if (data.length === 0) {
+  if (datasets.length === 0) {
     return (
       <div className="flex-1 flex flex-col items-center justify-center p-8 h-full bg-gray-50 dark:bg-gray-900 transition-colors">
         <div className="bg-white dark:bg-gray-800/30 border-2 border-dashed border-gray-200 dark:border-gray-700 rounded-2xl p-12 text-center max-w-xl w-full hover:border-blue-500 hover:bg-blue-50 dark:hover:bg-blue-500/5 transition-all group shadow-sm">
@@ -247,10 +467,10 @@ export const DataStudio: React.FC<DataStudioProps> = ({ data, headers: initialHe
             <Upload className="w-8 h-8 text-gray-400 group-hover:text-blue-500" />
           </div>
           <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">Drop your dataset here</h3>
-          <p className="text-gray-500 text-sm mb-6">Support for CSV and JSON.</p>
+          <p className="text-gray-500 text-sm mb-6">Support for CSV, TSV, JSON, NDJSON and Excel workbooks.</p>
           <label className="inline-flex items-center gap-2 cursor-pointer bg-blue-600 hover:bg-blue-500 text-white px-5 py-2 rounded-lg font-medium transition-colors shadow-md">
             <span>Browse Files</span>
-            <input type="file" className="hidden" accept=".csv,.json" onChange={handleFileChange} />
+            <input type="file" className="hidden" accept={IMPORT_ACCEPT} onChange={handleFileChange} />
           </label>
         </div>
       </div>
@@ -265,10 +485,60 @@ export const DataStudio: React.FC<DataStudioProps> = ({ data, headers: initialHe
               <ListFilter className="w-4 h-4 text-blue-500" />
               Data Studio
             </h2>
+            <div ref={datasetMenuRef} className="relative">
+                <button
+                    onClick={() => setIsDatasetMenuOpen(!isDatasetMenuOpen)}
+                    className="flex items-center gap-2 px-3 py-1.5 rounded-xl bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-xs font-semibold text-gray-700 dark:text-gray-200 hover:border-blue-500 transition-colors max-w-[220px]"
+                >
+                    <Database className="w-3.5 h-3.5 text-blue-500 shrink-0" />
+                    <span className="truncate">{activeDataset?.name ?? 'Select dataset'}</span>
+                    <ChevronDown className="w-3 h-3 text-gray-400 shrink-0" />
+                </button>
+                {isDatasetMenuOpen && (
+                    <div className="absolute left-0 mt-1 w-72 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl shadow-2xl z-50 animate-fade-in p-2">
+                        <span className="block px-2 pb-1.5 text-[10px] font-bold text-gray-400 uppercase tracking-widest">Datasets</span>
+                        <div className="max-h-64 overflow-y-auto custom-scrollbar flex flex-col gap-1">
+                            {datasets.map(d => (
+                                <div key={d.id} className={`group/item flex items-center gap-2 px-2 py-1.5 rounded-lg transition-colors ${d.id === activeDatasetId ? 'bg-blue-500/10' : 'hover:bg-gray-50 dark:hover:bg-gray-700/50'}`}>
+                                    <button onClick={() => { onSelectDataset(d.id); setIsDatasetMenuOpen(false); }} className="flex-1 min-w-0 text-left">
+                                        <span className={`block text-xs truncate ${d.id === activeDatasetId ? 'text-blue-600 dark:text-blue-400 font-semibold' : 'text-gray-700 dark:text-gray-200'}`}>{d.name}</span>
+                                        <span className="block text-[10px] text-gray-400">{d.table.rowCount} rows · {d.table.headers.length} columns</span>
+                                    </button>
+                                    <button onClick={() => onRemoveDataset(d.id)} className="p-1 rounded-md text-gray-400 hover:text-red-500 opacity-0 group-hover/item:opacity-100 transition-all" title="Remove dataset">
+                                        <Trash2 className="w-3 h-3" />
+                                    </button>
+                                </div>
+                            ))}
+                        </div>
+                        <div className="flex items-center gap-2 pt-2 mt-1 border-t border-gray-100 dark:border-gray-700">
+                            <label className="flex-1 flex items-center justify-center gap-1 py-1.5 rounded-lg text-[10px] font-bold uppercase tracking-wider text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-500/10 transition-colors cursor-pointer">
+                                <Upload className="w-3 h-3" /> Add File
+                                <input type="file" className="hidden" accept={IMPORT_ACCEPT} onChange={(e) => { handleFileChange(e); setIsDatasetMenuOpen(false); }} />
+                            </label>
+                            <button
+                                onClick={() => { onCombineDatasets(); setIsDatasetMenuOpen(false); }}
+                                disabled={datasets.length < 2}
+                                className="flex-1 flex items-center justify-center gap-1 py-1.5 rounded-lg text-[10px] font-bold uppercase tracking-wider text-gray-500 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+                            >
+                                <Merge className="w-3 h-3" /> Combine
+                            </button>
+                        </div>
+                    </div>
+                )}
+            </div>
             <div className="flex gap-2">
-                <span className="text-[10px] px-2 py-0.5 bg-blue-500/10 text-blue-600 dark:text-blue-400 rounded-full font-bold uppercase tracking-wider">{filteredData.length} Records</span>
-                {Object.keys(columnFilters).length > 0 && (
-                    <button onClick={() => setColumnFilters({})} className="text-[10px] px-2 py-0.5 bg-red-500/10 text-red-600 dark:text-red-400 rounded-full font-bold uppercase tracking-wider hover:bg-red-500/20 transition-colors">
+                <span className="text-[10px] px-2 py-0.5 bg-blue-500/10 text-blue-600 dark:text-blue-400 rounded-full font-bold uppercase tracking-wider">{filteredIndices.length} Records</span>
+                {validation.score !== null && (
+                    <button
+                        onClick={() => setIsValidationOpen(true)}
+                        className={`text-[10px] px-2 py-0.5 bg-gray-500/10 rounded-full font-bold uppercase tracking-wider ${scoreColor(validation.score)}`}
+                        title={`${validation.invalidRowCount} rows break a validation rule`}
+                    >
+                        Quality {validation.score}%
+                    </button>
+                )}
+                {(Object.keys(columnFilters).length > 0 || filterConditionCount > 0 || showInvalidOnly) && (
+                    <button onClick={() => { setColumnFilters({}); setAdvancedFilter(createGroup()); setShowInvalidOnly(false); }} className="text-[10px] px-2 py-0.5 bg-red-500/10 text-red-600 dark:text-red-400 rounded-full font-bold uppercase tracking-wider hover:bg-red-500/20 transition-colors">
                         Clear Filters
                     </button>
                 )}
@@ -276,6 +546,83 @@ export const DataStudio: React.FC<DataStudioProps> = ({ data, headers: initialHe
         </div>
         
         <div className="flex items-center gap-3">
+             <div ref={historyRef} className="relative flex items-center gap-1">
+                <button onClick={onUndo} disabled={!canUndo(activeDataset)} className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-xl text-gray-400 disabled:opacity-30 disabled:cursor-not-allowed transition-colors" title="Undo (Ctrl+Z)">
+                    <Undo2 className="w-4 h-4" />
+                </button>
+                <button onClick={onRedo} disabled={!canRedo(activeDataset)} className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-xl text-gray-400 disabled:opacity-30 disabled:cursor-not-allowed transition-colors" title="Redo (Ctrl+Shift+Z)">
+                    <Redo2 className="w-4 h-4" />
+                </button>
+                <button onClick={() => setIsHistoryOpen(!isHistoryOpen)} className={`p-2 rounded-xl transition-colors ${isHistoryOpen ? 'bg-blue-500/10 text-blue-500' : 'hover:bg-gray-100 dark:hover:bg-gray-800 text-gray-400'}`} title="Version History">
+                    <History className="w-4 h-4" />
+                </button>
+                {isHistoryOpen && activeDataset && (
+                    <VersionHistoryPanel
+                        history={activeDataset.history}
+                        currentVersion={activeDataset.version}
+                        onJump={onJumpToVersion}
+                        onClose={() => setIsHistoryOpen(false)}
+                    />
+                )}
+             </div>
+             <div ref={filterBuilderRef} className="relative">
+                <button onClick={() => setIsFilterBuilderOpen(!isFilterBuilderOpen)} className={`relative p-2 rounded-xl transition-colors ${isFilterBuilderOpen || filterConditionCount > 0 ? 'bg-blue-500/10 text-blue-500' : 'hover:bg-gray-100 dark:hover:bg-gray-800 text-gray-400'}`} title="Filter Builder">
+                    <SlidersHorizontal className="w-4 h-4" />
+                    {filterConditionCount > 0 && (
+                        <span className="absolute -top-1 -right-1 min-w-[16px] h-4 px-1 rounded-full bg-blue-600 text-white text-[9px] font-bold flex items-center justify-center">{filterConditionCount}</span>
+                    )}
+                </button>
+                {isFilterBuilderOpen && (
+                    <FilterBuilderPanel
+                        filter={advancedFilter}
+                        columns={columnMeta}
+                        problems={compiledFilter.problems}
+                        matchCount={filteredIndices.length}
+                        totalRows={data.rowCount}
+                        defaultName={`${activeDataset?.name ?? 'Dataset'} filtered`}
+                        onChange={setAdvancedFilter}
+                        onSaveAsDataset={handleSaveFilteredView}
+                        onClose={() => setIsFilterBuilderOpen(false)}
+                    />
+                )}
+             </div>
+             <div ref={validationRef} className="relative">
+                <button onClick={() => setIsValidationOpen(!isValidationOpen)} className={`relative p-2 rounded-xl transition-colors ${isValidationOpen || showInvalidOnly ? 'bg-blue-500/10 text-blue-500' : 'hover:bg-gray-100 dark:hover:bg-gray-800 text-gray-400'}`} title="Validation Rules">
+                    <ShieldCheck className="w-4 h-4" />
+                    {validation.invalidRowCount > 0 && (
+                        <span className="absolute -top-1 -right-1 min-w-[16px] h-4 px-1 rounded-full bg-red-500 text-white text-[9px] font-bold flex items-center justify-center">{validation.invalidRowCount > 99 ? '99+' : validation.invalidRowCount}</span>
+                    )}
+                </button>
+                {isValidationOpen && (
+                    <ValidationPanel
+                        rules={validationRules}
+                        report={validation}
+                        columns={columnMeta}
+                        datasets={datasets}
+                        activeDatasetId={activeDatasetId}
+                        showInvalidOnly={showInvalidOnly}
+                        onToggleInvalidOnly={() => setShowInvalidOnly(!showInvalidOnly)}
+                        onChange={onChangeValidationRules}
+                        onClose={() => setIsValidationOpen(false)}
+                    />
+                )}
+             </div>
+             <div ref={recipesRef} className="relative">
+                <button onClick={() => setIsRecipesOpen(!isRecipesOpen)} className={`p-2 rounded-xl transition-colors ${isRecipesOpen ? 'bg-blue-500/10 text-blue-500' : 'hover:bg-gray-100 dark:hover:bg-gray-800 text-gray-400'}`} title="Recipes">
+                    <ScrollText className="w-4 h-4" />
+                </button>
+                {isRecipesOpen && activeDataset && (
+                    <RecipePanel
+                        recipes={recipes}
+                        stepCount={datasetSteps(activeDataset).length}
+                        onSave={onSaveRecipe}
+                        onApply={onApplyRecipe}
+                        onDelete={onDeleteRecipe}
+                        onImport={onImportRecipe}
+                        onClose={() => setIsRecipesOpen(false)}
+                    />
+                )}
+             </div>
              <div className="relative">
                 <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-gray-400 dark:text-gray-500" />
                 <input 
@@ -286,9 +633,42 @@ export const DataStudio: React.FC<DataStudioProps> = ({ data, headers: initialHe
                     className="bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-transparent rounded-xl py-1.5 pl-9 pr-4 text-sm focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 text-gray-900 dark:text-white w-64 placeholder-gray-400 dark:placeholder-gray-600 outline-none transition-all"
                 />
             </div>
+            <button onClick={() => setCleanColumn('')} className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-xl text-gray-400 transition-colors" title="Clean Data">
+                <Wand2 className="w-4 h-4" />
+            </button>
+            <button onClick={() => setFormulaColumn('')} className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-xl text-gray-400 transition-colors" title="Add Computed Column">
+                <FunctionSquare className="w-4 h-4" />
+            </button>
+            <button onClick={() => setIsReshapeOpen(true)} className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-xl text-gray-400 transition-colors" title="Reshape Data">
+                <Shuffle className="w-4 h-4" />
+            </button>
+            <button onClick={() => setProfileColumnName('')} disabled={data.rowCount === 0} className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-xl text-gray-400 disabled:opacity-30 disabled:cursor-not-allowed transition-colors" title="Column Profile">
+                <ScanSearch className="w-4 h-4" />
+            </button>
+            <button onClick={() => setIsPivotOpen(true)} disabled={data.rowCount === 0} className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-xl text-gray-400 disabled:opacity-30 disabled:cursor-not-allowed transition-colors" title="Pivot Table">
+                <Table2 className="w-4 h-4" />
+            </button>
+            <button onClick={onCombineDatasets} disabled={datasets.length < 2} className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-xl text-gray-400 disabled:opacity-30 disabled:cursor-not-allowed transition-colors" title="Join or Union Datasets">
+                <Merge className="w-4 h-4" />
+            </button>
+            <div ref={exportRef} className="relative">
+                <button onClick={() => setIsExportOpen(!isExportOpen)} disabled={data.rowCount === 0} className={`p-2 rounded-xl transition-colors disabled:opacity-30 disabled:cursor-not-allowed ${isExportOpen ? 'bg-blue-500/10 text-blue-500' : 'hover:bg-gray-100 dark:hover:bg-gray-800 text-gray-400'}`} title="Export Dataset">
+                    <Download className="w-4 h-4" />
+                </button>
+                {isExportOpen && (
+                    <ExportPanel
+                        rowCount={sortedIndices.length}
+                        totalRows={data.rowCount}
+                        columnCount={orderedHeaders.length}
+                        defaultName={activeDataset?.name ?? 'dataset'}
+                        onExport={handleExport}
+                        onClose={() => setIsExportOpen(false)}
+                    />
+                )}
+            </div>
             <label className="cursor-pointer p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-xl text-gray-400 transition-colors" title="Upload New Dataset">
                 <Upload className="w-4 h-4" />
-                <input type="file" className="hidden" accept=".csv,.json" onChange={handleFileChange} />
+                <input type="file" className="hidden" accept={IMPORT_ACCEPT} onChange={handleFileChange} />
             </label>
         </div>
       </div>
@@ -296,7 +676,12 @@ export const DataStudio: React.FC<DataStudioProps> = ({ data, headers: initialHe
       {columnStats.length > 0 && (
         <div className="bg-gray-50/50 dark:bg-gray-900/50 border-b border-gray-100 dark:border-gray-800 py-4 px-6 overflow-x-auto custom-scrollbar flex gap-4 shrink-0">
           {columnStats.map((stat) => (
-            <div key={stat.header} className="min-w-[300px] bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 p-4 rounded-2xl shadow-sm hover:shadow-md transition-shadow group">
+            <div
+              key={stat.header}
+              onClick={() => setProfileColumnName(stat.header)}
+              className="min-w-[300px] bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 p-4 rounded-2xl shadow-sm hover:shadow-md hover:border-blue-500/50 transition-all group cursor-pointer"
+              title="Open the full column profile"
+            >
               <div className="flex items-center justify-between mb-3">
                 <div className="flex items-center gap-2">
                     <div className="p-1.5 bg-blue-500/10 text-blue-600 dark:text-blue-400 rounded-lg group-hover:scale-110 transition-transform">
@@ -347,6 +732,13 @@ export const DataStudio: React.FC<DataStudioProps> = ({ data, headers: initialHe
                   </p>
                 </div>
               </div>
+              {stat.spark.length > 1 && (
+                <div className="flex items-end gap-px h-6 mt-3">
+                  {stat.spark.map((count, i) => (
+                    <div key={i} className="flex-1 bg-blue-500/40 group-hover:bg-blue-500/60 rounded-t-sm transition-colors" style={{ height: `${Math.max(count > 0 ? 8 : 0, (count / Math.max(...stat.spark)) * 100)}%` }} />
+                  ))}
+                </div>
+              )}
               <div className="mt-3 pt-2 border-t border-gray-100 dark:border-gray-700 flex justify-between items-center text-[9px] text-gray-400 font-bold uppercase tracking-widest">
                   <span>Coverage</span>
                   <span>{((stat.validCount / stat.totalRows) * 100).toFixed(1)}%</span>
@@ -356,16 +748,20 @@ export const DataStudio: React.FC<DataStudioProps> = ({ data, headers: initialHe
         </div>
       )}
 
-      <div className="flex-1 overflow-auto relative custom-scrollbar bg-white dark:bg-gray-900">
+      <div ref={gridRef} className="flex-1 overflow-auto relative custom-scrollbar bg-white dark:bg-gray-900">
         <table className="w-full text-left border-collapse table-fixed min-w-full">
           <thead className="bg-gray-50/90 dark:bg-gray-800/90 backdrop-blur-md sticky top-0 z-20 shadow-sm">
             <tr>
-              {orderedHeaders.map((h) => {
+              {displayHeaders.map((h) => {
                 const stat = columnStats.find(s => s.header === h);
+                const meta = columnMeta.find(c => c.name === h);
                 const isFiltered = columnFilters[h] && columnFilters[h].size > 0;
-                const width = columnWidths[h] || 180;
+                const width = columnWidths[h] || DEFAULT_COLUMN_WIDTH;
                 const isDragged = draggedHeader === h;
                 const isDragOver = dragOverHeader === h;
+                const isPinned = h in pinnedOffsets;
+                const sortIndex = sort.findIndex(k => k.column === h);
+                const sortKey = sort[sortIndex];
                 
                 return (
                   <th 
@@ -374,18 +770,39 @@ export const DataStudio: React.FC<DataStudioProps> = ({ data, headers: initialHe
                     onDragStart={() => onDragStart(h)}
                     onDragOver={(e) => onDragOver(e, h)}
                     onDrop={() => onDrop(h)}
-                    className={`px-6 py-4 border-b border-gray-200 dark:border-gray-700 whitespace-nowrap group relative transition-all duration-200
+                    className={`px-6 py-4 border-b border-gray-200 dark:border-gray-700 whitespace-nowrap group transition-all duration-200
+                      ${isPinned ? 'sticky z-10 bg-gray-50 dark:bg-gray-800' : 'relative'}
                       ${isDragged ? 'opacity-30 bg-gray-100 dark:bg-gray-700' : 'opacity-100'}
                       ${isDragOver ? 'border-r-4 border-r-blue-500' : ''}`}
-                    style={{ width: `${width}px`, minWidth: '100px' }}
+                    style={{ width: `${width}px`, minWidth: '100px', left: isPinned ? pinnedOffsets[h] : undefined }}
                   >
                     <div className="flex items-center justify-between gap-2">
                       <div className="flex items-center gap-2 overflow-hidden flex-1">
                         <GripHorizontal className="w-3 h-3 text-gray-300 dark:text-gray-600 opacity-0 group-hover:opacity-100 cursor-grab active:cursor-grabbing transition-opacity shrink-0" />
-                        <div className="shrink-0">{stat && getHeaderIcon(stat.type)}</div>
-                        <span className={`text-[10px] font-bold uppercase tracking-widest truncate transition-colors ${isFiltered ? 'text-blue-600 dark:text-blue-400' : 'text-gray-400 dark:text-gray-500'}`}>
-                          {h}
-                        </span>
+                        <button
+                          onClick={() => setTypeMenuCol(typeMenuCol === h ? null : h)}
+                          className="shrink-0 p-0.5 rounded hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+                          title="Change column type"
+                        >
+                          {stat && getHeaderIcon(stat.type)}
+                        </button>
+                        <button
+                          onClick={(e) => handleSort(h, e.shiftKey)}
+                          className={`flex items-center gap-1 min-w-0 text-[10px] font-bold uppercase tracking-widest transition-colors hover:text-gray-600 dark:hover:text-gray-300 ${isFiltered || sortKey ? 'text-blue-600 dark:text-blue-400' : 'text-gray-400 dark:text-gray-500'}`}
+                          title="Sort (Shift+click to add to the sort)"
+                        >
+                          <span className="truncate">{h}</span>
+                          {sortKey && (sortKey.direction === 'asc' ? <ArrowUp className="w-3 h-3 shrink-0" /> : <ArrowDown className="w-3 h-3 shrink-0" />)}
+                          {sortKey && sort.length > 1 && <span className="text-[9px] shrink-0">{sortIndex + 1}</span>}
+                        </button>
+                        {isPinned && <Pin className="w-3 h-3 text-blue-400 shrink-0" />}
+                        {meta?.formula && (
+                          <span title={meta.formulaError ?? `= ${meta.formula}`} className="shrink-0">
+                            {meta.formulaError
+                              ? <AlertCircle className="w-3 h-3 text-amber-500" />
+                              : <FunctionSquare className="w-3 h-3 text-blue-400" />}
+                          </span>
+                        )}
                       </div>
                       <button 
                         onClick={() => setActiveFilterCol(activeFilterCol === h ? null : h)}
@@ -395,6 +812,45 @@ export const DataStudio: React.FC<DataStudioProps> = ({ data, headers: initialHe
                       </button>
                     </div>
 
+                    {typeMenuCol === h && (
+                      <div ref={typeMenuRef} className="fixed mt-1 w-44 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl shadow-2xl z-50 animate-fade-in p-2">
+                        <span className="block px-2 pb-1.5 text-[10px] font-bold text-gray-400 uppercase tracking-widest">Column Type</span>
+                        {COLUMN_TYPES.map(({ type, label }) => (
+                          <button
+                            key={type}
+                            onClick={() => { if (stat?.type !== type) onColumnTypeChange(h, type); setTypeMenuCol(null); }}
+                            className={`w-full flex items-center gap-2 px-2 py-1.5 rounded-lg text-xs text-left transition-colors ${stat?.type === type ? 'bg-blue-500/10 text-blue-600 dark:text-blue-400 font-semibold' : 'text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700/50'}`}
+                          >
+                            {getHeaderIcon(type)}
+                            <span>{label}</span>
+                          </button>
+                        ))}
+                        <button
+                          onClick={() => { setCleanColumn(h); setTypeMenuCol(null); }}
+                          className="w-full flex items-center gap-2 px-2 py-1.5 mt-1 pt-2 border-t border-gray-100 dark:border-gray-700 text-xs text-left text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors"
+                        >
+                          <Wand2 className="w-3 h-3 text-blue-500" />
+                          <span>Clean column…</span>
+                        </button>
+                        <button
+                          onClick={() => { togglePinned(h); setTypeMenuCol(null); }}
+                          className="w-full flex items-center gap-2 px-2 py-1.5 text-xs text-left text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors"
+                        >
+                          {isPinned ? <PinOff className="w-3 h-3 text-blue-500" /> : <Pin className="w-3 h-3 text-blue-500" />}
+                          <span>{isPinned ? 'Unpin column' : 'Pin to left'}</span>
+                        </button>
+                        {meta?.formula && (
+                          <button
+                            onClick={() => { setFormulaColumn(h); setTypeMenuCol(null); }}
+                            className="w-full flex items-center gap-2 px-2 py-1.5 text-xs text-left text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors"
+                          >
+                            <FunctionSquare className="w-3 h-3 text-blue-500" />
+                            <span>Edit formula…</span>
+                          </button>
+                        )}
+                      </div>
+                    )}
+
                     <div onMouseDown={(e) => onResizeStart(e, h)} className="absolute right-0 top-0 bottom-0 w-1 cursor-col-resize hover:bg-blue-500/50 active:bg-blue-600 transition-colors z-30" />
 
                     {activeFilterCol === h && (
@@ -411,7 +867,7 @@ export const DataStudio: React.FC<DataStudioProps> = ({ data, headers: initialHe
                             />
                         </div>
                         <div className="max-h-48 overflow-y-auto mb-3 custom-scrollbar flex flex-col gap-1">
-                            {uniqueColumnValues[h]
+                            {filterValues
                                 .filter(val => String(val).toLowerCase().includes(filterSearch.toLowerCase()))
                                 .map(val => {
                                     const isSelected = columnFilters[h]?.has(val);
@@ -435,44 +891,119 @@ export const DataStudio: React.FC<DataStudioProps> = ({ data, headers: initialHe
               })}
             </tr>
           </thead>
-          <tbody className="divide-y divide-gray-100 dark:divide-gray-800">
-            {paginatedData.map((row, idx) => (
-              <tr key={idx} className="hover:bg-blue-50/40 dark:hover:bg-gray-800/40 transition-colors group">
-                {orderedHeaders.map(h => (
-                  <td key={`${idx}-${h}`} className="px-6 py-3 whitespace-nowrap overflow-hidden truncate text-sm text-gray-700 dark:text-gray-300 border-b border-gray-100 dark:border-gray-800 font-mono text-xs">
-                    {row[h] !== null && row[h] !== undefined && row[h] !== '' ? (
-                      typeof row[h] === 'number' ? (
-                        <span className="text-blue-600 dark:text-blue-400 font-semibold">{row[h] as number}</span>
-                      ) : String(row[h])
-                    ) : (
-                      <span className="text-gray-400 dark:text-gray-600 italic">null</span>
-                    )}
-                  </td>
-                ))}
-              </tr>
-            ))}
+          <tbody>
+            {paddingTop > 0 && <tr aria-hidden style={{ height: paddingTop }} />}
+            {visibleRows.map((row, idx) => {
+              const index = visibleIndices[idx];
+              return (
+                <tr key={index} className="hover:bg-blue-50/40 dark:hover:bg-gray-800/40 transition-colors group" style={{ height: ROW_HEIGHT }}>
+                  {displayHeaders.map(h => {
+                    const isPinned = h in pinnedOffsets;
+                    const isEditing = editor?.index === index && editor.column === h;
+                    const violations = validation.invalidRows[index] ? cellViolations(validation, h, index) : [];
+                    return (
+                      <td
+                        key={h}
+                        onDoubleClick={() => startEditing(index, h, row[h])}
+                        title={violations.length > 0 ? `Breaks: ${violations.join('; ')}` : undefined}
+                        className={`px-6 py-0 whitespace-nowrap overflow-hidden truncate text-sm text-gray-700 dark:text-gray-300 border-b border-gray-100 dark:border-gray-800 font-mono text-xs
+                          ${isPinned ? 'sticky z-10' : ''}
+                          ${violations.length > 0 ? `ring-1 ring-inset ring-red-400/60 ${isPinned ? 'bg-red-50 dark:bg-red-950' : 'bg-red-500/10'}` : isPinned ? 'bg-white dark:bg-gray-900' : ''}`}
+                        style={isPinned ? { left: pinnedOffsets[h] } : undefined}
+                      >
+                        {isEditing ? (
+                          <input
+                            autoFocus
+                            value={editor.draft}
+                            onChange={(e) => setEditor({ ...editor, draft: e.target.value, error: undefined })}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter') commitEdit();
+                              else if (e.key === 'Escape') setEditor(null);
+                            }}
+                            onBlur={() => commitEdit(true)}
+                            title={editor.error}
+                            className={`w-full bg-white dark:bg-gray-800 border rounded px-2 py-1 text-xs font-mono text-gray-900 dark:text-gray-100 outline-none focus:ring-1 ${editor.error ? 'border-red-500 focus:ring-red-500' : 'border-blue-500 focus:ring-blue-500'}`}
+                          />
+                        ) : row[h] !== null && row[h] !== undefined && row[h] !== '' ? (
+                          typeof row[h] === 'number' ? (
+                            <span className="text-blue-600 dark:text-blue-400 font-semibold">{row[h] as number}</span>
+                          ) : String(row[h])
+                        ) : (
+                          <span className="text-gray-400 dark:text-gray-600 italic">null</span>
+                        )}
+                      </td>
+                    );
+                  })}
+                </tr>
+              );
+            })}
+            {paddingBottom > 0 && <tr aria-hidden style={{ height: paddingBottom }} />}
           </tbody>
         </table>
       </div>
 
       <div className="h-12 border-t border-gray-100 dark:border-gray-800 bg-white dark:bg-gray-900 flex items-center justify-between px-6 shrink-0 z-10 transition-colors shadow-inner">
         <span className="text-[10px] font-bold text-gray-400 dark:text-gray-500 uppercase tracking-widest">
-            {filteredData.length === 0 ? 'No results found' : `Showing records ${((currentPage - 1) * rowsPerPage) + 1} to ${Math.min(currentPage * rowsPerPage, filteredData.length)} of ${filteredData.length}`}
+            {sortedIndices.length === 0 ? 'No results found' : `Showing records ${first + 1} to ${last} of ${sortedIndices.length}`}
         </span>
-        <div className="flex items-center gap-6">
-          <div className="flex items-center gap-1 text-[10px] font-bold text-gray-400 dark:text-gray-600 uppercase tracking-widest">
-            <ArrowRightLeft className="w-3 h-3" /> Reorder columns by dragging headers
+        {editor?.error ? (
+          <span className="flex items-center gap-1 text-[10px] font-bold text-red-500 uppercase tracking-widest">
+            <AlertCircle className="w-3 h-3" /> {editor.error}
+          </span>
+        ) : (
+          <div className="flex items-center gap-6 text-[10px] font-bold text-gray-400 dark:text-gray-600 uppercase tracking-widest">
+            <span className="flex items-center gap-1"><ArrowRightLeft className="w-3 h-3" /> Reorder columns by dragging headers</span>
+            <span>Shift+click headers to sort by several columns</span>
+            <span>Double-click a cell to edit</span>
           </div>
-          <div className="flex gap-2">
-            <button disabled={currentPage === 1} onClick={() => setCurrentPage(c => c - 1)} className="p-1.5 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 text-gray-400 dark:text-gray-500 disabled:opacity-30 disabled:cursor-not-allowed transition-colors border border-transparent hover:border-gray-200 dark:hover:border-gray-700">
-              <ChevronLeft className="w-4 h-4" />
-            </button>
-            <button disabled={currentPage >= totalPages || totalPages === 0} onClick={() => setCurrentPage(c => c + 1)} className="p-1.5 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 text-gray-400 dark:text-gray-500 disabled:opacity-30 disabled:cursor-not-allowed transition-colors border border-transparent hover:border-gray-200 dark:hover:border-gray-700">
-              <ChevronRight className="w-4 h-4" />
-            </button>
-          </div>
-        </div>
+        )}
       </div>
+
+      {cleanColumn !== null && (
+        <CleanDataModal
+          columns={columnMeta}
+          initialColumn={cleanColumn || undefined}
+          onApply={(step) => { onApplyStep(step); setCleanColumn(null); }}
+          onClose={() => setCleanColumn(null)}
+        />
+      )}
+
+      {formulaColumn !== null && (
+        <ComputedColumnModal
+          data={data}
+          editColumn={columnMeta.find(c => c.name === formulaColumn)}
+          onApply={(step) => { onApplyStep(step); setFormulaColumn(null); }}
+          onClose={() => setFormulaColumn(null)}
+        />
+      )}
+
+      {isReshapeOpen && (
+        <ReshapeModal
+          columns={columnMeta}
+          onApply={(step) => { onApplyStep(step); setIsReshapeOpen(false); }}
+          onClose={() => setIsReshapeOpen(false)}
+        />
+      )}
+
+      {profileColumnName !== null && (
+        <ColumnProfileModal
+          data={data}
+          columns={columnMeta}
+          datasetName={activeDataset?.name ?? 'dataset'}
+          initialColumn={profileColumnName || undefined}
+          onClose={() => setProfileColumnName(null)}
+        />
+      )}
+
+      {isPivotOpen && (
+        <PivotTableModal
+          data={data}
+          columns={columnMeta}
+          datasetName={activeDataset?.name ?? 'dataset'}
+          onSendToChart={(type, result) => { onPivotToChart(type, result); setIsPivotOpen(false); }}
+          onClose={() => setIsPivotOpen(false)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,234 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { TerminalSquare, Play, Database, ChevronRight, ChevronDown, Save, AlertTriangle, Hash, Type, Calendar, CheckCircle2, Loader2 } from 'lucide-react';
+import { ColumnType, Dataset } from '../types';
+import { getRows } from '../utils/dataTable';
+import { QueryResult, sqlIdentifier } from '../utils/sql';
+import { runQuery } from '../services/dataWorkerClient';
+
+interface SqlConsoleProps {
+  datasets: Dataset[];
+  query: string;
+  onQueryChange: (query: string) => void;
+  onSaveResult: (name: string, result: QueryResult) => void;
+}
+
+// Large results are kept whole for saving but only the first rows are rendered
+const PREVIEW_ROWS = 500;
+
+const typeIcon = (type: ColumnType) => {
+  switch (type) {
+    case 'number': return <Hash className="w-3 h-3 text-blue-500" />;
+    case 'boolean': return <CheckCircle2 className="w-3 h-3 text-green-500" />;
+    case 'date': return <Calendar className="w-3 h-3 text-purple-500" />;
+    default: return <Type className="w-3 h-3 text-amber-500" />;
+  }
+};
+
+export const SqlConsole: React.FC<SqlConsoleProps> = ({ datasets, query, onQueryChange, onSaveResult }) => {
+  const [result, setResult] = useState<{ data: QueryResult; elapsed: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [saveName, setSaveName] = useState('Query result');
+  const [isRunning, setIsRunning] = useState(false);
+  const editorRef = useRef<HTMLTextAreaElement>(null);
+
+  const previewRows = useMemo(() => {
+    if (!result) return [];
+    const table = result.data.table;
+    return getRows(table, Array.from({ length: Math.min(PREVIEW_ROWS, table.rowCount) }, (_, i) => i));
+  }, [result]);
+
+  // Queries run in the data worker so long joins don't freeze the page
+  const handleRun = async () => {
+    if (isRunning) return;
+    setIsRunning(true);
+    const start = performance.now();
+    try {
+      const data = await runQuery(query, datasets);
+      setResult({ data, elapsed: performance.now() - start });
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Query failed');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  // Inserts at the cursor so table and column names can be clicked into the query
+  const insert = (text: string) => {
+    const el = editorRef.current;
+    const start = el?.selectionStart ?? query.length;
+    const end = el?.selectionEnd ?? query.length;
+    onQueryChange(query.slice(0, start) + text + query.slice(end));
+    requestAnimationFrame(() => {
+      el?.focus();
+      el?.setSelectionRange(start + text.length, start + text.length);
+    });
+  };
+
+  const toggleDataset = (id: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-white dark:bg-gray-900 transition-colors overflow-hidden">
+      <div className="h-14 border-b border-gray-100 dark:border-gray-800 flex items-center justify-between px-6 bg-white dark:bg-gray-900 shrink-0">
+        <h2 className="text-gray-900 dark:text-white font-bold flex items-center gap-2">
+          <TerminalSquare className="w-4 h-4 text-blue-500" />
+          SQL Console
+        </h2>
+        <div className="flex items-center gap-3">
+          <span className="text-[10px] font-bold text-gray-400 dark:text-gray-500 uppercase tracking-widest">Ctrl + Enter to run</span>
+          <button
+            onClick={handleRun}
+            disabled={!query.trim() || datasets.length === 0 || isRunning}
+            className="flex items-center gap-2 px-4 py-1.5 rounded-lg text-sm font-medium bg-blue-600 hover:bg-blue-500 text-white shadow-md disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+          >
+            {isRunning ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Play className="w-3.5 h-3.5" />} {isRunning ? 'Running' : 'Run'}
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 flex min-h-0">
+        <aside className="w-64 shrink-0 border-r border-gray-100 dark:border-gray-800 overflow-y-auto custom-scrollbar p-3">
+          <span className="block px-2 pb-2 text-[10px] font-bold text-gray-400 uppercase tracking-widest">Tables</span>
+          {datasets.length === 0 && <p className="px-2 text-xs text-gray-400">Load a dataset in Data Studio to query it.</p>}
+          {datasets.map(d => (
+            <div key={d.id} className="mb-1">
+              <div className="flex items-center gap-1 px-1 py-1 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors">
+                <button onClick={() => toggleDataset(d.id)} className="p-0.5 text-gray-400">
+                  {expanded.has(d.id) ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+                </button>
+                <button onClick={() => insert(sqlIdentifier(d.name))} className="flex-1 min-w-0 flex items-center gap-2 text-left" title="Insert table name">
+                  <Database className="w-3.5 h-3.5 text-blue-500 shrink-0" />
+                  <span className="text-xs font-semibold text-gray-700 dark:text-gray-200 truncate">{d.name}</span>
+                  <span className="ml-auto text-[10px] text-gray-400 shrink-0">{d.table.rowCount}</span>
+                </button>
+              </div>
+              {expanded.has(d.id) && (
+                <div className="ml-6 border-l border-gray-100 dark:border-gray-800 pl-2">
+                  {d.columns.map(c => (
+                    <button
+                      key={c.name}
+                      onClick={() => insert(sqlIdentifier(c.name))}
+                      className="w-full flex items-center gap-2 px-1.5 py-1 rounded-md text-left text-[11px] font-mono text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
+                      title="Insert column name"
+                    >
+                      {typeIcon(c.type)}
+                      <span className="truncate">{c.name}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </aside>
+
+        <div className="flex-1 flex flex-col min-w-0">
+          <div className="p-4 border-b border-gray-100 dark:border-gray-800 shrink-0">
+            <textarea
+              ref={editorRef}
+              value={query}
+              onChange={(e) => onQueryChange(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+                  e.preventDefault();
+                  handleRun();
+                }
+              }}
+              rows={8}
+              spellCheck={false}
+              placeholder={'SELECT region, SUM(revenue) AS total\nFROM sales\nGROUP BY region\nORDER BY total DESC'}
+              className="w-full bg-gray-50 dark:bg-gray-950 border border-gray-200 dark:border-gray-700 rounded-xl px-4 py-3 text-sm font-mono text-gray-900 dark:text-gray-200 focus:ring-1 focus:ring-blue-500 outline-none resize-y transition-colors"
+            />
+            {error && (
+              <div className="mt-3 flex items-start gap-2 px-3 py-2 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-xs text-red-600 dark:text-red-400">
+                <AlertTriangle className="w-3.5 h-3.5 shrink-0 mt-0.5" />
+                <span className="font-mono">{error}</span>
+              </div>
+            )}
+          </div>
+
+          {result ? (
+            <>
+              <div className="h-12 border-b border-gray-100 dark:border-gray-800 flex items-center justify-between gap-4 px-4 shrink-0">
+                <div className="flex items-center gap-3 min-w-0">
+                  <span className="text-[10px] font-bold text-gray-400 dark:text-gray-500 uppercase tracking-widest whitespace-nowrap">
+                    {result.data.table.rowCount} rows · {result.data.table.headers.length} columns · {Math.round(result.elapsed)} ms
+                  </span>
+                  {result.data.warning && (
+                    <span className="flex items-center gap-1 text-[11px] text-amber-500 truncate" title={result.data.warning}>
+                      <AlertTriangle className="w-3 h-3 shrink-0" /> {result.data.warning}
+                    </span>
+                  )}
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <input
+                    type="text"
+                    value={saveName}
+                    onChange={(e) => setSaveName(e.target.value)}
+                    className="w-44 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg px-3 py-1.5 text-xs text-gray-900 dark:text-gray-200 focus:ring-1 focus:ring-blue-500 outline-none transition-colors"
+                  />
+                  <button
+                    onClick={() => onSaveResult(saveName, result.data)}
+                    disabled={result.data.table.headers.length === 0}
+                    className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-200 hover:bg-blue-500/10 hover:text-blue-600 disabled:opacity-40 transition-colors"
+                    title="Save the full result as a new dataset"
+                  >
+                    <Save className="w-3.5 h-3.5" /> Save as Dataset
+                  </button>
+                </div>
+              </div>
+              <div className="flex-1 overflow-auto custom-scrollbar">
+                <table className="w-full text-left border-collapse">
+                  <thead className="bg-gray-50/90 dark:bg-gray-800/90 backdrop-blur-md sticky top-0 z-10">
+                    <tr>
+                      {result.data.columns.map(c => (
+                        <th key={c.name} className="px-4 py-2.5 border-b border-gray-200 dark:border-gray-700 whitespace-nowrap">
+                          <span className="flex items-center gap-1.5 text-[10px] font-bold uppercase tracking-widest text-gray-400 dark:text-gray-500">
+                            {typeIcon(c.type)} {c.name}
+                          </span>
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {previewRows.map((row, idx) => (
+                      <tr key={idx} className="hover:bg-blue-50/40 dark:hover:bg-gray-800/40 transition-colors">
+                        {result.data.table.headers.map(h => (
+                          <td key={h} className="px-4 py-2 whitespace-nowrap max-w-xs truncate font-mono text-xs text-gray-700 dark:text-gray-300 border-b border-gray-100 dark:border-gray-800">
+                            {row[h] === null || row[h] === '' ? (
+                              <span className="text-gray-400 dark:text-gray-600 italic">null</span>
+                            ) : typeof row[h] === 'number' ? (
+                              <span className="text-blue-600 dark:text-blue-400 font-semibold">{row[h] as number}</span>
+                            ) : String(row[h])}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {result.data.table.rowCount > PREVIEW_ROWS && (
+                  <p className="px-4 py-3 text-[11px] text-gray-400">
+                    Showing the first {PREVIEW_ROWS} of {result.data.table.rowCount} rows. Save the result to work with all of them.
+                  </p>
+                )}
+              </div>
+            </>
+          ) : (
+            <div className="flex-1 flex items-center justify-center p-8">
+              <p className="text-sm text-gray-400 dark:text-gray-500 text-center max-w-sm">
+                Query your datasets with SELECT, WHERE, JOIN, GROUP BY, HAVING, ORDER BY and LIMIT. Formula functions such as YEAR(), ROUND() and COALESCE() work too.
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
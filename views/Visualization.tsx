@@ -1,15 +1,21 @@
 import React, { useMemo, useState } from 'react';
 import { 
-  BarChart, Bar, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, 
-  ScatterChart, Scatter, PieChart, Pie, Cell, AreaChart, Area, Label, ZAxis, ComposedChart
+  Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, 
+  ScatterChart, Scatter, PieChart, Pie, Cell, Area, Label, ZAxis, ComposedChart, ReferenceLine
 } from 'recharts';
-import { Download, Plus, BarChart2, Palette, MessageSquare, Calculator, PanelLeftClose, PanelLeftOpen, Check } from 'lucide-react';
-import { ChartConfig, DataRow, ThemeType, AggregationType } from '../types';
-import { processChartData } from '../utils/chartUtils';
+import { Download, Plus, BarChart2, Palette, MessageSquare, Calculator, PanelLeftClose, PanelLeftOpen, Check, Loader2, ListFilter, CalendarClock, X } from 'lucide-react';
+import { ChartConfig, ChartType, ColumnMeta, CorrelationMethod, DataTable, Dataset, ThemeType, AggregationType, StackMode, LimitMode, TimeGrain, Orientation, SeriesMark, SeriesStyle, AxisSide } from '../types';
+import { useChartData } from '../hooks/useChartData';
+import { AGGREGATION_OPTIONS, DEFAULT_MAX_SERIES, LIMIT_MODES, SERIES_MARKS, STACK_MODES, describeSeriesTruncation, describeTruncation, hasChartFields, hasMixedSeries, isPercentStacked, resolveLimit, resolveSeriesLayout, resolveSeriesStyle, supportsCombo, supportsSeries, supportsStacking } from '../utils/chartUtils';
+import { CORRELATION_METHODS, MAX_CORRELATION_COLUMNS, linearRegression } from '../utils/correlation';
+import { getNumericValues } from '../utils/dataTable';
+import { DEFAULT_TIME_ZONE, TIME_GRAINS, timeZoneOptions } from '../utils/timeBuckets';
 
 interface VisualizationProps {
-  data: DataRow[];
+  data: DataTable;
+  datasets: Dataset[];
   headers: string[];
+  columnMeta: ColumnMeta[];
   config: ChartConfig;
   isDarkMode: boolean;
   setConfig: (config: ChartConfig) => void;
@@ -37,13 +43,24 @@ const interpolateColor = (minColor: number[], maxColor: number[], factor: number
     return `rgb(${r},${g},${b})`;
 };
 
+// Correlations run from -1 to 1, so negative values get their own (red) scale
+const divergingColor = (value: number, isDarkMode: boolean) => {
+    const factor = Math.min(1, Math.abs(value));
+    if (value < 0) {
+        return isDarkMode ? interpolateColor([254, 202, 202], [153, 27, 27], factor) : interpolateColor([254, 226, 226], [153, 27, 27], factor);
+    }
+    return isDarkMode ? interpolateColor([186, 230, 253], [30, 64, 175], factor) : interpolateColor([219, 234, 254], [30, 58, 138], factor);
+};
+
 const HeatmapRect = (props: any) => {
-    const { cx, cy, value, min, max, width = 40, height = 40, type, isDarkMode } = props;
+    const { cx, cy, value, min, max, width = 40, height = 40, type, isDarkMode, diverging } = props;
     if (!cx || !cy) return null;
     
     const range = max - min || 1;
     const factor = (value - min) / range;
-    const color = isDarkMode 
+    const color = diverging
+      ? divergingColor(value, isDarkMode)
+      : isDarkMode 
       ? interpolateColor([186, 230, 253], [30, 64, 175], factor)
       : interpolateColor([219, 234, 254], [30, 58, 138], factor);
     
@@ -119,7 +136,7 @@ const VennDiagram = ({ data, isDarkMode }: { data: any[], isDarkMode: boolean })
     );
 }
 
-export const Visualization: React.FC<VisualizationProps> = ({ data, headers, config, isDarkMode, setConfig, onAddToDashboard }) => {
+export const Visualization: React.FC<VisualizationProps> = ({ data, datasets, headers, columnMeta, config, isDarkMode, setConfig, onAddToDashboard }) => {
   const [isConfigOpen, setIsConfigOpen] = useState(true);
   const [addStatus, setAddStatus] = useState<'idle' | 'success'>('idle');
   
@@ -131,9 +148,91 @@ export const Visualization: React.FC<VisualizationProps> = ({ data, headers, con
     borderRadius: 8 
   }, [config.tooltip, isDarkMode]);
 
-  const chartData = useMemo(() => {
-    return processChartData(data, config);
-  }, [data, config]);
+  const { chartData, truncation, series, seriesTruncation, isLoading } = useChartData(data, config);
+  const hasFields = hasChartFields(config);
+  const limits = resolveLimit(config);
+  const isDateAxis = columnMeta.find(c => c.name === config.xAxisKey)?.type === 'date'
+    && ['bar', 'line', 'area', 'pie', 'doughnut'].includes(config.type);
+
+  // Fitted over every row rather than the plotted sample
+  const regression = useMemo(() => {
+    if (config.type !== 'scatter' || !config.trendline || !config.xAxisKey || !config.yAxisKeys?.[0]) return null;
+    return linearRegression(getNumericValues(data, config.xAxisKey), getNumericValues(data, config.yAxisKeys[0]));
+  }, [data, config.type, config.trendline, config.xAxisKey, config.yAxisKeys]);
+
+  const numericColumns = useMemo(() => columnMeta.filter(c => c.type === 'number').map(c => c.name), [columnMeta]);
+  const categoricalColumns = useMemo(() => columnMeta.filter(c => c.type === 'string' || c.type === 'boolean').map(c => c.name), [columnMeta]);
+  const correlationCandidates = config.correlationMethod === 'cramers_v' ? categoricalColumns : numericColumns;
+
+  const changeChartType = (type: ChartType) => {
+    if (type === 'correlation' && config.type !== 'correlation') {
+      setConfig({ ...config, type, yAxisKeys: numericColumns.slice(0, MAX_CORRELATION_COLUMNS), correlationMethod: 'pearson', zAxisKey: undefined });
+    } else if (config.type === 'correlation' && type !== 'correlation') {
+      setConfig({ ...config, type, yAxisKeys: config.yAxisKeys.slice(0, 1) });
+    } else {
+      setConfig({ ...config, type });
+    }
+  };
+
+  // Series drawn by bar, line and area charts: the Y columns, or one per value when split by a column
+  const styledKeys = series ?? config.yAxisKeys ?? [];
+  const isHorizontalChart = config.orientation === 'horizontal' && supportsStacking(config);
+
+  const updateSeriesStyle = (key: string, patch: SeriesStyle) => {
+    const next = { ...config, seriesStyles: { ...config.seriesStyles, [key]: { ...config.seriesStyles?.[key], ...patch } } };
+    // Lines and right-axis series can't share a 100% stack, so the chart falls back to plain stacking
+    setConfig(next.stackMode === 'percent' && hasMixedSeries(next) ? { ...next, stackMode: 'stacked' } : next);
+  };
+
+  const removeYColumn = (key: string) => {
+    const { [key]: _removed, ...seriesStyles } = config.seriesStyles ?? {};
+    setConfig({ ...config, yAxisKeys: config.yAxisKeys.filter(k => k !== key), seriesStyles });
+  };
+
+  const changeCorrelationMethod = (method: CorrelationMethod) => {
+    const wasCategorical = config.correlationMethod === 'cramers_v';
+    const isCategorical = method === 'cramers_v';
+    const columns = wasCategorical === isCategorical ? config.yAxisKeys : (isCategorical ? categoricalColumns : numericColumns).slice(0, MAX_CORRELATION_COLUMNS);
+    setConfig({ ...config, correlationMethod: method, yAxisKeys: columns });
+  };
+
+  const toggleCorrelationColumn = (column: string) => {
+    const keys = config.yAxisKeys.includes(column)
+      ? config.yAxisKeys.filter(k => k !== column)
+      : [...config.yAxisKeys, column].slice(0, MAX_CORRELATION_COLUMNS);
+    setConfig({ ...config, yAxisKeys: keys });
+  };
+
+  // Opens the pair behind a matrix cell: a scatter with a fitted line for numeric columns,
+  // a count heatmap for categorical ones
+  const openCorrelationPair = (cell: { x: string; y: string } | undefined) => {
+    if (!cell || cell.x === cell.y) return;
+    const categorical = config.correlationMethod === 'cramers_v';
+    setConfig({
+      ...config,
+      type: categorical ? 'heatmap' : 'scatter',
+      xAxisKey: cell.x,
+      yAxisKeys: [cell.y],
+      zAxisKey: undefined,
+      trendline: !categorical,
+      title: `${cell.y} vs ${cell.x}`
+    });
+  };
+
+  // Computed columns are listed after the source columns so they are easy to find
+  const columnOptions = useMemo(() => {
+    const computed = new Set(columnMeta.filter(c => c.formula).map(c => c.name));
+    const option = (h: string) => <option key={h} value={h}>{h}</option>;
+    if (computed.size === 0) return headers.map(option);
+    return (
+      <>
+        {headers.filter(h => !computed.has(h)).map(option)}
+        <optgroup label="Computed Columns">
+          {headers.filter(h => computed.has(h)).map(option)}
+        </optgroup>
+      </>
+    );
+  }, [headers, columnMeta]);
 
   const updateTooltipConfig = (updates: Partial<typeof tooltipConfig>) => {
     setConfig({
@@ -149,13 +248,22 @@ export const Visualization: React.FC<VisualizationProps> = ({ data, headers, con
   };
 
   const renderChart = () => {
+    if (chartData.length === 0 && isLoading) return null;
     if (chartData.length === 0) return <div className="text-gray-400 dark:text-gray-500">No data available for current configuration</div>;
 
-    const hasYAxis = config.yAxisKeys && config.yAxisKeys.length > 0;
+    // A series breakdown replaces the Y columns with one key per series value
+    const valueKeys = series ?? config.yAxisKeys ?? [];
+    const hasYAxis = valueKeys.length > 0;
+    const isPercent = isPercentStacked(config);
+    // Horizontal charts put the categories on the Y axis and the values along the X axis
+    const isHorizontal = config.orientation === 'horizontal' && supportsStacking(config);
     const xAxisLabel = config.xAxisKey;
-    const yAxisLabel = hasYAxis 
+    const measureLabel = config.yAxisKeys?.length
         ? `${config.yAxisKeys[0]} (${config.aggregation || 'sum'})`
         : 'Count';
+    const yAxisLabel = isPercent ? `% of ${measureLabel}` : measureLabel;
+    const formatValue = isPercent ? (v: number) => `${v}%` : formatNumber;
+    const valueDomain = isPercent ? [0, 100] : undefined;
 
     const axisStroke = isDarkMode ? "#9ca3af" : "#4b5563";
     const labelFill = isDarkMode ? "#6b7280" : "#374151";
@@ -171,34 +279,66 @@ export const Visualization: React.FC<VisualizationProps> = ({ data, headers, con
         padding: '8px 12px',
     };
 
-    // Shared UI components for all chart types
+    // Axes, tooltip and legend for bar, line and area charts
     const chartAxes = (
       <>
-         <CartesianGrid strokeDasharray="3 3" stroke={gridStroke} vertical={false} opacity={0.5} />
-         <XAxis 
-            dataKey="name" 
-            stroke={axisStroke} 
-            tick={{fill: axisStroke, fontSize: 11}}
-            tickLine={false}
-            height={50}
-            minTickGap={30}
-         >
-             <Label value={xAxisLabel} position="insideBottom" offset={-5} fill={labelFill} fontSize={12} />
-         </XAxis>
-         <YAxis 
-            stroke={axisStroke} 
-            tick={{fill: axisStroke, fontSize: 11}} 
-            tickFormatter={formatNumber}
-            tickLine={false}
-            width={60}
-         >
-             <Label value={yAxisLabel} angle={-90} position="insideLeft" style={{ textAnchor: 'middle' }} fill={labelFill} fontSize={12} />
-         </YAxis>
+         <CartesianGrid strokeDasharray="3 3" stroke={gridStroke} vertical={isHorizontal} horizontal={!isHorizontal} opacity={0.5} />
+         {isHorizontal ? (
+            <>
+                <XAxis 
+                    type="number"
+                    stroke={axisStroke} 
+                    tick={{fill: axisStroke, fontSize: 11}}
+                    tickFormatter={formatValue}
+                    domain={valueDomain}
+                    tickLine={false}
+                    height={50}
+                >
+                    <Label value={yAxisLabel} position="insideBottom" offset={-5} fill={labelFill} fontSize={12} />
+                </XAxis>
+                <YAxis 
+                    yAxisId="left"
+                    type="category"
+                    dataKey="name" 
+                    stroke={axisStroke} 
+                    tick={{fill: axisStroke, fontSize: 11}} 
+                    tickLine={false}
+                    width={100}
+                >
+                    <Label value={xAxisLabel} angle={-90} position="insideLeft" style={{ textAnchor: 'middle' }} fill={labelFill} fontSize={12} />
+                </YAxis>
+            </>
+         ) : (
+            <>
+                <XAxis 
+                    dataKey="name" 
+                    stroke={axisStroke} 
+                    tick={{fill: axisStroke, fontSize: 11}}
+                    tickLine={false}
+                    height={50}
+                    minTickGap={30}
+                >
+                    <Label value={xAxisLabel} position="insideBottom" offset={-5} fill={labelFill} fontSize={12} />
+                </XAxis>
+                <YAxis 
+                    yAxisId="left"
+                    stroke={axisStroke} 
+                    tick={{fill: axisStroke, fontSize: 11}} 
+                    tickFormatter={formatValue}
+                    domain={valueDomain}
+                    tickLine={false}
+                    width={60}
+                >
+                    <Label value={yAxisLabel} angle={-90} position="insideLeft" style={{ textAnchor: 'middle' }} fill={labelFill} fontSize={12} />
+                </YAxis>
+            </>
+         )}
          {tooltipConfig.show && (
             <Tooltip 
                 contentStyle={tooltipStyle}
                 itemStyle={{color: tooltipConfig.textColor, fontSize: '12px'}}
                 cursor={{fill: isDarkMode ? 'rgba(255,255,255,0.08)' : 'rgba(0,0,0,0.04)', radius: 4}}
+                formatter={isPercent ? (value: any) => `${value}%` : undefined}
             />
          )}
          <Legend verticalAlign="top" height={36} iconType="circle" wrapperStyle={{ paddingTop: '10px' }}/>
@@ -209,20 +349,55 @@ export const Visualization: React.FC<VisualizationProps> = ({ data, headers, con
 
     switch (config.type) {
       case 'bar':
+      case 'line':
+      case 'area': {
+        const keys = hasYAxis ? valueKeys : ['value'];
+        const layouts = resolveSeriesLayout(config, keys, themeColors, 4);
+        const rightKeys = keys.filter((_, i) => layouts[i].axis === 'right');
         return (
           <ResponsiveContainer width="100%" height="100%">
-            <BarChart data={chartData} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
+            <ComposedChart data={chartData} layout={isHorizontal ? 'vertical' : 'horizontal'} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
               {chartAxes}
-              {hasYAxis ? (
-                  config.yAxisKeys.map((key, i) => (
-                    <Bar key={key} dataKey={key} fill={themeColors[i % themeColors.length]} radius={[4, 4, 0, 0]} maxBarSize={80} />
-                  ))
-              ) : (
-                  <Bar dataKey="value" name="Count" fill={themeColors[0]} radius={[4, 4, 0, 0]} maxBarSize={80} />
+              {rightKeys.length > 0 && (
+                <YAxis 
+                    yAxisId="right"
+                    orientation="right"
+                    stroke={axisStroke} 
+                    tick={{fill: axisStroke, fontSize: 11}} 
+                    tickFormatter={formatValue}
+                    domain={valueDomain}
+                    tickLine={false}
+                    width={60}
+                >
+                    <Label value={rightKeys.join(', ')} angle={90} position="insideRight" style={{ textAnchor: 'middle' }} fill={labelFill} fontSize={12} />
+                </YAxis>
               )}
-            </BarChart>
+              {keys.map((key, i) => {
+                const { mark, axis, color, stackId, radius } = layouts[i];
+                const name = hasYAxis ? key : 'Count';
+                if (mark === 'line') {
+                  return <Line key={key} yAxisId={axis} type="monotone" dataKey={key} name={name} stroke={color} strokeWidth={3} dot={false} activeDot={activeDotStyle} />;
+                }
+                if (mark === 'area') {
+                  return <Area key={key} yAxisId={axis} type="monotone" dataKey={key} name={name} stackId={stackId} stroke={color} fill={color} fillOpacity={0.3} strokeWidth={2} activeDot={activeDotStyle} />;
+                }
+                return (
+                  <Bar
+                      key={key}
+                      yAxisId={axis}
+                      dataKey={key}
+                      name={name}
+                      fill={color}
+                      stackId={stackId}
+                      radius={radius}
+                      maxBarSize={80}
+                  />
+                );
+              })}
+            </ComposedChart>
           </ResponsiveContainer>
         );
+      }
       case 'box':
          return (
             <ResponsiveContainer width="100%" height="100%">
@@ -236,36 +411,6 @@ export const Visualization: React.FC<VisualizationProps> = ({ data, headers, con
                 </ComposedChart>
             </ResponsiveContainer>
          );
-      case 'line':
-        return (
-          <ResponsiveContainer width="100%" height="100%">
-            <LineChart data={chartData} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
-              {chartAxes}
-               {hasYAxis ? (
-                config.yAxisKeys.map((key, i) => (
-                    <Line key={key} type="monotone" dataKey={key} stroke={themeColors[i % themeColors.length]} strokeWidth={3} dot={false} activeDot={activeDotStyle} />
-                ))
-               ) : (
-                   <Line type="monotone" dataKey="value" name="Count" stroke={themeColors[0]} strokeWidth={3} dot={false} activeDot={activeDotStyle} />
-               )}
-            </LineChart>
-          </ResponsiveContainer>
-        );
-      case 'area':
-         return (
-          <ResponsiveContainer width="100%" height="100%">
-            <AreaChart data={chartData} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
-              {chartAxes}
-               {hasYAxis ? (
-                config.yAxisKeys.map((key, i) => (
-                    <Area key={key} type="monotone" dataKey={key} stroke={themeColors[i % themeColors.length]} fill={themeColors[i % themeColors.length]} fillOpacity={0.3} strokeWidth={2} activeDot={activeDotStyle} />
-                ))
-               ) : (
-                   <Area type="monotone" dataKey="value" name="Count" stroke={themeColors[0]} fill={themeColors[0]} fillOpacity={0.3} strokeWidth={2} activeDot={activeDotStyle} />
-               )}
-            </AreaChart>
-          </ResponsiveContainer>
-        );
       case 'scatter':
       case 'bubble':
         return (
@@ -284,27 +429,56 @@ export const Visualization: React.FC<VisualizationProps> = ({ data, headers, con
                  {tooltipConfig.show && (
                     <Tooltip cursor={{ strokeDasharray: '3 3', stroke: axisStroke }} contentStyle={tooltipStyle} itemStyle={{color: tooltipConfig.textColor}} />
                  )}
-                 <Scatter name="Data" data={chartData} fill={themeColors[0]} />
+                 {series ? (
+                    series.map((name, i) => (
+                        <Scatter key={name} name={name} data={chartData.filter(d => d.series === name)} fill={themeColors[i % themeColors.length]} />
+                    ))
+                 ) : (
+                    <Scatter name="Data" data={chartData} fill={themeColors[0]} />
+                 )}
+                 {series && <Legend verticalAlign="top" height={36} iconType="circle" wrapperStyle={{ paddingTop: '10px' }}/>}
+                 {regression && (
+                    <ReferenceLine
+                        segment={[
+                            { x: regression.minX, y: regression.intercept + regression.slope * regression.minX },
+                            { x: regression.maxX, y: regression.intercept + regression.slope * regression.maxX }
+                        ]}
+                        stroke={themeColors[1 % themeColors.length]}
+                        strokeWidth={2}
+                        strokeDasharray="6 4"
+                        ifOverflow="extendDomain"
+                        label={{ value: `y = ${Number(regression.slope.toPrecision(3))}x ${regression.intercept < 0 ? '−' : '+'} ${Number(Math.abs(regression.intercept).toPrecision(3))} · R² ${regression.r2.toFixed(2)}`, position: 'insideTopRight', fill: labelFill, fontSize: 11 }}
+                    />
+                 )}
               </ScatterChart>
             </ResponsiveContainer>
         );
       case 'heatmap':
       case 'contour':
+      case 'correlation':
+        const isCorrelation = config.type === 'correlation';
         const values = chartData.map(d => d.value as number);
-        const minVal = Math.min(...values);
-        const maxVal = Math.max(...values);
+        const minVal = isCorrelation ? (config.correlationMethod === 'cramers_v' ? 0 : -1) : Math.min(...values);
+        const maxVal = isCorrelation ? 1 : Math.max(...values);
+        const methodLabel = CORRELATION_METHODS.find(m => m.method === (config.correlationMethod || 'pearson'))?.label;
+        const valueLabel = isCorrelation ? methodLabel : config.zAxisKey && config.type === 'heatmap' ? `${config.zAxisKey} (${config.aggregation || 'sum'})` : 'Count';
         return (
             <ResponsiveContainer width="100%" height="100%">
                 <ScatterChart margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
                      <CartesianGrid strokeDasharray="3 3" stroke={gridStroke} opacity={0.3} />
-                     <XAxis type="category" dataKey="x" name={config.xAxisKey} stroke={axisStroke} tick={{fontSize: 11}} interval={0}>
-                        <Label value={config.xAxisKey} position="insideBottom" offset={-5} fill={labelFill} fontSize={12} />
+                     <XAxis type="category" dataKey="x" name={isCorrelation ? 'Column' : config.xAxisKey} stroke={axisStroke} tick={{fontSize: 11}} interval={0}>
+                        {!isCorrelation && <Label value={config.xAxisKey} position="insideBottom" offset={-5} fill={labelFill} fontSize={12} />}
                      </XAxis>
-                     <YAxis type="category" dataKey="y" name={config.yAxisKeys?.[0] || 'Y'} stroke={axisStroke} tick={{fontSize: 11}} interval={0} width={60}>
-                        <Label value={config.yAxisKeys?.[0] || 'Y'} angle={-90} position="insideLeft" fill={labelFill} fontSize={12} />
+                     <YAxis type="category" dataKey="y" name={isCorrelation ? 'Against' : config.yAxisKeys?.[0] || 'Y'} stroke={axisStroke} tick={{fontSize: 11}} interval={0} width={isCorrelation ? 100 : 60}>
+                        {!isCorrelation && <Label value={config.yAxisKeys?.[0] || 'Y'} angle={-90} position="insideLeft" fill={labelFill} fontSize={12} />}
                      </YAxis>
-                     <Tooltip cursor={{ strokeDasharray: '3 3', stroke: axisStroke }} contentStyle={tooltipStyle} itemStyle={{color: tooltipConfig.textColor}} formatter={(value: any) => [`${value}`, 'Count']} />
-                     <Scatter data={chartData} shape={(props: any) => <HeatmapRect {...props} isDarkMode={isDarkMode} min={minVal} max={maxVal} type={config.type} />} />
+                     <Tooltip cursor={{ strokeDasharray: '3 3', stroke: axisStroke }} contentStyle={tooltipStyle} itemStyle={{color: tooltipConfig.textColor}} formatter={(value: any, name: any, item: any) => [isCorrelation ? `${value} (n = ${item?.payload?.n ?? 0})` : `${value}`, valueLabel]} />
+                     <Scatter
+                        data={chartData}
+                        shape={(props: any) => <HeatmapRect {...props} isDarkMode={isDarkMode} min={minVal} max={maxVal} type={config.type} diverging={isCorrelation && config.correlationMethod !== 'cramers_v'} />}
+                        onClick={isCorrelation ? (point: any) => openCorrelationPair(point?.payload ?? point) : undefined}
+                        cursor={isCorrelation ? 'pointer' : undefined}
+                     />
                 </ScatterChart>
             </ResponsiveContainer>
         );
@@ -347,6 +521,7 @@ export const Visualization: React.FC<VisualizationProps> = ({ data, headers, con
 
   const isHeatmapType = config.type === 'heatmap' || config.type === 'contour';
   const isVenn = config.type === 'venn';
+  const isCorrelation = config.type === 'correlation';
 
   return (
     <div className="flex flex-col md:flex-row gap-6 h-full p-6 bg-gray-50 dark:bg-gray-900 overflow-hidden relative transition-colors duration-300">
@@ -366,11 +541,25 @@ export const Visualization: React.FC<VisualizationProps> = ({ data, headers, con
           <h3 className="font-semibold mb-4 text-xs uppercase tracking-wider text-gray-400 dark:text-gray-500">Configuration</h3>
           
           <div className="space-y-4">
+             {datasets.length > 1 && (
+                 <div>
+                    <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1 font-medium">Dataset</label>
+                    <select 
+                        value={config.datasetId || ''} 
+                        onChange={(e) => setConfig({...config, datasetId: e.target.value || undefined, xAxisKey: '', yAxisKeys: [], zAxisKey: undefined})}
+                        className="w-full bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded px-3 py-2 text-sm text-gray-900 dark:text-gray-200 focus:ring-1 focus:ring-blue-500 outline-none transition-colors"
+                    >
+                        <option value="">Active Dataset</option>
+                        {datasets.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+                    </select>
+                 </div>
+             )}
+
              <div>
                 <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1 font-medium">Chart Type</label>
                 <select 
                     value={config.type} 
-                    onChange={(e) => setConfig({...config, type: e.target.value as any})}
+                    onChange={(e) => changeChartType(e.target.value as ChartType)}
                     className="w-full bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded px-3 py-2 text-sm text-gray-900 dark:text-gray-200 focus:ring-1 focus:ring-blue-500 outline-none transition-colors"
                 >
                     <option value="bar">Bar Chart</option>
@@ -384,20 +573,61 @@ export const Visualization: React.FC<VisualizationProps> = ({ data, headers, con
                     <option value="contour">Contour Plot</option>
                     <option value="box">Box Plot</option>
                     <option value="venn">Venn Diagram</option>
+                    <option value="correlation">Correlation Matrix</option>
                 </select>
              </div>
 
+             {isCorrelation && (
+                 <>
+                     <div>
+                        <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1 font-medium">Method</label>
+                        <select
+                            value={config.correlationMethod || 'pearson'}
+                            onChange={(e) => changeCorrelationMethod(e.target.value as CorrelationMethod)}
+                            className="w-full bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded px-3 py-2 text-sm text-gray-900 dark:text-gray-200 focus:ring-1 focus:ring-blue-500 outline-none transition-colors"
+                        >
+                            {CORRELATION_METHODS.map(m => <option key={m.method} value={m.method}>{m.label}</option>)}
+                        </select>
+                        <p className="text-[10px] text-gray-400 mt-1">{CORRELATION_METHODS.find(m => m.method === (config.correlationMethod || 'pearson'))?.hint}</p>
+                     </div>
+                     <div>
+                        <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1 font-medium">
+                            Columns ({config.yAxisKeys.length}/{MAX_CORRELATION_COLUMNS})
+                        </label>
+                        <div className="max-h-48 overflow-y-auto custom-scrollbar space-y-1 bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded p-2">
+                            {correlationCandidates.length === 0 && (
+                                <p className="text-[11px] text-gray-400">No {config.correlationMethod === 'cramers_v' ? 'text or boolean' : 'numeric'} columns in this dataset.</p>
+                            )}
+                            {correlationCandidates.map(h => (
+                                <label key={h} className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-300 cursor-pointer">
+                                    <input type="checkbox" checked={config.yAxisKeys.includes(h)} onChange={() => toggleCorrelationColumn(h)} className="rounded" />
+                                    <span className="truncate">{h}</span>
+                                </label>
+                            ))}
+                        </div>
+                        <p className="text-[10px] text-gray-400 mt-1">Click a cell to explore that pair.</p>
+                     </div>
+                 </>
+             )}
+
+             {!isCorrelation && (
+             <>
              <div>
                 <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1 font-medium">
                     {isVenn ? 'Set A Column' : 'X Axis / Category'}
                 </label>
                 <select 
                     value={config.xAxisKey} 
-                    onChange={(e) => setConfig({...config, xAxisKey: e.target.value})}
+                    onChange={(e) => setConfig({
+                        ...config,
+                        xAxisKey: e.target.value,
+                        // A time grain only makes sense on a date column
+                        timeGrain: columnMeta.find(c => c.name === e.target.value)?.type === 'date' ? config.timeGrain : undefined
+                    })}
                     className="w-full bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded px-3 py-2 text-sm text-gray-900 dark:text-gray-200 focus:ring-1 focus:ring-blue-500 outline-none transition-colors"
                 >
                     <option value="">Select Column</option>
-                    {headers.map(h => <option key={h} value={h}>{h}</option>)}
+                    {columnOptions}
                 </select>
              </div>
 
@@ -407,29 +637,131 @@ export const Visualization: React.FC<VisualizationProps> = ({ data, headers, con
                 </label>
                 <select 
                     value={config.yAxisKeys?.[0] || ''} 
-                    onChange={(e) => setConfig({...config, yAxisKeys: e.target.value ? [e.target.value] : []})}
+                    // Extra Y columns added under Series Styles are kept
+                    onChange={(e) => setConfig({...config, yAxisKeys: e.target.value ? [e.target.value, ...config.yAxisKeys.slice(1).filter(k => k !== e.target.value)] : []})}
                     className="w-full bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded px-3 py-2 text-sm text-gray-900 dark:text-gray-200 focus:ring-1 focus:ring-blue-500 outline-none transition-colors"
                 >
                     <option value="">{isHeatmapType ? 'Select Column' : 'Count / None'}</option>
-                    {headers.map(h => <option key={h} value={h}>{h}</option>)}
+                    {columnOptions}
                 </select>
              </div>
+             </>
+             )}
 
-             {config.type === 'bubble' && (
+             {supportsSeries(config) && (
                  <div>
-                    <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1 font-medium">Z Axis / Size</label>
+                    <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1 font-medium">Series / Color By</label>
+                    <div className="flex items-center gap-2">
+                        <select 
+                            value={config.seriesKey || ''} 
+                            onChange={(e) => setConfig({...config, seriesKey: e.target.value || undefined})}
+                            className="flex-1 min-w-0 bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded px-3 py-2 text-sm text-gray-900 dark:text-gray-200 focus:ring-1 focus:ring-blue-500 outline-none transition-colors"
+                        >
+                            <option value="">None</option>
+                            {columnOptions}
+                        </select>
+                        {config.seriesKey && (
+                            <input
+                                type="number"
+                                min={1}
+                                value={config.maxSeries ?? DEFAULT_MAX_SERIES}
+                                onChange={(e) => setConfig({...config, maxSeries: Math.max(1, Number(e.target.value) || 1)})}
+                                title="Most series to draw; the rest share an Other series"
+                                className="w-16 bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded px-2 py-2 text-sm text-gray-900 dark:text-gray-200 focus:ring-1 focus:ring-blue-500 outline-none transition-colors"
+                            />
+                        )}
+                    </div>
+                 </div>
+             )}
+
+             {config.type === 'scatter' && (
+                 <label className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-300 cursor-pointer">
+                    <input type="checkbox" checked={!!config.trendline} onChange={(e) => setConfig({...config, trendline: e.target.checked})} className="rounded" />
+                    Trend line (least squares)
+                 </label>
+             )}
+
+             {(config.type === 'bubble' || config.type === 'heatmap') && (
+                 <div>
+                    <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1 font-medium">{config.type === 'heatmap' ? 'Cell Value' : 'Z Axis / Size'}</label>
                     <select 
                         value={config.zAxisKey || ''} 
-                        onChange={(e) => setConfig({...config, zAxisKey: e.target.value})}
+                        onChange={(e) => setConfig({...config, zAxisKey: e.target.value || undefined})}
                         className="w-full bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded px-3 py-2 text-sm text-gray-900 dark:text-gray-200 focus:ring-1 focus:ring-blue-500 outline-none transition-colors"
                     >
-                        <option value="">Select Column</option>
-                        {headers.map(h => <option key={h} value={h}>{h}</option>)}
+                        <option value="">{config.type === 'heatmap' ? 'Count / None' : 'Select Column'}</option>
+                        {columnOptions}
                     </select>
                  </div>
              )}
 
-             {!isHeatmapType && !isVenn && config.type !== 'box' && config.yAxisKeys && config.yAxisKeys.length > 0 && config.type !== 'scatter' && config.type !== 'bubble' && (
+             {supportsStacking(config) && (
+                 <div className="grid grid-cols-2 gap-2">
+                    <div>
+                        <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1 font-medium">Series Layout</label>
+                        <select 
+                            value={config.stackMode === 'percent' && hasMixedSeries(config) ? 'stacked' : config.stackMode || 'none'} 
+                            onChange={(e) => setConfig({...config, stackMode: e.target.value as StackMode})}
+                            title={hasMixedSeries(config) ? '100% stacking needs every series drawn with the chart\'s mark on the left axis' : undefined}
+                            className="w-full bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded px-3 py-2 text-sm text-gray-900 dark:text-gray-200 focus:ring-1 focus:ring-blue-500 outline-none transition-colors"
+                        >
+                            {STACK_MODES.map(m => <option key={m.mode} value={m.mode} disabled={m.mode === 'percent' && hasMixedSeries(config)}>{m.mode === 'none' && config.type === 'area' ? 'Overlapping' : m.label}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1 font-medium">Orientation</label>
+                        <select 
+                            value={config.orientation || 'vertical'} 
+                            onChange={(e) => setConfig({...config, orientation: e.target.value as Orientation})}
+                            className="w-full bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded px-3 py-2 text-sm text-gray-900 dark:text-gray-200 focus:ring-1 focus:ring-blue-500 outline-none transition-colors"
+                        >
+                            <option value="vertical">Vertical</option>
+                            <option value="horizontal">Horizontal</option>
+                        </select>
+                    </div>
+                 </div>
+             )}
+
+             {supportsCombo(config) && styledKeys.length > 0 && (
+                 <div>
+                    <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1 font-medium">Series Styles</label>
+                    <div className="space-y-1.5">
+                        {styledKeys.map((key, i) => {
+                            const style = resolveSeriesStyle(config, key, i, themeColors);
+                            return (
+                                <div key={key} className="flex items-center gap-1.5">
+                                    <input type="color" value={style.color} onChange={(e) => updateSeriesStyle(key, { color: e.target.value })} className="w-6 h-6 shrink-0 rounded cursor-pointer bg-transparent" title="Colour" />
+                                    <span className="flex-1 min-w-0 truncate text-xs text-gray-600 dark:text-gray-300" title={key}>{key}</span>
+                                    <select value={style.mark} onChange={(e) => updateSeriesStyle(key, { mark: e.target.value as SeriesMark })} className="w-16 shrink-0 bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded px-1.5 py-1 text-xs text-gray-900 dark:text-gray-200 outline-none" title="Mark">
+                                        {SERIES_MARKS.map(m => <option key={m.mark} value={m.mark}>{m.label}</option>)}
+                                    </select>
+                                    <select value={style.axis} disabled={isHorizontalChart} onChange={(e) => updateSeriesStyle(key, { axis: e.target.value as AxisSide })} className="w-16 shrink-0 bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded px-1.5 py-1 text-xs text-gray-900 dark:text-gray-200 outline-none disabled:opacity-40" title={isHorizontalChart ? 'Horizontal charts have one value axis' : 'Value axis'}>
+                                        <option value="left">Left</option>
+                                        <option value="right">Right</option>
+                                    </select>
+                                    {!series && i > 0 && (
+                                        <button onClick={() => removeYColumn(key)} className="p-1 text-gray-400 hover:text-red-500 transition-colors shrink-0" title="Remove series">
+                                            <X className="w-3 h-3" />
+                                        </button>
+                                    )}
+                                </div>
+                            );
+                        })}
+                    </div>
+                    {!config.seriesKey && (
+                        <select 
+                            value=""
+                            onChange={(e) => e.target.value && setConfig({...config, yAxisKeys: [...config.yAxisKeys, e.target.value]})}
+                            className="w-full mt-2 bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded px-3 py-2 text-sm text-gray-900 dark:text-gray-200 focus:ring-1 focus:ring-blue-500 outline-none transition-colors"
+                        >
+                            <option value="">Add a Y column…</option>
+                            {headers.filter(h => !config.yAxisKeys.includes(h)).map(h => <option key={h} value={h}>{h}</option>)}
+                        </select>
+                    )}
+                 </div>
+             )}
+
+             {((!isHeatmapType && !isVenn && config.type !== 'box' && config.yAxisKeys && config.yAxisKeys.length > 0 && config.type !== 'scatter' && config.type !== 'bubble') || (config.type === 'heatmap' && config.zAxisKey)) && (
                  <div>
                     <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1 font-medium">Aggregation</label>
                     <div className="flex items-center gap-2">
@@ -439,16 +771,74 @@ export const Visualization: React.FC<VisualizationProps> = ({ data, headers, con
                             onChange={(e) => setConfig({...config, aggregation: e.target.value as AggregationType})}
                             className="w-full bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded px-3 py-2 text-sm text-gray-900 dark:text-gray-200 focus:ring-1 focus:ring-blue-500 outline-none transition-colors"
                         >
-                            <option value="sum">Sum</option>
-                            <option value="avg">Average</option>
-                            <option value="min">Min</option>
-                            <option value="max">Max</option>
-                            <option value="count">Count</option>
+                            {AGGREGATION_OPTIONS.map(o => <option key={o.type} value={o.type}>{o.label}</option>)}
                         </select>
                     </div>
                  </div>
              )}
              
+             {isDateAxis && (
+                 <div>
+                    <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1 font-medium">Time Grain</label>
+                    <div className="flex items-center gap-2">
+                        <CalendarClock className="w-3 h-3 text-blue-500 dark:text-blue-400 shrink-0" />
+                        <select
+                            value={config.timeGrain || ''}
+                            onChange={(e) => setConfig({...config, timeGrain: (e.target.value || undefined) as TimeGrain | undefined})}
+                            className="flex-1 min-w-0 bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded px-3 py-2 text-sm text-gray-900 dark:text-gray-200 focus:ring-1 focus:ring-blue-500 outline-none transition-colors"
+                        >
+                            <option value="">Each distinct value</option>
+                            {TIME_GRAINS.map(g => <option key={g.grain} value={g.grain}>{g.label}</option>)}
+                        </select>
+                    </div>
+                    {config.timeGrain && (
+                        <>
+                            <select
+                                value={config.timeZone || DEFAULT_TIME_ZONE}
+                                onChange={(e) => setConfig({...config, timeZone: e.target.value})}
+                                className="w-full mt-2 bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded px-3 py-2 text-sm text-gray-900 dark:text-gray-200 focus:ring-1 focus:ring-blue-500 outline-none transition-colors"
+                            >
+                                {timeZoneOptions().map(z => <option key={z} value={z}>{z}</option>)}
+                            </select>
+                            <p className="text-[10px] text-gray-400 mt-1">The zone applies to timestamps with an offset. Empty periods stay on the axis.</p>
+                        </>
+                    )}
+                 </div>
+             )}
+
+             {limits && (
+                 <div>
+                    <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1 font-medium">
+                        {limits.unit === 'points' ? 'Max Points' : limits.unit === 'cells' ? 'Max Cells' : 'Max Groups'}
+                    </label>
+                    <div className="flex items-center gap-2">
+                        <ListFilter className="w-3 h-3 text-blue-500 dark:text-blue-400 shrink-0" />
+                        {limits.unit !== 'points' && (
+                            <select
+                                value={limits.mode}
+                                onChange={(e) => setConfig({...config, limitMode: e.target.value as LimitMode})}
+                                className="flex-1 min-w-0 bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded px-3 py-2 text-sm text-gray-900 dark:text-gray-200 focus:ring-1 focus:ring-blue-500 outline-none transition-colors"
+                            >
+                                {LIMIT_MODES.map(m => <option key={m.mode} value={m.mode}>{m.label}</option>)}
+                            </select>
+                        )}
+                        <input
+                            type="number"
+                            min={1}
+                            value={limits.limit}
+                            onChange={(e) => setConfig({...config, limit: Math.max(1, Number(e.target.value) || 1)})}
+                            className={`${limits.unit === 'points' ? 'flex-1' : 'w-20'} bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded px-3 py-2 text-sm text-gray-900 dark:text-gray-200 focus:ring-1 focus:ring-blue-500 outline-none transition-colors`}
+                        />
+                    </div>
+                    {limits.unit === 'groups' && (
+                        <label className="flex items-center gap-2 mt-2 text-xs text-gray-600 dark:text-gray-300 cursor-pointer">
+                            <input type="checkbox" checked={limits.groupOther} onChange={(e) => setConfig({...config, groupOther: e.target.checked})} className="rounded" />
+                            Combine the rest into "Other"
+                        </label>
+                    )}
+                 </div>
+             )}
+
               <div>
                 <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1 font-medium">Chart Title</label>
                 <input 
@@ -533,21 +923,38 @@ export const Visualization: React.FC<VisualizationProps> = ({ data, headers, con
 
       <div className={`flex-1 bg-white/50 dark:bg-gray-800/30 border border-gray-200 dark:border-gray-700 rounded-xl p-6 relative flex flex-col transition-all duration-300 ${!isConfigOpen ? 'ml-0' : ''}`}>
         <div className="flex justify-between items-center mb-6 pl-10">
-            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">{config.title || "Untitled Chart"}</h2>
+            <div className="flex items-center gap-3 min-w-0">
+                <h2 className="text-lg font-semibold text-gray-900 dark:text-white truncate">{config.title || "Untitled Chart"}</h2>
+                {hasFields && truncation && chartData.length > 0 && (
+                    <span className="flex items-center gap-1.5 px-2 py-0.5 bg-amber-500/10 rounded-full text-[10px] font-bold uppercase tracking-wider text-amber-600 dark:text-amber-400 whitespace-nowrap" title="Change the limit in the chart settings">
+                        <ListFilter className="w-3 h-3" /> {describeTruncation(truncation)}
+                    </span>
+                )}
+                {hasFields && seriesTruncation && chartData.length > 0 && (
+                    <span className="flex items-center gap-1.5 px-2 py-0.5 bg-amber-500/10 rounded-full text-[10px] font-bold uppercase tracking-wider text-amber-600 dark:text-amber-400 whitespace-nowrap" title="Change the series limit in the chart settings">
+                        <ListFilter className="w-3 h-3" /> {describeSeriesTruncation(seriesTruncation)}
+                    </span>
+                )}
+            </div>
             <button className="text-gray-400 dark:text-gray-500 hover:text-gray-900 dark:hover:text-white transition-colors p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg">
                 <Download className="w-5 h-5" />
             </button>
         </div>
         
         <div className="flex-1 min-h-0 relative">
-            {config.xAxisKey ? renderChart() : (
+            {isLoading && hasFields && (
+                <div className="absolute top-0 right-0 z-10 flex items-center gap-2 px-3 py-1.5 bg-white/90 dark:bg-gray-800/90 border border-gray-200 dark:border-gray-700 rounded-lg shadow-sm text-[10px] font-bold uppercase tracking-widest text-gray-400">
+                    <Loader2 className="w-3 h-3 animate-spin text-blue-500" /> Aggregating
+                </div>
+            )}
+            {hasFields ? renderChart() : (
                 <div className="h-full flex flex-col items-center justify-center text-gray-400 dark:text-gray-500">
                     <BarChart2 className="w-12 h-12 mb-4 opacity-20" />
-                    <p className="font-medium">Select an X-Axis to generate visualization</p>
+                    <p className="font-medium">{isCorrelation ? 'Select at least two columns to compare' : 'Select an X-Axis to generate visualization'}</p>
                 </div>
             )}
             
-            {config.xAxisKey && (
+            {hasFields && (
                 <button 
                     onClick={handleAddToBoard}
                     className={`absolute bottom-0 right-0 px-4 py-2 rounded-lg text-sm font-semibold shadow-xl flex items-center gap-2 transition-all duration-300 ${
@@ -0,0 +1,99 @@
+import { DataTable, Dataset } from '../types';
+import { processChartData } from '../utils/chartUtils';
+import { emptyTable, getTableBuffers } from '../utils/dataTable';
+import { readDatasetFile } from '../utils/importers';
+import { SelectQuery, executeQuery } from '../utils/sql';
+import { QueryDataset, WorkerRequest, WorkerResponse } from './protocol';
+
+// Datasets the main thread has shipped over for aggregation, keyed by the client's dataset key
+const datasets = new Map<string, DataTable>();
+const cancelled = new Set<number>();
+
+const post = (message: WorkerResponse, transfer: Transferable[] = []) => {
+  (self as unknown as Worker).postMessage(message, transfer);
+};
+
+const errorMessage = (err: unknown) => err instanceof Error ? err.message : String(err);
+
+const handleParse = async (id: number, file: File, sheet?: string) => {
+  let lastProgress = 0;
+  try {
+    const result = await readDatasetFile(file, {
+      sheet,
+      isCancelled: () => cancelled.has(id),
+      onProgress: (loaded, total) => {
+        const now = Date.now();
+        if (now - lastProgress < 100 && loaded < total) return;
+        lastProgress = now;
+        post({ type: 'progress', id, loaded, total });
+      }
+    });
+    // The worker does not keep parsed tables, so hand the column buffers over instead of copying them
+    post({ type: 'parsed', id, result }, 'dataset' in result ? getTableBuffers(result.dataset.table) : []);
+  } catch (err) {
+    if (err instanceof DOMException && err.name === 'AbortError') {
+      post({ type: 'cancelled', id });
+    } else {
+      post({ type: 'error', id, message: errorMessage(err) });
+    }
+  } finally {
+    cancelled.delete(id);
+  }
+};
+
+const handleQuery = (id: number, query: SelectQuery, sources: QueryDataset[]) => {
+  const missing = sources.find(s => s.datasetKey !== null && !datasets.has(s.datasetKey));
+  if (missing) {
+    post({ type: 'error', id, message: `Dataset ${missing.datasetKey} is not loaded` });
+    return;
+  }
+  const queryable: Dataset[] = sources.map((s, index) => ({
+    id: String(index),
+    name: s.name,
+    table: s.datasetKey !== null ? datasets.get(s.datasetKey)! : emptyTable,
+    columns: s.columns,
+    history: [],
+    version: 0
+  }));
+  try {
+    // Results can share columns with the loaded tables, so they are copied rather than transferred
+    post({ type: 'queried', id, result: executeQuery(query, queryable) });
+  } catch (err) {
+    post({ type: 'error', id, message: errorMessage(err) });
+  }
+};
+
+self.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+
+  switch (request.type) {
+    case 'parse':
+      handleParse(request.id, request.file, request.sheet);
+      break;
+    case 'cancel':
+      cancelled.add(request.id);
+      break;
+    case 'load':
+      datasets.set(request.datasetKey, request.table);
+      break;
+    case 'drop':
+      datasets.delete(request.datasetKey);
+      break;
+    case 'aggregate': {
+      const table = datasets.get(request.datasetKey);
+      if (!table) {
+        post({ type: 'error', id: request.id, message: `Dataset ${request.datasetKey} is not loaded` });
+        break;
+      }
+      try {
+        post({ type: 'aggregated', id: request.id, result: processChartData(table, request.config) });
+      } catch (err) {
+        post({ type: 'error', id: request.id, message: errorMessage(err) });
+      }
+      break;
+    }
+    case 'query':
+      handleQuery(request.id, request.query, request.datasets);
+      break;
+  }
+};
@@ -0,0 +1,28 @@
+import { ChartConfig, ColumnMeta, DataTable } from '../types';
+import { DatasetReadResult } from '../utils/importers';
+import { ChartData } from '../utils/chartUtils';
+import { QueryResult, SelectQuery } from '../utils/sql';
+
+// A dataset as a query sees it. Only the datasets the query reads are loaded; the rest
+// are passed by name so errors can list every table.
+export interface QueryDataset {
+  name: string;
+  columns: ColumnMeta[];
+  datasetKey: string | null;
+}
+
+export type WorkerRequest =
+  | { type: 'parse'; id: number; file: File; sheet?: string }
+  | { type: 'cancel'; id: number }
+  | { type: 'load'; datasetKey: string; table: DataTable }
+  | { type: 'drop'; datasetKey: string }
+  | { type: 'aggregate'; id: number; datasetKey: string; config: ChartConfig }
+  | { type: 'query'; id: number; query: SelectQuery; datasets: QueryDataset[] };
+
+export type WorkerResponse =
+  | { type: 'progress'; id: number; loaded: number; total: number }
+  | { type: 'parsed'; id: number; result: DatasetReadResult }
+  | { type: 'aggregated'; id: number; result: ChartData }
+  | { type: 'queried'; id: number; result: QueryResult }
+  | { type: 'cancelled'; id: number }
+  | { type: 'error'; id: number; message: string };